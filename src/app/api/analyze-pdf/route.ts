@@ -1,14 +1,21 @@
 // CREATED: 2025-07-03 - PDF analysis API endpoint using Gemini
+// UPDATED: 2026-10-19 - NDJSON streaming variant with progress events
+// UPDATED: 2026-10-19 - Longer time limit for chunked analysis of large PDFs
 
 import { NextRequest, NextResponse } from "next/server";
 import { GeminiConfigManager } from "@/lib/gemini-config";
-import { GeminiService } from "@/lib/gemini-service";
-import { GeminiAnalysisRequest, GeminiAnalysisResponse } from "@/types/gemini";
+import { AnalysisProgressCallbacks } from "@/lib/llm-provider";
+import {
+  AnalysisStreamEvent,
+  GeminiAnalysisRequest,
+  GeminiAnalysisResponse,
+  ProcessingResult,
+} from "@/types/gemini";
 import fs from "fs";
 import path from "path";
 
 export const runtime = "nodejs";
-export const maxDuration = 60; // 60 seconds timeout for PDF processing
+export const maxDuration = 300; // Large workbooks take several chunked model calls
 
 // Check if we're in development mode
 const isDevelopmentMode = process.env.NEXT_PUBLIC_APP_ENV === "development";
@@ -80,6 +87,110 @@ interface APIResponse {
   processingTime?: number;
 }
 
+const NDJSON_CONTENT_TYPE = "application/x-ndjson";
+
+/**
+ * Clients opt into streaming with `Accept: application/x-ndjson` or `?stream=1`
+ */
+function wantsStream(request: NextRequest): boolean {
+  return (
+    (request.headers.get("accept") || "").includes(NDJSON_CONTENT_TYPE) ||
+    request.nextUrl.searchParams.get("stream") === "1"
+  );
+}
+
+/**
+ * Run the analysis (sample data in development mode), reporting progress through callbacks
+ */
+async function runAnalysis(
+  analysisRequest: GeminiAnalysisRequest,
+  callbacks: AnalysisProgressCallbacks = {}
+): Promise<GeminiAnalysisResponse | ProcessingResult> {
+  if (isDevelopmentMode) {
+    console.log(
+      "🧪 Development mode: Using sample response instead of calling Gemini API"
+    );
+    callbacks.onStatus?.({ status: "analyzing", stage: "validating", progress: 5, currentStep: "Validating request..." });
+    const sample = loadSampleResponse();
+    callbacks.onQuestions?.(sample.extractedQuestions);
+    callbacks.onStatus?.({ status: "complete", stage: "complete", progress: 100, currentStep: "Analysis complete" });
+    return sample;
+  }
+
+  // Create Gemini service
+  const geminiService = await GeminiConfigManager.getService();
+
+  // Perform analysis
+  return geminiService.analyzePDF(analysisRequest, callbacks);
+}
+
+/**
+ * Stream analysis progress as NDJSON: status and partial question events, then a result or error event
+ */
+function streamAnalysis(
+  analysisRequest: GeminiAnalysisRequest,
+  startTime: number
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AnalysisStreamEvent) => {
+        controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+      };
+
+      try {
+        const analysisResult = await runAnalysis(analysisRequest, {
+          onStatus: (status) => send({ type: "status", status }),
+          onQuestions: (questions) =>
+            send({
+              type: "questions",
+              // Same shape as the final transformAnalysisData output
+              questions: questions.map((q) => ({ ...q, question: q.content })),
+            }),
+        });
+
+        // analyzePDF reports failures in the result instead of throwing
+        if ("success" in analysisResult && !analysisResult.success) {
+          throw new Error(
+            analysisResult.errors[0]?.message || "Analysis failed"
+          );
+        }
+
+        const processingTime = Date.now() - startTime;
+        console.log("✅ Streamed PDF analysis completed:", {
+          questionsFound: analysisResult.extractedQuestions.length,
+          processingTimeMs: processingTime,
+          cacheHit: analysisResult.processingInfo?.cache?.hit || false,
+        });
+
+        send({
+          type: "result",
+          data: transformAnalysisData(analysisResult),
+          processingTime,
+        });
+      } catch (error) {
+        console.error("❌ Streamed PDF analysis failed:", error);
+        send({
+          type: "error",
+          error: error instanceof Error ? error.message : "Internal server error during PDF analysis",
+          processingTime: Date.now() - startTime,
+        });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": NDJSON_CONTENT_TYPE,
+      "Cache-Control": "no-cache, no-transform",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
+
 /**
  * POST /api/analyze-pdf
  * Analyze PDF document using Gemini AI
@@ -187,7 +298,8 @@ export async function POST(
           );
         }
         
-        pdfBase64 = body.pdfBase64;
+        // Accept both raw base64 and data URIs (DocuBrandAPI sends the latter)
+        pdfBase64 = body.pdfBase64.replace(/^data:application\/pdf;base64,/, "");
         documentTypeRaw = body.documentType || "general";
         language = body.language || "en";
         fileName = body.fileName || "unknown";
@@ -230,15 +342,24 @@ export async function POST(
         console.warn(`Invalid document type received: \"${documentTypeRaw}\". Defaulting to \"${documentType}\".`);
     }
 
+    // Prepare analysis request
+    const analysisRequest: GeminiAnalysisRequest = {
+      pdfBase64: `data:application/pdf;base64,${pdfBase64}`,
+      documentType: documentType as any,
+      language: language as any,
+    };
+
+    if (wantsStream(request)) {
+      console.log("📡 Streaming analysis progress as NDJSON");
+      return streamAnalysis(analysisRequest, startTime) as NextResponse<APIResponse>;
+    }
+
     // Use sample response in development mode or call Gemini API in production
     let analysisResult: GeminiAnalysisResponse;
 
     if (isDevelopmentMode) {
-      console.log(
-        "🧪 Development mode: Using sample response instead of calling Gemini API"
-      );
       try {
-        analysisResult = loadSampleResponse();
+        analysisResult = await runAnalysis(analysisRequest);
       } catch (error) {
         console.error("❌ Failed to load sample response:", error);
         return NextResponse.json(
@@ -250,18 +371,7 @@ export async function POST(
         );
       }
     } else {
-      // Create Gemini service
-      const geminiService = await GeminiConfigManager.getService();
-
-      // Prepare analysis request
-      const analysisRequest: GeminiAnalysisRequest = {
-        pdfBase64: `data:application/pdf;base64,${pdfBase64}`,
-        documentType: documentType as any,
-        language: language as any,
-      };
-
-      // Perform analysis
-      analysisResult = await geminiService.analyzePDF(analysisRequest);
+      analysisResult = await runAnalysis(analysisRequest);
     }
 
     const processingTime = Date.now() - startTime;
@@ -270,6 +380,7 @@ export async function POST(
       questionsFound: analysisResult.extractedQuestions.length,
       sectionsFound: analysisResult.documentStructure.sections.length,
       processingTimeMs: processingTime,
+      cacheHit: analysisResult.processingInfo?.cache?.hit || false,
     });
 
     // Return successful response
@@ -330,6 +441,7 @@ export async function GET(): Promise<NextResponse> {
         "Question and answer detection",
         "Structured JSON output",
         "Bilingual support (EN/VI)",
+        "Streaming progress (Accept: application/x-ndjson or ?stream=1)",
       ],
       limits: {
         maxFileSize: "20MB",
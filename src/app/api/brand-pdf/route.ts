@@ -0,0 +1,335 @@
+// CREATED: 2026-10-19 - Server-side branding endpoint for LMS and other integrations
+// UPDATED: 2026-10-19 - Watermark settings and pdfBase64 validated; CORS headers on every response
+
+import { NextRequest, NextResponse } from "next/server";
+import { BrandKit, WatermarkSettings } from "@/types";
+import { PDFBuilder } from "@/lib/pdf-builder";
+import { BRANDING_LAYOUTS, BrandingLayoutId } from "@/lib/branding-layouts";
+import { DocumentTokenValues } from "@/lib/header-footer-tokens";
+import { getDataUrlImageType } from "@/lib/logo-processing";
+import { validateWatermarkSettings } from "@/lib/watermark-engine";
+
+export const runtime = "nodejs";
+export const maxDuration = 60; // 60 seconds timeout for PDF processing
+
+const MAX_PDF_SIZE = 20 * 1024 * 1024; // 20MB, same as /api/analyze-pdf
+const MAX_LOGO_SIZE = 5 * 1024 * 1024; // Same limit as the logo upload
+// Other formats need a canvas to rasterise, which the Node runtime lacks
+const SERVER_LOGO_TYPES = ["png", "jpeg", "jpg"];
+
+// Integrations call this from other origins, so every response carries these
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+  "Access-Control-Expose-Headers": "Content-Disposition, X-Processing-Time",
+};
+
+interface BrandPdfOptions {
+  layout?: BrandingLayoutId;
+  watermarkRecipient?: string;
+  printEconomy?: boolean;
+  documentInfo?: DocumentTokenValues;
+  fileName?: string;
+}
+
+interface APIRequest extends BrandPdfOptions {
+  pdfBase64: string;
+  brandKit: unknown;
+}
+
+interface APIErrorResponse {
+  success: false;
+  error: string;
+  details?: string[];
+  processingTime?: number;
+}
+
+class BrandPdfRequestError extends Error {
+  constructor(message: string, public status = 400, public details?: string[]) {
+    super(message);
+    this.name = "BrandPdfRequestError";
+  }
+}
+
+/**
+ * Validate a serialized brand kit (the BrandKit shape, logo as a data URL
+ * string or { dataUrl }) and return it ready for PDFBuilder
+ */
+function parseBrandKit(value: unknown): BrandKit {
+  let data: unknown = value;
+  if (typeof value === "string") {
+    try {
+      data = JSON.parse(value);
+    } catch {
+      throw new BrandPdfRequestError("brandKit is not valid JSON");
+    }
+  }
+  if (!isObject(data)) {
+    throw new BrandPdfRequestError("Missing required field: brandKit");
+  }
+
+  const errors: string[] = [];
+
+  (["color", "secondaryColor", "accentColor"] as const).forEach((field) => {
+    if (!isHexColor(data[field])) {
+      errors.push(`${field} must be a hex colour like #3B82F6`);
+    }
+  });
+
+  (["font", "headerFont"] as const).forEach((field) => {
+    if (data[field] !== undefined && (typeof data[field] !== "string" || !data[field].trim())) {
+      errors.push(`${field} must be a Google Font family name`);
+    }
+  });
+
+  (["watermark", "footerText", "name", "id"] as const).forEach((field) => {
+    if (data[field] !== null && data[field] !== undefined && typeof data[field] !== "string") {
+      errors.push(`${field} must be text`);
+    }
+  });
+
+  let watermarkSettings: WatermarkSettings | undefined;
+  if (data.watermarkSettings !== undefined && data.watermarkSettings !== null) {
+    const result = validateWatermarkSettings(data.watermarkSettings);
+    watermarkSettings = result.settings;
+    errors.push(...result.errors);
+  }
+
+  const logo = isObject(data.logo) ? data.logo.dataUrl : data.logo;
+  if (logo !== null && logo !== undefined) {
+    const logoType = typeof logo === "string" ? getDataUrlImageType(logo) : null;
+    if (!logoType) {
+      errors.push("logo must be a base64 data URL");
+    } else if (!SERVER_LOGO_TYPES.includes(logoType)) {
+      errors.push(`logo must be PNG or JPEG on the server (got ${logoType}); convert SVG, GIF and WebP logos first`);
+    } else if (((logo as string).length - (logo as string).indexOf(",") - 1) * 0.75 > MAX_LOGO_SIZE) {
+      errors.push("logo must be smaller than 5MB");
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new BrandPdfRequestError("Invalid brand kit", 400, errors);
+  }
+
+  const font = typeof data.font === "string" ? data.font : "Inter";
+  return {
+    logo: { file: null, dataUrl: typeof logo === "string" ? logo : null },
+    color: toLongHex(data.color),
+    secondaryColor: toLongHex(data.secondaryColor),
+    accentColor: toLongHex(data.accentColor),
+    font,
+    headerFont: typeof data.headerFont === "string" ? data.headerFont : font,
+    watermark: data.watermark || null,
+    footerText: data.footerText || null,
+    watermarkSettings,
+    id: data.id || undefined,
+    name: data.name || undefined,
+  };
+}
+
+/**
+ * Layout, recipient, print economy and footer token values; unknown layouts are rejected
+ */
+function parseOptions(raw: Record<string, unknown>): BrandPdfOptions {
+  const layout = raw.layout;
+  if (layout !== undefined && layout !== null && layout !== "" && !BRANDING_LAYOUTS.some((option) => option.id === layout)) {
+    throw new BrandPdfRequestError(
+      `Unknown layout "${layout}". Use one of: ${BRANDING_LAYOUTS.map((option) => option.id).join(", ")}`
+    );
+  }
+
+  const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined);
+  const documentInfo = isObject(raw.documentInfo) ? raw.documentInfo : raw;
+
+  return {
+    layout: (layout as BrandingLayoutId) || undefined,
+    watermarkRecipient: text(raw.watermarkRecipient),
+    printEconomy: raw.printEconomy === true || raw.printEconomy === "true" || raw.printEconomy === "1",
+    documentInfo: {
+      title: text(documentInfo.title),
+      course: text(documentInfo.course),
+      author: text(documentInfo.author),
+    },
+    fileName: text(raw.fileName),
+  };
+}
+
+/**
+ * Read the PDF, kit and options from multipart form data or a JSON body
+ */
+async function readRequest(
+  request: NextRequest
+): Promise<{ pdfBytes: Uint8Array; brandKit: BrandKit; options: BrandPdfOptions }> {
+  const contentType = request.headers.get("content-type") || "";
+
+  if (contentType.includes("multipart/form-data")) {
+    const formData = await request.formData();
+    const file = formData.get("file");
+    if (!(file instanceof File)) {
+      throw new BrandPdfRequestError("Missing file in form data");
+    }
+    if (file.size > MAX_PDF_SIZE) {
+      throw new BrandPdfRequestError("PDF file too large. Maximum size is 20MB.", 413);
+    }
+
+    const fields: Record<string, unknown> = {};
+    formData.forEach((value, key) => {
+      if (typeof value === "string") fields[key] = value;
+    });
+
+    return {
+      pdfBytes: new Uint8Array(await file.arrayBuffer()),
+      brandKit: parseBrandKit(fields.brandKit),
+      options: parseOptions({ fileName: file.name, ...fields }),
+    };
+  }
+
+  let body: APIRequest;
+  try {
+    body = await request.json();
+  } catch {
+    throw new BrandPdfRequestError("Failed to parse JSON request");
+  }
+  if (!isObject(body) || body.pdfBase64 === undefined || body.pdfBase64 === null || body.pdfBase64 === "") {
+    throw new BrandPdfRequestError("Missing required field: pdfBase64");
+  }
+  if (typeof body.pdfBase64 !== "string") {
+    throw new BrandPdfRequestError("pdfBase64 must be a base64 string");
+  }
+
+  const pdfBase64 = body.pdfBase64.replace(/^data:application\/pdf;base64,/, "");
+  if ((pdfBase64.length * 3) / 4 > MAX_PDF_SIZE) {
+    throw new BrandPdfRequestError("PDF file too large. Maximum size is 20MB.", 413);
+  }
+
+  return {
+    pdfBytes: new Uint8Array(Buffer.from(pdfBase64, "base64")),
+    brandKit: parseBrandKit(body.brandKit),
+    options: parseOptions(body as unknown as Record<string, unknown>),
+  };
+}
+
+/**
+ * POST /api/brand-pdf
+ * Brand a PDF with a serialized brand kit and return the branded PDF bytes
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+  const pdfBuilder = new PDFBuilder();
+
+  try {
+    console.log("🎨 Brand PDF API called");
+
+    const { pdfBytes, brandKit, options } = await readRequest(request);
+    if (String.fromCharCode(...pdfBytes.subarray(0, 5)) !== "%PDF-") {
+      throw new BrandPdfRequestError("File is not a PDF");
+    }
+
+    console.log("📋 Branding request details:", {
+      fileName: options.fileName || "unknown",
+      sizeKB: Math.round(pdfBytes.length / 1024),
+      kit: brandKit.name || brandKit.id || "unnamed",
+      layout: options.layout || "default",
+      printEconomy: options.printEconomy,
+      recipient: !!options.watermarkRecipient,
+    });
+
+    await pdfBuilder.initialize();
+    const brandedBytes = await pdfBuilder.buildFromExisting(pdfBytes, brandKit, {
+      preserveOriginalContent: true,
+      addBrandingLayer: true,
+      templateMode: false,
+      layout: options.layout,
+      watermarkRecipient: options.watermarkRecipient,
+      printEconomy: options.printEconomy,
+      documentInfo: options.documentInfo,
+    });
+
+    const processingTime = Date.now() - startTime;
+    console.log(`✅ Server-side branding completed: ${brandedBytes.length} bytes in ${processingTime}ms`);
+
+    const baseName = (options.fileName || "document").replace(/\.pdf$/i, "").replace(/[^\w.-]+/g, "_");
+    return new NextResponse(Buffer.from(brandedBytes), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${baseName}-branded.pdf"`,
+        "Content-Length": String(brandedBytes.length),
+        "X-Processing-Time": String(processingTime),
+        ...CORS_HEADERS,
+      },
+    });
+  } catch (error) {
+    const processingTime = Date.now() - startTime;
+    console.error("❌ Server-side branding failed:", error);
+
+    const body: APIErrorResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error during branding",
+      processingTime,
+    };
+    if (error instanceof BrandPdfRequestError) {
+      body.details = error.details;
+    }
+
+    return NextResponse.json(body, {
+      status: error instanceof BrandPdfRequestError ? error.status : 500,
+      headers: CORS_HEADERS,
+    });
+  } finally {
+    pdfBuilder.cleanup();
+  }
+}
+
+/**
+ * GET /api/brand-pdf
+ * Describe the request format
+ */
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json({
+    service: "DocuBrand PDF Branding API",
+    version: "1.0.0",
+    status: "ready",
+    request: {
+      multipart: "file (PDF), brandKit (JSON), layout, watermarkRecipient, printEconomy, title, course, author",
+      json: "{ pdfBase64, brandKit, layout?, watermarkRecipient?, printEconomy?, documentInfo?: { title, course, author }, fileName? }",
+    },
+    response: "application/pdf (branded bytes); JSON { success: false, error, details? } on failure",
+    layouts: BRANDING_LAYOUTS.map((layout) => layout.id),
+    limits: {
+      maxFileSize: "20MB",
+      maxLogoSize: "5MB",
+      logoFormats: ["PNG", "JPEG"],
+      timeout: "60 seconds",
+    },
+  }, { headers: CORS_HEADERS });
+}
+
+/**
+ * Handle CORS preflight requests
+ */
+export async function OPTIONS(): Promise<NextResponse> {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      ...CORS_HEADERS,
+      "Access-Control-Max-Age": "86400",
+    },
+  });
+}
+
+function isHexColor(value: unknown): value is string {
+  return typeof value === "string" && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value);
+}
+
+/**
+ * #RGB -> #RRGGBB; the PDF renderers only read the long form
+ */
+function toLongHex(hex: string): string {
+  return hex.length === 4 ? `#${hex.slice(1).split("").map((char) => char + char).join("")}` : hex;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
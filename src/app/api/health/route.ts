@@ -2,6 +2,7 @@
 
 import { NextResponse } from 'next/server';
 import { GeminiConfigManager } from '@/lib/gemini-config';
+import { getProviderTypeFromEnv } from '@/lib/llm-provider';
 
 export const runtime = 'nodejs';
 
@@ -14,6 +15,7 @@ interface HealthCheckResponse {
   services: {
     gemini: {
       status: 'connected' | 'disconnected' | 'error';
+      provider?: string;
       model?: string;
       lastChecked: string;
       error?: string;
@@ -61,6 +63,7 @@ export async function GET(): Promise<NextResponse<HealthCheckResponse>> {
           const modelInfo = geminiService.getModelInfo();
           geminiStatus = {
             status: 'connected',
+            provider: modelInfo.provider,
             model: modelInfo.model,
             lastChecked: timestamp
           };
@@ -198,12 +201,22 @@ export async function POST(): Promise<NextResponse> {
 
     // Test configuration loading
     try {
-      const config = GeminiConfigManager.getConfigFromEnv();
-      tests.configurationLoad = {
-        success: true,
-        model: config.model,
-        hasApiKey: !!config.apiKey
-      };
+      const provider = getProviderTypeFromEnv();
+      if (provider === 'gemini') {
+        const config = GeminiConfigManager.getConfigFromEnv();
+        tests.configurationLoad = {
+          success: true,
+          provider,
+          model: config.model,
+          hasApiKey: !!config.apiKey
+        };
+      } else {
+        tests.configurationLoad = {
+          success: true,
+          provider,
+          model: GeminiConfigManager.createProvider().getModelInfo().model
+        };
+      }
     } catch (error) {
       tests.configurationLoad = {
         success: false,
@@ -0,0 +1,33 @@
+// CREATED: 2026-10-19 - Shared template library: one revision snapshot
+
+import { NextRequest, NextResponse } from "next/server";
+import { getServerTemplateStorage, isValidTemplateId } from "@/lib/filesystem-template-storage";
+import { templateErrorResponse } from "@/lib/template-api";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string; revision: string }>;
+}
+
+/**
+ * GET /api/templates/[id]/revisions/[revision]
+ * The revision summary with the full template definition as it was
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext): Promise<NextResponse> {
+  const { id, revision } = await params;
+  const revisionNumber = Number(revision);
+  if (!isValidTemplateId(id) || !Number.isInteger(revisionNumber) || revisionNumber < 1) {
+    return NextResponse.json({ success: false, error: `Invalid revision: ${id}/${revision}` }, { status: 400 });
+  }
+
+  try {
+    const snapshot = await getServerTemplateStorage().loadRevision(id, revisionNumber);
+    if (!snapshot) {
+      return NextResponse.json({ success: false, error: "Revision not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, revision: snapshot });
+  } catch (error) {
+    return templateErrorResponse(error, "revision load");
+  }
+}
@@ -0,0 +1,61 @@
+// CREATED: 2026-10-19 - Shared template library: a template's revision log
+
+import { NextRequest, NextResponse } from "next/server";
+import { getServerTemplateStorage, isValidTemplateId } from "@/lib/filesystem-template-storage";
+import { readTemplateBody, templateErrorResponse } from "@/lib/template-api";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/templates/[id]/revisions
+ * Revision summaries, oldest first
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext): Promise<NextResponse> {
+  const { id } = await params;
+  if (!isValidTemplateId(id)) {
+    return NextResponse.json({ success: false, error: `Invalid template id: ${id}` }, { status: 400 });
+  }
+
+  try {
+    const revisions = await getServerTemplateStorage().listRevisions(id);
+    return NextResponse.json({ success: true, revisions });
+  } catch (error) {
+    return templateErrorResponse(error, "history");
+  }
+}
+
+/**
+ * POST /api/templates/[id]/revisions?message=...&parentRevision=N
+ * Append a snapshot (the template definition is the body); the server assigns the number
+ */
+export async function POST(request: NextRequest, { params }: RouteContext): Promise<NextResponse> {
+  const { id } = await params;
+  const result = await readTemplateBody(request);
+  if ("response" in result) return result.response;
+  const { definition } = result;
+
+  if (definition.metadata.id !== id) {
+    return NextResponse.json(
+      { success: false, error: `metadata.id "${definition.metadata.id}" does not match the URL id "${id}"` },
+      { status: 400 }
+    );
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const parentRevision = Number(searchParams.get("parentRevision"));
+
+  try {
+    const revision = await getServerTemplateStorage().appendRevision(definition, {
+      message: searchParams.get("message") || undefined,
+      parentRevision: Number.isInteger(parentRevision) && parentRevision > 0 ? parentRevision : undefined,
+    });
+    console.log(`🕘 Template revision ${revision.revision} recorded: ${definition.metadata.name} (${id})`);
+    return NextResponse.json({ success: true, revision }, { status: 201 });
+  } catch (error) {
+    return templateErrorResponse(error, "revision");
+  }
+}
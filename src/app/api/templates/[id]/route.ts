@@ -0,0 +1,91 @@
+// CREATED: 2026-10-19 - Shared template library: read, replace and delete one template
+
+import { NextRequest, NextResponse } from "next/server";
+import { getServerTemplateStorage, isValidTemplateId } from "@/lib/filesystem-template-storage";
+import { readTemplateBody, templateErrorResponse } from "@/lib/template-api";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function invalidIdResponse(id: string): NextResponse {
+  return NextResponse.json({ success: false, error: `Invalid template id: ${id}` }, { status: 400 });
+}
+
+/**
+ * GET /api/templates/[id]
+ * Full template definition
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext): Promise<NextResponse> {
+  const { id } = await params;
+  if (!isValidTemplateId(id)) return invalidIdResponse(id);
+
+  try {
+    const template = await getServerTemplateStorage().load(id);
+    if (!template) {
+      return NextResponse.json({ success: false, error: "Template not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, template });
+  } catch (error) {
+    return templateErrorResponse(error, "load");
+  }
+}
+
+/**
+ * HEAD /api/templates/[id]
+ * 200 when the template exists, 404 otherwise
+ */
+export async function HEAD(_request: NextRequest, { params }: RouteContext): Promise<NextResponse> {
+  const { id } = await params;
+  const exists = isValidTemplateId(id) && (await getServerTemplateStorage().exists(id));
+  return new NextResponse(null, { status: exists ? 200 : 404 });
+}
+
+/**
+ * PUT /api/templates/[id]
+ * Create or replace a template; the body's metadata.id must match the URL
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext): Promise<NextResponse> {
+  const { id } = await params;
+  if (!isValidTemplateId(id)) return invalidIdResponse(id);
+
+  const result = await readTemplateBody(request);
+  if ("response" in result) return result.response;
+  const { definition } = result;
+
+  if (definition.metadata.id !== id) {
+    return NextResponse.json(
+      { success: false, error: `metadata.id "${definition.metadata.id}" does not match the URL id "${id}"` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const storage = getServerTemplateStorage();
+    const created = !(await storage.exists(id));
+    await storage.save(definition);
+    console.log(`📚 Template ${created ? "created" : "updated"}: ${definition.metadata.name} (${id})`);
+    return NextResponse.json({ success: true, metadata: definition.metadata }, { status: created ? 201 : 200 });
+  } catch (error) {
+    return templateErrorResponse(error, "save");
+  }
+}
+
+/**
+ * DELETE /api/templates/[id]
+ * Remove a template; deleting a missing template succeeds
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext): Promise<NextResponse> {
+  const { id } = await params;
+  if (!isValidTemplateId(id)) return invalidIdResponse(id);
+
+  try {
+    await getServerTemplateStorage().delete(id);
+    console.log(`🗑️ Template deleted: ${id}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return templateErrorResponse(error, "delete");
+  }
+}
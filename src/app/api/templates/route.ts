@@ -0,0 +1,47 @@
+// CREATED: 2026-10-19 - Shared template library: list and create templates
+
+import { NextRequest, NextResponse } from "next/server";
+import { getServerTemplateStorage } from "@/lib/filesystem-template-storage";
+import { readTemplateBody, templateErrorResponse } from "@/lib/template-api";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/templates
+ * List template metadata, most recently updated first
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    const templates = await getServerTemplateStorage().list();
+    templates.sort((a, b) => b.updatedAt - a.updatedAt);
+    return NextResponse.json({ success: true, templates });
+  } catch (error) {
+    return templateErrorResponse(error, "list");
+  }
+}
+
+/**
+ * POST /api/templates
+ * Create a template; 409 when the id is taken (use PUT /api/templates/[id] to replace)
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const result = await readTemplateBody(request);
+  if ("response" in result) return result.response;
+  const { definition } = result;
+
+  try {
+    const storage = getServerTemplateStorage();
+    if (await storage.exists(definition.metadata.id)) {
+      return NextResponse.json(
+        { success: false, error: `Template ${definition.metadata.id} already exists` },
+        { status: 409 }
+      );
+    }
+
+    await storage.save(definition);
+    console.log(`📚 Template created: ${definition.metadata.name} (${definition.metadata.id})`);
+    return NextResponse.json({ success: true, metadata: definition.metadata }, { status: 201 });
+  } catch (error) {
+    return templateErrorResponse(error, "create");
+  }
+}
@@ -3,14 +3,27 @@ import { GeminiConfigManager, GeminiDevUtils } from '@/lib/gemini-config';
 import { getGeminiClient } from '@/lib/gemini-client';
 import { getPromptTemplate, getExamplePrompts, validatePromptInputs } from '@/lib/prompt-templates';
 import { validateGeminiResponse, sanitizeGeminiResponse } from '@/lib/gemini-validators';
+import { GeminiFixtureStore, runFixtureRegression } from '@/lib/gemini-fixtures';
+import { GeminiAnalysisRequest } from '@/types/gemini';
+
+type DocumentType = NonNullable<GeminiAnalysisRequest['documentType']>;
+
+const DOCUMENT_TYPES: readonly DocumentType[] = ['quiz', 'worksheet', 'exam', 'assignment', 'handout', 'general'];
+
+/**
+ * Narrow a request value to a known document type, or null when unknown
+ */
+function parseDocumentType(value: unknown): DocumentType | null {
+  return DOCUMENT_TYPES.find((type) => type === value) ?? null;
+}
 
 /**
  * Test request interface
  */
 interface TestRequest {
-  testType: 'connection' | 'prompt' | 'mock' | 'full' | 'validate';
+  testType: 'connection' | 'prompt' | 'mock' | 'full' | 'validate' | 'fixtures';
   language?: 'en' | 'vi';
-  documentType?: 'quiz' | 'worksheet' | 'general';
+  documentType?: string;
   promptText?: string;
   mockResponse?: any;
 }
@@ -24,7 +37,17 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
   
   try {
     const body: TestRequest = await request.json();
-    const { testType, language = 'en', documentType = 'quiz' } = body;
+    const { testType, language = 'en' } = body;
+    const documentType = parseDocumentType(body.documentType ?? 'quiz');
+
+    if (!documentType) {
+      return NextResponse.json({
+        success: false,
+        error: `Unknown documentType "${body.documentType}". Expected one of: ${DOCUMENT_TYPES.join(', ')}`,
+        processingTime: Date.now() - startTime,
+        timestamp: new Date().toISOString()
+      }, { status: 400 });
+    }
 
     console.log(`🧪 Running Gemini test: ${testType}`);
 
@@ -54,6 +77,10 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       case 'validate':
         results = await testValidation(body.mockResponse);
         break;
+
+      case 'fixtures':
+        results = testRecordedFixtures(documentType);
+        break;
         
       default:
         throw new Error(`Unknown test type: ${testType}`);
@@ -109,7 +136,7 @@ export async function GET(): Promise<NextResponse> {
           body: { 
             testType: 'prompt',
             language: 'en|vi',
-            documentType: 'quiz|worksheet|general'
+            documentType: DOCUMENT_TYPES.join('|')
           },
           duration: '~1 second'
         },
@@ -137,6 +164,15 @@ export async function GET(): Promise<NextResponse> {
             mockResponse: {}
           },
           duration: '~1 second'
+        },
+        fixtures: {
+          description: 'Replay recorded model output (GEMINI_FIXTURE_MODE=record) through validation, sanitization and the pdfme mapper',
+          method: 'POST',
+          body: {
+            testType: 'fixtures',
+            documentType: DOCUMENT_TYPES.join('|')
+          },
+          duration: '~1 second per fixture'
         }
       },
       examples: {
@@ -168,7 +204,9 @@ export async function GET(): Promise<NextResponse> {
         currentModel: process.env.GEMINI_MODEL || 'gemini-2.0-flash',
         maxTokens: process.env.GEMINI_MAX_TOKENS || '8192',
         temperature: process.env.GEMINI_TEMPERATURE || '0.1',
-        hasApiKey: !!process.env.GEMINI_API_KEY
+        pagesPerChunk: process.env.GEMINI_PAGES_PER_CHUNK || '10',
+        hasApiKey: !!process.env.GEMINI_API_KEY,
+        provider: process.env.LLM_PROVIDER || 'gemini'
       },
       setupInstructions: GeminiConfigManager.getSetupInstructions(),
       documentation: {
@@ -256,7 +294,7 @@ async function testConnection(): Promise<Record<string, any>> {
 /**
  * Test prompt generation
  */
-async function testPromptGeneration(language: string, documentType: string): Promise<Record<string, any>> {
+async function testPromptGeneration(language: string, documentType: DocumentType): Promise<Record<string, any>> {
   const results: Record<string, any> = {
     testName: 'Prompt Generation Test',
     language,
@@ -366,10 +404,48 @@ async function testMockService(): Promise<Record<string, any>> {
   return results;
 }
 
+/**
+ * Regression test over recorded Gemini fixtures (no network)
+ */
+function testRecordedFixtures(documentType: DocumentType): Record<string, any> {
+  const results: Record<string, any> = {
+    testName: 'Recorded Fixture Regression'
+  };
+
+  try {
+    const store = new GeminiFixtureStore(process.env.GEMINI_FIXTURES_DIR);
+    const fixtureResults = runFixtureRegression(store, { documentType });
+
+    results.directory = store.getDirectory();
+    results.fixtures = fixtureResults;
+    results.summary = {
+      total: fixtureResults.length,
+      passed: fixtureResults.filter(result => result.status === 'passed').length,
+      warnings: fixtureResults.filter(result => result.status === 'warning').length,
+      failed: fixtureResults.filter(result => result.status === 'failed').length
+    };
+
+    if (fixtureResults.length === 0) {
+      results.overall = 'skipped';
+      results.message = 'No fixtures recorded yet - run analyses with GEMINI_FIXTURE_MODE=record';
+    } else {
+      results.overall = results.summary.failed === 0 ? 'passed' : 'failed';
+      results.message = `${results.summary.passed + results.summary.warnings}/${fixtureResults.length} fixtures processed`;
+    }
+
+  } catch (error) {
+    results.overall = 'failed';
+    results.error = error instanceof Error ? error.message : 'Unknown error';
+    results.message = 'Fixture regression failed';
+  }
+
+  return results;
+}
+
 /**
  * Run full test suite
  */
-async function runFullTestSuite(language: string, documentType: string): Promise<Record<string, any>> {
+async function runFullTestSuite(language: string, documentType: DocumentType): Promise<Record<string, any>> {
   const results: Record<string, any> = {
     testName: 'Full Test Suite',
     startTime: new Date().toISOString()
@@ -1,4 +1,8 @@
 // UPDATED: 2025-07-04 - Enhanced PDF generation with better error handling and user feedback
+// UPDATED: 2026-10-19 - Brand kit library with per-document kit selection
+// UPDATED: 2026-10-19 - Per-recipient watermarked copies
+// UPDATED: 2026-10-19 - Print-economy generation option
+// UPDATED: 2026-10-19 - Shuffled quiz versions from the completion screen
 
 "use client";
 
@@ -7,11 +11,28 @@ import { FileUpload } from "@/components/FileUpload";
 import { VerificationUI } from "@/components/VerificationUI";
 import { ProcessingStatus } from "@/components/ProcessingStatus";
 import { CompletionScreen } from "@/components/CompletionScreen";
-import { GeminiAnalysisResponse } from "@/types/gemini";
+import { BrandKit as BrandKitEditor } from "@/components/BrandKit";
+import {
+  ANALYSIS_STAGES,
+  AnalysisStage,
+  GeminiAnalysisResponse,
+} from "@/types/gemini";
+import { docuBrandAPI } from "@/lib/api-client";
 import { detectDocumentType } from "@/lib/utils";
 import { BrandKit } from "@/types";
 import { defaultBrandKit } from "@/lib/storage";
+import { useBrandKit } from "@/lib/brand-kit";
 import { templateSystem } from "@/lib/template-system";
+import { resolveWatermarkSettings } from "@/lib/watermark-engine";
+import {
+  BrandingLayoutId,
+  DEFAULT_BRANDING_LAYOUT_ID,
+} from "@/lib/branding-layouts";
+import {
+  AnswerKeySettings,
+  DEFAULT_ANSWER_KEY_SETTINGS,
+  hasAnswerKeyContent,
+} from "@/lib/answer-key";
 
 type WorkflowStep =
   | "upload"
@@ -25,10 +46,13 @@ interface ProcessingState {
   message: string;
   progress?: number;
   details?: string;
+  stage?: AnalysisStage;
 }
 
 interface ProcessingResult {
   brandedPdf: Uint8Array;
+  answerKeyPdf?: Uint8Array;
+  recipientCopies?: { recipient: string; pdf: Uint8Array }[];
   originalPdf: Uint8Array;
   pageCount: number;
   elements: any[];
@@ -58,7 +82,20 @@ export default function HomePage() {
   });
 
   // Configuration
-  const [brandKit] = useState<BrandKit>(defaultBrandKit);
+  const brandKits = useBrandKit();
+  const [selectedKitId, setSelectedKitId] = useState<string | null>(null);
+  const brandKit: BrandKit =
+    brandKits.getKit(selectedKitId) ||
+    brandKits.getKit(brandKits.defaultKitId) ||
+    defaultBrandKit;
+  const [brandingLayout, setBrandingLayout] = useState<BrandingLayoutId>(
+    DEFAULT_BRANDING_LAYOUT_ID
+  );
+  const [watermarkRecipients, setWatermarkRecipients] = useState("");
+  const [printEconomy, setPrintEconomy] = useState(false);
+  const [answerKeySettings, setAnswerKeySettings] = useState<AnswerKeySettings>(
+    DEFAULT_ANSWER_KEY_SETTINGS
+  );
 
   // Initialize template system on app startup
   useEffect(() => {
@@ -105,52 +142,47 @@ export default function HomePage() {
     try {
       console.log("🤖 Starting AI analysis for:", file.name);
 
-      // Create FormData and add the file
-      const formData = new FormData();
-      formData.append("file", file);
-
       // Add document type based on filename
       const docType = detectDocumentType(file.name);
-      formData.append("documentType", docType);
-
-      // Add language (default to English)
-      formData.append("language", "en");
 
       console.log("📤 Sending analysis request with document type:", docType);
 
-      // Show progress updates
-      const progressInterval = setInterval(() => {
-        setProcessingStatus((prev) => ({
-          ...prev,
-          progress: Math.min((prev.progress || 0) + 10, 90),
-        }));
-      }, 1000);
-
-      const response = await fetch("/api/analyze-pdf", {
-        method: "POST",
-        body: formData,
-      });
-
-      clearInterval(progressInterval);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("❌ Analysis API error:", {
-          status: response.status,
-          statusText: response.statusText,
-          error: errorText,
-        });
-        throw new Error(
-          `Analysis failed: ${response.status} ${response.statusText}`
-        );
-      }
+      // Real stages and partial questions are streamed from the server
+      let questionsFound = 0;
+      let stepMessage = "Analyzing document with AI...";
+      const describeProgress = () =>
+        questionsFound > 0
+          ? `${stepMessage} ${questionsFound} question${questionsFound === 1 ? "" : "s"} found so far.`
+          : stepMessage;
+
+      const result = await docuBrandAPI.analyzePDF(
+        { file, documentType: docType, language: "en" },
+        {
+          onStatus: (status) => {
+            stepMessage = status.currentStep || stepMessage;
+            setProcessingStatus((prev) => ({
+              ...prev,
+              message: describeProgress(),
+              progress: status.progress ?? prev.progress,
+              stage: status.stage || prev.stage,
+            }));
+          },
+          onQuestions: (questions) => {
+            questionsFound += questions.length;
+            setProcessingStatus((prev) => ({
+              ...prev,
+              message: describeProgress(),
+            }));
+          },
+        }
+      );
 
-      const result = await response.json();
       console.log("✅ Analysis completed:", result);
 
       if (result.success && result.data) {
         setAnalysisResult(result.data);
         setEditedAnalysisResult(result.data);
+        setSelectedKitId(brandKits.defaultKitId);
         setProcessingStatus({
           status: "ready",
           message: "Analysis complete! Ready for review.",
@@ -272,6 +304,8 @@ export default function HomePage() {
         language: "en",
         extractContent: false, // We already have AI-extracted content
         applyBranding: true,
+        layout: brandingLayout,
+        printEconomy,
         ...progressCallbacks,
       });
 
@@ -320,9 +354,80 @@ export default function HomePage() {
         });
       }
 
+      // Teacher copy: same branded layout with answers filled in
+      let answerKeyPdf: Uint8Array | undefined;
+      const hasAnswers =
+        editedAnalysisResult.extractedQuestions.some(hasAnswerKeyContent);
+
+      if (answerKeySettings.includeAnswerKey && hasAnswers) {
+        setProcessingStatus({
+          status: "processing",
+          message: "Generating answer key copy...",
+          progress: 95,
+        });
+
+        try {
+          answerKeyPdf = await processor.applyAnswerKey(
+            uploadedFile,
+            brandKit,
+            editedAnalysisResult,
+            { layout: brandingLayout, printEconomy }
+          );
+          console.log("🔑 Answer key generated:", answerKeyPdf.length, "bytes");
+        } catch (answerKeyError) {
+          console.warn("⚠️ Answer key generation failed:", answerKeyError);
+          setProcessingStatus({
+            status: "warning",
+            message:
+              "Student copy generated, but the answer key could not be created.",
+            progress: 100,
+          });
+        }
+      }
+
+      // Traceable copies: one watermarked PDF per recipient
+      const recipients = Array.from(
+        new Set(
+          watermarkRecipients
+            .split(",")
+            .map((recipient) => recipient.trim())
+            .filter(Boolean)
+        )
+      );
+      const recipientCopies: { recipient: string; pdf: Uint8Array }[] = [];
+
+      if (recipients.length > 0 && resolveWatermarkSettings(brandKit)) {
+        for (let i = 0; i < recipients.length; i++) {
+          setProcessingStatus({
+            status: "processing",
+            message: `Generating copy for ${recipients[i]} (${i + 1}/${recipients.length})...`,
+            progress: 95,
+          });
+
+          try {
+            recipientCopies.push({
+              recipient: recipients[i],
+              pdf: await processor.applyBrandingOnly(
+                uploadedFile,
+                brandKit,
+                editedAnalysisResult,
+                { layout: brandingLayout, watermarkRecipient: recipients[i], printEconomy }
+              ),
+            });
+          } catch (copyError) {
+            console.warn(`⚠️ Copy for ${recipients[i]} failed:`, copyError);
+          }
+        }
+        console.log(`👥 Generated ${recipientCopies.length}/${recipients.length} recipient copies`);
+      } else if (recipients.length > 0) {
+        console.warn("⚠️ Recipients ignored - the brand kit has no watermark");
+      }
+
       // Create processing result
       const processingResult: ProcessingResult = {
         brandedPdf: result.brandedPdf,
+        answerKeyPdf,
+        recipientCopies: recipientCopies.length > 0 ? recipientCopies : undefined,
         originalPdf: new Uint8Array(await uploadedFile.arrayBuffer()),
         pageCount: result.metadata?.pages || 0,
         elements: [], // Can be populated if needed
@@ -345,8 +450,18 @@ export default function HomePage() {
       setTimeout(() => {
         try {
           const filename = generateBrandedFilename(uploadedFile.name);
-          downloadPDF(result.brandedPdf, filename);
-          console.log("⬇️ PDF download initiated:", filename);
+          if (answerKeySettings.includeBlankVersion || !answerKeyPdf) {
+            downloadPDF(result.brandedPdf, filename);
+            console.log("⬇️ PDF download initiated:", filename);
+          }
+          if (answerKeyPdf) {
+            const answerKeyFilename = generateBrandedFilename(
+              uploadedFile.name,
+              "answer_key"
+            );
+            downloadPDF(answerKeyPdf, answerKeyFilename);
+            console.log("⬇️ Answer key download initiated:", answerKeyFilename);
+          }
         } catch (downloadError) {
           console.error("❌ Auto-download failed:", downloadError);
           setProcessingStatus({
@@ -405,6 +520,11 @@ export default function HomePage() {
     setEditedAnalysisResult(null);
     setProcessingResult(null);
     setBrandedPdf(null);
+    setSelectedKitId(null);
+    setBrandingLayout(DEFAULT_BRANDING_LAYOUT_ID);
+    setWatermarkRecipients("");
+    setPrintEconomy(false);
+    setAnswerKeySettings(DEFAULT_ANSWER_KEY_SETTINGS);
     setProcessingStatus({ status: "idle", message: "" });
   };
 
@@ -435,6 +555,85 @@ export default function HomePage() {
     }
   };
 
+  // Manual answer key download handler
+  const handleDownloadAnswerKey = async () => {
+    console.log("⬇️ Answer key download initiated");
+
+    if (!processingResult?.answerKeyPdf || !uploadedFile) {
+      console.error("❌ Answer key download failed - missing data");
+      alert("No answer key available for download");
+      return;
+    }
+
+    try {
+      const { downloadPDF, generateBrandedFilename } = await import(
+        "@/lib/download"
+      );
+      const filename = generateBrandedFilename(uploadedFile.name, "answer_key");
+      downloadPDF(processingResult.answerKeyPdf, filename);
+      console.log("✅ Answer key download completed:", filename);
+    } catch (error) {
+      console.error("❌ Answer key download failed:", error);
+      alert(
+        `Download failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  };
+
+  // Download the watermarked copy for one recipient
+  const handleDownloadRecipientCopy = async (recipient: string) => {
+    const copy = processingResult?.recipientCopies?.find(
+      (item) => item.recipient === recipient
+    );
+
+    if (!copy || !uploadedFile) {
+      console.error("❌ Recipient copy download failed - missing data");
+      alert(`No copy available for ${recipient}`);
+      return;
+    }
+
+    try {
+      const { downloadPDF, generateBrandedFilename } = await import(
+        "@/lib/download"
+      );
+      const safeName = recipient.replace(/[^\w-]+/g, "_");
+      const filename = generateBrandedFilename(uploadedFile.name, `branded_${safeName}`);
+      downloadPDF(copy.pdf, filename);
+      console.log("✅ Recipient copy download completed:", filename);
+    } catch (error) {
+      console.error("❌ Recipient copy download failed:", error);
+      alert(
+        `Download failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  };
+
+  // Shuffled A/B/C... versions of the quiz plus a combined answer key
+  const handleGenerateQuizVersions = async (count: number, seed: string) => {
+    if (!editedAnalysisResult || !uploadedFile) {
+      throw new Error("No analysed document available");
+    }
+
+    const [{ generateQuizVersions, renderQuizVersionPDFs }, { downloadPDF, generateBrandedFilename }] =
+      await Promise.all([import("@/lib/quiz-versions"), import("@/lib/download")]);
+
+    const versions = generateQuizVersions(editedAnalysisResult, { count, seed });
+    const pdfs = await renderQuizVersionPDFs(versions, {
+      title: editedAnalysisResult.extractedContent.title,
+      printEconomy,
+    });
+
+    pdfs.versions.forEach(({ label, pdf }) => {
+      downloadPDF(pdf, generateBrandedFilename(uploadedFile.name, `version_${label}`));
+    });
+    downloadPDF(pdfs.answerKey, generateBrandedFilename(uploadedFile.name, "versions_answer_key"));
+    console.log(`✅ Downloaded ${pdfs.versions.length} quiz versions (seed: ${seed})`);
+  };
+
   // Debug function for testing
   const debugPDFGeneration = async () => {
     console.log("🧪 Debug PDF generation test");
@@ -529,7 +728,29 @@ export default function HomePage() {
           {/* Main Content */}
           <div className="bg-white rounded-xl shadow-lg overflow-hidden">
             {currentStep === "upload" && (
-              <div className="p-8">
+              <div className="p-8 space-y-6">
+                <BrandKitEditor
+                  brandKit={brandKits.brandKit}
+                  onLogoChange={brandKits.updateLogo}
+                  onColorChange={brandKits.updateColor}
+                  onSecondaryColorChange={brandKits.updateSecondaryColor}
+                  onAccentColorChange={brandKits.updateAccentColor}
+                  onFontChange={brandKits.updateFont}
+                  onHeaderFontChange={brandKits.updateHeaderFont}
+                  onWatermarkChange={brandKits.updateWatermark}
+                  onFooterTextChange={brandKits.updateFooterText}
+                  onWatermarkSettingsChange={brandKits.updateWatermarkSettings}
+                  kits={brandKits.kits}
+                  activeKitId={brandKits.activeKitId}
+                  defaultKitId={brandKits.defaultKitId}
+                  onSelectKit={brandKits.selectKit}
+                  onCreateKit={brandKits.createKit}
+                  onCloneKit={brandKits.cloneKit}
+                  onRenameKit={brandKits.renameKit}
+                  onDeleteKit={brandKits.deleteKit}
+                  onSetDefaultKit={brandKits.setDefaultKit}
+                  onImportKit={brandKits.importKit}
+                />
                 <FileUpload
                   onFileUpload={handleFileUpload}
                   uploadedFile={uploadedFile}
@@ -558,6 +779,8 @@ export default function HomePage() {
                   message={processingStatus.message}
                   progress={processingStatus.progress}
                   details={processingStatus.details}
+                  stages={ANALYSIS_STAGES}
+                  currentStage={processingStatus.stage}
                 />
               </div>
             )}
@@ -570,6 +793,18 @@ export default function HomePage() {
                 onApprove={handleApproveContent}
                 onReject={handleRejectContent}
                 isProcessing={false}
+                brandKits={brandKits.kits}
+                selectedBrandKitId={selectedKitId}
+                defaultBrandKitId={brandKits.defaultKitId}
+                onBrandKitChange={setSelectedKitId}
+                brandingLayout={brandingLayout}
+                onBrandingLayoutChange={setBrandingLayout}
+                watermarkRecipients={watermarkRecipients}
+                onWatermarkRecipientsChange={setWatermarkRecipients}
+                printEconomy={printEconomy}
+                onPrintEconomyChange={setPrintEconomy}
+                answerKeySettings={answerKeySettings}
+                onAnswerKeySettingsChange={setAnswerKeySettings}
               />
             )}
 
@@ -588,6 +823,13 @@ export default function HomePage() {
               <CompletionScreen
                 result={processingResult}
                 onDownload={handleDownload}
+                onDownloadAnswerKey={handleDownloadAnswerKey}
+                onDownloadRecipientCopy={handleDownloadRecipientCopy}
+                onGenerateQuizVersions={
+                  editedAnalysisResult?.extractedQuestions.length
+                    ? handleGenerateQuizVersions
+                    : undefined
+                }
                 onStartOver={handleRejectContent}
               />
             )}
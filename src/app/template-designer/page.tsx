@@ -1,11 +1,14 @@
 'use client';
 
 import { TemplateDesigner } from '@/components/TemplateDesigner';
+import { useBrandKit } from '@/lib/brand-kit';
 
 export default function TemplateDesignerPage() {
+  const { brandKit, isLoaded } = useBrandKit();
+
   return (
     <div className="h-screen">
-      <TemplateDesigner />
+      <TemplateDesigner brandKit={isLoaded ? brandKit : undefined} />
     </div>
   );
 }
@@ -1,9 +1,41 @@
+// UPDATED: 2026-10-19 - Brand kit library (create, clone, rename, delete, set default)
+// UPDATED: 2026-10-19 - Export/import brand kits as portable bundles
+// UPDATED: 2026-10-19 - Propose brand kit values from an existing branded PDF
+// UPDATED: 2026-10-19 - Watermark settings (text or logo, tiling, rotation, opacity, page range)
+// UPDATED: 2026-10-19 - Footer tokens and slot preview
+// UPDATED: 2026-10-19 - WCAG contrast checker for kit colours
+// UPDATED: 2026-10-19 - Logo normalisation (SVG, trimming, background removal) and placement preview
+// UPDATED: 2026-10-19 - Embedded fonts of imported kits saved for later sessions
+
 'use client';
 
 import { useState, useRef } from 'react';
 import { HexColorPicker } from 'react-colorful';
-import { BrandKit as BrandKitType } from '@/types';
+import { BrandKit as BrandKitType, SavedBrandKit, WatermarkSettings } from '@/types';
 import { AVAILABLE_FONTS } from '@/lib/brand-kit';
+import { DEFAULT_WATERMARK_SETTINGS, WATERMARK_TOKENS } from '@/lib/watermark-engine';
+import { HEADER_FOOTER_TOKENS, renderHeaderFooterSlots } from '@/lib/header-footer-tokens';
+import { BrandColorField } from '@/lib/brand-contrast';
+import { ContrastChecker } from './ContrastChecker';
+import { LogoPlacementPreview } from './LogoPlacementPreview';
+import { MAX_LOGO_DIMENSION, ProcessedLogo, processLogoDataUrl } from '@/lib/logo-processing';
+import {
+  BRAND_KIT_BUNDLE_EXTENSION,
+  BrandKitBundle,
+  BrandKitConflictResolution,
+  BrandKitImportConflict,
+  downloadBrandKitBundle,
+  findBrandKitConflict,
+  parseBrandKitBundle,
+  planBrandKitImport,
+  registerBundleFonts,
+  saveBundleFonts,
+} from '@/lib/brand-kit-bundle';
+import {
+  BrandKitProposal,
+  ProposableBrandKitField,
+  extractBrandKitFromPDF,
+} from '@/lib/brand-kit-extractor';
 import * as Collapsible from '@radix-ui/react-collapsible';
 import * as Tabs from '@radix-ui/react-tabs';
 import * as Dialog from '@radix-ui/react-dialog';
@@ -19,6 +51,35 @@ interface BrandKitProps {
   onHeaderFontChange?: (font: string) => void;
   onWatermarkChange?: (watermark: string | null) => void;
   onFooterTextChange?: (footerText: string | null) => void;
+  onWatermarkSettingsChange?: (settings: WatermarkSettings) => void;
+
+  // Brand kit library; the library bar is hidden when kits are not provided
+  kits?: SavedBrandKit[];
+  activeKitId?: string | null;
+  defaultKitId?: string | null;
+  onSelectKit?: (kitId: string) => void;
+  onCreateKit?: (name: string) => void;
+  onCloneKit?: (kitId: string) => void;
+  onRenameKit?: (kitId: string, name: string) => void;
+  onDeleteKit?: (kitId: string) => void;
+  onSetDefaultKit?: (kitId: string) => void;
+  onImportKit?: (kit: SavedBrandKit, replaceKitId: string | null) => void;
+}
+
+const PROPOSAL_LABELS: Record<ProposableBrandKitField, string> = {
+  logo: 'Logo',
+  color: 'Primary color',
+  secondaryColor: 'Secondary color',
+  accentColor: 'Accent color',
+  font: 'Body font',
+  headerFont: 'Header font',
+  footerText: 'Footer text',
+};
+
+interface PendingImport {
+  bundle: BrandKitBundle;
+  conflict: BrandKitImportConflict;
+  warnings: string[];
 }
 
 export function BrandKit({ 
@@ -30,11 +91,36 @@ export function BrandKit({
   onFontChange,
   onHeaderFontChange,
   onWatermarkChange,
-  onFooterTextChange
+  onFooterTextChange,
+  onWatermarkSettingsChange,
+  kits,
+  activeKitId,
+  defaultKitId,
+  onSelectKit,
+  onCreateKit,
+  onCloneKit,
+  onRenameKit,
+  onDeleteKit,
+  onSetDefaultKit,
+  onImportKit
 }: BrandKitProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [activeTab, setActiveTab] = useState('basics');
+  const [isExporting, setIsExporting] = useState(false);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [bundleMessage, setBundleMessage] = useState<{ type: 'info' | 'error'; lines: string[] } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+  const extractInputRef = useRef<HTMLInputElement>(null);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [extractError, setExtractError] = useState<string | null>(null);
+  const [proposal, setProposal] = useState<BrandKitProposal | null>(null);
+  const [acceptedFields, setAcceptedFields] = useState<Set<ProposableBrandKitField>>(new Set());
+  const [logoSource, setLogoSource] = useState<string | null>(null);
+  const [logoInfo, setLogoInfo] = useState<ProcessedLogo | null>(null);
+  const [removeLogoBackground, setRemoveLogoBackground] = useState(false);
+  const [isProcessingLogo, setIsProcessingLogo] = useState(false);
+  const [logoError, setLogoError] = useState<string | null>(null);
 
   const handleLogoUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -52,17 +138,224 @@ export function BrandKit({
       return;
     }
 
-    // Convert to data URL for preview
+    // Keep the original so background removal can be toggled without quality loss
     const reader = new FileReader();
     reader.onload = (e) => {
       const dataUrl = e.target?.result as string;
-      onLogoChange(file, dataUrl);
+      setLogoSource(dataUrl);
+      processLogo(file, dataUrl, removeLogoBackground);
     };
     reader.readAsDataURL(file);
   };
 
+  /**
+   * Trim, scale and (optionally) clear the background, then store the PNG
+   */
+  const processLogo = async (file: File | null, dataUrl: string, removeBackground: boolean) => {
+    setIsProcessingLogo(true);
+    setLogoError(null);
+    try {
+      const processed = await processLogoDataUrl(dataUrl, { removeBackground });
+      setLogoInfo(processed);
+      onLogoChange(file, processed.dataUrl);
+    } catch (error) {
+      console.error('❌ Logo processing failed:', error);
+      setLogoError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsProcessingLogo(false);
+    }
+  };
+
+  const handleToggleLogoBackground = (removeBackground: boolean) => {
+    setRemoveLogoBackground(removeBackground);
+    const source = logoSource || brandKit.logo.dataUrl;
+    if (source) {
+      processLogo(null, source, removeBackground);
+    }
+  };
+
+  const activeKit = kits?.find(kit => kit.id === activeKitId);
+
+  const handleCreateKit = () => {
+    const name = prompt('Name for the new brand kit:', 'New Brand');
+    if (name?.trim()) {
+      onCreateKit?.(name.trim());
+    }
+  };
+
+  const handleRenameKit = () => {
+    if (!activeKit) return;
+    const name = prompt('Rename brand kit:', activeKit.name);
+    if (name?.trim()) {
+      onRenameKit?.(activeKit.id, name.trim());
+    }
+  };
+
+  const handleDeleteKit = () => {
+    if (!activeKit) return;
+    if (confirm(`Delete the brand kit "${activeKit.name}"? This cannot be undone.`)) {
+      onDeleteKit?.(activeKit.id);
+    }
+  };
+
+  const handleExportKit = async () => {
+    if (!activeKit) return;
+    setIsExporting(true);
+    try {
+      const warnings = await downloadBrandKitBundle(activeKit);
+      setBundleMessage({ type: 'info', lines: [`Exported "${activeKit.name}"`, ...warnings] });
+    } catch (error) {
+      setBundleMessage({
+        type: 'error',
+        lines: [`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`]
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const applyImport = async (
+    bundle: BrandKitBundle,
+    resolution: BrandKitConflictResolution,
+    warnings: string[]
+  ) => {
+    setPendingImport(null);
+    const plan = planBrandKitImport(bundle, kits || [], resolution);
+    if (!plan) {
+      setBundleMessage({ type: 'info', lines: [`Skipped "${bundle.kit.name}"`] });
+      return;
+    }
+
+    onImportKit?.(plan.kit, plan.replaceKitId);
+    await registerBundleFonts(bundle.fonts);
+
+    const fontWarnings: string[] = [];
+    try {
+      await saveBundleFonts(plan.kit.id, bundle.fonts);
+    } catch (error) {
+      fontWarnings.push(error instanceof Error ? error.message : 'Embedded fonts were not saved');
+    }
+
+    setBundleMessage({
+      type: 'info',
+      lines: [`Imported "${plan.kit.name}"${plan.replaceKitId ? ' (replaced existing kit)' : ''}`, ...warnings, ...fontWarnings]
+    });
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const result = parseBrandKitBundle(await file.text());
+    if (!result.valid || !result.bundle) {
+      setBundleMessage({ type: 'error', lines: [`Cannot import ${file.name}:`, ...result.errors] });
+      return;
+    }
+
+    const conflict = findBrandKitConflict(result.bundle, kits || []);
+    if (conflict) {
+      setBundleMessage(null);
+      setPendingImport({ bundle: result.bundle, conflict, warnings: result.warnings });
+      return;
+    }
+
+    await applyImport(result.bundle, 'keep-both', result.warnings);
+  };
+
+  const handleExtractFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsExtracting(true);
+    setExtractError(null);
+    setProposal(null);
+    try {
+      const result = await extractBrandKitFromPDF(file);
+      setProposal(result);
+      // Pre-select confident proposals; weak guesses stay opt-in
+      setAcceptedFields(new Set(
+        (Object.keys(result.proposals) as ProposableBrandKitField[])
+          .filter(field => (result.proposals[field]?.confidence || 0) >= 0.3)
+      ));
+    } catch (error) {
+      setExtractError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const toggleAcceptedField = (field: ProposableBrandKitField) => {
+    setAcceptedFields(prev => {
+      const next = new Set(prev);
+      if (next.has(field)) {
+        next.delete(field);
+      } else {
+        next.add(field);
+      }
+      return next;
+    });
+  };
+
+  const handleApplyProposal = () => {
+    if (!proposal) return;
+
+    acceptedFields.forEach(field => {
+      const value = proposal.proposals[field]?.value;
+      if (!value) return;
+
+      switch (field) {
+        case 'logo': onLogoChange(null, value); break;
+        case 'color': onColorChange(value); break;
+        case 'secondaryColor': onSecondaryColorChange?.(value); break;
+        case 'accentColor': onAccentColorChange?.(value); break;
+        case 'font': onFontChange(value); break;
+        case 'headerFont': onHeaderFontChange?.(value); break;
+        case 'footerText': onFooterTextChange?.(value); break;
+      }
+    });
+
+    setProposal(null);
+    setActiveTab('basics');
+  };
+
+  const watermarkSettings = { ...DEFAULT_WATERMARK_SETTINGS, ...brandKit.watermarkSettings };
+
+  const updateWatermarkSettings = (changes: Partial<WatermarkSettings>) => {
+    onWatermarkSettingsChange?.({ ...watermarkSettings, ...changes });
+  };
+
+  // Footer as it renders on page 1 of a 3-page sample document
+  const footerPreview = brandKit.footerText
+    ? renderHeaderFooterSlots(brandKit.footerText, {
+        title: 'Sample Document',
+        course: 'Biology 101',
+        author: 'A. Teacher',
+        pageNumber: 1,
+        pageCount: 3,
+      })
+    : null;
+
+  const renderFooterPreview = (className: string) => footerPreview && (
+    <div className={`flex justify-between gap-2 border-t border-gray-200 text-xs text-gray-500 ${className}`}>
+      <span className="flex-1 truncate text-left">{footerPreview.left}</span>
+      <span className="flex-1 truncate text-center">{footerPreview.center}</span>
+      <span className="flex-1 truncate text-right">{footerPreview.right}</span>
+    </div>
+  );
+
+  const handleApplyContrastColor = (field: BrandColorField, value: string) => {
+    if (field === 'color') onColorChange(value);
+    if (field === 'secondaryColor') onSecondaryColorChange?.(value);
+    if (field === 'accentColor') onAccentColorChange?.(value);
+  };
+
   const handleRemoveLogo = () => {
     onLogoChange(null, null);
+    setLogoSource(null);
+    setLogoInfo(null);
+    setLogoError(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -85,6 +378,14 @@ export function BrandKit({
           <div className="p-3 flex items-center justify-between cursor-pointer hover:bg-gray-50">
             <div className="flex items-center gap-3">
               <h2 className="text-base font-medium text-gray-900">Document Branding</h2>
+              {activeKit && (
+                <span className="text-sm text-gray-600">
+                  {activeKit.name}
+                  {activeKit.id === defaultKitId && (
+                    <span className="ml-1 text-xs text-blue-600">(default)</span>
+                  )}
+                </span>
+              )}
               {brandKit.logo.dataUrl && (
                 <div className="h-8 w-8 bg-gray-50 rounded border flex items-center justify-center overflow-hidden">
                   <img 
@@ -125,6 +426,140 @@ export function BrandKit({
 
         <Collapsible.Content>
           <div className="p-4 border-t border-gray-200">
+            {/* Brand Kit Library */}
+            {kits && kits.length > 0 && (
+              <div className="flex items-center gap-2 flex-wrap mb-4 pb-4 border-b border-gray-200">
+                <label className="text-sm font-medium text-gray-900" htmlFor="brand-kit-select">
+                  Brand kit
+                </label>
+                <select
+                  id="brand-kit-select"
+                  value={activeKitId || ''}
+                  onChange={(e) => onSelectKit?.(e.target.value)}
+                  className="w-48 px-3 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                >
+                  {kits.map((kit) => (
+                    <option key={kit.id} value={kit.id}>
+                      {kit.name}{kit.id === defaultKitId ? ' (default)' : ''}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleCreateKit}
+                  className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+                >
+                  New
+                </button>
+                <button
+                  onClick={() => activeKit && onCloneKit?.(activeKit.id)}
+                  disabled={!activeKit}
+                  className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+                >
+                  Clone
+                </button>
+                <button
+                  onClick={handleRenameKit}
+                  disabled={!activeKit}
+                  className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+                >
+                  Rename
+                </button>
+                <button
+                  onClick={() => activeKit && onSetDefaultKit?.(activeKit.id)}
+                  disabled={!activeKit || activeKit.id === defaultKitId}
+                  className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+                >
+                  Set default
+                </button>
+                <button
+                  onClick={handleDeleteKit}
+                  disabled={!activeKit || kits.length <= 1}
+                  className="px-2 py-1 text-xs text-red-600 rounded hover:bg-red-50 disabled:opacity-50"
+                >
+                  Delete
+                </button>
+                {onImportKit && (
+                  <>
+                    <span className="mx-1 h-4 border-l border-gray-300" />
+                    <button
+                      onClick={handleExportKit}
+                      disabled={!activeKit || isExporting}
+                      className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+                    >
+                      {isExporting ? 'Exporting...' : 'Export'}
+                    </button>
+                    <button
+                      onClick={() => bundleInputRef.current?.click()}
+                      className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                    >
+                      Import
+                    </button>
+                    <input
+                      ref={bundleInputRef}
+                      type="file"
+                      accept={`${BRAND_KIT_BUNDLE_EXTENSION},application/json`}
+                      onChange={handleImportFile}
+                      className="hidden"
+                    />
+                  </>
+                )}
+              </div>
+            )}
+
+            {/* Import conflict */}
+            {pendingImport && (
+              <div className="mb-4 p-3 rounded border border-amber-200 bg-amber-50 text-sm">
+                <p className="text-amber-800 mb-2">
+                  {pendingImport.conflict.reason === 'id'
+                    ? `"${pendingImport.bundle.kit.name}" was exported from the kit "${pendingImport.conflict.existingKit.name}" in this library.`
+                    : `A kit named "${pendingImport.conflict.existingKit.name}" already exists.`}
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => applyImport(pendingImport.bundle, 'replace', pendingImport.warnings)}
+                    className="px-2 py-1 text-xs bg-amber-600 text-white rounded hover:bg-amber-700"
+                  >
+                    Replace
+                  </button>
+                  <button
+                    onClick={() => applyImport(pendingImport.bundle, 'keep-both', pendingImport.warnings)}
+                    className="px-2 py-1 text-xs bg-white border border-gray-300 text-gray-700 rounded hover:bg-gray-100"
+                  >
+                    Keep both
+                  </button>
+                  <button
+                    onClick={() => applyImport(pendingImport.bundle, 'skip', pendingImport.warnings)}
+                    className="px-2 py-1 text-xs text-gray-600 rounded hover:bg-gray-100"
+                  >
+                    Skip
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {bundleMessage && (
+              <div
+                className={`mb-4 p-3 rounded border text-sm flex items-start justify-between gap-2 ${
+                  bundleMessage.type === 'error'
+                    ? 'border-red-200 bg-red-50 text-red-800'
+                    : 'border-blue-200 bg-blue-50 text-blue-800'
+                }`}
+              >
+                <ul className="space-y-1">
+                  {bundleMessage.lines.map((line, index) => (
+                    <li key={index}>{line}</li>
+                  ))}
+                </ul>
+                <button
+                  onClick={() => setBundleMessage(null)}
+                  className="text-xs opacity-70 hover:opacity-100"
+                  aria-label="Dismiss"
+                >
+                  ✕
+                </button>
+              </div>
+            )}
+
             <Tabs.Root value={activeTab} onValueChange={setActiveTab}>
               <Tabs.List className="flex border-b border-gray-200 mb-4">
                 <Tabs.Trigger 
@@ -167,6 +602,16 @@ export function BrandKit({
                 >
                   Extras
                 </Tabs.Trigger>
+                <Tabs.Trigger 
+                  value="extract"
+                  className={`px-3 py-2 text-sm font-medium border-b-2 ${
+                    activeTab === 'extract' 
+                      ? 'border-blue-500 text-blue-600' 
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  From PDF
+                </Tabs.Trigger>
               </Tabs.List>
 
               {/* Basics Tab */}
@@ -178,7 +623,15 @@ export function BrandKit({
                     <div className="flex items-start gap-4">
                       {brandKit.logo.dataUrl ? (
                         <div>
-                          <div className="w-24 h-24 bg-gray-50 rounded-lg border border-gray-300 flex items-center justify-center mb-2 overflow-hidden">
+                          {/* Checkerboard shows what was trimmed or made transparent */}
+                          <div
+                            className="w-24 h-24 rounded-lg border border-gray-300 flex items-center justify-center mb-2 overflow-hidden"
+                            style={{
+                              backgroundColor: '#FFFFFF',
+                              backgroundImage: 'conic-gradient(#E5E7EB 25%, transparent 0 50%, #E5E7EB 0 75%, transparent 0)',
+                              backgroundSize: '12px 12px',
+                            }}
+                          >
                             <img
                               src={brandKit.logo.dataUrl}
                               alt="Logo preview"
@@ -228,12 +681,35 @@ export function BrandKit({
                           Upload your school or institution logo to brand your documents.
                         </p>
                         <ul className="text-xs text-gray-500 list-disc pl-4 space-y-1">
-                          <li>Recommended size: 400x200 pixels</li>
-                          <li>Transparent background (PNG) works best</li>
-                          <li>Max file size: 5MB</li>
+                          <li>SVG, PNG or JPG; max file size 5MB</li>
+                          <li>Empty margins are trimmed and the longest side is capped at {MAX_LOGO_DIMENSION}px</li>
                         </ul>
+                        <label className="flex items-center gap-2 mt-2 text-xs text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={removeLogoBackground}
+                            onChange={(e) => handleToggleLogoBackground(e.target.checked)}
+                            disabled={isProcessingLogo}
+                          />
+                          Remove white background
+                        </label>
+                        {isProcessingLogo && <p className="text-xs text-gray-500 mt-1">Processing logo...</p>}
+                        {logoError && <p className="text-xs text-red-600 mt-1">{logoError}</p>}
+                        {logoInfo && brandKit.logo.dataUrl && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            {logoInfo.width}×{logoInfo.height}px
+                            {logoInfo.sourceType === 'svg+xml' ? ' · rasterised from SVG' : ''}
+                            {logoInfo.trimmed ? ' · margins trimmed' : ''}
+                            {logoInfo.backgroundRemoved ? ' · background removed' : ''}
+                          </p>
+                        )}
                       </div>
                     </div>
+                    {brandKit.logo.dataUrl && (
+                      <div className="mt-3">
+                        <LogoPlacementPreview logoDataUrl={brandKit.logo.dataUrl} primaryColor={brandKit.color} />
+                      </div>
+                    )}
                   </div>
 
                   {/* Primary Color & Font */}
@@ -487,6 +963,16 @@ export function BrandKit({
                     </div>
                   </div>
                 </div>
+
+                <ContrastChecker
+                  brandKit={brandKit}
+                  onApplyColor={handleApplyContrastColor}
+                  onApplyWatermarkOpacity={
+                    onWatermarkSettingsChange
+                      ? (opacity) => updateWatermarkSettings({ opacity })
+                      : undefined
+                  }
+                />
               </Tabs.Content>
 
               {/* Typography Tab */}
@@ -625,15 +1111,116 @@ export function BrandKit({
                         placeholder="e.g., CONFIDENTIAL or School Name"
                       />
                       <p className="text-xs text-gray-500">
-                        Add a watermark that will appear diagonally across your document (optional)
+                        Add a watermark that will appear across your document (optional).
+                        Placeholders: {WATERMARK_TOKENS.join(' ')} &mdash; use {'{recipient}'} to trace leaked copies.
                       </p>
-                      
+
+                      {onWatermarkSettingsChange && (
+                        <div className="grid grid-cols-2 gap-2 text-xs text-gray-700">
+                          <label className="flex flex-col gap-1">
+                            Type
+                            <select
+                              value={watermarkSettings.type}
+                              onChange={(e) => updateWatermarkSettings({ type: e.target.value as WatermarkSettings['type'] })}
+                              className="px-2 py-1 border border-gray-300 rounded bg-white"
+                            >
+                              <option value="text">Text</option>
+                              <option value="image" disabled={!brandKit.logo.dataUrl}>Logo image</option>
+                            </select>
+                          </label>
+                          <label className="flex flex-col gap-1">
+                            Placement
+                            <select
+                              value={watermarkSettings.placement}
+                              onChange={(e) => updateWatermarkSettings({ placement: e.target.value as WatermarkSettings['placement'] })}
+                              className="px-2 py-1 border border-gray-300 rounded bg-white"
+                            >
+                              <option value="single">Single, centred</option>
+                              <option value="tiled">Tiled</option>
+                            </select>
+                          </label>
+                          <label className="flex flex-col gap-1">
+                            Rotation ({watermarkSettings.rotation}°)
+                            <input
+                              type="range"
+                              min={-90}
+                              max={90}
+                              step={5}
+                              value={watermarkSettings.rotation}
+                              onChange={(e) => updateWatermarkSettings({ rotation: Number(e.target.value) })}
+                            />
+                          </label>
+                          <label className="flex flex-col gap-1">
+                            Opacity ({Math.round(watermarkSettings.opacity * 100)}%)
+                            <input
+                              type="range"
+                              min={0.05}
+                              max={0.6}
+                              step={0.05}
+                              value={watermarkSettings.opacity}
+                              onChange={(e) => updateWatermarkSettings({ opacity: Number(e.target.value) })}
+                            />
+                          </label>
+                          <label className="flex flex-col gap-1">
+                            Color
+                            <select
+                              value={watermarkSettings.color}
+                              onChange={(e) => updateWatermarkSettings({ color: e.target.value as WatermarkSettings['color'] })}
+                              className="px-2 py-1 border border-gray-300 rounded bg-white"
+                            >
+                              <option value="gray">Gray</option>
+                              <option value="primary">Primary</option>
+                              <option value="secondary">Secondary</option>
+                              <option value="accent">Accent</option>
+                            </select>
+                          </label>
+                          {watermarkSettings.type === 'text' ? (
+                            <label className="flex flex-col gap-1">
+                              Font size (blank = auto)
+                              <input
+                                type="number"
+                                min={6}
+                                max={200}
+                                value={watermarkSettings.fontSize ?? ''}
+                                onChange={(e) => updateWatermarkSettings({ fontSize: e.target.value ? Number(e.target.value) : null })}
+                                className="px-2 py-1 border border-gray-300 rounded"
+                              />
+                            </label>
+                          ) : (
+                            <label className="flex flex-col gap-1">
+                              Logo size ({Math.round(watermarkSettings.imageScale * 100)}% of width)
+                              <input
+                                type="range"
+                                min={0.1}
+                                max={1}
+                                step={0.05}
+                                value={watermarkSettings.imageScale}
+                                onChange={(e) => updateWatermarkSettings({ imageScale: Number(e.target.value) })}
+                              />
+                            </label>
+                          )}
+                          <label className="col-span-2 flex flex-col gap-1">
+                            Pages (e.g. all, 2- to skip the cover, 1,3-5)
+                            <input
+                              type="text"
+                              value={watermarkSettings.pages}
+                              onChange={(e) => updateWatermarkSettings({ pages: e.target.value })}
+                              className="px-2 py-1 border border-gray-300 rounded"
+                              placeholder="all"
+                            />
+                          </label>
+                        </div>
+                      )}
+
                       {/* Watermark Preview */}
                       {brandKit.watermark && (
                         <div className="relative h-32 bg-gray-50 rounded border overflow-hidden">
                           <div 
                             className="absolute inset-0 flex items-center justify-center text-gray-300 text-xl font-bold transform rotate-315 pointer-events-none"
-                            style={{ transform: 'rotate(-45deg)' }}
+                            style={{
+                              transform: `rotate(${-watermarkSettings.rotation}deg)`,
+                              opacity: Math.min(1, watermarkSettings.opacity * 4),
+                            }}
                           >
                             {brandKit.watermark}
                           </div>
@@ -654,18 +1241,15 @@ export function BrandKit({
                         value={brandKit.footerText || ''}
                         onChange={(e) => onFooterTextChange?.(e.target.value || null)}
                         className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
-                        placeholder="e.g., © 2025 School Name or Contact Information"
+                        placeholder="e.g., {title} | {course} | Page {page} of {pages}"
                       />
                       <p className="text-xs text-gray-500">
-                        Add text that will appear in the footer of each page (optional)
+                        Add text that will appear in the footer of each page (optional).
+                        Tokens: {HEADER_FOOTER_TOKENS.join(' ')}. Split left | centre | right with &quot;|&quot;.
                       </p>
                       
                       {/* Footer Preview */}
-                      {brandKit.footerText && (
-                        <div className="mt-2 p-2 border-t border-gray-200 text-xs text-center text-gray-500">
-                          {brandKit.footerText}
-                        </div>
-                      )}
+                      {renderFooterPreview('mt-2 p-2')}
                     </div>
                   </div>
                 </div>
@@ -743,13 +1327,119 @@ export function BrandKit({
                     </div>
                     
                     {/* Footer */}
-                    {brandKit.footerText && (
-                      <div className="p-2 border-t border-gray-200 text-xs text-center text-gray-500">
-                        {brandKit.footerText}
+                    {renderFooterPreview('p-2')}
+                  </div>
+                </div>
+              </Tabs.Content>
+
+              {/* Extract From PDF Tab */}
+              <Tabs.Content value="extract" className="space-y-4">
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-sm text-gray-600">
+                    Upload a PDF that already carries your branding to get suggested colors, fonts, logo and footer text{activeKit ? ` for "${activeKit.name}"` : ''}.
+                  </p>
+                  <button
+                    onClick={() => extractInputRef.current?.click()}
+                    disabled={isExtracting}
+                    className="px-3 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 whitespace-nowrap"
+                  >
+                    {isExtracting ? 'Analyzing...' : 'Choose PDF'}
+                  </button>
+                  <input
+                    ref={extractInputRef}
+                    type="file"
+                    accept="application/pdf"
+                    onChange={handleExtractFile}
+                    className="hidden"
+                  />
+                </div>
+
+                {extractError && (
+                  <div className="p-3 rounded border border-red-200 bg-red-50 text-sm text-red-800">
+                    Could not analyze the PDF: {extractError}
+                  </div>
+                )}
+
+                {proposal && (
+                  <div className="space-y-3">
+                    <p className="text-xs text-gray-500">
+                      Scanned {proposal.pagesScanned} page{proposal.pagesScanned === 1 ? '' : 's'} of {proposal.sourceName}
+                    </p>
+
+                    {Object.keys(proposal.proposals).length === 0 && (
+                      <p className="text-sm text-gray-600">No branding could be detected in this PDF.</p>
+                    )}
+
+                    {(Object.keys(PROPOSAL_LABELS) as ProposableBrandKitField[]).map(field => {
+                      const item = proposal.proposals[field];
+                      if (!item) return null;
+
+                      return (
+                        <label
+                          key={field}
+                          className="flex items-center gap-3 p-2 rounded border border-gray-200 cursor-pointer hover:bg-gray-50"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={acceptedFields.has(field)}
+                            onChange={() => toggleAcceptedField(field)}
+                            className="rounded border-gray-300"
+                          />
+                          <span className="w-28 text-sm font-medium text-gray-900">{PROPOSAL_LABELS[field]}</span>
+                          {field === 'logo' ? (
+                            <span
+                              className="h-10 w-20 rounded border border-gray-200 bg-white bg-contain bg-center bg-no-repeat"
+                              style={{ backgroundImage: `url(${item.value})` }}
+                            />
+                          ) : field.toLowerCase().includes('color') ? (
+                            <span className="flex items-center gap-2 text-sm">
+                              <span className="h-5 w-5 rounded border border-gray-300" style={{ backgroundColor: item.value }} />
+                              {item.value}
+                            </span>
+                          ) : (
+                            <span className="text-sm text-gray-800 truncate max-w-xs">{item.value}</span>
+                          )}
+                          <span className="flex-1 text-xs text-gray-500 truncate" title={item.reason}>
+                            {item.reason}
+                          </span>
+                          <span className="text-xs text-gray-400">{Math.round(item.confidence * 100)}%</span>
+                        </label>
+                      );
+                    })}
+
+                    {proposal.colors.length > 0 && (
+                      <div className="flex items-center gap-1">
+                        <span className="text-xs text-gray-500 mr-1">Palette:</span>
+                        {proposal.colors.slice(0, 10).map(color => (
+                          <span
+                            key={color.hex}
+                            className="h-4 w-4 rounded-full border border-gray-300"
+                            style={{ backgroundColor: color.hex }}
+                            title={`${color.hex} • ${Math.round(color.weight * 100)}%`}
+                          />
+                        ))}
+                      </div>
+                    )}
+
+                    {Object.keys(proposal.proposals).length > 0 && (
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => setProposal(null)}
+                          className="px-3 py-1 text-sm text-gray-600 rounded hover:bg-gray-100"
+                        >
+                          Discard
+                        </button>
+                        <button
+                          onClick={handleApplyProposal}
+                          disabled={acceptedFields.size === 0}
+                          className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                        >
+                          Apply {acceptedFields.size} selected
+                        </button>
                       </div>
                     )}
                   </div>
-                </div>
+                )}
               </Tabs.Content>
             </Tabs.Root>
           </div>
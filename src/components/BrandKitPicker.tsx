@@ -0,0 +1,65 @@
+// CREATED: 2026-10-19 - Choose which brand kit a document is generated with
+
+'use client';
+
+import { SavedBrandKit } from '@/types';
+
+interface BrandKitPickerProps {
+  kits: SavedBrandKit[];
+  selectedKitId: string | null;
+  defaultKitId?: string | null;
+  onChange: (kitId: string) => void;
+  disabled?: boolean;
+}
+
+export function BrandKitPicker({
+  kits,
+  selectedKitId,
+  defaultKitId,
+  onChange,
+  disabled = false
+}: BrandKitPickerProps) {
+  const selectedKit = kits.find(kit => kit.id === selectedKitId);
+
+  if (kits.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      {selectedKit && (
+        <div className="flex items-center gap-1" aria-hidden="true">
+          {selectedKit.logo.dataUrl && (
+            <span
+              className="h-6 w-6 rounded border border-gray-200 bg-white bg-contain bg-center bg-no-repeat"
+              style={{ backgroundImage: `url(${selectedKit.logo.dataUrl})` }}
+            />
+          )}
+          {[selectedKit.color, selectedKit.secondaryColor, selectedKit.accentColor].map((color, index) => (
+            <span
+              key={index}
+              className="h-4 w-4 rounded-full border border-gray-300"
+              style={{ backgroundColor: color }}
+            />
+          ))}
+        </div>
+      )}
+      <label htmlFor="brand-kit-picker" className="text-sm text-gray-600">
+        Brand kit
+      </label>
+      <select
+        id="brand-kit-picker"
+        value={selectedKitId || ''}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className="px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50"
+      >
+        {kits.map(kit => (
+          <option key={kit.id} value={kit.id}>
+            {kit.name}{kit.id === defaultKitId ? ' (default)' : ''}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
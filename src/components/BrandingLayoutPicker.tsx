@@ -0,0 +1,68 @@
+// CREATED: 2026-10-19 - Choose the branding layout a document is generated with
+
+'use client';
+
+import { BRANDING_LAYOUTS, BrandingLayoutId, getBrandingLayout } from '@/lib/branding-layouts';
+
+interface BrandingLayoutPickerProps {
+  value: BrandingLayoutId;
+  onChange: (layout: BrandingLayoutId) => void;
+  disabled?: boolean;
+}
+
+export function BrandingLayoutPicker({ value, onChange, disabled = false }: BrandingLayoutPickerProps) {
+  const layout = getBrandingLayout(value);
+
+  return (
+    <div className="flex items-center gap-2" title={layout.description}>
+      <LayoutThumbnail layoutId={layout.id} />
+      <label htmlFor="branding-layout-picker" className="text-sm text-gray-600">
+        Layout
+      </label>
+      <select
+        id="branding-layout-picker"
+        value={layout.id}
+        onChange={(e) => onChange(e.target.value as BrandingLayoutId)}
+        disabled={disabled}
+        className="px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50"
+      >
+        {BRANDING_LAYOUTS.map(option => (
+          <option key={option.id} value={option.id}>
+            {option.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+/**
+ * Tiny page schematic: brand zones in blue, content in grey
+ */
+function LayoutThumbnail({ layoutId }: { layoutId: BrandingLayoutId }) {
+  const layout = getBrandingLayout(layoutId);
+  const width = 18;
+  const height = 24;
+  const header = layout.headerHeight * height;
+  const footer = layout.footerHeight * height;
+  const sidebar = layout.sidebarWidth * width;
+  const margin = Math.max(1, layout.contentMargin * width);
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} aria-hidden="true" className="border border-gray-300 bg-white">
+      {layout.id === 'header-band' && <rect x={0} y={0} width={width} height={header} className="fill-blue-500" />}
+      {layout.id === 'sidebar' && <rect x={0} y={0} width={sidebar} height={height} className="fill-blue-500" />}
+      {layout.id === 'corner-badge' && <rect x={width - 6} y={0.5} width={5} height={Math.max(2, header - 1)} className="fill-blue-500" />}
+      {layout.id === 'letterhead' && (
+        <rect x={margin / 2} y={header} width={width - margin} height={height - header - footer} className="fill-none stroke-blue-500" strokeWidth={0.6} />
+      )}
+      <rect
+        x={sidebar + margin}
+        y={header + margin}
+        width={Math.max(0, width - sidebar - margin * 2)}
+        height={Math.max(0, height - header - footer - margin * 2)}
+        className="fill-gray-200"
+      />
+    </svg>
+  );
+}
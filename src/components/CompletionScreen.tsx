@@ -1,9 +1,14 @@
+// UPDATED: 2026-10-19 - Per-recipient watermarked copies
+// UPDATED: 2026-10-19 - Shuffled quiz versions with a combined answer key
+
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 
 interface ProcessingResult {
   brandedPdf: Uint8Array;
+  answerKeyPdf?: Uint8Array;
+  recipientCopies?: { recipient: string; pdf: Uint8Array }[];
   originalPdf: Uint8Array;
   pageCount: number;
   elements: any[];
@@ -17,10 +22,38 @@ interface ProcessingResult {
 interface CompletionScreenProps {
   result: ProcessingResult;
   onDownload: () => void;
+  onDownloadAnswerKey?: () => void;
+  onDownloadRecipientCopy?: (recipient: string) => void;
+  onGenerateQuizVersions?: (count: number, seed: string) => Promise<void>;
   onStartOver: () => void;
 }
 
-export function CompletionScreen({ result, onDownload, onStartOver }: CompletionScreenProps) {
+export function CompletionScreen({
+  result,
+  onDownload,
+  onDownloadAnswerKey,
+  onDownloadRecipientCopy,
+  onGenerateQuizVersions,
+  onStartOver
+}: CompletionScreenProps) {
+  const [versionCount, setVersionCount] = useState(2);
+  const [versionSeed, setVersionSeed] = useState(() => String(Date.now() % 100000));
+  const [isGeneratingVersions, setIsGeneratingVersions] = useState(false);
+  const [versionsError, setVersionsError] = useState<string | null>(null);
+
+  const handleGenerateVersions = async () => {
+    if (!onGenerateQuizVersions) return;
+    setIsGeneratingVersions(true);
+    setVersionsError(null);
+    try {
+      await onGenerateQuizVersions(versionCount, versionSeed.trim() || '1');
+    } catch (error) {
+      setVersionsError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsGeneratingVersions(false);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     try {
       const date = new Date(dateString);
@@ -80,8 +113,76 @@ export function CompletionScreen({ result, onDownload, onStartOver }: Completion
             <polyline points="7 10 12 15 17 10"></polyline>
             <line x1="12" y1="15" x2="12" y2="3"></line>
           </svg>
-          Download PDF
+          {result.answerKeyPdf ? 'Download Student Copy' : 'Download PDF'}
         </button>
+        {result.answerKeyPdf && onDownloadAnswerKey && (
+          <button
+            onClick={onDownloadAnswerKey}
+            className="btn-secondary flex items-center justify-center gap-2"
+          >
+            <span>🔑</span>
+            Download Answer Key
+          </button>
+        )}
+        {result.recipientCopies && onDownloadRecipientCopy && (
+          <div className="border border-gray-200 rounded-lg p-3">
+            <p className="text-sm font-medium text-gray-900 mb-2">
+              Watermarked copies ({result.recipientCopies.length})
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {result.recipientCopies.map(copy => (
+                <button
+                  key={copy.recipient}
+                  onClick={() => onDownloadRecipientCopy(copy.recipient)}
+                  className="px-3 py-1 text-sm text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50"
+                >
+                  ⬇️ {copy.recipient}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        {onGenerateQuizVersions && (
+          <div className="border border-gray-200 rounded-lg p-3">
+            <p className="text-sm font-medium text-gray-900 mb-1">Quiz versions</p>
+            <p className="text-xs text-gray-500 mb-2">
+              Shuffled question and option order per version, plus one answer key for all versions.
+              The same seed always gives the same papers.
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={versionCount}
+                onChange={(e) => setVersionCount(Number(e.target.value))}
+                disabled={isGeneratingVersions}
+                aria-label="Number of versions"
+                className="px-2 py-1 text-sm border border-gray-300 rounded"
+              >
+                {[2, 3, 4, 5, 6].map(count => (
+                  <option key={count} value={count}>{count} versions</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={versionSeed}
+                onChange={(e) => setVersionSeed(e.target.value)}
+                disabled={isGeneratingVersions}
+                aria-label="Shuffle seed"
+                placeholder="Seed"
+                className="w-28 px-2 py-1 text-sm border border-gray-300 rounded"
+              />
+              <button
+                onClick={handleGenerateVersions}
+                disabled={isGeneratingVersions}
+                className="px-3 py-1 text-sm text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+              >
+                {isGeneratingVersions ? 'Generating...' : '🔀 Download versions'}
+              </button>
+            </div>
+            {versionsError && (
+              <p className="text-xs text-red-600 mt-2">Versions failed: {versionsError}</p>
+            )}
+          </div>
+        )}
         <button
           onClick={onStartOver}
           className="btn-secondary"
@@ -1,4 +1,5 @@
 // UPDATED: 2025-07-03 - Enhanced with new SectionEditor components
+// UPDATED: 2026-10-19 - Inline source PDF diff for extracted questions
 
 'use client';
 
@@ -9,6 +10,8 @@ import { GeminiAnalysisResponse, ExtractedQuestion, DocumentSection } from '@/ty
 import { EnhancedDocumentSection, ContentType } from '@/types/editor';
 import { SectionEditor } from './editor/SectionEditor';
 import { contentFormatter } from './editor/ContentFormatter';
+import { SourceDiff } from './editor/SourceDiff';
+import { SourceTextReport, QuestionSourceCheck } from '@/lib/source-text-guard';
 
 interface ContentEditorProps {
   analysisResult: GeminiAnalysisResponse;
@@ -18,6 +21,7 @@ interface ContentEditorProps {
   onAddQuestion: () => void;
   onRemoveQuestion: (questionId: string) => void;
   mode?: 'enhanced' | 'legacy';
+  sourceReport?: SourceTextReport | null; // Text-layer check from source-text-guard
 }
 
 export function ContentEditor({
@@ -27,7 +31,8 @@ export function ContentEditor({
   onUpdateDocumentInfo,
   onAddQuestion,
   onRemoveQuestion,
-  mode = 'enhanced'
+  mode = 'enhanced',
+  sourceReport = null
 }: ContentEditorProps) {
   const [activeTab, setActiveTab] = useState('sections');
   const [activeSectionId, setActiveSectionId] = useState<string | null>(null);
@@ -191,6 +196,7 @@ export function ContentEditor({
             onUpdateQuestion={onUpdateQuestion}
             onAddQuestion={onAddQuestion}
             onRemoveQuestion={onRemoveQuestion}
+            sourceReport={sourceReport}
           />
         </Tabs.Content>
       </Tabs.Root>
@@ -566,17 +572,32 @@ function QuestionsTab({
   questions,
   onUpdateQuestion,
   onAddQuestion,
-  onRemoveQuestion
+  onRemoveQuestion,
+  sourceReport
 }: {
   questions: ExtractedQuestion[];
   onUpdateQuestion: (questionId: string, question: ExtractedQuestion) => void;
   onAddQuestion: () => void;
   onRemoveQuestion: (questionId: string) => void;
+  sourceReport: SourceTextReport | null;
 }) {
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
-        <h4 className="text-lg font-medium text-gray-900">Questions</h4>
+        <div className="flex items-center gap-3">
+          <h4 className="text-lg font-medium text-gray-900">Questions</h4>
+          {sourceReport && (
+            <span
+              className={`px-2 py-1 text-xs rounded ${
+                sourceReport.flaggedCount > 0 ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'
+              }`}
+            >
+              {sourceReport.flaggedCount > 0
+                ? `${sourceReport.flaggedCount} differ from source`
+                : 'All match source'}
+            </span>
+          )}
+        </div>
         <button
           onClick={onAddQuestion}
           className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 flex items-center gap-2"
@@ -608,6 +629,7 @@ function QuestionsTab({
               onUpdate={(updated) => onUpdateQuestion(question.id, updated)}
               onRemove={() => onRemoveQuestion(question.id)}
               canRemove={questions.length > 1}
+              sourceCheck={sourceReport?.questions.find(check => check.questionId === question.id)}
             />
           ))}
         </div>
@@ -621,12 +643,14 @@ function QuestionEditor({
   question, 
   onUpdate, 
   onRemove, 
-  canRemove 
+  canRemove,
+  sourceCheck
 }: {
   question: ExtractedQuestion;
   onUpdate: (question: ExtractedQuestion) => void;
   onRemove: () => void;
   canRemove: boolean;
+  sourceCheck?: QuestionSourceCheck;
 }) {
   const updateField = (field: keyof ExtractedQuestion, value: any) => {
     onUpdate({ ...question, [field]: value });
@@ -642,6 +666,11 @@ function QuestionEditor({
           <span className="px-2 py-1 text-xs bg-blue-100 text-blue-800 rounded">
             {question.type.replace('_', ' ')}
           </span>
+          {sourceCheck?.flagged && (
+            <span className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded">
+              ⚠ {Math.round(sourceCheck.similarity * 100)}% source match
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-2">
           {canRemove && (
@@ -708,6 +737,8 @@ function QuestionEditor({
               placeholder="Enter question text..."
             />
           </div>
+
+          {sourceCheck && <SourceDiff check={sourceCheck} />}
         </div>
       </Collapsible.Content>
     </Collapsible.Root>
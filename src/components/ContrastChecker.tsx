@@ -0,0 +1,78 @@
+// CREATED: 2026-10-19 - WCAG contrast feedback for brand kit colours
+
+'use client';
+
+import { BrandKit } from '@/types';
+import { BrandColorField, checkBrandKitContrast } from '@/lib/brand-contrast';
+
+interface ContrastCheckerProps {
+  brandKit: BrandKit;
+  onApplyColor?: (field: BrandColorField, value: string) => void;
+  onApplyWatermarkOpacity?: (opacity: number) => void;
+}
+
+export function ContrastChecker({ brandKit, onApplyColor, onApplyWatermarkOpacity }: ContrastCheckerProps) {
+  const checks = checkBrandKitContrast(brandKit);
+  const failing = checks.filter(check => !check.passes).length;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-gray-900">Contrast (WCAG AA)</h3>
+        <span className={`text-xs font-medium ${failing > 0 ? 'text-amber-700' : 'text-green-700'}`}>
+          {failing > 0 ? `${failing} of ${checks.length} pairs below AA` : 'All pairs pass'}
+        </span>
+      </div>
+      <ul className="divide-y divide-gray-100 border border-gray-200 rounded">
+        {checks.map(check => (
+          <li key={check.id} className="flex items-center gap-3 px-3 py-2 text-xs">
+            <span
+              className="w-10 h-7 flex items-center justify-center rounded border border-gray-200 font-bold text-sm"
+              style={{ color: check.foreground, backgroundColor: check.background }}
+              aria-hidden="true"
+            >
+              Aa
+            </span>
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-gray-900">{check.label}</p>
+              <p className="text-gray-500 truncate" title={check.usage}>{check.usage}</p>
+            </div>
+            <span className="tabular-nums text-gray-700">
+              {check.ratio.toFixed(2)}:1
+            </span>
+            <span
+              className={`px-2 py-0.5 rounded font-medium ${
+                check.passes ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'
+              }`}
+            >
+              {check.passes ? 'Pass' : `Needs ${check.required}:1`}
+            </span>
+            {check.suggestion && onApplyColor && (
+              <button
+                type="button"
+                onClick={() => onApplyColor(check.suggestion!.field, check.suggestion!.value)}
+                className="flex items-center gap-1 px-2 py-1 border border-gray-300 rounded hover:bg-gray-50"
+                title="Nearest shade that passes"
+              >
+                <span
+                  className="w-3 h-3 rounded-full border border-gray-300"
+                  style={{ backgroundColor: check.suggestion.value }}
+                />
+                Use {check.suggestion.value}
+              </button>
+            )}
+            {check.suggestedOpacity !== undefined && onApplyWatermarkOpacity && (
+              <button
+                type="button"
+                onClick={() => onApplyWatermarkOpacity(check.suggestedOpacity!)}
+                className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-50"
+              >
+                Opacity {Math.round(check.suggestedOpacity * 100)}%
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,11 +1,13 @@
 // src/components/DirectPDFViewer.tsx
 // FIXED: 2025-07-03 - Resolved canvas render race condition
+// UPDATED: 2026-10-19 - Optional clickable highlight overlay for extracted content
 
 'use client';
 
 import { useEffect, useRef, useState, useCallback } from 'react';
 import * as pdfjsLib from 'pdfjs-dist';
 import type { PDFDocumentProxy, PDFPageProxy, RenderParameters, RenderTask } from 'pdfjs-dist';
+import { PDFHighlight, ConfidenceLevel, getConfidenceLevel } from '@/lib/position-overlay';
 
 // Set worker source - use CDN for reliability
 pdfjsLib.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.mjs`;
@@ -13,8 +15,18 @@ pdfjsLib.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjsLi
 interface DirectPDFViewerProps {
   file: File | null;
   dataUrl: string | null;
+  highlights?: PDFHighlight[];
+  activeHighlightId?: string | null;
+  onHighlightClick?: (highlight: PDFHighlight) => void;
 }
 
+const HIGHLIGHT_STYLES: Record<ConfidenceLevel, string> = {
+  high: 'border-green-500 bg-green-500/10 hover:bg-green-500/20',
+  medium: 'border-amber-500 bg-amber-400/10 hover:bg-amber-400/25',
+  low: 'border-red-500 bg-red-500/10 hover:bg-red-500/25',
+  unknown: 'border-gray-400 bg-gray-400/10 hover:bg-gray-400/20',
+};
+
 interface PDFState {
   document: PDFDocumentProxy | null;
   currentPage: number;
@@ -26,8 +38,15 @@ interface PDFState {
   rendering: boolean;
 }
 
-export function DirectPDFViewer({ file, dataUrl }: DirectPDFViewerProps) {
+export function DirectPDFViewer({
+  file,
+  dataUrl,
+  highlights = [],
+  activeHighlightId = null,
+  onHighlightClick,
+}: DirectPDFViewerProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastFollowedHighlight = useRef<string | null>(null);
   const currentRenderTask = useRef<RenderTask | null>(null);
   const renderQueue = useRef<(() => Promise<void>) | null>(null);
   
@@ -277,6 +296,19 @@ export function DirectPDFViewer({ file, dataUrl }: DirectPDFViewerProps) {
     setRotation(pdfState.rotation - 90);
   }, [pdfState.rotation, setRotation]);
 
+  // Follow the active highlight to its page (editor -> viewer selection)
+  useEffect(() => {
+    if (!activeHighlightId || activeHighlightId === lastFollowedHighlight.current) return;
+    if (!pdfState.document || pdfState.rendering) return;
+
+    const highlight = highlights.find(h => h.id === activeHighlightId);
+    lastFollowedHighlight.current = activeHighlightId;
+
+    if (highlight && highlight.page !== pdfState.currentPage) {
+      goToPage(highlight.page);
+    }
+  }, [activeHighlightId, highlights, pdfState.document, pdfState.rendering, pdfState.currentPage, goToPage]);
+
   // Load PDF when file/dataUrl changes
   useEffect(() => {
     loadPDF();
@@ -440,13 +472,49 @@ export function DirectPDFViewer({ file, dataUrl }: DirectPDFViewerProps) {
 
         {pdfState.document && !pdfState.loading && !pdfState.error && (
           <div className="flex flex-col items-center relative">
-            <canvas
-              ref={canvasRef}
-              className={`border border-gray-300 shadow-lg rounded transition-opacity duration-200 ${
-                pdfState.rendering ? 'opacity-70' : 'opacity-100'
-              }`}
-              style={{ maxWidth: '100%', height: 'auto' }}
-            />
+            <div className="relative">
+              <canvas
+                ref={canvasRef}
+                className={`block border border-gray-300 shadow-lg rounded transition-opacity duration-200 ${
+                  pdfState.rendering ? 'opacity-70' : 'opacity-100'
+                }`}
+                style={{ maxWidth: '100%', height: 'auto' }}
+              />
+
+              {/* Highlight overlay - percentages keep boxes aligned at any zoom */}
+              {pdfState.rotation === 0 && !pdfState.rendering && (
+                <div className="absolute inset-0">
+                  {highlights
+                    .filter(highlight => highlight.page === pdfState.currentPage)
+                    .map(highlight => {
+                      const level = getConfidenceLevel(highlight.confidence);
+                      const isActive = highlight.id === activeHighlightId;
+                      return (
+                        <button
+                          key={highlight.id}
+                          type="button"
+                          onClick={() => onHighlightClick?.(highlight)}
+                          title={`${highlight.label}${
+                            typeof highlight.confidence === 'number'
+                              ? ` • ${Math.round(highlight.confidence * 100)}% confidence`
+                              : ''
+                          }`}
+                          className={`absolute border-2 rounded-sm transition-colors ${HIGHLIGHT_STYLES[level]} ${
+                            highlight.kind === 'section' ? 'border-dashed' : ''
+                          } ${isActive ? 'ring-2 ring-blue-500 ring-offset-1 z-10' : ''}`}
+                          style={{
+                            left: `${highlight.x * 100}%`,
+                            top: `${highlight.y * 100}%`,
+                            width: `${highlight.width * 100}%`,
+                            height: `${highlight.height * 100}%`,
+                          }}
+                          aria-label={highlight.label}
+                        />
+                      );
+                    })}
+                </div>
+              )}
+            </div>
             <div className="mt-4 text-sm text-gray-500 text-center">
               <div>Page {pdfState.currentPage} of {pdfState.totalPages}</div>
               <div className="text-xs mt-1">
@@ -0,0 +1,76 @@
+// CREATED: 2026-10-19 - Where the logo lands in each branding layout
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BRANDING_LAYOUTS, fitLogo, getContentBox, getLogoSafeBox } from '@/lib/branding-layouts';
+
+interface LogoPlacementPreviewProps {
+  logoDataUrl: string;
+  primaryColor: string;
+}
+
+// A4 portrait in points, the geometry PDFBuilder uses
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+
+export function LogoPlacementPreview({ logoDataUrl, primaryColor }: LogoPlacementPreviewProps) {
+  const [logoSize, setLogoSize] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const image = new Image();
+    image.onload = () => {
+      if (!cancelled) setLogoSize({ width: image.naturalWidth || 1, height: image.naturalHeight || 1 });
+    };
+    image.src = logoDataUrl;
+    return () => {
+      cancelled = true;
+    };
+  }, [logoDataUrl]);
+
+  // PDF y runs up from the bottom, SVG y runs down from the top
+  const toSvg = (box: { x: number; y: number; width: number; height: number }) => ({
+    x: box.x,
+    y: PAGE_HEIGHT - box.y - box.height,
+    width: box.width,
+    height: box.height,
+  });
+
+  return (
+    <div>
+      <p className="text-xs font-medium text-gray-700 mb-1">Placement</p>
+      <div className="flex gap-2">
+        {BRANDING_LAYOUTS.map(layout => {
+          const content = toSvg(getContentBox(layout, PAGE_WIDTH, PAGE_HEIGHT));
+          const safeBox = getLogoSafeBox(layout, PAGE_WIDTH, PAGE_HEIGHT);
+          const align = layout.id === 'sidebar' || layout.id === 'corner-badge' ? 'center' : 'left';
+          const logo = logoSize ? toSvg(fitLogo(logoSize.width, logoSize.height, safeBox, align)) : null;
+
+          return (
+            <figure key={layout.id} className="text-center" title={`${layout.name}: dashed box is the logo safe area`}>
+              <svg
+                width={42}
+                height={60}
+                viewBox={`0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}`}
+                className="border border-gray-300 bg-white"
+                aria-label={`Logo placement in the ${layout.name} layout`}
+              >
+                {layout.id === 'header-band' && (
+                  <rect x={0} y={0} width={PAGE_WIDTH} height={layout.headerHeight * PAGE_HEIGHT} fill={primaryColor} opacity={0.25} />
+                )}
+                {layout.id === 'sidebar' && (
+                  <rect x={0} y={0} width={layout.sidebarWidth * PAGE_WIDTH} height={PAGE_HEIGHT} fill={primaryColor} opacity={0.25} />
+                )}
+                <rect {...content} className="fill-gray-200" />
+                <rect {...toSvg(safeBox)} fill="none" stroke="#2563EB" strokeWidth={6} strokeDasharray="16 10" />
+                {logo && <image href={logoDataUrl} {...logo} preserveAspectRatio="none" />}
+              </svg>
+              <figcaption className="text-[10px] text-gray-500 mt-0.5">{layout.name}</figcaption>
+            </figure>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
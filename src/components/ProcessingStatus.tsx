@@ -9,9 +9,13 @@ interface ProcessingStatusProps extends ProcessingStatusType {
   message: string;
   progress?: number;
   details?: string;
+  stages?: Array<{ id: string; label: string }>;
+  currentStage?: string;
 }
 
-export function ProcessingStatus({ status, message, progress, details }: ProcessingStatusProps) {
+export function ProcessingStatus({ status, message, progress, details, stages, currentStage }: ProcessingStatusProps) {
+  const currentStageIndex = stages ? stages.findIndex((stage) => stage.id === currentStage) : -1;
+
   // Helper function to get status icon
   const getStatusIcon = () => {
     switch (status) {
@@ -59,6 +63,27 @@ export function ProcessingStatus({ status, message, progress, details }: Process
           {message && (
             <p className="text-sm text-gray-600 mt-1">{message}</p>
           )}
+          {stages && stages.length > 0 && (
+            <ol className="mt-3 space-y-1">
+              {stages.map((stage, index) => {
+                const isDone = index < currentStageIndex || (index === currentStageIndex && status === 'ready');
+                const isActive = index === currentStageIndex && !isDone;
+                return (
+                  <li
+                    key={stage.id}
+                    className={`flex items-center gap-2 text-xs ${
+                      isDone ? 'text-green-700' : isActive ? 'text-blue-700 font-medium' : 'text-gray-400'
+                    }`}
+                  >
+                    <span className="w-4 text-center">
+                      {isDone ? '✓' : isActive ? '●' : '○'}
+                    </span>
+                    {stage.label}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
           {details && (
             <details className="mt-2">
               <summary className="text-xs text-gray-500 cursor-pointer hover:text-gray-700">
@@ -3,6 +3,7 @@
 import React, { useState, useCallback, useRef, useEffect, useMemo } from "react";
 import { Designer } from "@pdfme/ui";
 import { EducationalTemplate } from "@/types/pdfme-extensions";
+import { BrandKit } from "@/types";
 import { TemplateDefinition } from "@/lib/template-manager";
 import { Dialog, DialogContent, DialogOverlay } from "@radix-ui/react-dialog";
 
@@ -22,6 +23,8 @@ interface TemplateDesignerProps {
   onSave?: (template: EducationalTemplate) => void;
   onPreview?: (template: EducationalTemplate) => void;
   onExport?: (template: EducationalTemplate) => void;
+  brandKit?: BrandKit; // Checked for contrast during validation
+  printEconomy?: boolean; // Preview as it prints on black-and-white copiers
   className?: string;
 }
 
@@ -40,6 +43,8 @@ export function TemplateDesigner({
   onSave,
   onPreview,
   onExport,
+  brandKit,
+  printEconomy = false,
   className = "",
 }: TemplateDesignerProps) {
   // Fixed template data hook with stable references
@@ -77,6 +82,8 @@ export function TemplateDesigner({
     generateSampleData,
     validateTemplate,
     validateData,
+    fixIssues,
+    setCorrectAnswer,
     generatePreview,
     undo,
     redo,
@@ -87,6 +94,8 @@ export function TemplateDesigner({
     autoSaveInterval: 30000, // 30 seconds
     validateOnChange: true,
     enableUndo: true,
+    brandKit,
+    printEconomy,
   });
 
   // UI state (separate from template state to prevent conflicts)
@@ -94,6 +103,13 @@ export function TemplateDesigner({
   const [showTemplateManager, setShowTemplateManager] = useState(false);
   const [showPreviewDialog, setShowPreviewDialog] = useState(false);
   const [previewPdf, setPreviewPdf] = useState<Uint8Array | null>(null);
+  const previewUrl = useMemo(
+    () => (previewPdf && previewPdf.length > 0 ? URL.createObjectURL(new Blob([previewPdf], { type: "application/pdf" })) : null),
+    [previewPdf]
+  );
+  useEffect(() => () => {
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
   const [showShareDialog, setShowShareDialog] = useState(false);
   const [showSettingsDialog, setShowSettingsDialog] = useState(false);
   const [canvasReady, setCanvasReady] = useState(false);
@@ -268,6 +284,20 @@ export function TemplateDesigner({
     updateData(path, value);
   }, [updateData]);
 
+  const handleFixIssues = useCallback((issueIds: string[]) => {
+    const fixed = fixIssues(issueIds);
+    if (fixed && designerInstance) {
+      designerInstance.updateTemplate(fixed);
+    }
+  }, [fixIssues, designerInstance]);
+
+  const handleSetCorrectAnswer = useCallback((issueId: string, value: string) => {
+    const fixed = setCorrectAnswer(issueId, value);
+    if (fixed && designerInstance) {
+      designerInstance.updateTemplate(fixed);
+    }
+  }, [setCorrectAnswer, designerInstance]);
+
   const handleToggleAutoSave = useCallback(() => {
     if (isAutoSaveEnabled) {
       disableAutoSave();
@@ -310,6 +340,8 @@ export function TemplateDesigner({
         onUndo={undo}
         onRedo={redo}
         onValidate={validateTemplate}
+        onFixIssues={handleFixIssues}
+        onSetCorrectAnswer={handleSetCorrectAnswer}
         onDataChange={handleDataChange}
         onToggleAutoSave={handleToggleAutoSave}
       />
@@ -381,10 +413,13 @@ export function TemplateDesigner({
           <DialogContent className="fixed top-[50%] left-[50%] translate-x-[-50%] translate-y-[-50%] w-[90vw] max-w-4xl h-[80vh] bg-white rounded-lg shadow-xl z-50">
             <div className="p-6">
               <h2 className="text-lg font-semibold mb-4">Template Preview</h2>
-              {/* PDF viewer would go here */}
-              <div className="flex items-center justify-center h-96 bg-gray-100 rounded-lg">
-                <p className="text-gray-500">PDF Preview</p>
-              </div>
+              {previewUrl ? (
+                <iframe src={previewUrl} title="Template preview" className="w-full h-[60vh] rounded-lg border" />
+              ) : (
+                <div className="flex items-center justify-center h-96 bg-gray-100 rounded-lg">
+                  <p className="text-gray-500">PDF Preview</p>
+                </div>
+              )}
               <div className="flex justify-end mt-4">
                 <button
                   onClick={() => setShowPreviewDialog(false)}
@@ -1,4 +1,6 @@
 // CREATED: 2025-07-04 - Template Designer Dialog Component
+// UPDATED: 2026-10-19 - Active brand kit passed to the designer's validation
+// UPDATED: 2026-10-19 - Print-economy setting passed to the designer's preview
 
 "use client";
 
@@ -8,6 +10,7 @@ import { XIcon } from "lucide-react";
 import { TemplateDesigner } from "./TemplateDesigner";
 import { GeminiAnalysisResponse } from "@/types/gemini";
 import { EducationalTemplate } from "@/types/pdfme-extensions";
+import { BrandKit } from "@/types";
 
 interface TemplateDesignerDialogProps {
   isOpen: boolean;
@@ -15,6 +18,8 @@ interface TemplateDesignerDialogProps {
   initialTemplate?: EducationalTemplate;
   onSave?: (template: EducationalTemplate) => void;
   onPreview?: (template: EducationalTemplate) => void;
+  brandKit?: BrandKit;
+  printEconomy?: boolean;
 }
 
 export function TemplateDesignerDialog({
@@ -23,6 +28,8 @@ export function TemplateDesignerDialog({
   geminiAnalysis,
   onSave,
   onPreview,
+  brandKit,
+  printEconomy,
 }: TemplateDesignerDialogProps) {
   const handleSave = (template: EducationalTemplate) => {
     if (onSave) {
@@ -63,6 +70,8 @@ export function TemplateDesignerDialog({
               // initialTemplate={initialTemplate}
               onSave={handleSave}
               onPreview={handlePreview}
+              brandKit={brandKit}
+              printEconomy={printEconomy}
               className="h-full"
             />
           </div>
@@ -1,8 +1,17 @@
 // UPDATED: 2025-07-04 - Enhanced layout with improved Radix UI Tabs for better UX
+// UPDATED: 2026-10-19 - Clickable question/section boxes on the original PDF
+// UPDATED: 2026-10-19 - Low-confidence review queue gating generation
+// UPDATED: 2026-10-19 - Text-layer hallucination guard for extracted questions
+// UPDATED: 2026-10-19 - Brand kit picker before generation
+// UPDATED: 2026-10-19 - Per-recipient watermark copies
+// UPDATED: 2026-10-19 - Print-economy toggle
+// UPDATED: 2026-10-19 - Answer key toggle
+// UPDATED: 2026-10-19 - Template designer validates against the selected brand kit and previews in print economy
+// UPDATED: 2026-10-19 - Source text check debounced and cached per question
 
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import {
   GeminiAnalysisResponse,
   ExtractedQuestion,
@@ -10,8 +19,21 @@ import {
 } from "@/types/gemini";
 import { EnhancedDocumentSection, ContentType } from "@/types/editor";
 import { DirectPDFViewer } from "./DirectPDFViewer";
+import { PDFHighlight, buildPDFHighlights } from "@/lib/position-overlay";
+import {
+  ReviewItem,
+  buildReviewQueue,
+  getReviewProgress,
+  DEFAULT_REVIEW_THRESHOLD,
+} from "@/lib/review-queue";
+import { extractPDFTextPages } from "@/lib/pdf-text-layer";
+import {
+  SourceTextGuard,
+  SourceTextReport,
+  mergeSourceWarnings,
+} from "@/lib/source-text-guard";
 import { contentFormatter } from "./editor/ContentFormatter";
-import { SectionsTab, QuestionsTab, OverviewTab } from "./verification";
+import { SectionsTab, QuestionsTab, OverviewTab, ReviewQueueTab } from "./verification";
 import * as Tabs from "@radix-ui/react-tabs";
 import {
   FileTextIcon,
@@ -21,11 +43,18 @@ import {
   CheckCircleIcon,
   AlertCircleIcon,
   InfoIcon,
+  ShieldAlertIcon,
 } from "lucide-react";
 import { Button } from "./ui/button";
 import { TemplateDesignerDialog } from "./TemplateDesignerDialog";
+import { BrandKitPicker } from "./BrandKitPicker";
+import { BrandingLayoutPicker } from "./BrandingLayoutPicker";
+import { BrandingLayoutId } from "@/lib/branding-layouts";
+import { AnswerKeySettings, DEFAULT_ANSWER_KEY_SETTINGS } from "@/lib/answer-key";
+import { SavedBrandKit } from "@/types";
 
-
+// Pause after the last edit before questions are re-checked against the PDF text
+const SOURCE_CHECK_DEBOUNCE_MS = 400;
 
 interface VerificationUIProps {
   file: File;
@@ -34,6 +63,18 @@ interface VerificationUIProps {
   onApprove: () => void;
   onReject: () => void;
   isProcessing?: boolean;
+  brandKits?: SavedBrandKit[];
+  selectedBrandKitId?: string | null;
+  defaultBrandKitId?: string | null;
+  onBrandKitChange?: (kitId: string) => void;
+  brandingLayout?: BrandingLayoutId;
+  onBrandingLayoutChange?: (layout: BrandingLayoutId) => void;
+  watermarkRecipients?: string; // Comma-separated names, one traceable copy each
+  onWatermarkRecipientsChange?: (recipients: string) => void;
+  printEconomy?: boolean;
+  onPrintEconomyChange?: (enabled: boolean) => void;
+  answerKeySettings?: AnswerKeySettings;
+  onAnswerKeySettingsChange?: (settings: AnswerKeySettings) => void;
 }
 
 export function VerificationUI({
@@ -43,6 +84,18 @@ export function VerificationUI({
   onApprove,
   onReject,
   isProcessing = false,
+  brandKits = [],
+  selectedBrandKitId = null,
+  defaultBrandKitId = null,
+  onBrandKitChange,
+  brandingLayout,
+  onBrandingLayoutChange,
+  watermarkRecipients = "",
+  onWatermarkRecipientsChange,
+  printEconomy = false,
+  onPrintEconomyChange,
+  answerKeySettings = DEFAULT_ANSWER_KEY_SETTINGS,
+  onAnswerKeySettingsChange,
 }: VerificationUIProps) {
   const [editedResult, setEditedResult] =
     useState<GeminiAnalysisResponse>(analysisResult);
@@ -51,9 +104,25 @@ export function VerificationUI({
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
   const [activeSection, setActiveSection] = useState<string | null>(null);
+  const [activeQuestion, setActiveQuestion] = useState<string | null>(null);
+  const [showHighlights, setShowHighlights] = useState(true);
   const [activeTab, setActiveTab] = useState<
-    "sections" | "questions" | "overview"
-  >("sections");
+    "review" | "sections" | "questions" | "overview"
+  >(() =>
+    // Start on the queue when there is something to triage
+    buildReviewQueue(
+      analysisResult.extractedQuestions,
+      analysisResult.documentStructure.sections
+    ).length > 0
+      ? "review"
+      : "sections"
+  );
+  const [reviewThreshold, setReviewThreshold] = useState(
+    DEFAULT_REVIEW_THRESHOLD
+  );
+  const [verifiedItems, setVerifiedItems] = useState<Set<string>>(new Set());
+  const [sourceText, setSourceText] = useState<string | null>(null);
+  const [sourceReport, setSourceReport] = useState<SourceTextReport | null>(null);
   const [collapsedSections, setCollapsedSections] = useState<Set<string>>(
     new Set()
   );
@@ -70,6 +139,44 @@ export function VerificationUI({
     return () => URL.revokeObjectURL(url);
   }, [file]);
 
+  // Read the PDF text layer once for the hallucination guard
+  useEffect(() => {
+    let cancelled = false;
+    setSourceText(null);
+
+    extractPDFTextPages(file)
+      .then((pages) => {
+        if (!cancelled) setSourceText(pages.join("\n"));
+      })
+      .catch((error) => {
+        console.warn("⚠️ Source text check unavailable:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  // Index the source once; scanned PDFs have no text layer
+  const sourceGuard = useMemo(
+    () => (sourceText?.trim() ? new SourceTextGuard(sourceText) : null),
+    [sourceText]
+  );
+
+  // Re-check questions once typing pauses; unchanged questions come from the guard's cache
+  useEffect(() => {
+    if (!sourceGuard) {
+      setSourceReport(null);
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      setSourceReport(sourceGuard.check(editedResult.extractedQuestions));
+    }, SOURCE_CHECK_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [sourceGuard, editedResult.extractedQuestions]);
+
   // Validate content and update errors
   const validateContent = useCallback(() => {
     const errors: string[] = [];
@@ -170,16 +277,61 @@ export function VerificationUI({
     []
   );
 
+  // Low-confidence items, least confident first
+  const reviewQueue = useMemo(
+    () =>
+      buildReviewQueue(
+        editedResult.extractedQuestions,
+        editedResult.documentStructure.sections,
+        reviewThreshold
+      ),
+    [
+      editedResult.extractedQuestions,
+      editedResult.documentStructure.sections,
+      reviewThreshold,
+    ]
+  );
+  const reviewProgress = getReviewProgress(reviewQueue, verifiedItems);
+
+  const toggleVerified = useCallback((verifyKey: string) => {
+    setVerifiedItems((prev) => {
+      const newSet = new Set(prev);
+      if (newSet.has(verifyKey)) {
+        newSet.delete(verifyKey);
+      } else {
+        newSet.add(verifyKey);
+      }
+      return newSet;
+    });
+  }, []);
+
   // Handle content approval
   const handleApprove = useCallback(() => {
     if (validationErrors.length > 0) {
       alert("Please fix validation errors before proceeding");
       return;
     }
+    if (!reviewProgress.complete) {
+      alert(
+        `Please verify the ${reviewProgress.remaining} low-confidence items in the Review tab before proceeding`
+      );
+      setActiveTab("review");
+      return;
+    }
 
     // Update the analysis result with enhanced sections
     const updatedResult = {
       ...editedResult,
+      ...(editedResult.processingInfo && {
+        processingInfo: {
+          ...editedResult.processingInfo,
+          // Fresh check so edits made within the debounce window are covered
+          warnings: mergeSourceWarnings(
+            editedResult.processingInfo.warnings,
+            sourceGuard?.check(editedResult.extractedQuestions) ?? null
+          ),
+        },
+      }),
       documentStructure: {
         ...editedResult.documentStructure,
         sections: enhancedSections.map((section) => ({
@@ -197,6 +349,8 @@ export function VerificationUI({
     editedResult,
     enhancedSections,
     validationErrors,
+    reviewProgress,
+    sourceGuard,
     onContentUpdated,
     onApprove,
   ]);
@@ -216,6 +370,41 @@ export function VerificationUI({
     onReject();
   }, [hasUnsavedChanges, onReject]);
 
+  // Boxes for every positioned question and section on the original PDF
+  const highlights = useMemo(
+    () =>
+      buildPDFHighlights(
+        editedResult.extractedQuestions,
+        editedResult.documentStructure.sections
+      ),
+    [editedResult.extractedQuestions, editedResult.documentStructure.sections]
+  );
+
+  // The box for whatever is selected in the visible editor tab
+  const activeHighlightId =
+    activeTab === "questions"
+      ? activeQuestion
+      : activeTab === "sections"
+      ? activeSection
+      : null;
+
+  // Jump from a box on the PDF (or a review queue entry) to its editor
+  const handleHighlightClick = useCallback((highlight: Pick<PDFHighlight, "id" | "kind">) => {
+    if (highlight.kind === "question") {
+      setActiveQuestion(highlight.id);
+      setActiveTab("questions");
+    } else {
+      setActiveSection(highlight.id);
+      setActiveTab("sections");
+      setCollapsedSections((prev) => {
+        if (!prev.has(highlight.id)) return prev;
+        const newSet = new Set(prev);
+        newSet.delete(highlight.id);
+        return newSet;
+      });
+    }
+  }, []);
+
   // Toggle section collapse
   const toggleSectionCollapse = useCallback((sectionId: string) => {
     setCollapsedSections((prev) => {
@@ -286,6 +475,17 @@ export function VerificationUI({
                 <div className="text-xs text-gray-500">Issues</div>
               </div>
             )}
+            {sourceReport && sourceReport.flaggedCount > 0 && (
+              <div
+                className="text-center"
+                title="Questions whose text does not match the original PDF"
+              >
+                <div className="text-2xl font-bold text-orange-600">
+                  {sourceReport.flaggedCount}
+                </div>
+                <div className="text-xs text-gray-500">Source diffs</div>
+              </div>
+            )}
           </div>
         </div>
 
@@ -324,9 +524,46 @@ export function VerificationUI({
                 {file.name} • {(file.size / 1024 / 1024).toFixed(1)}MB
               </span>
             </div>
+            {highlights.length > 0 && (
+              <div className="flex items-center justify-between mt-2 text-xs text-gray-600">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showHighlights}
+                    onChange={(e) => setShowHighlights(e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  Show extracted content ({highlights.length})
+                </label>
+                <div className="flex items-center gap-3">
+                  <span className="flex items-center gap-1">
+                    <span className="w-3 h-3 border-2 border-green-500 rounded-sm" />
+                    High
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <span className="w-3 h-3 border-2 border-amber-500 rounded-sm" />
+                    Medium
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <span className="w-3 h-3 border-2 border-red-500 rounded-sm" />
+                    Low
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <span className="w-3 h-3 border-2 border-dashed border-gray-500 rounded-sm" />
+                    Section
+                  </span>
+                </div>
+              </div>
+            )}
           </div>
           <div className="h-[600px]">
-            <DirectPDFViewer file={file} dataUrl={pdfUrl} />
+            <DirectPDFViewer
+              file={file}
+              dataUrl={pdfUrl}
+              highlights={showHighlights ? highlights : []}
+              activeHighlightId={activeHighlightId}
+              onHighlightClick={handleHighlightClick}
+            />
           </div>
         </div>
 
@@ -339,6 +576,24 @@ export function VerificationUI({
             className="flex flex-col flex-grow h-full"
           >
             <Tabs.List className="flex-shrink-0 border-b border-gray-200 bg-gray-50">
+              <Tabs.Trigger
+                value="review"
+                className="flex-1 px-4 py-3 text-sm font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-100 data-[state=active]:text-blue-600 data-[state=active]:bg-white data-[state=active]:border-b-2 data-[state=active]:border-blue-600 transition-colors"
+              >
+                <div className="flex items-center justify-center gap-2">
+                  <ShieldAlertIcon className="w-4 h-4" />
+                  <span>Review</span>
+                  <span
+                    className={`px-2 py-1 text-xs rounded-full ${
+                      reviewProgress.complete
+                        ? "bg-green-100 text-green-600"
+                        : "bg-amber-100 text-amber-700"
+                    }`}
+                  >
+                    {reviewProgress.verified}/{reviewProgress.flagged}
+                  </span>
+                </div>
+              </Tabs.Trigger>
               <Tabs.Trigger
                 value="sections"
                 className="flex-1 px-4 py-3 text-sm font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-100 data-[state=active]:text-blue-600 data-[state=active]:bg-white data-[state=active]:border-b-2 data-[state=active]:border-blue-600 transition-colors"
@@ -379,6 +634,19 @@ export function VerificationUI({
 
             {/* Tab Content */}
 
+            {/* Review Queue Tab */}
+            <Tabs.Content value="review" className="flex flex-col h-full">
+              <ReviewQueueTab
+                reviewQueue={reviewQueue}
+                reviewProgress={reviewProgress}
+                verifiedItems={verifiedItems}
+                onToggleVerified={toggleVerified}
+                onOpenItem={(item: ReviewItem) => handleHighlightClick(item)}
+                threshold={reviewThreshold}
+                onThresholdChange={setReviewThreshold}
+              />
+            </Tabs.Content>
+
             {/* Sections Tab */}
             <Tabs.Content
               value="sections"
@@ -403,6 +671,9 @@ export function VerificationUI({
                 onQuestionUpdate={handleQuestionUpdate}
                 validQuestions={validQuestions}
                 totalQuestions={totalQuestions}
+                activeQuestion={activeQuestion}
+                setActiveQuestion={setActiveQuestion}
+                sourceChecks={sourceReport?.questions}
               />
             </Tabs.Content>
 
@@ -416,6 +687,8 @@ export function VerificationUI({
                 validSections={validSections}
                 validQuestions={validQuestions}
                 validationErrors={validationErrors}
+                reviewProgress={reviewProgress}
+                reviewThreshold={reviewThreshold}
               />
             </Tabs.Content>
           </Tabs.Root>
@@ -445,6 +718,11 @@ export function VerificationUI({
               isOpen={showTemplateSystem}
               onOpenChange={setShowTemplateSystem}
               geminiAnalysis={analysisResult}
+              brandKit={
+                brandKits.find((kit) => kit.id === selectedBrandKitId) ||
+                brandKits.find((kit) => kit.id === defaultBrandKitId)
+              }
+              printEconomy={printEconomy}
               onSave={(template) => {
                 // Handle template save
                 console.log('Template saved:', template);
@@ -457,6 +735,69 @@ export function VerificationUI({
           </div>
 
           <div className="flex items-center gap-3">
+            {onBrandKitChange && (
+              <BrandKitPicker
+                kits={brandKits}
+                selectedKitId={selectedBrandKitId}
+                defaultKitId={defaultBrandKitId}
+                onChange={onBrandKitChange}
+                disabled={isProcessing}
+              />
+            )}
+            {brandingLayout && onBrandingLayoutChange && (
+              <BrandingLayoutPicker
+                value={brandingLayout}
+                onChange={onBrandingLayoutChange}
+                disabled={isProcessing}
+              />
+            )}
+            {onWatermarkRecipientsChange && (
+              <input
+                type="text"
+                value={watermarkRecipients}
+                onChange={(e) => onWatermarkRecipientsChange(e.target.value)}
+                disabled={isProcessing}
+                aria-label="Watermark recipients"
+                title="One watermarked copy per comma-separated name, filling {recipient} in the watermark"
+                placeholder="Recipients (optional)"
+                className="w-48 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50"
+              />
+            )}
+            {onPrintEconomyChange && (
+              <label
+                className="flex items-center gap-2 text-sm text-gray-600"
+                title="Greys and outlines instead of colour bands, for black-and-white photocopiers"
+              >
+                <input
+                  type="checkbox"
+                  checked={printEconomy}
+                  onChange={(e) => onPrintEconomyChange(e.target.checked)}
+                  disabled={isProcessing}
+                  className="rounded border-gray-300"
+                />
+                Print economy
+              </label>
+            )}
+            {onAnswerKeySettingsChange && (
+              <label
+                className="flex items-center gap-2 text-sm text-gray-600"
+                title="Also generate a teacher copy with the answers filled in"
+              >
+                <input
+                  type="checkbox"
+                  checked={answerKeySettings.includeAnswerKey}
+                  onChange={(e) =>
+                    onAnswerKeySettingsChange({
+                      ...answerKeySettings,
+                      includeAnswerKey: e.target.checked,
+                    })
+                  }
+                  disabled={isProcessing}
+                  className="rounded border-gray-300"
+                />
+                Answer key
+              </label>
+            )}
             <button
               onClick={handleReject}
               disabled={isProcessing}
@@ -466,7 +807,11 @@ export function VerificationUI({
             </button>
             <button
               onClick={handleApprove}
-              disabled={isProcessing || validationErrors.length > 0}
+              disabled={
+                isProcessing ||
+                validationErrors.length > 0 ||
+                !reviewProgress.complete
+              }
               className="px-6 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
             >
               {isProcessing ? (
@@ -0,0 +1,73 @@
+// CREATED: 2026-10-19 - Inline diff of an extracted question against the source PDF text
+
+'use client';
+
+import React from 'react';
+import { QuestionSourceCheck, SourceMatch } from '@/lib/source-text-guard';
+
+interface SourceDiffProps {
+  check: QuestionSourceCheck;
+  showAll?: boolean; // Also list matches that passed
+}
+
+export function SourceDiff({ check, showAll = false }: SourceDiffProps) {
+  const matches = showAll
+    ? check.matches
+    : check.matches.filter(match => match.missingWords.length > 0 || match.diff.some(token => token.op !== 'equal'));
+
+  return (
+    <div
+      className={`rounded-md border p-3 text-sm ${
+        check.flagged ? 'border-red-200 bg-red-50' : 'border-green-200 bg-green-50'
+      }`}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <span className={`font-medium ${check.flagged ? 'text-red-800' : 'text-green-800'}`}>
+          {check.flagged ? '⚠ Differs from source PDF' : '✓ Matches source PDF'}
+        </span>
+        <span className="text-xs text-gray-600">
+          {Math.round(check.similarity * 100)}% similar
+        </span>
+      </div>
+
+      {matches.length > 0 && (
+        <div className="space-y-2">
+          {matches.map(match => (
+            <SourceMatchDiff key={`${match.field}-${match.optionIndex ?? 0}`} match={match} />
+          ))}
+          <p className="text-xs text-gray-500">
+            <span className="bg-red-200 text-red-900 px-1 rounded">added</span> not in the PDF •{' '}
+            <span className="line-through text-gray-500">removed</span> in the PDF but missing here
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SourceMatchDiff({ match }: { match: SourceMatch }) {
+  const label = match.field === 'content'
+    ? 'Question'
+    : `Option ${String.fromCharCode(65 + (match.optionIndex || 0))}`;
+
+  return (
+    <div>
+      <div className="text-xs text-gray-500 mb-1">
+        {label} • {Math.round(match.similarity * 100)}%
+      </div>
+      <p className="leading-relaxed text-gray-800">
+        {match.diff.map((token, index) => (
+          <React.Fragment key={index}>
+            {token.op === 'equal' && <span>{token.text}</span>}
+            {token.op === 'added' && (
+              <span className="bg-red-200 text-red-900 px-0.5 rounded">{token.text}</span>
+            )}
+            {token.op === 'removed' && (
+              <span className="line-through text-gray-400">{token.text}</span>
+            )}{' '}
+          </React.Fragment>
+        ))}
+      </p>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@
 export { SectionEditor } from './SectionEditor';
 export { EditorToolbar } from './EditorToolbar';
 export { ContentTypeEditor } from './ContentTypeEditor';
+export { SourceDiff } from './SourceDiff';
 
 // Utilities
 export { ContentFormatterImpl, contentFormatter, formatContent } from './ContentFormatter';
@@ -1,8 +1,10 @@
 // CREATED: 2025-07-04 - Complete sidebar with tabs for template designer
+// UPDATED: 2026-10-19 - Fix and Fix all buttons for auto-fixable validation issues
+// UPDATED: 2026-10-19 - Correct answers picked per question instead of by Fix all
 
 'use client';
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { 
   Layers, 
   Settings, 
@@ -18,14 +20,15 @@ import {
   ChevronDown,
   ChevronRight,
   Badge,
-  Save
+  Save,
+  Wrench
 } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@radix-ui/react-collapsible';
 import { EducationalTemplate } from '@/types/pdfme-extensions';
 import { TemplateDefinition } from '@/lib/template-manager';
 import { DataBinding } from '@/lib/data-binding';
-import { ValidationReport } from '@/lib/template-validator';
+import { ValidationReport, templateValidator } from '@/lib/template-validator';
 import { EducationalBlock } from './BlockLibrary';
 import BlockLibrary from './BlockLibrary';
 
@@ -46,6 +49,8 @@ interface DesignerSidebarProps {
   onUndo?: () => void;
   onRedo?: () => void;
   onValidate?: () => void;
+  onFixIssues?: (issueIds: string[]) => void;
+  onSetCorrectAnswer?: (issueId: string, value: string) => void;
   onDataChange?: (path: string, value: any) => void;
   onToggleAutoSave?: () => void;
   className?: string;
@@ -68,6 +73,8 @@ export function DesignerSidebar({
   onUndo,
   onRedo,
   onValidate,
+  onFixIssues,
+  onSetCorrectAnswer,
   onDataChange,
   onToggleAutoSave,
   className = ''
@@ -90,6 +97,11 @@ export function DesignerSidebar({
     onMetadataChange({ [field]: value });
   }, [onMetadataChange]);
 
+  const fixableIssueIds = useMemo(
+    () => validation?.issues.filter(issue => templateValidator.canFixInBulk(issue)).map(issue => issue.id) ?? [],
+    [validation]
+  );
+
   const handleDataUpdate = useCallback((path: string, value: any) => {
     onDataChange?.(path, value);
   }, [onDataChange]);
@@ -323,17 +335,28 @@ export function DesignerSidebar({
                   </CollapsibleTrigger>
                   <CollapsibleContent className="mt-2">
                     <div className="space-y-2">
-                      <div className="text-sm">
-                        <span className="font-medium">Score: </span>
-                        <span className={validation.score >= 80 ? 'text-green-600' : validation.score >= 60 ? 'text-yellow-600' : 'text-red-600'}>
-                          {validation.score}/100
-                        </span>
+                      <div className="flex items-center justify-between text-sm">
+                        <div>
+                          <span className="font-medium">Score: </span>
+                          <span className={validation.score >= 80 ? 'text-green-600' : validation.score >= 60 ? 'text-yellow-600' : 'text-red-600'}>
+                            {validation.score}/100
+                          </span>
+                        </div>
+                        {onFixIssues && fixableIssueIds.length > 0 && (
+                          <button
+                            onClick={() => onFixIssues(fixableIssueIds)}
+                            className="flex items-center gap-1 px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+                          >
+                            <Wrench className="w-3 h-3" />
+                            Fix all ({fixableIssueIds.length})
+                          </button>
+                        )}
                       </div>
                       
                       {validation.issues.length > 0 && (
                         <div className="space-y-1">
                           {validation.issues.slice(0, 5).map((issue, index) => (
-                            <div key={index} className="flex items-start gap-2 p-2 bg-gray-50 rounded text-xs">
+                            <div key={issue.id || index} className="flex items-start gap-2 p-2 bg-gray-50 rounded text-xs">
                               {issue.severity === 'error' ? (
                                 <AlertTriangle className="w-3 h-3 text-red-500 mt-0.5 flex-shrink-0" />
                               ) : issue.severity === 'warning' ? (
@@ -341,7 +364,32 @@ export function DesignerSidebar({
                               ) : (
                                 <Info className="w-3 h-3 text-blue-500 mt-0.5 flex-shrink-0" />
                               )}
-                              <span className="text-gray-700">{issue.message}</span>
+                              <div className="flex-1 min-w-0">
+                                <span className="text-gray-700">{issue.message}</span>
+                                {onSetCorrectAnswer && issue.answerChoices && issue.answerChoices.length > 0 && (
+                                  <select
+                                    value=""
+                                    onChange={(e) => e.target.value && onSetCorrectAnswer(issue.id, e.target.value)}
+                                    className="mt-1 w-full border border-gray-300 rounded px-1 py-0.5 text-xs"
+                                    aria-label="Correct answer"
+                                  >
+                                    <option value="">Pick the correct answer…</option>
+                                    {issue.answerChoices.map((choice) => (
+                                      <option key={choice.value} value={choice.value}>
+                                        {choice.label}
+                                      </option>
+                                    ))}
+                                  </select>
+                                )}
+                              </div>
+                              {onFixIssues && templateValidator.canFix(issue) && (
+                                <button
+                                  onClick={() => onFixIssues([issue.id])}
+                                  className="px-1.5 py-0.5 text-blue-600 rounded hover:bg-blue-50 transition-colors flex-shrink-0"
+                                >
+                                  Fix
+                                </button>
+                              )}
                             </div>
                           ))}
                           {validation.issues.length > 5 && (
@@ -0,0 +1,315 @@
+// CREATED: 2026-10-19 - Revision list for a template with structural diff, restore and branch
+
+'use client';
+
+import React, { useState, useCallback, useEffect } from 'react';
+import { History, RotateCcw, GitBranch, X, AlertCircle } from 'lucide-react';
+import { Dialog, DialogContent } from '@radix-ui/react-dialog';
+import { templateManager, TemplateDefinition, TemplateMetadata } from '@/lib/template-manager';
+import { TemplateDiff, TemplateRevisionSummary, isEmptyDiff } from '@/lib/template-history';
+
+interface TemplateHistoryProps {
+  template: TemplateMetadata | null;
+  onClose: () => void;
+  onRestored?: (template: TemplateDefinition) => void;
+  onBranched?: (template: TemplateDefinition) => void;
+  onError?: (error: unknown, fallback: string) => void;
+}
+
+type CompareWith = 'previous' | 'current';
+
+export function TemplateHistory({
+  template,
+  onClose,
+  onRestored,
+  onBranched,
+  onError,
+}: TemplateHistoryProps) {
+  const [revisions, setRevisions] = useState<TemplateRevisionSummary[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [compareWith, setCompareWith] = useState<CompareWith>('previous');
+  const [diff, setDiff] = useState<TemplateDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const templateId = template?.id;
+
+  const loadRevisions = useCallback(async () => {
+    if (!templateId) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const list = await templateManager.getRevisions(templateId);
+      setRevisions(list);
+      setSelected(list[0]?.revision ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  }, [templateId]);
+
+  useEffect(() => {
+    setRevisions([]);
+    setDiff(null);
+    loadRevisions();
+  }, [loadRevisions]);
+
+  // Diff the selected revision against its predecessor or the saved template
+  useEffect(() => {
+    if (!templateId || selected === null) {
+      setDiff(null);
+      return;
+    }
+
+    let cancelled = false;
+    const compute = async () => {
+      try {
+        const result = compareWith === 'current'
+          ? await templateManager.diffRevisions(templateId, selected)
+          : selected > 1
+            ? await templateManager.diffRevisions(templateId, selected - 1, selected)
+            : null;
+        if (!cancelled) setDiff(result);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to compare revisions');
+      }
+    };
+    compute();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [templateId, selected, compareWith]);
+
+  const handleRestore = useCallback(async () => {
+    if (!templateId || selected === null) return;
+    if (!confirm(`Restore revision ${selected}? The current content stays in the history.`)) return;
+
+    try {
+      setBusy(true);
+      const restored = await templateManager.restoreRevision(templateId, selected);
+      onRestored?.(restored);
+      await loadRevisions();
+    } catch (err) {
+      onError?.(err, 'Failed to restore revision');
+    } finally {
+      setBusy(false);
+    }
+  }, [templateId, selected, onRestored, onError, loadRevisions]);
+
+  const handleBranch = useCallback(async () => {
+    if (!templateId || !template || selected === null) return;
+    const name = prompt('Name for the new template:', `${template.name} (revision ${selected})`);
+    if (!name) return;
+
+    try {
+      setBusy(true);
+      const branched = await templateManager.branchFromRevision(templateId, selected, name);
+      onBranched?.(branched);
+    } catch (err) {
+      onError?.(err, 'Failed to branch from revision');
+    } finally {
+      setBusy(false);
+    }
+  }, [templateId, template, selected, onBranched, onError]);
+
+  const formatDateTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+  return (
+    <Dialog open={!!template} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-white rounded-lg w-full max-w-3xl max-h-[80vh] flex flex-col shadow-lg border border-gray-200">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <History className="w-5 h-5 text-gray-500" />
+            History: {template?.name}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-4 mt-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2">
+            <AlertCircle className="w-4 h-4 text-red-600" />
+            <span className="text-sm text-red-700">{error}</span>
+          </div>
+        )}
+
+        <div className="flex flex-1 min-h-0">
+          {/* Revision list */}
+          <div className="w-64 border-r border-gray-200 overflow-y-auto">
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+              </div>
+            ) : revisions.length === 0 ? (
+              <p className="p-4 text-sm text-gray-500">No revisions yet. One is recorded each time the template is saved.</p>
+            ) : (
+              revisions.map((revision) => (
+                <button
+                  key={revision.revision}
+                  onClick={() => setSelected(revision.revision)}
+                  className={`w-full px-4 py-3 text-left border-b border-gray-100 transition-colors ${
+                    selected === revision.revision ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium text-gray-900">#{revision.revision}</span>
+                    <span className="text-xs text-gray-500">v{revision.version}</span>
+                  </div>
+                  <div className="text-xs text-gray-500">{formatDateTime(revision.createdAt)}</div>
+                  {revision.message && (
+                    <div className="text-xs text-gray-700 truncate mt-0.5">{revision.message}</div>
+                  )}
+                  <div className="text-xs text-gray-400 mt-0.5">
+                    {revision.pageCount} page{revision.pageCount === 1 ? '' : 's'} · {revision.schemaCount} field{revision.schemaCount === 1 ? '' : 's'}
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+
+          {/* Diff */}
+          <div className="flex-1 flex flex-col min-w-0">
+            <div className="flex items-center gap-2 p-4 border-b border-gray-200">
+              <span className="text-sm text-gray-600">Compare with</span>
+              <select
+                value={compareWith}
+                onChange={(e) => setCompareWith(e.target.value as CompareWith)}
+                className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="previous">Previous revision</option>
+                <option value="current">Saved template</option>
+              </select>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4">
+              {selected === null ? null : compareWith === 'previous' && selected === 1 ? (
+                <p className="text-sm text-gray-500">First revision; nothing to compare with.</p>
+              ) : diff ? (
+                <RevisionDiff
+                  diff={diff}
+                  emptyText={compareWith === 'current' ? 'Same content as the saved template.' : 'No content changes.'}
+                />
+              ) : null}
+            </div>
+
+            <div className="flex items-center gap-2 p-4 border-t border-gray-200">
+              <button
+                onClick={handleBranch}
+                disabled={selected === null || busy}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <GitBranch className="w-4 h-4" />
+                Branch
+              </button>
+              <button
+                onClick={handleRestore}
+                disabled={selected === null || busy}
+                className="ml-auto flex items-center gap-2 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Restore revision {selected ?? ''}
+              </button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Diff grouped by page
+function RevisionDiff({ diff, emptyText }: { diff: TemplateDiff; emptyText: string }) {
+  if (isEmptyDiff(diff)) {
+    return <p className="text-sm text-gray-500">{emptyText}</p>;
+  }
+
+  const pageCount = Math.max(diff.pagesBefore, diff.pagesAfter);
+  const pages = Array.from({ length: pageCount }, (_, page) => ({
+    page,
+    added: diff.added.filter((schema) => schema.page === page),
+    removed: diff.removed.filter((schema) => schema.page === page),
+    moved: diff.moved.filter((move) => move.to.page === page),
+    changed: diff.changed.filter((change) => change.page === page),
+  })).filter((page) => page.added.length + page.removed.length + page.moved.length + page.changed.length > 0);
+
+  return (
+    <div className="space-y-4 text-sm">
+      {(diff.pagesBefore !== diff.pagesAfter || diff.basePdfChanged || diff.dataBindingsChanged) && (
+        <ul className="space-y-1 text-gray-700">
+          {diff.pagesBefore !== diff.pagesAfter && (
+            <li>Pages: {diff.pagesBefore} → {diff.pagesAfter}</li>
+          )}
+          {diff.basePdfChanged && <li>Base PDF or page size changed</li>}
+          {diff.dataBindingsChanged && <li>Data bindings changed</li>}
+        </ul>
+      )}
+
+      {pages.map(({ page, added, removed, moved, changed }) => (
+        <div key={page}>
+          <h4 className="font-medium text-gray-900 mb-1">Page {page + 1}</h4>
+          <ul className="space-y-1">
+            {added.map((schema) => (
+              <li key={`added-${schema.name}`} className="text-green-700">
+                + {schema.name}{schema.type && <span className="text-gray-400"> ({schema.type})</span>}
+              </li>
+            ))}
+            {removed.map((schema) => (
+              <li key={`removed-${schema.name}`} className="text-red-700">
+                − {schema.name}{schema.type && <span className="text-gray-400"> ({schema.type})</span>}
+              </li>
+            ))}
+            {moved.map((move) => (
+              <li key={`moved-${move.name}`} className="text-amber-700">
+                ↕ {move.name}:{' '}
+                {move.from.page !== move.to.page
+                  ? `from page ${move.from.page + 1}`
+                  : `position ${move.from.index + 1} → ${move.to.index + 1}`}
+              </li>
+            ))}
+            {changed.map((change) => (
+              <li key={`changed-${change.name}-${change.property}`} className="text-gray-700">
+                ~ {change.name}.{change.property}:{' '}
+                <span className="text-red-700">{formatValue(change.before)}</span>
+                {' → '}
+                <span className="text-green-700">{formatValue(change.after)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '—';
+  if (typeof value === 'string') {
+    if (value.startsWith('data:')) return '[embedded file]';
+    return value.length > 40 ? `"${value.slice(0, 40)}…"` : `"${value}"`;
+  }
+  if (typeof value === 'object') {
+    const position = value as { x?: unknown; y?: unknown };
+    if (typeof position.x === 'number' && typeof position.y === 'number' && Object.keys(value).length === 2) {
+      return `(${position.x}, ${position.y})`;
+    }
+    const text = JSON.stringify(value);
+    return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+  }
+  return String(value);
+}
+
+export default TemplateHistory;
@@ -1,4 +1,7 @@
 // CREATED: 2025-07-04 - Template management interface for CRUD operations
+// UPDATED: 2026-10-19 - Storage-full errors shown distinctly
+// UPDATED: 2026-10-19 - Revision history with diff, restore and branch
+// UPDATED: 2026-10-19 - .docubrand package export/import with conflict options
 
 'use client';
 
@@ -24,11 +27,18 @@ import {
   X,
   CheckCircle,
   AlertCircle,
-  Settings
+  Settings,
+  History,
+  Package,
+  Info
 } from 'lucide-react';
 import { Dialog, DialogContent, DialogTrigger } from '@radix-ui/react-dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { templateManager, TemplateDefinition, TemplateMetadata } from '@/lib/template-manager';
+import { templateManager, TemplateDefinition, TemplateImportResult, TemplateMetadata } from '@/lib/template-manager';
+import { TEMPLATE_PACKAGE_EXTENSION } from '@/lib/template-package';
+import { TemplateImportOptions } from '@/types/pdfme-extensions';
+import { TemplateStorageQuotaError } from '@/lib/indexeddb-template-storage';
+import { TemplateHistory } from './TemplateHistory';
 
 interface TemplateManagerProps {
   onTemplateSelect?: (template: TemplateDefinition) => void;
@@ -52,12 +62,18 @@ export function TemplateManager({
   const [filteredTemplates, setFilteredTemplates] = useState<TemplateMetadata[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [storageFull, setStorageFull] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
   const [sortBy, setSortBy] = useState<SortBy>('updated');
   const [showImportDialog, setShowImportDialog] = useState(false);
   const [importData, setImportData] = useState('');
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [conflictResolution, setConflictResolution] = useState<TemplateImportOptions['conflictResolution']>('rename');
+  const [preserveIds, setPreserveIds] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [historyTemplate, setHistoryTemplate] = useState<TemplateMetadata | null>(null);
 
   // Categories for filtering
   const categories = [
@@ -84,6 +100,12 @@ export function TemplateManager({
     }
   }, []);
 
+  // Saves can hit the browser storage quota; those get their own banner
+  const reportError = useCallback((err: unknown, fallback: string) => {
+    setStorageFull(err instanceof TemplateStorageQuotaError);
+    setError(err instanceof Error ? err.message : fallback);
+  }, []);
+
   // Filter and sort templates
   useEffect(() => {
     let filtered = [...templates];
@@ -169,38 +191,73 @@ export function TemplateManager({
       await templateManager.duplicateTemplate(metadata.id, newName);
       await loadTemplates();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to duplicate template');
+      reportError(err, 'Failed to duplicate template');
     }
-  }, [loadTemplates]);
+  }, [loadTemplates, reportError]);
+
+  // Handle template export: a .docubrand package with fonts, images and base PDF
+  const handleExportTemplate = useCallback(async (id: string) => {
+    try {
+      const result = await templateManager.exportTemplatePackage(id, {
+        includeSampleData: true,
+        compression: 'zip',
+      });
+      downloadFile(new Blob([result.data], { type: 'application/zip' }), result.fileName);
+      setNotice(result.warnings.length > 0 ? `Exported with warnings: ${result.warnings.join('; ')}` : null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export template');
+    }
+  }, []);
 
-  // Handle template export
-  const handleExportTemplate = useCallback(async (id: string, name: string) => {
+  // Plain JSON, for tools that read template definitions directly
+  const handleExportJson = useCallback(async (id: string, name: string) => {
     try {
       const jsonData = await templateManager.exportTemplate(id);
-      const blob = new Blob([jsonData], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `${name.replace(/[^a-z0-9]/gi, '_')}.json`;
-      link.click();
-      URL.revokeObjectURL(url);
+      downloadFile(new Blob([jsonData], { type: 'application/json' }), `${name.replace(/[^a-z0-9]/gi, '_')}.json`);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to export template');
     }
   }, []);
 
-  // Handle template import
+  // Handle template import: a package file, a JSON file or pasted JSON
   const handleImportTemplate = useCallback(async () => {
     try {
-      const template = await templateManager.importTemplate(importData);
+      const options: Partial<TemplateImportOptions> = { conflictResolution, preserveIds };
+      let result: TemplateImportResult;
+      if (importFile && !importFile.name.toLowerCase().endsWith('.json')) {
+        result = await templateManager.importTemplatePackage(importFile, options);
+      } else {
+        const jsonData = importFile ? await importFile.text() : importData;
+        const template = await templateManager.importTemplate(jsonData, options);
+        result = { template, action: 'created', warnings: [] };
+      }
+
       setShowImportDialog(false);
       setImportData('');
+      setImportFile(null);
       await loadTemplates();
-      onTemplateCreate?.(template);
+
+      const messages = [...result.warnings];
+      if (result.action === 'skipped') {
+        messages.unshift(`"${result.template.metadata.name}" already exists and was kept unchanged`);
+      } else if (result.action === 'renamed') {
+        messages.unshift(`Imported as "${result.template.metadata.name}"`);
+      }
+      setNotice(messages.length > 0 ? messages.join('; ') : null);
+
+      if (result.action !== 'skipped') {
+        onTemplateCreate?.(result.template);
+      }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to import template');
+      reportError(err, 'Failed to import template');
     }
-  }, [importData, loadTemplates, onTemplateCreate]);
+  }, [importData, importFile, conflictResolution, preserveIds, loadTemplates, onTemplateCreate, reportError]);
+
+  // The file input is unmounted with the dialog, so forget the chosen file too
+  const handleImportDialogChange = useCallback((open: boolean) => {
+    setShowImportDialog(open);
+    if (!open) setImportFile(null);
+  }, []);
 
   // Create new template
   const handleCreateNew = useCallback(async () => {
@@ -219,9 +276,16 @@ export function TemplateManager({
       onTemplateCreate?.(template);
       onClose?.();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to create template');
+      reportError(err, 'Failed to create template');
     }
-  }, [loadTemplates, onTemplateCreate, onClose]);
+  }, [loadTemplates, onTemplateCreate, onClose, reportError]);
+
+  // A branch is a new template, handed over like an import
+  const handleRevisionBranched = useCallback(async (template: TemplateDefinition) => {
+    setHistoryTemplate(null);
+    await loadTemplates();
+    onTemplateCreate?.(template);
+  }, [loadTemplates, onTemplateCreate]);
 
   // Format date for display
   const formatDate = useCallback((timestamp: number) => {
@@ -255,9 +319,15 @@ export function TemplateManager({
           <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
             <div className="flex items-center gap-2">
               <AlertCircle className="w-4 h-4 text-red-600" />
-              <span className="text-sm text-red-700">{error}</span>
+              <span className="text-sm text-red-700">
+                {storageFull && <strong className="font-semibold">Storage full: </strong>}
+                {error}
+              </span>
               <button
-                onClick={() => setError(null)}
+                onClick={() => {
+                  setError(null);
+                  setStorageFull(false);
+                }}
                 className="ml-auto text-red-600 hover:text-red-800"
               >
                 <X className="w-4 h-4" />
@@ -266,6 +336,22 @@ export function TemplateManager({
           </div>
         )}
 
+        {/* Import/export notes */}
+        {notice && (
+          <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+            <div className="flex items-center gap-2">
+              <Info className="w-4 h-4 text-blue-600" />
+              <span className="text-sm text-blue-700">{notice}</span>
+              <button
+                onClick={() => setNotice(null)}
+                className="ml-auto text-blue-600 hover:text-blue-800"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Search and filters */}
         <div className="space-y-4">
           {/* Search bar */}
@@ -381,7 +467,9 @@ export function TemplateManager({
                 viewMode={viewMode}
                 onSelect={() => handleSelectTemplate(template)}
                 onDuplicate={() => handleDuplicateTemplate(template)}
-                onExport={() => handleExportTemplate(template.id, template.name)}
+                onExport={() => handleExportTemplate(template.id)}
+                onExportJson={() => handleExportJson(template.id, template.name)}
+                onHistory={() => setHistoryTemplate(template)}
                 onDelete={() => handleDeleteTemplate(template.id)}
                 formatDate={formatDate}
               />
@@ -391,25 +479,55 @@ export function TemplateManager({
       </div>
 
       {/* Import Dialog */}
-      <Dialog open={showImportDialog} onOpenChange={setShowImportDialog}>
+      <Dialog open={showImportDialog} onOpenChange={handleImportDialogChange}>
         <DialogContent className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-white rounded-lg w-full max-w-md p-6 shadow-lg border border-gray-200">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Import Template</h3>
+          <input
+            type="file"
+            accept={`${TEMPLATE_PACKAGE_EXTENSION},.zip,.json`}
+            onChange={(e) => setImportFile(e.target.files?.[0] || null)}
+            className="w-full mb-3 text-sm text-gray-700 file:mr-3 file:px-3 file:py-1.5 file:border-0 file:rounded-lg file:bg-gray-100 file:text-gray-700 hover:file:bg-gray-200"
+          />
           <textarea
             value={importData}
             onChange={(e) => setImportData(e.target.value)}
-            placeholder="Paste template JSON data here..."
-            className="w-full h-40 p-3 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            disabled={!!importFile}
+            placeholder={`...or paste template JSON here (${TEMPLATE_PACKAGE_EXTENSION} packages must be chosen as a file)`}
+            className="w-full h-32 p-3 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50"
           />
+          <div className="mt-3 space-y-2 text-sm text-gray-700">
+            <label className="flex items-center justify-between gap-2">
+              <span>If a template with the same {preserveIds ? 'id' : 'name'} exists</span>
+              <select
+                value={conflictResolution}
+                onChange={(e) => setConflictResolution(e.target.value as TemplateImportOptions['conflictResolution'])}
+                className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="rename">Keep both</option>
+                <option value="overwrite">Replace it</option>
+                <option value="skip">Skip import</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={preserveIds}
+                onChange={(e) => setPreserveIds(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              Keep the template id from the file
+            </label>
+          </div>
           <div className="flex items-center gap-2 mt-4">
             <button
-              onClick={() => setShowImportDialog(false)}
+              onClick={() => handleImportDialogChange(false)}
               className="flex-1 px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
             >
               Cancel
             </button>
             <button
               onClick={handleImportTemplate}
-              disabled={!importData.trim()}
+              disabled={!importFile && !importData.trim()}
               className="flex-1 px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
               Import
@@ -417,6 +535,14 @@ export function TemplateManager({
           </div>
         </DialogContent>
       </Dialog>
+
+      <TemplateHistory
+        template={historyTemplate}
+        onClose={() => setHistoryTemplate(null)}
+        onRestored={() => loadTemplates()}
+        onBranched={handleRevisionBranched}
+        onError={reportError}
+      />
     </div>
   );
 }
@@ -428,6 +554,8 @@ interface TemplateCardProps {
   onSelect: () => void;
   onDuplicate: () => void;
   onExport: () => void;
+  onExportJson: () => void;
+  onHistory: () => void;
   onDelete: () => void;
   formatDate: (timestamp: number) => string;
 }
@@ -438,6 +566,8 @@ function TemplateCard({
   onSelect,
   onDuplicate,
   onExport,
+  onExportJson,
+  onHistory,
   onDelete,
   formatDate
 }: TemplateCardProps) {
@@ -490,9 +620,23 @@ function TemplateCard({
                 <button
                   onClick={onExport}
                   className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2"
+                >
+                  <Package className="w-4 h-4" />
+                  Export package
+                </button>
+                <button
+                  onClick={onExportJson}
+                  className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2"
                 >
                   <Download className="w-4 h-4" />
-                  Export
+                  Export JSON
+                </button>
+                <button
+                  onClick={onHistory}
+                  className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2"
+                >
+                  <History className="w-4 h-4" />
+                  History
                 </button>
                 <button
                   onClick={onDelete}
@@ -571,9 +715,23 @@ function TemplateCard({
                 <button
                   onClick={onExport}
                   className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2"
+                >
+                  <Package className="w-4 h-4" />
+                  Export package
+                </button>
+                <button
+                  onClick={onExportJson}
+                  className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2"
                 >
                   <Download className="w-4 h-4" />
-                  Export
+                  Export JSON
+                </button>
+                <button
+                  onClick={onHistory}
+                  className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2"
+                >
+                  <History className="w-4 h-4" />
+                  History
                 </button>
                 <button
                   onClick={onDelete}
@@ -591,4 +749,13 @@ function TemplateCard({
   );
 }
 
+function downloadFile(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 export default TemplateManager;
\ No newline at end of file
@@ -1,9 +1,11 @@
 // CREATED: 2025-07-04 - OverviewTab component for VerificationUI
+// UPDATED: 2026-10-19 - Review queue progress
 
 "use client";
 
 import React from "react";
 import { GeminiAnalysisResponse } from "@/types/gemini";
+import { ReviewProgress } from "@/lib/review-queue";
 import { ScrollArea } from "../ui/scroll-area";
 import {
   InfoIcon,
@@ -12,6 +14,7 @@ import {
   TypeIcon,
   AlertCircleIcon,
   CheckCircleIcon,
+  ShieldAlertIcon,
 } from "lucide-react";
 
 interface OverviewTabProps {
@@ -22,6 +25,8 @@ interface OverviewTabProps {
   validSections: number;
   validQuestions: number;
   validationErrors: string[];
+  reviewProgress?: ReviewProgress;
+  reviewThreshold?: number;
 }
 
 export function OverviewTab({
@@ -32,7 +37,11 @@ export function OverviewTab({
   validSections,
   validQuestions,
   validationErrors,
+  reviewProgress,
+  reviewThreshold,
 }: OverviewTabProps) {
+  const isReady = validationErrors.length === 0 && (reviewProgress?.complete ?? true);
+
   return (
     <div className="flex flex-col h-full">
       {/* Overview Header */}
@@ -45,14 +54,14 @@ export function OverviewTab({
           <div className="flex items-center gap-2">
             <div
               className={`text-2xl font-bold ${
-                validationErrors.length === 0
+                isReady
                   ? "text-green-600"
                   : "text-red-600"
               }`}
             >
-              {validationErrors.length === 0 ? "✓" : "✗"}
+              {isReady ? "✓" : "✗"}
             </div>
-            <div className="text-sm text-gray-600">Valid</div>
+            <div className="text-sm text-gray-600">{isReady ? "Ready" : "Valid"}</div>
           </div>
         </div>
       </div>
@@ -77,8 +86,50 @@ export function OverviewTab({
             </div>
           )}
 
+          {/* Review Progress */}
+          {reviewProgress && reviewProgress.flagged > 0 && (
+            <div
+              className={`rounded-lg p-4 ${
+                reviewProgress.complete ? "bg-green-50" : "bg-amber-50"
+              }`}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-2">
+                  <ShieldAlertIcon
+                    className={`w-5 h-5 ${
+                      reviewProgress.complete ? "text-green-600" : "text-amber-600"
+                    }`}
+                  />
+                  <h4 className="text-sm font-medium text-gray-900">
+                    Low-Confidence Review
+                  </h4>
+                </div>
+                <span className="text-sm text-gray-600">
+                  {reviewProgress.verified}/{reviewProgress.flagged} verified
+                </span>
+              </div>
+              <div className="w-full bg-white rounded-full h-2 overflow-hidden">
+                <div
+                  className={`h-2 rounded-full transition-all ${
+                    reviewProgress.complete ? "bg-green-500" : "bg-amber-500"
+                  }`}
+                  style={{
+                    width: `${(reviewProgress.verified / reviewProgress.flagged) * 100}%`,
+                  }}
+                />
+              </div>
+              <p className="text-xs text-gray-600 mt-2">
+                {reviewProgress.complete
+                  ? "All flagged items have been acknowledged."
+                  : `${reviewProgress.remaining} items below ${Math.round(
+                      (reviewThreshold ?? 0) * 100
+                    )}% confidence must be verified before generating.`}
+              </p>
+            </div>
+          )}
+
           {/* Success State */}
-          {validationErrors.length === 0 && (
+          {isReady && (
             <div className="bg-green-50 rounded-lg p-4">
               <div className="flex items-center gap-2 mb-2">
                 <CheckCircleIcon className="w-5 h-5 text-green-600" />
@@ -1,9 +1,15 @@
 // CREATED: 2025-07-04 - QuestionsTab component for VerificationUI
+// UPDATED: 2026-10-19 - Active question linked to the PDF highlight overlay
+// UPDATED: 2026-10-19 - Source PDF diff for questions that differ from the text layer
+// UPDATED: 2026-10-19 - Count of questions that differ from the source in the header
 
 "use client";
 
-import React from "react";
+import React, { useEffect, useRef } from "react";
 import { ExtractedQuestion } from "@/types/gemini";
+import { getConfidenceLevel } from "@/lib/position-overlay";
+import { QuestionSourceCheck } from "@/lib/source-text-guard";
+import { SourceDiff } from "../editor/SourceDiff";
 import { QuestionEditor } from "../editor/QuestionEditor";
 import { ScrollArea } from "../ui/scroll-area";
 import {
@@ -15,14 +21,37 @@ interface QuestionsTabProps {
   onQuestionUpdate: (questionIndex: number, updatedQuestion: ExtractedQuestion) => void;
   validQuestions: number;
   totalQuestions: number;
+  activeQuestion?: string | null;
+  setActiveQuestion?: (questionId: string | null) => void;
+  sourceChecks?: QuestionSourceCheck[]; // Indexed like extractedQuestions
 }
 
+const CONFIDENCE_BADGE_STYLES = {
+  high: "bg-green-100 text-green-700",
+  medium: "bg-amber-100 text-amber-700",
+  low: "bg-red-100 text-red-700",
+  unknown: "bg-gray-100 text-gray-600",
+};
+
 export function QuestionsTab({
   extractedQuestions,
   onQuestionUpdate,
   validQuestions,
   totalQuestions,
+  activeQuestion = null,
+  setActiveQuestion,
+  sourceChecks = [],
 }: QuestionsTabProps) {
+  const questionRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const flaggedCount = sourceChecks.filter((check) => check.flagged).length;
+
+  // Bring the question selected on the PDF into view
+  useEffect(() => {
+    if (activeQuestion) {
+      questionRefs.current[activeQuestion]?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+    }
+  }, [activeQuestion]);
+
   return (
     <div className="flex flex-col h-full">
       {/* Questions Header */}
@@ -32,7 +61,15 @@ export function QuestionsTab({
             <HelpCircleIcon className="w-4 h-4" />
             Extracted Questions
           </h4>
-          <div className="text-sm text-gray-500">
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            {flaggedCount > 0 && (
+              <span
+                className="px-2 py-0.5 text-xs rounded bg-red-100 text-red-700"
+                title="Questions whose text does not match the original PDF"
+              >
+                {flaggedCount} differ from source
+              </span>
+            )}
             {totalQuestions} questions
           </div>
         </div>
@@ -41,28 +78,56 @@ export function QuestionsTab({
       {/* Questions List */}
       <ScrollArea className="flex-1">
         <div className="p-4 space-y-3">
-          {extractedQuestions.map((question, index) => (
-            <div
-              key={index}
-              className="border border-gray-200 rounded-lg p-4"
-            >
-              <div className="flex items-center justify-between mb-3">
-                <span className="text-sm font-medium text-gray-900">
-                  Question {index + 1}
-                </span>
-                <span className="text-xs px-2 py-1 bg-blue-100 text-blue-600 rounded-full">
-                  {question.type?.replace("_", " ") || "Unknown"}
-                </span>
+          {extractedQuestions.map((question, index) => {
+            const questionId = `question-${index}`;
+            const isActive = activeQuestion === questionId;
+            const sourceCheck = sourceChecks[index];
+            return (
+              <div
+                key={index}
+                ref={(element) => {
+                  questionRefs.current[questionId] = element;
+                }}
+                onClickCapture={() => setActiveQuestion?.(questionId)}
+                onFocusCapture={() => setActiveQuestion?.(questionId)}
+                className={`border rounded-lg p-4 transition-colors ${
+                  isActive ? "border-blue-500 ring-1 ring-blue-500" : "border-gray-200"
+                }`}
+              >
+                <div className="flex items-center justify-between mb-3">
+                  <span className="text-sm font-medium text-gray-900">
+                    Question {index + 1}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    {typeof question.confidence === "number" && (
+                      <span
+                        className={`text-xs px-2 py-1 rounded-full ${
+                          CONFIDENCE_BADGE_STYLES[getConfidenceLevel(question.confidence)]
+                        }`}
+                      >
+                        {Math.round(question.confidence * 100)}%
+                      </span>
+                    )}
+                    <span className="text-xs px-2 py-1 bg-blue-100 text-blue-600 rounded-full">
+                      {question.type?.replace("_", " ") || "Unknown"}
+                    </span>
+                  </div>
+                </div>
+                <QuestionEditor
+                  question={question}
+                  onUpdate={(updatedQuestion) =>
+                    onQuestionUpdate(index, updatedQuestion)
+                  }
+                  showAdvanced={false}
+                />
+                {sourceCheck?.flagged && (
+                  <div className="mt-3">
+                    <SourceDiff check={sourceCheck} />
+                  </div>
+                )}
               </div>
-              <QuestionEditor
-                question={question}
-                onUpdate={(updatedQuestion) =>
-                  onQuestionUpdate(index, updatedQuestion)
-                }
-                showAdvanced={false}
-              />
-            </div>
-          ))}
+            );
+          })}
 
           {extractedQuestions.length === 0 && (
             <div className="text-center py-8 text-gray-500">
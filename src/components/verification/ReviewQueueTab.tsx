@@ -0,0 +1,169 @@
+// CREATED: 2026-10-19 - ReviewQueueTab component for VerificationUI
+// UPDATED: 2026-10-19 - Items are verified one at a time; no bulk verify
+
+"use client";
+
+import React, { useState } from "react";
+import { ReviewItem, ReviewProgress, REVIEW_THRESHOLD_OPTIONS } from "@/lib/review-queue";
+import { getConfidenceLevel } from "@/lib/position-overlay";
+import { ScrollArea } from "../ui/scroll-area";
+import {
+  ShieldAlertIcon,
+  CheckCircleIcon,
+  ArrowRightIcon,
+} from "lucide-react";
+
+interface ReviewQueueTabProps {
+  reviewQueue: ReviewItem[];
+  reviewProgress: ReviewProgress;
+  verifiedItems: Set<string>;
+  onToggleVerified: (verifyKey: string) => void;
+  onOpenItem: (item: ReviewItem) => void;
+  threshold: number;
+  onThresholdChange: (threshold: number) => void;
+}
+
+const CONFIDENCE_STYLES = {
+  high: "bg-green-100 text-green-700",
+  medium: "bg-amber-100 text-amber-700",
+  low: "bg-red-100 text-red-700",
+  unknown: "bg-gray-100 text-gray-600",
+};
+
+export function ReviewQueueTab({
+  reviewQueue,
+  reviewProgress,
+  verifiedItems,
+  onToggleVerified,
+  onOpenItem,
+  threshold,
+  onThresholdChange,
+}: ReviewQueueTabProps) {
+  const [kindFilter, setKindFilter] = useState<"all" | "question" | "section">("all");
+  const [showVerified, setShowVerified] = useState(true);
+
+  const visibleItems = reviewQueue.filter(
+    (item) =>
+      (kindFilter === "all" || item.kind === kindFilter) &&
+      (showVerified || !verifiedItems.has(item.verifyKey))
+  );
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Review Header */}
+      <div className="p-4 border-b border-gray-200 space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium text-gray-900 flex items-center gap-2">
+            <ShieldAlertIcon className="w-4 h-4" />
+            Review Queue
+          </h4>
+          <div className="text-sm text-gray-500">
+            {reviewProgress.verified}/{reviewProgress.flagged} verified
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3 text-sm text-gray-600 flex-wrap">
+          <label className="flex items-center gap-2">
+            Flag below
+            <select
+              value={threshold}
+              onChange={(e) => onThresholdChange(Number(e.target.value))}
+              className="border border-gray-300 rounded px-2 py-1 text-sm"
+            >
+              {REVIEW_THRESHOLD_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {Math.round(option * 100)}%
+                </option>
+              ))}
+            </select>
+          </label>
+          <select
+            value={kindFilter}
+            onChange={(e) => setKindFilter(e.target.value as typeof kindFilter)}
+            className="border border-gray-300 rounded px-2 py-1 text-sm"
+          >
+            <option value="all">Questions & sections</option>
+            <option value="question">Questions only</option>
+            <option value="section">Sections only</option>
+          </select>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showVerified}
+              onChange={(e) => setShowVerified(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Show verified
+          </label>
+        </div>
+      </div>
+
+      {/* Review List */}
+      <ScrollArea className="flex-1">
+        <div className="p-4 space-y-2">
+          {visibleItems.map((item) => {
+            const isVerified = verifiedItems.has(item.verifyKey);
+            const level = getConfidenceLevel(item.confidence);
+            return (
+              <div
+                key={item.id}
+                className={`border rounded-lg p-3 flex items-start gap-3 ${
+                  isVerified ? "border-green-200 bg-green-50" : "border-gray-200"
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={isVerified}
+                  onChange={() => onToggleVerified(item.verifyKey)}
+                  className="mt-1 rounded border-gray-300"
+                  aria-label={`Mark ${item.label} as verified`}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-900">
+                      {item.label}
+                    </span>
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${CONFIDENCE_STYLES[level]}`}>
+                      {typeof item.confidence === "number"
+                        ? `${Math.round(item.confidence * 100)}%`
+                        : "No confidence"}
+                    </span>
+                    {item.page && (
+                      <span className="text-xs text-gray-500">Page {item.page}</span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-600 truncate mt-1">
+                    {item.preview || "Empty"}
+                  </p>
+                </div>
+                <button
+                  onClick={() => onOpenItem(item)}
+                  className="p-1 text-gray-400 hover:text-blue-600"
+                  aria-label={`Open ${item.label} in editor`}
+                >
+                  <ArrowRightIcon className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })}
+
+          {reviewQueue.length === 0 && (
+            <div className="text-center py-8 text-gray-500">
+              <CheckCircleIcon className="w-12 h-12 mx-auto mb-3 text-green-300" />
+              <p>Nothing below {Math.round(threshold * 100)}% confidence</p>
+            </div>
+          )}
+        </div>
+      </ScrollArea>
+
+      {/* Review Footer */}
+      <div className="p-4 border-t border-gray-200 bg-gray-50">
+        <div className="text-sm text-gray-600">
+          {reviewProgress.complete
+            ? "✓ All flagged items verified"
+            : `${reviewProgress.remaining} flagged items need review`}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 // CREATED: 2025-07-04 - SectionsTab component for VerificationUI
+// UPDATED: 2026-10-19 - Active section linked to the PDF highlight overlay
 
 "use client";
 
-import React from "react";
+import React, { useEffect, useRef } from "react";
 import { EnhancedDocumentSection } from "@/types/editor";
 import { SectionEditor } from "../editor/SectionEditor";
 import { ScrollArea } from "../ui/scroll-area";
@@ -34,6 +35,15 @@ export function SectionsTab({
   validSections,
   totalSections,
 }: SectionsTabProps) {
+  const sectionRefs = useRef<Record<string, HTMLDivElement | null>>({});
+
+  // Bring the section selected on the PDF into view
+  useEffect(() => {
+    if (activeSection) {
+      sectionRefs.current[activeSection]?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+    }
+  }, [activeSection]);
+
   return (
     <div className="flex flex-col h-full">
       {/* Sections Header */}
@@ -55,7 +65,16 @@ export function SectionsTab({
           {enhancedSections.map((section, index) => (
             <div
               key={section.id}
-              className="border border-gray-200 rounded-lg overflow-hidden"
+              ref={(element) => {
+                sectionRefs.current[section.id] = element;
+              }}
+              onClickCapture={() => setActiveSection(section.id)}
+              onFocusCapture={() => setActiveSection(section.id)}
+              className={`border rounded-lg overflow-hidden transition-colors ${
+                activeSection === section.id
+                  ? "border-blue-500 ring-1 ring-blue-500"
+                  : "border-gray-200"
+              }`}
             >
               <Collapsible.Root
                 open={!collapsedSections.has(section.id)}
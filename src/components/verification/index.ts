@@ -2,4 +2,5 @@
 
 export { SectionsTab } from './SectionsTab';
 export { QuestionsTab } from './QuestionsTab';
-export { OverviewTab } from './OverviewTab';
\ No newline at end of file
+export { OverviewTab } from './OverviewTab';
+export { ReviewQueueTab } from './ReviewQueueTab';
\ No newline at end of file
@@ -3,14 +3,17 @@ import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { EducationalTemplate } from '@/types/pdfme-extensions';
 import { TemplateDefinition } from '@/lib/template-manager';
 import { DataBinding } from '@/lib/data-binding';
-import { ValidationReport } from '@/lib/template-validator';
+import { ValidationReport, getBoundFieldNames, templateValidator } from '@/lib/template-validator';
 import { createBlankEducationalTemplate, fixTemplateBasePdf } from '@/lib/template-utils';
+import { BrandKit } from '@/types';
 
 interface UseTemplateDataOptions {
   autoSave?: boolean;
   autoSaveInterval?: number;
   validateOnChange?: boolean;
   enableUndo?: boolean;
+  brandKit?: BrandKit; // Validation also checks contrast against this kit's colours
+  printEconomy?: boolean; // Previews render greys and outlines for black-and-white printing
 }
 
 interface UseTemplateDataReturn {
@@ -47,6 +50,8 @@ interface UseTemplateDataReturn {
   generateSampleData: () => void;
   validateTemplate: () => void;
   validateData: () => void;
+  fixIssues: (issueIds: string[]) => EducationalTemplate | null;
+  setCorrectAnswer: (issueId: string, value: string) => EducationalTemplate | null;
   generatePreview: () => Promise<Uint8Array>;
   undo: () => void;
   redo: () => void;
@@ -70,6 +75,8 @@ export function useTemplateData(options: UseTemplateDataOptions = {}): UseTempla
     autoSaveInterval = 30000,
     validateOnChange = true,
     enableUndo = true,
+    brandKit,
+    printEconomy = false,
   } = options;
 
   // Core state
@@ -127,7 +134,7 @@ export function useTemplateData(options: UseTemplateDataOptions = {}): UseTempla
   }, [templateDefinition, stableTemplate]);
 
   const isValid = useMemo(() => {
-    return !validation || (validation.errors.length === 0);
+    return !validation || validation.isValid;
   }, [validation]);
 
   const canUndo = useMemo(() => {
@@ -161,6 +168,29 @@ export function useTemplateData(options: UseTemplateDataOptions = {}): UseTempla
     setHistorySize(history.current.length);
   }, [enableUndo]);
 
+  // Names the definition's bindings and preview data refer to; the validator won't rename them
+  const boundNames = useMemo(() => getBoundFieldNames(templateDefinition), [templateDefinition]);
+
+  // Run the template validator and mirror its issues into errors/warnings
+  const runValidation = useCallback((target: EducationalTemplate | null) => {
+    if (!target) {
+      setValidation(null);
+      return;
+    }
+
+    const report = templateValidator.validateTemplate(target, { brandKit, boundNames });
+    setValidation(report);
+    setErrors(report.issues.filter(issue => issue.severity === 'error').map(issue => issue.message));
+    setWarnings(report.issues.filter(issue => issue.severity === 'warning').map(issue => issue.message));
+  }, [brandKit, boundNames]);
+
+  // Re-check the current template when another brand kit becomes active
+  useEffect(() => {
+    if (lastTemplateRef.current) {
+      runValidation(lastTemplateRef.current);
+    }
+  }, [runValidation]);
+
   const updateTemplate = useCallback((newTemplate: EducationalTemplate) => {
     // Prevent unnecessary updates
     if (stableTemplate && JSON.stringify(stableTemplate) === JSON.stringify(newTemplate)) {
@@ -174,7 +204,7 @@ export function useTemplateData(options: UseTemplateDataOptions = {}): UseTempla
     if (validateOnChange) {
       // Debounce validation to avoid excessive calls
       setTimeout(() => {
-        validateTemplate();
+        runValidation(newTemplate);
       }, 100);
     }
     
@@ -182,7 +212,7 @@ export function useTemplateData(options: UseTemplateDataOptions = {}): UseTempla
     if (isAutoSaveEnabled) {
       scheduleAutoSave();
     }
-  }, [stableTemplate, addToHistory, validateOnChange, isAutoSaveEnabled]);
+  }, [stableTemplate, addToHistory, validateOnChange, isAutoSaveEnabled, runValidation]);
 
   const scheduleAutoSave = useCallback(() => {
     if (autoSaveTimeoutRef.current) {
@@ -340,33 +370,8 @@ export function useTemplateData(options: UseTemplateDataOptions = {}): UseTempla
 
   // Validate template
   const validateTemplate = useCallback(() => {
-    if (!stableTemplate) {
-      setValidation(null);
-      return;
-    }
-    
-    // Basic validation
-    const errors: string[] = [];
-    const warnings: string[] = [];
-    
-    if (!stableTemplate.schemas || stableTemplate.schemas.length === 0) {
-      errors.push('Template must have at least one page');
-    }
-    
-    if (stableTemplate.schemas?.[0]?.length === 0) {
-      warnings.push('Template page is empty');
-    }
-    
-    setValidation({
-      valid: errors.length === 0,
-      errors,
-      warnings,
-      timestamp: new Date(),
-    });
-    
-    setErrors(errors);
-    setWarnings(warnings);
-  }, [stableTemplate]);
+    runValidation(stableTemplate);
+  }, [stableTemplate, runValidation]);
 
   // Validate data
   const validateData = useCallback(() => {
@@ -374,6 +379,26 @@ export function useTemplateData(options: UseTemplateDataOptions = {}): UseTempla
     console.log('Validating data:', data);
   }, [data]);
 
+  // Apply validator auto-fixes; returns the patched template for the canvas
+  const fixIssues = useCallback((issueIds: string[]) => {
+    if (!stableTemplate || issueIds.length === 0) return null;
+
+    const fixed = templateValidator.fix(stableTemplate, issueIds, { brandKit, boundNames });
+    updateTemplate(fixed);
+    runValidation(fixed);
+    return fixed;
+  }, [stableTemplate, brandKit, boundNames, updateTemplate, runValidation]);
+
+  // Mark the correct answer the author picked for a missing-correct-answer issue
+  const setCorrectAnswer = useCallback((issueId: string, value: string) => {
+    if (!stableTemplate) return null;
+
+    const fixed = templateValidator.setCorrectAnswer(stableTemplate, issueId, value, { brandKit, boundNames });
+    updateTemplate(fixed);
+    runValidation(fixed);
+    return fixed;
+  }, [stableTemplate, brandKit, boundNames, updateTemplate, runValidation]);
+
   // Generate preview
   const generatePreview = useCallback(async (): Promise<Uint8Array> => {
     if (!stableTemplate) {
@@ -382,13 +407,17 @@ export function useTemplateData(options: UseTemplateDataOptions = {}): UseTempla
     
     setIsGenerating(true);
     try {
-      // Here you would use PDFme to generate preview
-      // For now, return empty array
-      return new Uint8Array();
+      const { pdfmeIntegration } = await import('@/lib/pdfme-integration');
+      const inputs = Object.keys(data).length > 0 ? [data] : pdfmeIntegration.generateSampleInputs(stableTemplate);
+      const pdf = await pdfmeIntegration.generatePDF(stableTemplate, inputs, {
+        printEconomy,
+        title: templateDefinition?.metadata.name,
+      });
+      return new Uint8Array(pdf);
     } finally {
       setIsGenerating(false);
     }
-  }, [stableTemplate]);
+  }, [stableTemplate, data, printEconomy, templateDefinition]);
 
   // Undo
   const undo = useCallback(() => {
@@ -476,6 +505,8 @@ export function useTemplateData(options: UseTemplateDataOptions = {}): UseTempla
     generateSampleData,
     validateTemplate,
     validateData,
+    fixIssues,
+    setCorrectAnswer,
     generatePreview,
     undo,
     redo,
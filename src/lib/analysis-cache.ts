@@ -0,0 +1,280 @@
+// CREATED: 2026-10-19 - Content-hash cache for analysis results
+
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { GeminiAnalysisRequest, ProcessingResult } from '@/types/gemini';
+import { PROMPT_VERSION } from './prompt-templates';
+import { AnalysisProgressCallbacks, LLMModelInfo, LLMProvider, LLMProviderType } from './llm-provider';
+
+export type AnalysisCacheStoreType = 'memory' | 'filesystem' | 'off';
+
+export const ANALYSIS_CACHE_STORE_TYPES: AnalysisCacheStoreType[] = ['memory', 'filesystem', 'off'];
+
+/**
+ * Cached analysis with its bookkeeping
+ */
+export interface AnalysisCacheEntry {
+  key: string;
+  result: ProcessingResult;
+  cachedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Pluggable storage backend for cached analyses
+ */
+export interface AnalysisCacheStore {
+  readonly name: string;
+  get(key: string): Promise<AnalysisCacheEntry | null>;
+  set(entry: AnalysisCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface AnalysisCacheConfig {
+  store: AnalysisCacheStoreType;
+  ttlMs: number;
+  maxEntries: number; // memory store only
+  directory: string; // filesystem store only
+}
+
+export const DEFAULT_ANALYSIS_CACHE_CONFIG: AnalysisCacheConfig = {
+  store: 'memory',
+  ttlMs: 24 * 60 * 60 * 1000, // 24 hours
+  maxEntries: 50,
+  directory: '.cache/analysis'
+};
+
+/**
+ * SHA-256 of the PDF bytes plus everything that changes the model's answer,
+ * including which provider and model produced it
+ */
+export function getAnalysisCacheKey(request: GeminiAnalysisRequest, provider: LLMProvider): string {
+  const base64Data = request.pdfBase64.replace(/^data:application\/pdf;base64,/, '');
+  const language = request.userContext?.language || 'en';
+  const modelInfo = provider.getModelInfo();
+
+  return createHash('sha256')
+    .update(Buffer.from(base64Data, 'base64'))
+    .update('\0')
+    .update(request.documentType || 'general')
+    .update('\0')
+    .update(language)
+    .update('\0')
+    .update(PROMPT_VERSION)
+    .update('\0')
+    .update(provider.name)
+    .update('\0')
+    .update(modelInfo.model)
+    .update('\0')
+    .update(String(modelInfo.fixtureMode || 'off')) // Gemini fixture replay serves recorded output
+    .digest('hex');
+}
+
+/**
+ * In-memory LRU store; Map insertion order doubles as recency order
+ */
+export class MemoryLRUCacheStore implements AnalysisCacheStore {
+  readonly name = 'memory';
+  private entries = new Map<string, AnalysisCacheEntry>();
+
+  constructor(private maxEntries: number = DEFAULT_ANALYSIS_CACHE_CONFIG.maxEntries) {}
+
+  async get(key: string): Promise<AnalysisCacheEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    // Move to most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(entry: AnalysisCacheEntry): Promise<void> {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Filesystem store, one JSON file per key; survives server restarts
+ */
+export class FileSystemCacheStore implements AnalysisCacheStore {
+  readonly name = 'filesystem';
+  private directory: string;
+
+  constructor(directory: string = DEFAULT_ANALYSIS_CACHE_CONFIG.directory) {
+    this.directory = path.resolve(process.cwd(), directory);
+  }
+
+  async get(key: string): Promise<AnalysisCacheEntry | null> {
+    try {
+      const data = await fs.promises.readFile(this.getFilePath(key), 'utf8');
+      return JSON.parse(data);
+    } catch {
+      return null;
+    }
+  }
+
+  async set(entry: AnalysisCacheEntry): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(this.getFilePath(entry.key), JSON.stringify(entry));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.getFilePath(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    await fs.promises.rm(this.directory, { recursive: true, force: true });
+  }
+
+  private getFilePath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
+
+/**
+ * Create the store for a cache configuration
+ */
+export function createAnalysisCacheStore(config: AnalysisCacheConfig): AnalysisCacheStore | null {
+  switch (config.store) {
+    case 'filesystem':
+      return new FileSystemCacheStore(config.directory);
+    case 'memory':
+      return new MemoryLRUCacheStore(config.maxEntries);
+    case 'off':
+    default:
+      return null;
+  }
+}
+
+/**
+ * Provider decorator that serves repeated analyses of the same PDF from the cache.
+ * Only successful results are stored.
+ */
+export class CachedLLMProvider implements LLMProvider {
+  readonly name: LLMProviderType;
+
+  constructor(
+    private provider: LLMProvider,
+    private store: AnalysisCacheStore,
+    private ttlMs: number = DEFAULT_ANALYSIS_CACHE_CONFIG.ttlMs
+  ) {
+    this.name = provider.name;
+  }
+
+  /**
+   * Analyze PDF, returning a cached result when the same document was analysed before
+   */
+  async analyzePDF(
+    request: GeminiAnalysisRequest,
+    callbacks: AnalysisProgressCallbacks = {}
+  ): Promise<ProcessingResult> {
+    const startTime = Date.now();
+    const key = getAnalysisCacheKey(request, this.provider);
+
+    const cached = await this.readEntry(key);
+    if (cached) {
+      console.log(`⚡ Analysis cache hit (${this.store.name}): ${key.substring(0, 12)}...`);
+      callbacks.onQuestions?.(cached.result.extractedQuestions);
+      callbacks.onStatus?.({ status: 'complete', stage: 'complete', progress: 100, currentStep: 'Loaded from cache' });
+
+      const processingTime = Date.now() - startTime;
+      return {
+        ...cached.result,
+        processingTime,
+        processingInfo: {
+          ...(cached.result.processingInfo || {
+            timestamp: cached.cachedAt,
+            version: '1.0.0',
+            model: this.provider.getModelInfo().model,
+            confidence: cached.result.documentStructure.confidence
+          }),
+          processingTime,
+          apiCalls: 0,
+          tokenCount: 0,
+          cache: {
+            hit: true,
+            key,
+            store: this.store.name,
+            cachedAt: cached.cachedAt,
+            expiresAt: cached.expiresAt
+          }
+        }
+      };
+    }
+
+    const result = await this.provider.analyzePDF(request, callbacks);
+    const cacheInfo = { hit: false, key, store: this.store.name };
+
+    if (result.success) {
+      const cachedAt = Date.now();
+      try {
+        await this.store.set({ key, result, cachedAt, expiresAt: cachedAt + this.ttlMs });
+      } catch (error) {
+        // A broken cache must never fail the analysis itself
+        console.warn('⚠️ Failed to write analysis cache:', error);
+      }
+    }
+
+    return result.processingInfo
+      ? { ...result, processingInfo: { ...result.processingInfo, cache: cacheInfo } }
+      : result;
+  }
+
+  async analyzeSection(sectionText: string, documentType?: string): Promise<any> {
+    return this.provider.analyzeSection(sectionText, documentType);
+  }
+
+  async generateSuggestions(content: string, contentType: string): Promise<string[]> {
+    return this.provider.generateSuggestions(content, contentType);
+  }
+
+  async testConnection(): Promise<{ success: boolean; error?: string; model?: string }> {
+    return this.provider.testConnection();
+  }
+
+  getModelInfo(): LLMModelInfo {
+    return {
+      ...this.provider.getModelInfo(),
+      cache: { store: this.store.name, ttlMs: this.ttlMs }
+    };
+  }
+
+  /**
+   * Read a live entry, dropping it when expired or unreadable
+   */
+  private async readEntry(key: string): Promise<AnalysisCacheEntry | null> {
+    try {
+      const entry = await this.store.get(key);
+      if (!entry) {
+        return null;
+      }
+      if (entry.expiresAt <= Date.now()) {
+        await this.store.delete(key);
+        return null;
+      }
+      return entry;
+    } catch (error) {
+      console.warn('⚠️ Failed to read analysis cache:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,347 @@
+// CREATED: 2026-10-19 - Page-chunked analysis helpers for long PDFs
+
+import { PDFDocument } from 'pdf-lib';
+import {
+  GeminiAnalysisResponse,
+  ExtractedQuestion,
+  DocumentSection,
+  ExtractedContent,
+  PagePosition
+} from '@/types/gemini';
+
+const PDF_DATA_URI_PREFIX = 'data:application/pdf;base64,';
+
+/**
+ * Default number of pages sent to the model per call
+ */
+export const DEFAULT_PAGES_PER_CHUNK = 10;
+
+// Page ranges sent to the model at the same time
+export const DEFAULT_CHUNK_CONCURRENCY = 3;
+
+/**
+ * A contiguous page range of the source PDF (pages are 1-based, inclusive)
+ */
+export interface PDFChunk {
+  index: number;
+  startPage: number;
+  endPage: number;
+  pdfBase64: string; // Data URI, same format as GeminiAnalysisRequest.pdfBase64
+}
+
+/**
+ * Partial analysis of one chunk, as fed to mergeAnalysisResponses
+ */
+export interface ChunkAnalysis {
+  chunk: Pick<PDFChunk, 'startPage' | 'endPage'>;
+  response: GeminiAnalysisResponse;
+}
+
+/**
+ * Split page count into inclusive 1-based ranges of at most pagesPerChunk pages
+ */
+export function getChunkRanges(
+  totalPages: number,
+  pagesPerChunk: number = DEFAULT_PAGES_PER_CHUNK
+): Array<{ startPage: number; endPage: number }> {
+  const size = Math.max(1, Math.floor(pagesPerChunk));
+  const ranges: Array<{ startPage: number; endPage: number }> = [];
+
+  for (let start = 1; start <= totalPages; start += size) {
+    ranges.push({ startPage: start, endPage: Math.min(start + size - 1, totalPages) });
+  }
+
+  return ranges;
+}
+
+/**
+ * Split a base64 PDF into page-range chunks with pdf-lib.
+ * Documents that fit in one chunk, or that pdf-lib cannot parse, are returned
+ * unchanged as a single chunk (totalPages is 0 when the page count is unknown).
+ */
+export async function splitPDFIntoChunks(
+  pdfBase64: string,
+  pagesPerChunk: number = DEFAULT_PAGES_PER_CHUNK
+): Promise<{ totalPages: number; chunks: PDFChunk[] }> {
+  const base64Data = pdfBase64.replace(/^data:application\/pdf;base64,/, '');
+  let source: PDFDocument;
+  try {
+    source = await PDFDocument.load(Buffer.from(base64Data, 'base64'), {
+      ignoreEncryption: true
+    });
+  } catch (error) {
+    console.warn(
+      '⚠️ Could not read PDF pages, analysing the whole document at once:',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+    return {
+      totalPages: 0,
+      chunks: [{ index: 0, startPage: 1, endPage: 0, pdfBase64 }]
+    };
+  }
+  const totalPages = source.getPageCount();
+  const ranges = getChunkRanges(totalPages, pagesPerChunk);
+
+  if (ranges.length <= 1) {
+    return {
+      totalPages,
+      chunks: [{ index: 0, startPage: 1, endPage: totalPages, pdfBase64 }]
+    };
+  }
+
+  const chunks: PDFChunk[] = [];
+  for (const [index, range] of ranges.entries()) {
+    const chunkDoc = await PDFDocument.create();
+    const pageIndices = Array.from(
+      { length: range.endPage - range.startPage + 1 },
+      (_, offset) => range.startPage - 1 + offset
+    );
+    const pages = await chunkDoc.copyPages(source, pageIndices);
+    pages.forEach((page) => chunkDoc.addPage(page));
+
+    const bytes = await chunkDoc.save();
+    chunks.push({
+      index,
+      ...range,
+      pdfBase64: PDF_DATA_URI_PREFIX + Buffer.from(bytes).toString('base64')
+    });
+  }
+
+  console.log(`✂️ Split ${totalPages}-page PDF into ${chunks.length} chunks`);
+  return { totalPages, chunks };
+}
+
+/**
+ * Prompt suffix telling the model which part of the document it is looking at
+ */
+export function getChunkPromptContext(chunk: PDFChunk, totalPages: number): string {
+  return `
+
+DOCUMENT PART: This file contains pages ${chunk.startPage}-${chunk.endPage} of a ${totalPages}-page document.
+Number positions by page within this file (the first page here is page 1). Only extract content visible in this part.`;
+}
+
+/**
+ * Offset a chunk-relative position to its page in the full document
+ */
+function offsetPosition(position: PagePosition, pageOffset: number): PagePosition {
+  return { ...position, page: position.page + pageOffset };
+}
+
+/**
+ * Average weighted by the number of pages each chunk covers
+ */
+function weightedAverage(values: Array<{ value: number; weight: number }>): number {
+  const totalWeight = values.reduce((sum, item) => sum + item.weight, 0);
+  if (totalWeight === 0) {
+    return 0;
+  }
+  return values.reduce((sum, item) => sum + item.value * item.weight, 0) / totalWeight;
+}
+
+/**
+ * Unique, order-preserving concatenation of optional string arrays
+ */
+function mergeUnique(lists: Array<string[] | undefined>): string[] | undefined {
+  const present = lists.filter((list): list is string[] => Array.isArray(list));
+  if (present.length === 0) {
+    return undefined;
+  }
+  return Array.from(new Set(present.flat()));
+}
+
+/**
+ * First non-empty value across chunks, skipping sanitizer placeholders
+ */
+function firstMeaningful<T>(values: Array<T | undefined>, placeholders: T[] = []): T | undefined {
+  return values.find((value) => value !== undefined && value !== '' && !placeholders.includes(value));
+}
+
+/**
+ * Merge the extracted content of all chunks
+ */
+function mergeExtractedContent(partials: ChunkAnalysis[], questionCount: number, sectionCount: number): ExtractedContent {
+  const contents = partials.map((partial) => partial.response.extractedContent);
+
+  const merged: ExtractedContent = {
+    title: firstMeaningful(contents.map((content) => content.title), ['Untitled Document']) || 'Untitled Document'
+  };
+
+  const stringFields = ['subtitle', 'author', 'date', 'course', 'instructions', 'abstract'] as const;
+  for (const field of stringFields) {
+    const value = firstMeaningful(contents.map((content) => content[field]));
+    if (value) {
+      merged[field] = value;
+    }
+  }
+
+  const arrayFields = ['keywords', 'learningOutcomes', 'prerequisites', 'materials', 'references'] as const;
+  for (const field of arrayFields) {
+    const value = mergeUnique(contents.map((content) => content[field]));
+    if (value) {
+      merged[field] = value;
+    }
+  }
+
+  const withStatistics = partials.filter((partial) => partial.response.extractedContent.statistics);
+  if (withStatistics.length > 0) {
+    const sum = (key: 'wordCount' | 'estimatedReadingTime') =>
+      withStatistics.reduce((total, partial) => total + partial.response.extractedContent.statistics![key], 0);
+
+    merged.statistics = {
+      wordCount: sum('wordCount'),
+      pageCount: partials.reduce((total, partial) => total + partial.chunk.endPage - partial.chunk.startPage + 1, 0),
+      questionCount,
+      sectionCount,
+      estimatedReadingTime: sum('estimatedReadingTime'),
+      complexityScore: weightedAverage(withStatistics.map((partial) => ({
+        value: partial.response.extractedContent.statistics!.complexityScore,
+        weight: partial.chunk.endPage - partial.chunk.startPage + 1
+      })))
+    };
+  }
+
+  return merged;
+}
+
+/**
+ * Merge partial chunk analyses into a single response.
+ *
+ * Pure and deterministic: chunks are merged in page order, question and
+ * section ids are renumbered sequentially, positions are shifted to
+ * document pages and statistics are summed.
+ */
+export function mergeAnalysisResponses(partials: ChunkAnalysis[]): GeminiAnalysisResponse {
+  if (partials.length === 0) {
+    throw new Error('Cannot merge an empty list of chunk analyses');
+  }
+
+  const ordered = [...partials].sort((a, b) => a.chunk.startPage - b.chunk.startPage);
+  if (ordered.length === 1) {
+    return ordered[0].response;
+  }
+
+  const questions: ExtractedQuestion[] = [];
+  const sections: DocumentSection[] = [];
+  // Per-chunk id remapping, used for insights that reference questions/sections
+  const idMaps: Array<Map<string, string>> = [];
+  const usedNumbers = new Set<string>();
+
+  ordered.forEach((partial) => {
+    const pageOffset = partial.chunk.startPage - 1;
+    const idMap = new Map<string, string>();
+
+    const firstSection = sections.length;
+
+    partial.response.documentStructure.sections.forEach((section) => {
+      const id = `section_${sections.length + 1}`;
+      idMap.set(section.id, id);
+      sections.push({ ...section, id, position: offsetPosition(section.position, pageOffset) });
+    });
+
+    // Sections may reference each other by id within the chunk
+    const remapSectionId = (sectionId: string) => idMap.get(sectionId) || sectionId;
+    sections.slice(firstSection).forEach((section) => {
+      if (section.parentId) {
+        section.parentId = remapSectionId(section.parentId);
+      }
+      if (section.children) {
+        section.children = section.children.map(remapSectionId);
+      }
+    });
+
+    partial.response.extractedQuestions.forEach((question) => {
+      const id = `question_${questions.length + 1}`;
+      idMap.set(question.id, id);
+
+      // Keep printed numbers, but restart-at-1 numbering from later chunks gets replaced
+      const number = question.number && !usedNumbers.has(question.number)
+        ? question.number
+        : String(questions.length + 1);
+      usedNumbers.add(number);
+
+      questions.push({
+        ...question,
+        id,
+        number,
+        ...(question.position && { position: offsetPosition(question.position, pageOffset) })
+      });
+    });
+
+    idMaps.push(idMap);
+  });
+
+  const structures = ordered.map((partial) => partial.response.documentStructure);
+  const pageWeights = ordered.map((partial) => partial.chunk.endPage - partial.chunk.startPage + 1);
+  const confidence = weightedAverage(structures.map((structure, index) => ({
+    value: structure.confidence,
+    weight: pageWeights[index]
+  })));
+
+  const estimatedTimes = structures
+    .map((structure) => structure.estimatedTime)
+    .filter((time): time is number => typeof time === 'number');
+
+  const merged: GeminiAnalysisResponse = {
+    documentStructure: {
+      ...structures[0],
+      subject: firstMeaningful(structures.map((structure) => structure.subject), ['Unknown Subject']) || structures[0].subject,
+      confidence,
+      sections,
+      ...(estimatedTimes.length > 0 && {
+        estimatedTime: estimatedTimes.reduce((total, time) => total + time, 0)
+      }),
+      ...(structures.some((structure) => structure.metadata) && {
+        metadata: {
+          ...structures.find((structure) => structure.metadata)!.metadata,
+          tags: mergeUnique(structures.map((structure) => structure.metadata?.tags)),
+          references: mergeUnique(structures.map((structure) => structure.metadata?.references))
+        }
+      })
+    },
+    extractedQuestions: questions,
+    extractedContent: mergeExtractedContent(ordered, questions.length, sections.length)
+  };
+
+  const insights = ordered
+    .map((partial, chunkIndex) => ({ insights: partial.response.insights, idMap: idMaps[chunkIndex] }))
+    .filter((item) => item.insights);
+  if (insights.length > 0) {
+    const first = insights[0].insights!;
+    merged.insights = {
+      ...first,
+      completeness: weightedAverage(insights.map((item) => ({ value: item.insights!.completeness, weight: 1 }))),
+      suggestions: mergeUnique(insights.map((item) => item.insights!.suggestions)) || [],
+      improvements: insights.flatMap((item) =>
+        (item.insights!.improvements || []).map((improvement) => ({
+          ...improvement,
+          sectionId: improvement.sectionId && (item.idMap.get(improvement.sectionId) || improvement.sectionId),
+          questionId: improvement.questionId && (item.idMap.get(improvement.questionId) || improvement.questionId)
+        }))
+      )
+    };
+  }
+
+  const infos = ordered.map((partial) => partial.response.processingInfo).filter((info) => info);
+  if (infos.length > 0) {
+    const sumInfo = (key: 'tokenCount' | 'apiCalls' | 'retries') =>
+      infos.reduce((total, info) => total + (info![key] || 0), 0);
+    const warnings = infos.flatMap((info) => info!.warnings || []);
+    const errors = infos.flatMap((info) => info!.errors || []);
+
+    merged.processingInfo = {
+      timestamp: Math.max(...infos.map((info) => info!.timestamp)),
+      version: infos[0]!.version,
+      model: infos[0]!.model,
+      processingTime: infos.reduce((total, info) => total + info!.processingTime, 0),
+      confidence,
+      tokenCount: sumInfo('tokenCount'),
+      apiCalls: sumInfo('apiCalls'),
+      retries: sumInfo('retries'),
+      ...(warnings.length > 0 && { warnings }),
+      ...(errors.length > 0 && { errors })
+    };
+  }
+
+  return merged;
+}
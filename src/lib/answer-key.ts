@@ -0,0 +1,85 @@
+// CREATED: 2026-10-19 - Student / teacher copy helpers for answer-key output
+
+import { ExtractedQuestion } from "@/types/gemini";
+import { TemplateExportOptions } from "@/types/pdfme-extensions";
+
+/**
+ * Answer-key flags, shared with TemplateExportOptions.exportSettings.pdf
+ */
+export type AnswerKeySettings = Pick<
+  NonNullable<NonNullable<TemplateExportOptions["exportSettings"]>["pdf"]>,
+  "includeAnswerKey" | "includeBlankVersion"
+>;
+
+export const DEFAULT_ANSWER_KEY_SETTINGS: AnswerKeySettings = {
+  includeAnswerKey: true,
+  includeBlankVersion: true,
+};
+
+const OPTION_LETTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+/**
+ * Check whether a question carries anything worth printing in the teacher copy
+ */
+export function hasAnswerKeyContent(question: ExtractedQuestion): boolean {
+  return !!(question.correctAnswer?.trim() || question.explanation?.trim());
+}
+
+/**
+ * Index of the correct option for choice questions, or -1 when unknown.
+ * Accepts option letters ("B", "b)", "B.") as well as the option text itself.
+ */
+export function getCorrectOptionIndex(question: ExtractedQuestion): number {
+  const answer = question.correctAnswer?.trim() || "";
+  if (!answer || !question.options || question.options.length === 0) {
+    return -1;
+  }
+
+  const letterMatch = /^([A-Za-z])[.)]?$/.exec(answer);
+  if (letterMatch) {
+    const index = OPTION_LETTERS.indexOf(letterMatch[1].toUpperCase());
+    if (index >= 0 && index < question.options.length) {
+      return index;
+    }
+  }
+
+  return question.options.findIndex(
+    (option) => option.trim().toLowerCase() === answer.toLowerCase()
+  );
+}
+
+/**
+ * Letter label for an option index (0 -> "A")
+ */
+export const getOptionLetter = (index: number): string => OPTION_LETTERS[index] || "";
+
+/**
+ * Resolve the displayed answer, expanding option letters/indices to "B. text"
+ */
+export function resolveCorrectAnswer(question: ExtractedQuestion): string {
+  const answer = question.correctAnswer?.trim() || "";
+  const optionIndex = getCorrectOptionIndex(question);
+
+  if (optionIndex >= 0 && question.options) {
+    return `${OPTION_LETTERS[optionIndex]}. ${question.options[optionIndex]}`;
+  }
+
+  return answer;
+}
+
+/**
+ * Format the teacher-copy text for a question
+ */
+export function formatAnswerKeyText(question: ExtractedQuestion): string {
+  const lines: string[] = [];
+  const answer = resolveCorrectAnswer(question);
+
+  if (answer) {
+    lines.push(`Answer: ${answer}`);
+  }
+  if (question.explanation?.trim()) {
+    lines.push(`Explanation: ${question.explanation.trim()}`);
+  }
+
+  return lines.join("\n");
+}
@@ -1,6 +1,12 @@
 // CREATED: 2025-07-03 - API client utility for frontend integration
+// UPDATED: 2026-10-19 - Consume NDJSON progress stream from /api/analyze-pdf
 
-import { GeminiAnalysisResponse } from "@/types/gemini";
+import {
+  AnalysisStatus,
+  AnalysisStreamEvent,
+  ExtractedQuestion,
+  GeminiAnalysisResponse,
+} from "@/types/gemini";
 
 export interface AnalyzePDFRequest {
   file: File;
@@ -15,6 +21,11 @@ export interface AnalyzePDFResponse {
   processingTime?: number;
 }
 
+export interface AnalyzePDFProgressHandlers {
+  onStatus?: (status: AnalysisStatus) => void;
+  onQuestions?: (questions: ExtractedQuestion[]) => void;
+}
+
 export interface HealthCheckResponse {
   status: "healthy" | "unhealthy" | "degraded";
   timestamp: string;
@@ -48,9 +59,12 @@ export class DocuBrandAPI {
   }
 
   /**
-   * Analyze PDF document
+   * Analyze PDF document, streaming server progress to the optional handlers
    */
-  async analyzePDF(request: AnalyzePDFRequest): Promise<AnalyzePDFResponse> {
+  async analyzePDF(
+    request: AnalyzePDFRequest,
+    handlers: AnalyzePDFProgressHandlers = {}
+  ): Promise<AnalyzePDFResponse> {
     try {
       console.log("📤 Sending PDF for analysis:", {
         fileName: request.file.name,
@@ -60,6 +74,11 @@ export class DocuBrandAPI {
       });
 
       // Convert file to base64
+      handlers.onStatus?.({
+        status: "uploading",
+        progress: 2,
+        currentStep: "Uploading document...",
+      });
       const base64Data = await this.fileToBase64(request.file);
 
       // Prepare request body
@@ -75,13 +94,21 @@ export class DocuBrandAPI {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          Accept: "application/x-ndjson, application/json",
         },
         body: JSON.stringify(requestBody),
       });
 
-      const result: AnalyzePDFResponse = await response.json();
+      // Validation errors come back as plain JSON even for streaming requests
+      const isStream = (response.headers.get("content-type") || "").includes(
+        "application/x-ndjson"
+      );
+      const result: AnalyzePDFResponse =
+        isStream && response.body
+          ? await this.readAnalysisStream(response.body, handlers)
+          : await response.json();
 
-      if (!response.ok) {
+      if (!response.ok || !result.success) {
         throw new Error(
           result.error || `API request failed: ${response.status}`
         );
@@ -106,6 +133,65 @@ export class DocuBrandAPI {
     }
   }
 
+  /**
+   * Read NDJSON analysis events until the final result or error event
+   */
+  private async readAnalysisStream(
+    body: ReadableStream<Uint8Array>,
+    handlers: AnalyzePDFProgressHandlers
+  ): Promise<AnalyzePDFResponse> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let result: AnalyzePDFResponse | null = null;
+
+    const handleLine = (line: string) => {
+      if (!line.trim()) return;
+
+      const event: AnalysisStreamEvent = JSON.parse(line);
+      switch (event.type) {
+        case "status":
+          handlers.onStatus?.(event.status);
+          break;
+        case "questions":
+          handlers.onQuestions?.(event.questions);
+          break;
+        case "result":
+          result = {
+            success: true,
+            data: event.data,
+            processingTime: event.processingTime,
+          };
+          break;
+        case "error":
+          result = {
+            success: false,
+            error: event.error,
+            processingTime: event.processingTime,
+          };
+          break;
+      }
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      lines.forEach(handleLine);
+    }
+    handleLine(buffer + decoder.decode());
+
+    return (
+      result || {
+        success: false,
+        error: "Analysis stream ended without a result",
+      }
+    );
+  }
+
   /**
    * Check system health
    */
@@ -266,7 +352,9 @@ export function useDocuBrandAPI() {
 
       onProgress?.("Analyzing document...");
 
-      const result = await docuBrandAPI.analyzePDF(request);
+      const result = await docuBrandAPI.analyzePDF(request, {
+        onStatus: (status) => status.currentStep && onProgress?.(status.currentStep),
+      });
 
       if (result.success) {
         onProgress?.("Analysis complete!");
@@ -0,0 +1,300 @@
+// CREATED: 2026-10-19 - WCAG contrast checks for the colour pairs used by branding and templates
+
+import { BrandKit, WatermarkSettings } from '@/types';
+import { resolveWatermarkSettings } from './watermark-engine';
+
+// WCAG 2.1 AA: 4.5:1 for normal text, 3:1 for large text (18pt, or 14pt bold)
+export const WCAG_AA_NORMAL = 4.5;
+export const WCAG_AA_LARGE = 3;
+
+// Text colours the branding layer draws with (see PDFBuilder)
+export const DARK_TEXT_COLOR = '#262626';
+export const LIGHT_TEXT_COLOR = '#FFFFFF';
+export const MUTED_TEXT_COLOR = '#4D4D4D';
+export const PAGE_COLOR = '#FFFFFF';
+const WATERMARK_GRAY = '#808080';
+
+export type BrandColorField = 'color' | 'secondaryColor' | 'accentColor';
+
+export const BRAND_COLOR_LABELS: Record<BrandColorField, string> = {
+  color: 'primary colour',
+  secondaryColor: 'secondary colour',
+  accentColor: 'accent colour',
+};
+
+export interface ContrastCheck {
+  id: string;
+  label: string;
+  usage: string; // Where the pair appears
+  foreground: string;
+  background: string;
+  ratio: number;
+  required: number;
+  passes: boolean;
+  // Nearest shade of a kit colour that passes, when the kit colour is the culprit
+  suggestion?: { field: BrandColorField; value: string };
+  // Highest watermark opacity that keeps body text readable
+  suggestedOpacity?: number;
+}
+
+export function isLargeText(fontSize: number, bold = false): boolean {
+  return fontSize >= 18 || (bold && fontSize >= 14);
+}
+
+/**
+ * Parse #RGB or #RRGGBB; null for anything else
+ */
+export function parseHexColor(hex: string): { r: number; g: number; b: number } | null {
+  const value = hex?.trim().replace(/^#/, '') || '';
+  const full = /^[a-f\d]{3}$/i.test(value)
+    ? value.split('').map((char) => char + char).join('')
+    : value;
+  const match = /^([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(full);
+
+  return match
+    ? { r: parseInt(match[1], 16), g: parseInt(match[2], 16), b: parseInt(match[3], 16) }
+    : null;
+}
+
+function toHex({ r, g, b }: { r: number; g: number; b: number }): string {
+  return `#${[r, g, b]
+    .map((channel) => Math.round(Math.max(0, Math.min(255, channel))).toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase()}`;
+}
+
+/**
+ * WCAG relative luminance (0 = black, 1 = white)
+ */
+export function relativeLuminance(hex: string): number {
+  const color = parseHexColor(hex);
+  if (!color) return 0;
+
+  const [r, g, b] = [color.r, color.g, color.b].map((channel) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * WCAG contrast ratio between two colours, 1 to 21
+ */
+export function contrastRatio(foreground: string, background: string): number {
+  const a = relativeLuminance(foreground);
+  const b = relativeLuminance(background);
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+/**
+ * Dark or white text, whichever reads better on the background
+ */
+export function readableTextColor(background: string): string {
+  return contrastRatio(DARK_TEXT_COLOR, background) >= contrastRatio(LIGHT_TEXT_COLOR, background)
+    ? DARK_TEXT_COLOR
+    : LIGHT_TEXT_COLOR;
+}
+
+/**
+ * A colour drawn at an opacity over a background, as it prints
+ */
+export function blendColors(foreground: string, background: string, opacity: number): string {
+  const fg = parseHexColor(foreground) || { r: 0, g: 0, b: 0 };
+  const bg = parseHexColor(background) || { r: 255, g: 255, b: 255 };
+  const alpha = Math.max(0, Math.min(1, opacity));
+
+  return toHex({
+    r: fg.r * alpha + bg.r * (1 - alpha),
+    g: fg.g * alpha + bg.g * (1 - alpha),
+    b: fg.b * alpha + bg.b * (1 - alpha),
+  });
+}
+
+/**
+ * Nearest shade of `color` (same hue and saturation, lightness moved as little
+ * as possible) with at least `required` contrast against `background`
+ */
+export function suggestCompliantShade(color: string, background: string, required: number = WCAG_AA_NORMAL): string {
+  if (contrastRatio(color, background) >= required) {
+    return toHex(parseHexColor(color) || { r: 0, g: 0, b: 0 });
+  }
+
+  const [hue, saturation, lightness] = rgbToHsl(parseHexColor(color) || { r: 0, g: 0, b: 0 });
+
+  for (let step = 0.005; step <= 1; step += 0.005) {
+    const candidates = [lightness - step, lightness + step]
+      .filter((value) => value >= 0 && value <= 1)
+      .map((value) => toHex(hslToRgb(hue, saturation, value)));
+    const passing = candidates.find((candidate) => contrastRatio(candidate, background) >= required);
+    if (passing) return passing;
+  }
+
+  return readableTextColor(background);
+}
+
+/**
+ * Check every colour pair the branding layer and templates draw with a kit
+ */
+export function checkBrandKitContrast(brandKit: BrandKit): ContrastCheck[] {
+  const checks: ContrastCheck[] = [];
+
+  const addCheck = (
+    check: Omit<ContrastCheck, 'ratio' | 'passes' | 'suggestion'>,
+    culprit?: { field: BrandColorField; side: 'foreground' | 'background' }
+  ) => {
+    const ratio = contrastRatio(check.foreground, check.background);
+    const result: ContrastCheck = { ...check, ratio, passes: ratio >= check.required };
+
+    if (!result.passes && culprit) {
+      result.suggestion = {
+        field: culprit.field,
+        value: culprit.side === 'foreground'
+          ? suggestCompliantShade(check.foreground, check.background, check.required)
+          : suggestCompliantShade(check.background, check.foreground, check.required),
+      };
+    }
+    checks.push(result);
+  };
+
+  // Header band / badge: kit name in dark or white text on the primary colour
+  addCheck(
+    {
+      id: 'header-on-primary',
+      label: 'Header text on primary',
+      usage: 'Kit name on the header band',
+      foreground: readableTextColor(brandKit.color),
+      background: brandKit.color,
+      required: WCAG_AA_LARGE,
+    },
+    { field: 'color', side: 'background' }
+  );
+
+  // Header band footer: footer text and page numbers on the secondary colour
+  addCheck(
+    {
+      id: 'footer-on-secondary',
+      label: 'Footer text on secondary',
+      usage: 'Footer bar of the header band layout',
+      foreground: readableTextColor(brandKit.secondaryColor),
+      background: brandKit.secondaryColor,
+      required: WCAG_AA_NORMAL,
+    },
+    { field: 'secondaryColor', side: 'background' }
+  );
+
+  addCheck({
+    id: 'footer-on-page',
+    label: 'Footer text on page',
+    usage: 'Footer of the sidebar, corner badge and letterhead layouts',
+    foreground: MUTED_TEXT_COLOR,
+    background: PAGE_COLOR,
+    required: WCAG_AA_NORMAL,
+  });
+
+  addCheck(
+    {
+      id: 'primary-on-page',
+      label: 'Primary text on page',
+      usage: 'Letterhead kit name and template headings',
+      foreground: brandKit.color,
+      background: PAGE_COLOR,
+      required: WCAG_AA_LARGE,
+    },
+    { field: 'color', side: 'foreground' }
+  );
+
+  addCheck(
+    {
+      id: 'accent-on-page',
+      label: 'Accent text on page',
+      usage: 'Answer-key answers and highlighted template text',
+      foreground: brandKit.accentColor,
+      background: PAGE_COLOR,
+      required: WCAG_AA_NORMAL,
+    },
+    { field: 'accentColor', side: 'foreground' }
+  );
+
+  // Body text printed over the watermark
+  const watermark = resolveWatermarkSettings(brandKit);
+  if (watermark?.type === 'text') {
+    const watermarkColor = getWatermarkHex(brandKit, watermark.color);
+    const behindText = blendColors(watermarkColor, PAGE_COLOR, watermark.opacity);
+    const check: ContrastCheck = {
+      id: 'text-over-watermark',
+      label: 'Body text over watermark',
+      usage: `Page text where it crosses the watermark (${Math.round(watermark.opacity * 100)}% opacity)`,
+      foreground: DARK_TEXT_COLOR,
+      background: behindText,
+      ratio: contrastRatio(DARK_TEXT_COLOR, behindText),
+      required: WCAG_AA_NORMAL,
+      passes: false,
+    };
+    check.passes = check.ratio >= check.required;
+    if (!check.passes) {
+      check.suggestedOpacity = maxWatermarkOpacity(watermarkColor, WCAG_AA_NORMAL);
+    }
+    checks.push(check);
+  }
+
+  return checks;
+}
+
+/**
+ * Highest opacity at which dark body text over the watermark still passes
+ */
+function maxWatermarkOpacity(watermarkColor: string, required: number): number {
+  for (let opacity = 1; opacity > 0; opacity -= 0.05) {
+    const rounded = Math.round(opacity * 100) / 100;
+    if (contrastRatio(DARK_TEXT_COLOR, blendColors(watermarkColor, PAGE_COLOR, rounded)) >= required) {
+      return rounded;
+    }
+  }
+  return 0.05;
+}
+
+function getWatermarkHex(brandKit: BrandKit, color: WatermarkSettings['color']): string {
+  switch (color) {
+    case 'primary': return brandKit.color;
+    case 'secondary': return brandKit.secondaryColor;
+    case 'accent': return brandKit.accentColor;
+    default: return WATERMARK_GRAY;
+  }
+}
+
+function rgbToHsl({ r, g, b }: { r: number; g: number; b: number }): [number, number, number] {
+  const [red, green, blue] = [r / 255, g / 255, b / 255];
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const lightness = (max + min) / 2;
+
+  if (max === min) return [0, 0, lightness];
+
+  const delta = max - min;
+  const saturation = lightness > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+  const hue = max === red
+    ? (green - blue) / delta + (green < blue ? 6 : 0)
+    : max === green
+      ? (blue - red) / delta + 2
+      : (red - green) / delta + 4;
+
+  return [hue / 6, saturation, lightness];
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): { r: number; g: number; b: number } {
+  if (saturation === 0) {
+    return { r: lightness * 255, g: lightness * 255, b: lightness * 255 };
+  }
+
+  const q = lightness < 0.5 ? lightness * (1 + saturation) : lightness + saturation - lightness * saturation;
+  const p = 2 * lightness - q;
+  const channel = (t: number) => {
+    const value = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+    if (value < 1 / 6) return p + (q - p) * 6 * value;
+    if (value < 1 / 2) return q;
+    if (value < 2 / 3) return p + (q - p) * (2 / 3 - value) * 6;
+    return p;
+  };
+
+  return { r: channel(hue + 1 / 3) * 255, g: channel(hue) * 255, b: channel(hue - 1 / 3) * 255 };
+}
@@ -0,0 +1,566 @@
+// CREATED: 2026-10-19 - Portable brand kit bundles (JSON with embedded logo and font binaries)
+// UPDATED: 2026-10-19 - Carry watermark settings
+// UPDATED: 2026-10-19 - Embedded fonts persisted per kit and re-registered on load; watermark settings validated
+
+import { BrandKit, SavedBrandKit, WatermarkSettings } from '@/types';
+import { AVAILABLE_FONTS } from './brand-kit';
+import { createBrandKitId, defaultBrandKit } from './storage';
+import { BrandKitFontStorage, brandKitFontStorage } from './brand-kit-font-storage';
+import { validateWatermarkSettings } from './watermark-engine';
+
+export const BRAND_KIT_BUNDLE_FORMAT = 'docubrand-brand-kit';
+export const BRAND_KIT_BUNDLE_VERSION = 1;
+export const BRAND_KIT_BUNDLE_EXTENSION = '.docubrand-kit.json';
+
+const MAX_LOGO_BYTES = 5 * 1024 * 1024; // Same limit as the logo upload
+const MAX_FONT_BYTES = 10 * 1024 * 1024; // Across all embedded font files
+
+export type BundleFontFormat = 'woff2' | 'woff' | 'truetype' | 'opentype';
+
+/**
+ * One embedded font file. Google Fonts splits a family into unicode-range
+ * subsets (latin, latin-ext, vietnamese...), so a family has several entries.
+ */
+export interface BrandKitBundleFont {
+  family: string;
+  role: 'body' | 'header';
+  weight: number;
+  style: 'normal' | 'italic';
+  unicodeRange?: string;
+  format: BundleFontFormat;
+  data: string; // base64
+}
+
+export interface BrandKitBundle {
+  format: typeof BRAND_KIT_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  kit: {
+    id: string | null;
+    name: string;
+    logo: string | null; // data URL
+    color: string;
+    secondaryColor: string;
+    accentColor: string;
+    font: string;
+    headerFont: string;
+    watermark: string | null;
+    footerText: string | null;
+    watermarkSettings?: WatermarkSettings;
+  };
+  fonts: BrandKitBundleFont[];
+}
+
+export interface BrandKitExportResult {
+  bundle: BrandKitBundle;
+  warnings: string[];
+}
+
+export interface BrandKitBundleValidation {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  bundle?: BrandKitBundle;
+}
+
+export interface BrandKitImportConflict {
+  existingKit: SavedBrandKit;
+  reason: 'id' | 'name';
+}
+
+export type BrandKitConflictResolution = 'replace' | 'keep-both' | 'skip';
+
+export interface BrandKitImportPlan {
+  kit: SavedBrandKit;
+  replaceKitId: string | null; // Library kit to overwrite, null to append
+}
+
+/**
+ * Build a bundle for a kit. Font files the kit was imported with are reused;
+ * others are downloaded from Google Fonts. Fonts that cannot be fetched are
+ * left out with a warning; the family name is still exported so the importer
+ * falls back to loading it by name.
+ */
+export async function exportBrandKitBundle(kit: BrandKit): Promise<BrandKitExportResult> {
+  const warnings: string[] = [];
+  const fonts: BrandKitBundleFont[] = [];
+  const savedFonts = kit.id ? await loadSavedFonts([kit.id]) : [];
+
+  const roles: Array<{ family: string; role: BrandKitBundleFont['role'] }> = [
+    { family: kit.font, role: 'body' },
+  ];
+  if (kit.headerFont && kit.headerFont !== kit.font) {
+    roles.push({ family: kit.headerFont, role: 'header' });
+  }
+
+  for (const { family, role } of roles) {
+    const saved = savedFonts.filter((font) => font.family === family);
+    if (saved.length > 0) {
+      fonts.push(...saved.map((font) => ({ ...font, role })));
+      continue;
+    }
+
+    try {
+      const files = await fetchGoogleFontFiles(family);
+      fonts.push(...files.map((file) => ({ ...file, role })));
+    } catch (error) {
+      warnings.push(
+        `Font "${family}" was not embedded: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  if (kit.logo.dataUrl && !kit.logo.dataUrl.startsWith('data:')) {
+    warnings.push('Logo is not a data URL and was not embedded');
+  }
+
+  const bundle: BrandKitBundle = {
+    format: BRAND_KIT_BUNDLE_FORMAT,
+    version: BRAND_KIT_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    kit: {
+      id: kit.id || null,
+      name: kit.name || 'Brand Kit',
+      logo: kit.logo.dataUrl?.startsWith('data:') ? kit.logo.dataUrl : null,
+      color: kit.color,
+      secondaryColor: kit.secondaryColor,
+      accentColor: kit.accentColor,
+      font: kit.font,
+      headerFont: kit.headerFont,
+      watermark: kit.watermark,
+      footerText: kit.footerText,
+      watermarkSettings: kit.watermarkSettings,
+    },
+    fonts,
+  };
+
+  console.log(`📦 Exported brand kit "${bundle.kit.name}" with ${fonts.length} font files`);
+  return { bundle, warnings };
+}
+
+/**
+ * Export a kit and save it as a .docubrand-kit.json file
+ */
+export async function downloadBrandKitBundle(kit: BrandKit): Promise<string[]> {
+  const { bundle, warnings } = await exportBrandKitBundle(kit);
+  const blob = new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const slug = bundle.kit.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'brand-kit';
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${slug}${BRAND_KIT_BUNDLE_EXTENSION}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+
+  return warnings;
+}
+
+/**
+ * Parse and validate a bundle file's text. Invalid colours, logos or font
+ * files are errors; unknown font families and missing binaries are warnings.
+ */
+export function parseBrandKitBundle(text: string): BrandKitBundleValidation {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { valid: false, errors: ['File is not valid JSON'], warnings };
+  }
+
+  if (!isObject(data) || data.format !== BRAND_KIT_BUNDLE_FORMAT) {
+    return { valid: false, errors: ['File is not a DocuBrand brand kit bundle'], warnings };
+  }
+
+  if (typeof data.version !== 'number' || data.version > BRAND_KIT_BUNDLE_VERSION) {
+    errors.push(`Unsupported bundle version: ${data.version}`);
+  }
+
+  const kit = data.kit;
+  if (!isObject(kit)) {
+    return { valid: false, errors: [...errors, 'Bundle has no kit'], warnings };
+  }
+
+  if (typeof kit.name !== 'string' || !kit.name.trim()) {
+    errors.push('Kit name is missing');
+  }
+  if (kit.id !== null && kit.id !== undefined && typeof kit.id !== 'string') {
+    errors.push('Kit id must be a string');
+  }
+
+  (['color', 'secondaryColor', 'accentColor'] as const).forEach((field) => {
+    if (!isHexColor(kit[field])) {
+      errors.push(`${field} must be a hex colour like #3B82F6`);
+    }
+  });
+
+  (['font', 'headerFont'] as const).forEach((field) => {
+    if (typeof kit[field] !== 'string' || !kit[field].trim()) {
+      errors.push(`${field} is missing`);
+    } else if (!AVAILABLE_FONTS.some((font) => font.name === kit[field])) {
+      warnings.push(`${field} "${kit[field]}" is not in the font list; the embedded files will be used for preview only`);
+    }
+  });
+
+  (['watermark', 'footerText'] as const).forEach((field) => {
+    if (kit[field] !== null && kit[field] !== undefined && typeof kit[field] !== 'string') {
+      errors.push(`${field} must be text`);
+    }
+  });
+
+  let watermarkSettings: WatermarkSettings | undefined;
+  if (kit.watermarkSettings !== undefined && kit.watermarkSettings !== null) {
+    const result = validateWatermarkSettings(kit.watermarkSettings);
+    watermarkSettings = result.settings;
+    errors.push(...result.errors);
+  }
+
+  if (kit.logo !== null && kit.logo !== undefined) {
+    const logoError = validateLogo(kit.logo);
+    if (logoError) errors.push(logoError);
+  }
+
+  if (!Array.isArray(data.fonts)) {
+    errors.push('fonts must be a list');
+  } else {
+    let totalFontBytes = 0;
+    data.fonts.forEach((font: unknown, index: number) => {
+      const result = validateFont(font, index);
+      if (typeof result === 'string') {
+        errors.push(result);
+      } else {
+        totalFontBytes += result;
+      }
+    });
+
+    if (totalFontBytes > MAX_FONT_BYTES) {
+      errors.push(`Embedded fonts are ${Math.round(totalFontBytes / 1024 / 1024)}MB; the limit is 10MB`);
+    }
+
+    (['font', 'headerFont'] as const).forEach((field) => {
+      if (typeof kit[field] === 'string' && !data.fonts.some((font: any) => font?.family === kit[field])) {
+        warnings.push(`No embedded files for "${kit[field]}"; it will be loaded from Google Fonts`);
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors, warnings };
+  }
+
+  return {
+    valid: true,
+    errors,
+    warnings: Array.from(new Set(warnings)),
+    bundle: {
+      format: BRAND_KIT_BUNDLE_FORMAT,
+      version: data.version,
+      exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+      kit: {
+        id: kit.id || null,
+        name: kit.name.trim(),
+        logo: kit.logo || null,
+        color: kit.color,
+        secondaryColor: kit.secondaryColor,
+        accentColor: kit.accentColor,
+        font: kit.font,
+        headerFont: kit.headerFont,
+        watermark: kit.watermark || null,
+        footerText: kit.footerText || null,
+        watermarkSettings,
+      },
+      fonts: data.fonts,
+    },
+  };
+}
+
+/**
+ * A library kit the bundle would collide with: same id first, then same name
+ */
+export function findBrandKitConflict(
+  bundle: BrandKitBundle,
+  kits: SavedBrandKit[]
+): BrandKitImportConflict | null {
+  const byId = bundle.kit.id ? kits.find((kit) => kit.id === bundle.kit.id) : undefined;
+  if (byId) {
+    return { existingKit: byId, reason: 'id' };
+  }
+
+  const name = bundle.kit.name.toLowerCase();
+  const byName = kits.find((kit) => kit.name.toLowerCase() === name);
+  return byName ? { existingKit: byName, reason: 'name' } : null;
+}
+
+/**
+ * Turn a bundle into a library kit according to the chosen conflict resolution.
+ * Returns null when the import is skipped.
+ */
+export function planBrandKitImport(
+  bundle: BrandKitBundle,
+  kits: SavedBrandKit[],
+  resolution: BrandKitConflictResolution = 'keep-both'
+): BrandKitImportPlan | null {
+  const conflict = findBrandKitConflict(bundle, kits);
+  if (conflict && resolution === 'skip') {
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  const replacing = conflict && resolution === 'replace' ? conflict.existingKit : null;
+
+  let id = replacing?.id || bundle.kit.id || createBrandKitId();
+  let name = bundle.kit.name;
+  if (!replacing) {
+    if (kits.some((kit) => kit.id === id)) {
+      id = createBrandKitId();
+    }
+    name = uniqueKitName(name, kits);
+  }
+
+  const { logo, ...fields } = bundle.kit;
+  const kit: SavedBrandKit = {
+    ...defaultBrandKit,
+    ...fields,
+    logo: { file: null, dataUrl: logo },
+    id,
+    name,
+    createdAt: replacing?.createdAt || now,
+    updatedAt: now,
+  };
+
+  return { kit, replaceKitId: replacing?.id || null };
+}
+
+/**
+ * Keep an imported kit's font files so they survive a reload
+ */
+export async function saveBundleFonts(kitId: string, fonts: BrandKitBundleFont[]): Promise<void> {
+  if (!BrandKitFontStorage.isSupported()) return;
+  if (fonts.length === 0) {
+    await brandKitFontStorage.delete(kitId); // A replaced kit may have had fonts
+    return;
+  }
+  await brandKitFontStorage.save(kitId, fonts);
+  console.log(`💾 Saved ${fonts.length} embedded font files for kit ${kitId}`);
+}
+
+/**
+ * Forget a kit's saved font files, e.g. when the kit is deleted
+ */
+export async function deleteBundleFonts(kitId: string): Promise<void> {
+  if (!BrandKitFontStorage.isSupported()) return;
+  await brandKitFontStorage.delete(kitId);
+}
+
+/**
+ * Register the saved font files of the library's kits, e.g. after a page load
+ */
+export async function restoreBundleFonts(kitIds: string[]): Promise<number> {
+  const fonts = await loadSavedFonts(kitIds);
+  return fonts.length > 0 ? await registerBundleFonts(fonts) : 0;
+}
+
+/**
+ * Install the embedded font files in the page so the kit previews correctly
+ * without reaching Google Fonts
+ */
+export async function registerBundleFonts(fonts: BrandKitBundleFont[]): Promise<number> {
+  if (typeof document === 'undefined' || typeof FontFace === 'undefined') {
+    return 0;
+  }
+
+  let registered = 0;
+  for (const font of fonts) {
+    try {
+      const face = new FontFace(font.family, base64ToBytes(font.data), {
+        weight: String(font.weight),
+        style: font.style,
+        ...(font.unicodeRange ? { unicodeRange: font.unicodeRange } : {}),
+      });
+      await face.load();
+      document.fonts.add(face);
+      registered++;
+    } catch (error) {
+      console.warn(`⚠️ Failed to register embedded font ${font.family}:`, error);
+    }
+  }
+
+  console.log(`🔤 Registered ${registered}/${fonts.length} embedded font files`);
+  return registered;
+}
+
+/**
+ * Saved font files for the kits; none when storage is unavailable
+ */
+async function loadSavedFonts(kitIds: string[]): Promise<BrandKitBundleFont[]> {
+  if (!BrandKitFontStorage.isSupported()) return [];
+  try {
+    return await brandKitFontStorage.load(kitIds);
+  } catch (error) {
+    console.warn('⚠️ Saved kit fonts unavailable:', error instanceof Error ? error.message : error);
+    return [];
+  }
+}
+
+/**
+ * Download every @font-face file Google Fonts serves for a family at weight 400
+ */
+async function fetchGoogleFontFiles(family: string): Promise<Omit<BrandKitBundleFont, 'role'>[]> {
+  const familyParam = family.replace(/\s+/g, '+');
+  const response = await fetch(`https://fonts.googleapis.com/css2?family=${familyParam}:wght@400&display=swap`);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  const css = await response.text();
+  const faces = css.match(/@font-face\s*{[^}]*}/g) || [];
+  const files: Omit<BrandKitBundleFont, 'role'>[] = [];
+
+  for (const face of faces) {
+    const src = face.match(/url\((https:\/\/fonts\.gstatic\.com\/[^)]+)\)\s*format\(['"]?([\w-]+)['"]?\)/);
+    if (!src) continue;
+
+    const fontResponse = await fetch(src[1]);
+    if (!fontResponse.ok) {
+      throw new Error(`HTTP ${fontResponse.status} for ${src[1]}`);
+    }
+
+    const bytes = new Uint8Array(await fontResponse.arrayBuffer());
+    files.push({
+      family,
+      weight: 400,
+      style: /font-style:\s*italic/.test(face) ? 'italic' : 'normal',
+      unicodeRange: face.match(/unicode-range:\s*([^;]+);/)?.[1].trim(),
+      format: detectFontFormat(bytes) || (src[2] as BundleFontFormat),
+      data: bytesToBase64(bytes),
+    });
+  }
+
+  if (files.length === 0) {
+    throw new Error('no font files found');
+  }
+  return files;
+}
+
+/**
+ * Returns the decoded size in bytes, or an error message
+ */
+function validateFont(font: unknown, index: number): number | string {
+  const label = `Font file ${index + 1}`;
+  if (!isObject(font)) {
+    return `${label} is not an object`;
+  }
+  if (typeof font.family !== 'string' || !font.family.trim()) {
+    return `${label} has no family`;
+  }
+  if (font.role !== 'body' && font.role !== 'header') {
+    return `${label} (${font.family}) has an unknown role`;
+  }
+  if (typeof font.weight !== 'number' || font.weight < 1 || font.weight > 1000) {
+    return `${label} (${font.family}) has an invalid weight`;
+  }
+  if (font.style !== 'normal' && font.style !== 'italic') {
+    return `${label} (${font.family}) has an invalid style`;
+  }
+  if (font.unicodeRange !== undefined && typeof font.unicodeRange !== 'string') {
+    return `${label} (${font.family}) has an invalid unicode range`;
+  }
+  if (typeof font.data !== 'string') {
+    return `${label} (${font.family}) has no data`;
+  }
+
+  let bytes: Uint8Array;
+  try {
+    bytes = base64ToBytes(font.data);
+  } catch {
+    return `${label} (${font.family}) is not valid base64`;
+  }
+
+  const detected = detectFontFormat(bytes);
+  if (!detected) {
+    return `${label} (${font.family}) is not a font file`;
+  }
+  if (detected !== font.format) {
+    return `${label} (${font.family}) is declared as ${font.format} but contains ${detected}`;
+  }
+
+  return bytes.length;
+}
+
+function validateLogo(logo: unknown): string | null {
+  if (typeof logo !== 'string') {
+    return 'Logo must be a data URL';
+  }
+
+  const match = logo.match(/^data:image\/(png|jpeg|jpg|gif|webp|svg\+xml);base64,([A-Za-z0-9+/=\s]+)$/);
+  if (!match) {
+    return 'Logo must be a base64 PNG, JPEG, GIF, WebP or SVG data URL';
+  }
+
+  const size = Math.floor((match[2].replace(/\s/g, '').length * 3) / 4);
+  if (size > MAX_LOGO_BYTES) {
+    return 'Logo must be smaller than 5MB';
+  }
+
+  return null;
+}
+
+/**
+ * Identify a font file by its magic bytes
+ */
+function detectFontFormat(bytes: Uint8Array): BundleFontFormat | null {
+  if (bytes.length < 4) return null;
+  const tag = String.fromCharCode(bytes[0], bytes[1], bytes[2], bytes[3]);
+
+  if (tag === 'wOF2') return 'woff2';
+  if (tag === 'wOFF') return 'woff';
+  if (tag === 'OTTO') return 'opentype';
+  if (tag === 'true' || (bytes[0] === 0 && bytes[1] === 1 && bytes[2] === 0 && bytes[3] === 0)) {
+    return 'truetype';
+  }
+  return null;
+}
+
+function uniqueKitName(name: string, kits: SavedBrandKit[]): string {
+  const taken = new Set(kits.map((kit) => kit.name.toLowerCase()));
+  if (!taken.has(name.toLowerCase())) {
+    return name;
+  }
+
+  let candidate = `${name} (imported)`;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${name} (imported ${n})`;
+  }
+  return candidate;
+}
+
+function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value);
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + chunkSize)));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
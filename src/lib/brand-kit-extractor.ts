@@ -0,0 +1,575 @@
+// CREATED: 2026-10-19 - Propose a brand kit from an existing branded PDF
+
+import { AVAILABLE_FONTS } from './brand-kit';
+
+export type ProposableBrandKitField =
+  | 'logo'
+  | 'color'
+  | 'secondaryColor'
+  | 'accentColor'
+  | 'font'
+  | 'headerFont'
+  | 'footerText';
+
+/**
+ * One proposed value; logo values are PNG data URLs
+ */
+export interface BrandKitFieldProposal {
+  value: string;
+  confidence: number; // 0-1
+  reason: string;
+}
+
+export interface ExtractedColor {
+  hex: string;
+  weight: number; // Share of all painted graphics, 0-1
+  neutral: boolean;
+}
+
+export interface ExtractedFont {
+  baseFont: string; // PDF font name without the subset prefix
+  family: string;
+  characters: number;
+  averageSize: number;
+  mappedFont: string; // Closest AVAILABLE_FONTS name
+  matched: boolean; // false when mappedFont is only a serif/sans fallback
+}
+
+export interface BrandKitProposal {
+  sourceName: string;
+  pagesScanned: number;
+  proposals: Partial<Record<ProposableBrandKitField, BrandKitFieldProposal>>;
+  colors: ExtractedColor[];
+  fonts: ExtractedFont[];
+}
+
+export interface BrandKitExtractionOptions {
+  maxPages?: number;
+  footerBand?: number; // Bottom fraction of the page searched for footer text
+}
+
+interface PageScan {
+  colors: Map<string, ColorBucket>;
+  fonts: Map<string, { characters: number; sizeTotal: number }>;
+  images: PageImage[];
+  footerLines: string[];
+}
+
+interface ColorBucket {
+  r: number;
+  g: number;
+  b: number;
+  weight: number;
+}
+
+interface PageImage {
+  objId: string;
+  signature: string; // Intrinsic size, stable across pages
+  width: number;
+  height: number;
+  area: number; // Drawn area in points
+  pageCoverage: number;
+}
+
+const DEFAULT_MAX_PAGES = 10;
+const DEFAULT_FOOTER_BAND = 0.12;
+const MAX_LOGO_SIZE = 600;
+
+/**
+ * Analyse a PDF and propose brand kit values from its graphics, fonts,
+ * page-1 images and repeated footer text
+ */
+export async function extractBrandKitFromPDF(
+  file: File,
+  options: BrandKitExtractionOptions = {}
+): Promise<BrandKitProposal> {
+  const pdfjsLib = await import('pdfjs-dist');
+
+  if (!pdfjsLib.GlobalWorkerOptions.workerSrc) {
+    pdfjsLib.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.mjs`;
+  }
+
+  const data = await file.arrayBuffer();
+  // Raw image data (not ImageBitmaps) so the logo can be copied to a canvas
+  const pdfDocument = await pdfjsLib.getDocument({ data, verbosity: 0, isOffscreenCanvasSupported: false }).promise;
+
+  try {
+    const pageCount = Math.min(pdfDocument.numPages, options.maxPages ?? DEFAULT_MAX_PAGES);
+    const scans: PageScan[] = [];
+    let firstPage: any = null;
+
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const page = await pdfDocument.getPage(pageNumber);
+      scans.push(await scanPage(pdfjsLib, page, options.footerBand ?? DEFAULT_FOOTER_BAND));
+      if (pageNumber === 1) firstPage = page;
+    }
+
+    const colors = summarizeColors(scans);
+    const fonts = summarizeFonts(scans);
+    const proposals: BrandKitProposal['proposals'] = {
+      ...proposeColors(colors),
+      ...proposeFonts(fonts),
+    };
+
+    const logo = await proposeLogo(pdfjsLib, firstPage, scans);
+    if (logo) proposals.logo = logo;
+
+    const footer = proposeFooter(scans);
+    if (footer) proposals.footerText = footer;
+
+    console.log(`🎨 Proposed ${Object.keys(proposals).length} brand kit values from ${file.name}`);
+    return { sourceName: file.name, pagesScanned: pageCount, proposals, colors, fonts };
+  } finally {
+    await pdfDocument.destroy();
+  }
+}
+
+/**
+ * Walk one page's operator list for painted colours and images, then its
+ * text content for font usage and bottom-of-page lines
+ */
+async function scanPage(pdfjsLib: any, page: any, footerBand: number): Promise<PageScan> {
+  const { OPS, Util } = pdfjsLib;
+  const viewport = page.getViewport({ scale: 1 });
+  const pageArea = viewport.width * viewport.height;
+  const operatorList = await page.getOperatorList();
+
+  const colors = new Map<string, ColorBucket>();
+  const images: PageImage[] = [];
+
+  let state = { ctm: [1, 0, 0, 1, 0, 0], fill: [0, 0, 0], stroke: [0, 0, 0], lineWidth: 1 };
+  const stack: typeof state[] = [];
+  let pathBox: number[] | null = null;
+
+  const addColor = (rgb: number[], weight: number) => {
+    if (!(weight > 0)) return;
+    const key = rgb.map((channel) => channel >> 4).join(',');
+    const bucket = colors.get(key) || { r: 0, g: 0, b: 0, weight: 0 };
+    bucket.r += rgb[0] * weight;
+    bucket.g += rgb[1] * weight;
+    bucket.b += rgb[2] * weight;
+    bucket.weight += weight;
+    colors.set(key, bucket);
+  };
+
+  const scale = () => Math.sqrt(Math.abs(state.ctm[0] * state.ctm[3] - state.ctm[1] * state.ctm[2]));
+
+  operatorList.fnArray.forEach((fn: number, index: number) => {
+    const args = operatorList.argsArray[index];
+
+    switch (fn) {
+      case OPS.save:
+        stack.push({ ...state });
+        break;
+      case OPS.restore:
+        state = stack.pop() || state;
+        break;
+      case OPS.transform:
+        state = { ...state, ctm: Util.transform(state.ctm, args) };
+        break;
+      case OPS.setFillRGBColor:
+        state = { ...state, fill: Array.from(args as ArrayLike<number>) };
+        break;
+      case OPS.setStrokeRGBColor:
+        state = { ...state, stroke: Array.from(args as ArrayLike<number>) };
+        break;
+      case OPS.setLineWidth:
+        state = { ...state, lineWidth: args[0] };
+        break;
+      case OPS.constructPath:
+        pathBox = args[2];
+        break;
+      case OPS.fill:
+      case OPS.eoFill:
+      case OPS.fillStroke:
+      case OPS.eoFillStroke:
+      case OPS.closeFillStroke:
+      case OPS.closeEOFillStroke:
+        if (pathBox) {
+          const [minX, maxX, minY, maxY] = pathBox;
+          addColor(state.fill, (maxX - minX) * (maxY - minY) * scale() ** 2);
+          if (fn !== OPS.fill && fn !== OPS.eoFill) {
+            addColor(state.stroke, 2 * (maxX - minX + maxY - minY) * Math.max(state.lineWidth, 1) * scale() ** 2);
+          }
+        }
+        pathBox = null;
+        break;
+      case OPS.stroke:
+      case OPS.closeStroke:
+        if (pathBox) {
+          const [minX, maxX, minY, maxY] = pathBox;
+          addColor(state.stroke, 2 * (maxX - minX + maxY - minY) * Math.max(state.lineWidth, 1) * scale() ** 2);
+        }
+        pathBox = null;
+        break;
+      case OPS.endPath:
+        pathBox = null;
+        break;
+      case OPS.paintImageXObject: {
+        const [objId, width, height] = args;
+        const drawnWidth = Math.hypot(state.ctm[0], state.ctm[1]);
+        const drawnHeight = Math.hypot(state.ctm[2], state.ctm[3]);
+        const area = drawnWidth * drawnHeight;
+        images.push({
+          objId,
+          signature: `${width}x${height}`,
+          width,
+          height,
+          area,
+          pageCoverage: pageArea > 0 ? area / pageArea : 0,
+        });
+        break;
+      }
+    }
+  });
+
+  const textContent = await page.getTextContent();
+  const fonts = new Map<string, { characters: number; sizeTotal: number }>();
+  const bottomLines = new Map<number, Array<{ x: number; text: string }>>();
+  const footerLimit = viewport.height * footerBand;
+
+  textContent.items.forEach((item: any) => {
+    if (!('str' in item) || !item.str.trim()) return;
+
+    const baseFont = page.commonObjs.has(item.fontName)
+      ? stripSubsetPrefix(page.commonObjs.get(item.fontName)?.name || '')
+      : '';
+    if (baseFont) {
+      const characters = item.str.replace(/\s/g, '').length;
+      const usage = fonts.get(baseFont) || { characters: 0, sizeTotal: 0 };
+      usage.characters += characters;
+      usage.sizeTotal += Math.hypot(item.transform[2], item.transform[3]) * characters;
+      fonts.set(baseFont, usage);
+    }
+
+    const y = item.transform[5];
+    if (y <= footerLimit) {
+      const lineKey = Math.round(y / 2);
+      const line = bottomLines.get(lineKey) || [];
+      line.push({ x: item.transform[4], text: item.str });
+      bottomLines.set(lineKey, line);
+    }
+  });
+
+  const footerLines = Array.from(bottomLines.entries())
+    .sort((a, b) => b[0] - a[0])
+    .map(([, parts]) => parts.sort((a, b) => a.x - b.x).map((part) => part.text).join(' ').replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  return { colors, fonts, images, footerLines };
+}
+
+function summarizeColors(scans: PageScan[]): ExtractedColor[] {
+  const merged = new Map<string, ColorBucket>();
+  scans.forEach((scan) => {
+    scan.colors.forEach((bucket, key) => {
+      const total = merged.get(key) || { r: 0, g: 0, b: 0, weight: 0 };
+      total.r += bucket.r;
+      total.g += bucket.g;
+      total.b += bucket.b;
+      total.weight += bucket.weight;
+      merged.set(key, total);
+    });
+  });
+
+  const totalWeight = Array.from(merged.values()).reduce((sum, bucket) => sum + bucket.weight, 0);
+  if (totalWeight === 0) return [];
+
+  return Array.from(merged.values())
+    .map((bucket) => {
+      const rgb = [bucket.r, bucket.g, bucket.b].map((channel) => Math.round(channel / bucket.weight));
+      const { saturation, lightness } = rgbToHsl(rgb);
+      return {
+        hex: rgbToHex(rgb),
+        weight: bucket.weight / totalWeight,
+        neutral: saturation < 0.15 || lightness > 0.95 || lightness < 0.08,
+      };
+    })
+    .sort((a, b) => b.weight - a.weight);
+}
+
+/**
+ * Primary: heaviest chromatic colour. Accent: next chromatic colour with a
+ * clearly different hue. Secondary: heaviest light tint (backgrounds, bands).
+ */
+function proposeColors(colors: ExtractedColor[]): BrandKitProposal['proposals'] {
+  const proposals: BrandKitProposal['proposals'] = {};
+  const chromatic = colors.filter((color) => !color.neutral);
+  const chromaticWeight = chromatic.reduce((sum, color) => sum + color.weight, 0);
+
+  const primary = chromatic[0];
+  if (primary) {
+    proposals.color = {
+      value: primary.hex,
+      confidence: Math.min(1, primary.weight / chromaticWeight),
+      reason: `Most used colour in drawn graphics (${Math.round(primary.weight * 100)}% of painted area)`,
+    };
+  }
+
+  const accent = primary && chromatic.find((color) => hueDistance(color.hex, primary.hex) > 30);
+  if (accent) {
+    proposals.accentColor = {
+      value: accent.hex,
+      confidence: Math.min(1, (accent.weight / chromaticWeight) * 2),
+      reason: `Second brand colour (${Math.round(accent.weight * 100)}% of painted area)`,
+    };
+  }
+
+  const secondary = colors.find((color) => {
+    const { lightness } = rgbToHsl(hexToRgb(color.hex));
+    return lightness > 0.8 && lightness < 0.98 && color !== primary && color !== accent;
+  });
+  if (secondary) {
+    proposals.secondaryColor = {
+      value: secondary.hex,
+      confidence: 0.6,
+      reason: 'Most used light tint (backgrounds and bands)',
+    };
+  }
+
+  return proposals;
+}
+
+function summarizeFonts(scans: PageScan[]): ExtractedFont[] {
+  const merged = new Map<string, { characters: number; sizeTotal: number }>();
+  scans.forEach((scan) => {
+    scan.fonts.forEach((usage, baseFont) => {
+      const total = merged.get(baseFont) || { characters: 0, sizeTotal: 0 };
+      total.characters += usage.characters;
+      total.sizeTotal += usage.sizeTotal;
+      merged.set(baseFont, total);
+    });
+  });
+
+  return Array.from(merged.entries())
+    .map(([baseFont, usage]) => {
+      const family = baseFont.split(/[-,]/)[0].replace(/(MT|PS)$/, '');
+      const mapped = mapToAvailableFont(family);
+      return {
+        baseFont,
+        family,
+        characters: usage.characters,
+        averageSize: usage.characters > 0 ? usage.sizeTotal / usage.characters : 0,
+        mappedFont: mapped.name,
+        matched: mapped.matched,
+      };
+    })
+    .sort((a, b) => b.characters - a.characters);
+}
+
+/**
+ * Body font: most characters set. Header font: the largest average size
+ * among fonts with meaningful usage, when it maps to a different family.
+ */
+function proposeFonts(fonts: ExtractedFont[]): BrandKitProposal['proposals'] {
+  const proposals: BrandKitProposal['proposals'] = {};
+  const totalCharacters = fonts.reduce((sum, font) => sum + font.characters, 0);
+  const body = fonts[0];
+  if (!body) return proposals;
+
+  const describe = (font: ExtractedFont) =>
+    font.matched ? `Uses ${font.baseFont}` : `Uses ${font.baseFont} (closest available match)`;
+
+  proposals.font = {
+    value: body.mappedFont,
+    confidence: (body.matched ? 1 : 0.4) * (body.characters / totalCharacters),
+    reason: `${describe(body)} for ${Math.round((body.characters / totalCharacters) * 100)}% of the text`,
+  };
+
+  const header = fonts
+    .filter((font) => font.characters >= 10 && font.averageSize > body.averageSize * 1.2)
+    .sort((a, b) => b.averageSize - a.averageSize)[0];
+  if (header && header.mappedFont !== body.mappedFont) {
+    proposals.headerFont = {
+      value: header.mappedFont,
+      confidence: header.matched ? 0.8 : 0.3,
+      reason: `${describe(header)} at ${Math.round(header.averageSize)}pt for headings`,
+    };
+  }
+
+  return proposals;
+}
+
+/**
+ * Largest page-1 image that also appears on another page; full-page images
+ * (scans, backgrounds) are ignored
+ */
+async function proposeLogo(pdfjsLib: any, page: any, scans: PageScan[]): Promise<BrandKitFieldProposal | null> {
+  if (!page || scans.length === 0) return null;
+
+  const candidates = scans[0].images
+    .filter((image) => image.pageCoverage < 0.4 && image.width >= 16 && image.height >= 16)
+    .map((image) => ({
+      image,
+      repeated: scans.slice(1).some((scan) => scan.images.some((other) => other.signature === image.signature)),
+    }))
+    .sort((a, b) => Number(b.repeated) - Number(a.repeated) || b.image.area - a.image.area);
+
+  const best = candidates[0];
+  if (!best) return null;
+
+  try {
+    const store = best.image.objId.startsWith('g_') ? page.commonObjs : page.objs;
+    const imageData = await new Promise<any>((resolve) => store.get(best.image.objId, resolve));
+    const dataUrl = imageToDataUrl(pdfjsLib, imageData);
+    if (!dataUrl) return null;
+
+    return {
+      value: dataUrl,
+      confidence: best.repeated ? 0.8 : 0.4,
+      reason: best.repeated
+        ? 'Largest image on page 1 that repeats on other pages'
+        : 'Largest image on page 1',
+    };
+  } catch (error) {
+    console.warn('⚠️ Failed to read logo candidate:', error);
+    return null;
+  }
+}
+
+/**
+ * Bottom-of-page line found on most pages; digits are ignored when comparing
+ * so page numbers do not break the match
+ */
+function proposeFooter(scans: PageScan[]): BrandKitFieldProposal | null {
+  if (scans.length < 2) return null;
+
+  const pagesByLine = new Map<string, { text: string; pages: number }>();
+  scans.forEach((scan) => {
+    new Set(scan.footerLines).forEach((line) => {
+      const key = line.toLowerCase().replace(/\d+/g, '#');
+      // Skip bare page numbers such as "3" or "Page 3 of 10"
+      if (!key.replace(/#|page|of|\/|-|\s/g, '')) return;
+
+      const entry = pagesByLine.get(key) || { text: line, pages: 0 };
+      entry.pages += 1;
+      pagesByLine.set(key, entry);
+    });
+  });
+
+  const best = Array.from(pagesByLine.values())
+    .filter((entry) => entry.pages >= Math.max(2, Math.ceil(scans.length / 2)))
+    .sort((a, b) => b.pages - a.pages || b.text.length - a.text.length)[0];
+
+  if (!best) return null;
+
+  // Drop the page number part of lines like "Acme Academy | Page 3"
+  const text = best.text
+    .replace(/\bpage\s*\d+(\s*(of|\/)\s*\d+)?/gi, '')
+    .replace(/^\s*\d+\s+|\s+\d+\s*$/g, '')
+    .replace(/^[\s\-–|•]+|[\s\-–|•]+$/g, '')
+    .trim();
+  if (!text) return null;
+
+  return {
+    value: text,
+    confidence: best.pages / scans.length,
+    reason: `Repeated at the bottom of ${best.pages} of ${scans.length} pages`,
+  };
+}
+
+function imageToDataUrl(pdfjsLib: any, image: any): string | null {
+  if (!image || typeof document === 'undefined') return null;
+
+  const { width, height } = image;
+  const sourceCanvas = document.createElement('canvas');
+  sourceCanvas.width = width;
+  sourceCanvas.height = height;
+  const context = sourceCanvas.getContext('2d');
+  if (!context) return null;
+
+  if (image.bitmap) {
+    context.drawImage(image.bitmap, 0, 0);
+  } else if (image.data) {
+    const pixels = context.createImageData(width, height);
+    const { ImageKind } = pdfjsLib;
+    const rowBytes = Math.ceil(width / 8);
+
+    for (let i = 0; i < width * height; i++) {
+      const target = i * 4;
+      if (image.kind === ImageKind.RGBA_32BPP) {
+        pixels.data.set(image.data.subarray(target, target + 4), target);
+        continue;
+      }
+      if (image.kind === ImageKind.RGB_24BPP) {
+        pixels.data.set(image.data.subarray(i * 3, i * 3 + 3), target);
+      } else {
+        const x = i % width;
+        const y = Math.floor(i / width);
+        const bit = (image.data[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+        pixels.data.fill(bit ? 255 : 0, target, target + 3);
+      }
+      pixels.data[target + 3] = 255;
+    }
+    context.putImageData(pixels, 0, 0);
+  } else {
+    return null;
+  }
+
+  // Keep the logo data URL small enough for localStorage
+  const ratio = Math.min(1, MAX_LOGO_SIZE / Math.max(width, height));
+  if (ratio === 1) {
+    return sourceCanvas.toDataURL('image/png');
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * ratio);
+  canvas.height = Math.round(height * ratio);
+  canvas.getContext('2d')?.drawImage(sourceCanvas, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+}
+
+function mapToAvailableFont(family: string): { name: string; matched: boolean } {
+  const normalized = normalizeFontName(family);
+  const match = AVAILABLE_FONTS.find((font) => {
+    const candidate = normalizeFontName(font.name);
+    return normalized === candidate || normalized.startsWith(candidate);
+  });
+  if (match) {
+    return { name: match.name, matched: true };
+  }
+
+  const isSerif = /serif|times|georgia|garamond|roman|minion|cambria|palatino|book/i.test(family)
+    && !/sans/i.test(family);
+  return { name: isSerif ? 'Merriweather' : 'Inter', matched: false };
+}
+
+function normalizeFontName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function stripSubsetPrefix(name: string): string {
+  return name.replace(/^[A-Z]{6}\+/, '');
+}
+
+function rgbToHex(rgb: number[]): string {
+  return `#${rgb.map((channel) => channel.toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+}
+
+function hexToRgb(hex: string): number[] {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+function rgbToHsl(rgb: number[]): { hue: number; saturation: number; lightness: number } {
+  const [r, g, b] = rgb.map((channel) => channel / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+
+  if (delta === 0) {
+    return { hue: 0, saturation: 0, lightness };
+  }
+
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1));
+  let hue = max === r ? ((g - b) / delta) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+  hue = (hue * 60 + 360) % 360;
+
+  return { hue, saturation, lightness };
+}
+
+function hueDistance(a: string, b: string): number {
+  const difference = Math.abs(rgbToHsl(hexToRgb(a)).hue - rgbToHsl(hexToRgb(b)).hue);
+  return Math.min(difference, 360 - difference);
+}
@@ -0,0 +1,125 @@
+// CREATED: 2026-10-19 - IndexedDB store for font files embedded in imported brand kits
+
+import type { BrandKitBundleFont } from './brand-kit-bundle';
+import { isQuotaError } from './indexeddb-template-storage';
+
+const DB_NAME = 'docubrand_brand_kit_fonts';
+const DB_VERSION = 1;
+const FONT_STORE = 'fonts';
+
+interface KitFontsRecord {
+  kitId: string;
+  fonts: BrandKitBundleFont[];
+  savedAt: number;
+}
+
+/**
+ * One record per library kit holding the font files its bundle carried.
+ * Font binaries are too large for the localStorage library, so they live here.
+ */
+export class BrandKitFontStorage {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Store a kit's font files, replacing any it had before
+   */
+  async save(kitId: string, fonts: BrandKitBundleFont[]): Promise<void> {
+    try {
+      const db = await this.getDB();
+      const tx = db.transaction(FONT_STORE, 'readwrite');
+      tx.objectStore(FONT_STORE).put({ kitId, fonts, savedAt: Date.now() } satisfies KitFontsRecord);
+      await transactionDone(tx);
+    } catch (error) {
+      if (isQuotaError(error)) {
+        throw new Error('Browser storage is full; the kit\'s embedded fonts were not saved and will load from Google Fonts.');
+      }
+      throw new Error(`Failed to save kit fonts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Font files for the given kits, in kit order
+   */
+  async load(kitIds: string[]): Promise<BrandKitBundleFont[]> {
+    try {
+      const db = await this.getDB();
+      const tx = db.transaction(FONT_STORE, 'readonly');
+      const store = tx.objectStore(FONT_STORE);
+      const records = await Promise.all(
+        kitIds.map((kitId) => requestToPromise<KitFontsRecord | undefined>(store.get(kitId)))
+      );
+      return records.flatMap((record) => record?.fonts || []);
+    } catch (error) {
+      throw new Error(`Failed to load kit fonts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async delete(kitId: string): Promise<void> {
+    try {
+      const db = await this.getDB();
+      const tx = db.transaction(FONT_STORE, 'readwrite');
+      tx.objectStore(FONT_STORE).delete(kitId);
+      await transactionDone(tx);
+    } catch (error) {
+      throw new Error(`Failed to delete kit fonts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private getDB(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = this.openDB().catch((error) => {
+        this.dbPromise = null; // Allow a retry
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private openDB(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      if (!BrandKitFontStorage.isSupported()) {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(FONT_STORE)) {
+          db.createObjectStore(FONT_STORE, { keyPath: 'kitId' });
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        db.onversionchange = () => {
+          db.close();
+          this.dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+function requestToPromise<T>(request: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+}
+
+// Export singleton instance
+export const brandKitFontStorage = new BrandKitFontStorage();
@@ -1,87 +1,170 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { BrandKit } from '@/types';
-import { saveBrandKit, loadBrandKit, defaultBrandKit } from './storage';
+import { useState, useEffect, useCallback } from 'react';
+import { BrandKit, BrandKitLibrary, SavedBrandKit, WatermarkSettings } from '@/types';
+import {
+  defaultBrandKit,
+  loadBrandKitLibrary,
+  saveBrandKitLibrary,
+  createSavedBrandKit,
+} from './storage';
 
 export const useBrandKit = () => {
-  const [brandKit, setBrandKit] = useState<BrandKit>(defaultBrandKit);
+  const [library, setLibrary] = useState<BrandKitLibrary>({ kits: [], defaultKitId: null });
+  const [activeKitId, setActiveKitId] = useState<string | null>(null);
   const [isLoaded, setIsLoaded] = useState(false);
 
-  // Load brand kit from localStorage on mount
+  // Load brand kit library from localStorage on mount
   useEffect(() => {
-    const saved = loadBrandKit();
-    setBrandKit(saved);
+    const saved = loadBrandKitLibrary();
+    setLibrary(saved);
+    setActiveKitId(saved.defaultKitId);
     setIsLoaded(true);
+
+    // Fonts embedded in imported kits are kept in IndexedDB, not the library
+    import('./brand-kit-bundle')
+      .then(({ restoreBundleFonts }) => restoreBundleFonts(saved.kits.map(kit => kit.id)))
+      .catch(error => console.warn('⚠️ Failed to restore embedded kit fonts:', error));
   }, []);
 
-  // Save to localStorage whenever brandKit changes
+  // Save to localStorage whenever the library changes
   useEffect(() => {
     if (isLoaded) {
-      saveBrandKit(brandKit);
+      saveBrandKitLibrary(library);
     }
-  }, [brandKit, isLoaded]);
+  }, [library, isLoaded]);
 
-  const updateLogo = (file: File | null, dataUrl: string | null) => {
-    setBrandKit(prev => ({
+  const brandKit: BrandKit =
+    library.kits.find(kit => kit.id === activeKitId) || defaultBrandKit;
+
+  // Apply a change to the kit being edited
+  const updateActiveKit = useCallback((changes: Partial<BrandKit>) => {
+    setLibrary(prev => ({
       ...prev,
-      logo: { file, dataUrl },
+      kits: prev.kits.map(kit =>
+        kit.id === activeKitId
+          ? { ...kit, ...changes, updatedAt: new Date().toISOString() }
+          : kit
+      ),
     }));
+  }, [activeKitId]);
+
+  const updateLogo = (file: File | null, dataUrl: string | null) => {
+    updateActiveKit({ logo: { file, dataUrl } });
   };
 
   const updateColor = (color: string) => {
-    setBrandKit(prev => ({
-      ...prev,
-      color,
-    }));
+    updateActiveKit({ color });
   };
 
   const updateSecondaryColor = (secondaryColor: string) => {
-    setBrandKit(prev => ({
-      ...prev,
-      secondaryColor,
-    }));
+    updateActiveKit({ secondaryColor });
   };
 
   const updateAccentColor = (accentColor: string) => {
-    setBrandKit(prev => ({
-      ...prev,
-      accentColor,
-    }));
+    updateActiveKit({ accentColor });
   };
 
   const updateFont = (font: string) => {
-    setBrandKit(prev => ({
-      ...prev,
-      font,
-    }));
+    updateActiveKit({ font });
   };
 
   const updateHeaderFont = (headerFont: string) => {
-    setBrandKit(prev => ({
-      ...prev,
-      headerFont,
-    }));
+    updateActiveKit({ headerFont });
   };
 
   const updateWatermark = (watermark: string | null) => {
-    setBrandKit(prev => ({
+    updateActiveKit({ watermark });
+  };
+
+  const updateFooterText = (footerText: string | null) => {
+    updateActiveKit({ footerText });
+  };
+
+  const updateWatermarkSettings = (watermarkSettings: WatermarkSettings) => {
+    updateActiveKit({ watermarkSettings });
+  };
+
+  const resetBrandKit = () => {
+    const { logo, color, secondaryColor, accentColor, font, headerFont, watermark, footerText } = defaultBrandKit;
+    updateActiveKit({
+      logo, color, secondaryColor, accentColor, font, headerFont, watermark, footerText,
+      watermarkSettings: undefined,
+    });
+  };
+
+  // Library management
+
+  const selectKit = (kitId: string) => {
+    if (library.kits.some(kit => kit.id === kitId)) {
+      setActiveKitId(kitId);
+    }
+  };
+
+  const createKit = (name: string): SavedBrandKit => {
+    const kit = createSavedBrandKit(name);
+    setLibrary(prev => ({ ...prev, kits: [...prev.kits, kit] }));
+    setActiveKitId(kit.id);
+    return kit;
+  };
+
+  const cloneKit = (kitId: string, name?: string): SavedBrandKit | null => {
+    const source = library.kits.find(kit => kit.id === kitId);
+    if (!source) return null;
+
+    const kit = createSavedBrandKit(name || `${source.name} (copy)`, source);
+    setLibrary(prev => ({ ...prev, kits: [...prev.kits, kit] }));
+    setActiveKitId(kit.id);
+    return kit;
+  };
+
+  const renameKit = (kitId: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    setLibrary(prev => ({
       ...prev,
-      watermark,
+      kits: prev.kits.map(kit =>
+        kit.id === kitId ? { ...kit, name: trimmed, updatedAt: new Date().toISOString() } : kit
+      ),
     }));
   };
 
-  const updateFooterText = (footerText: string | null) => {
-    setBrandKit(prev => ({
+  // The last kit cannot be deleted; the default moves to the first remaining kit
+  const deleteKit = (kitId: string) => {
+    if (library.kits.length <= 1) return;
+
+    const kits = library.kits.filter(kit => kit.id !== kitId);
+    const defaultKitId = library.defaultKitId === kitId ? kits[0].id : library.defaultKitId;
+
+    setLibrary({ kits, defaultKitId });
+    if (activeKitId === kitId) {
+      setActiveKitId(defaultKitId);
+    }
+
+    import('./brand-kit-bundle')
+      .then(({ deleteBundleFonts }) => deleteBundleFonts(kitId))
+      .catch(error => console.warn('⚠️ Failed to delete embedded kit fonts:', error));
+  };
+
+  // Add an imported kit, or overwrite the kit it replaces, and make it active
+  const importKit = (kit: SavedBrandKit, replaceKitId: string | null = null) => {
+    setLibrary(prev => ({
       ...prev,
-      footerText,
+      kits: replaceKitId
+        ? prev.kits.map(existing => (existing.id === replaceKitId ? kit : existing))
+        : [...prev.kits, kit],
     }));
+    setActiveKitId(kit.id);
   };
 
-  const resetBrandKit = () => {
-    setBrandKit(defaultBrandKit);
+  const setDefaultKit = (kitId: string) => {
+    setLibrary(prev => ({ ...prev, defaultKitId: kitId }));
   };
 
+  const getKit = (kitId: string | null): SavedBrandKit | null =>
+    library.kits.find(kit => kit.id === kitId) || null;
+
   return {
     brandKit,
     isLoaded,
@@ -93,7 +176,19 @@ export const useBrandKit = () => {
     updateHeaderFont,
     updateWatermark,
     updateFooterText,
+    updateWatermarkSettings,
     resetBrandKit,
+    kits: library.kits,
+    activeKitId,
+    defaultKitId: library.defaultKitId,
+    selectKit,
+    createKit,
+    cloneKit,
+    renameKit,
+    deleteKit,
+    importKit,
+    setDefaultKit,
+    getKit,
   };
 };
 
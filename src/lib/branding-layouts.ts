@@ -0,0 +1,193 @@
+// CREATED: 2026-10-19 - Named branding layout presets and their page geometry
+// UPDATED: 2026-10-19 - Logo safe boxes that never overlap the content area
+
+export type BrandingLayoutId = 'header-band' | 'sidebar' | 'corner-badge' | 'letterhead';
+
+/**
+ * A branding layout reserves brand zones around the page; the original page
+ * is scaled into what is left. Zone sizes are fractions of the page so the
+ * same preset works for A4, Letter and landscape pages.
+ */
+export interface BrandingLayout {
+  id: BrandingLayoutId;
+  name: string;
+  description: string;
+  headerHeight: number; // Fraction of page height
+  footerHeight: number; // Fraction of page height
+  sidebarWidth: number; // Fraction of page width
+  contentMargin: number; // Fraction of page width, around the content area
+}
+
+export interface ContentBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  scale: number; // Original page -> content box
+}
+
+export interface LogoBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const BRANDING_LAYOUTS: BrandingLayout[] = [
+  {
+    id: 'header-band',
+    name: 'Header band',
+    description: 'Coloured header with logo, footer bar with page numbers',
+    headerHeight: 0.09,
+    footerHeight: 0.045,
+    sidebarWidth: 0,
+    contentMargin: 0.025,
+  },
+  {
+    id: 'sidebar',
+    name: 'Brand sidebar',
+    description: 'Full-height sidebar in the primary colour with the logo on top',
+    headerHeight: 0,
+    footerHeight: 0.04,
+    sidebarWidth: 0.14,
+    contentMargin: 0.025,
+  },
+  {
+    id: 'corner-badge',
+    name: 'Corner badge',
+    description: 'Minimal: small logo badge in the top corner and a thin footer',
+    headerHeight: 0.055,
+    footerHeight: 0.035,
+    sidebarWidth: 0,
+    contentMargin: 0.02,
+  },
+  {
+    id: 'letterhead',
+    name: 'Letterhead frame',
+    description: 'Letterhead with logo and kit name, framed content and footer',
+    headerHeight: 0.1,
+    footerHeight: 0.05,
+    sidebarWidth: 0,
+    contentMargin: 0.04,
+  },
+];
+
+export const DEFAULT_BRANDING_LAYOUT_ID: BrandingLayoutId = 'header-band';
+
+export function getBrandingLayout(id?: BrandingLayoutId | null): BrandingLayout {
+  return (
+    BRANDING_LAYOUTS.find((layout) => layout.id === id) ||
+    BRANDING_LAYOUTS.find((layout) => layout.id === DEFAULT_BRANDING_LAYOUT_ID)!
+  );
+}
+
+/**
+ * Where the original page goes: the area left by the brand zones, scaled
+ * uniformly (no distortion), centred horizontally and aligned to the top
+ */
+export function getContentBox(layout: BrandingLayout, width: number, height: number): ContentBox {
+  const margin = layout.contentMargin * width;
+  const left = layout.sidebarWidth * width + margin;
+  const bottom = layout.footerHeight * height + margin;
+  const availableWidth = width - left - margin;
+  const availableHeight = height - layout.headerHeight * height - margin - bottom;
+
+  const scale = Math.max(0, Math.min(availableWidth / width, availableHeight / height));
+  const boxWidth = width * scale;
+  const boxHeight = height * scale;
+
+  return {
+    x: left + (availableWidth - boxWidth) / 2,
+    y: bottom + availableHeight - boxHeight,
+    width: boxWidth,
+    height: boxHeight,
+    scale,
+  };
+}
+
+/**
+ * Where each layout may draw the logo. Boxes sit in the brand zones and are
+ * clipped against the content box, so a logo never covers the original page.
+ * Sidebar and corner-badge boxes sit inside the white plate PDFBuilder draws.
+ */
+export function getLogoSafeBox(layout: BrandingLayout, width: number, height: number): LogoBox {
+  const headerHeight = layout.headerHeight * height;
+  const margin = layout.contentMargin * width;
+  let box: LogoBox;
+
+  switch (layout.id) {
+    case 'sidebar': {
+      const sidebarWidth = layout.sidebarWidth * width;
+      const padding = sidebarWidth * 0.12;
+      const size = sidebarWidth - padding * 3;
+      box = { x: padding * 1.5, y: height - padding * 1.5 - size, width: size, height: size };
+      break;
+    }
+    case 'corner-badge': {
+      const badgeHeight = headerHeight * 0.85;
+      const inset = badgeHeight * 0.15;
+      const badgeX = width - margin - badgeHeight * 2;
+      const badgeY = height - badgeHeight - (headerHeight - badgeHeight) / 2;
+      box = {
+        x: badgeX + inset * 1.5,
+        y: badgeY + inset * 1.5,
+        width: badgeHeight * 2 - inset * 3,
+        height: badgeHeight - inset * 3,
+      };
+      break;
+    }
+    case 'letterhead':
+      box = { x: margin, y: height - headerHeight * 0.85, width: width * 0.3, height: headerHeight * 0.65 };
+      break;
+    default:
+      box = { x: margin, y: height - headerHeight * 0.85, width: width * 0.3, height: headerHeight * 0.7 };
+  }
+
+  return clipToContent(box, getContentBox(layout, width, height));
+}
+
+/**
+ * Largest rectangle with the logo's aspect ratio inside a box, centred
+ * vertically and aligned horizontally
+ */
+export function fitLogo(
+  logoWidth: number,
+  logoHeight: number,
+  box: LogoBox,
+  align: 'left' | 'center' | 'right' = 'left'
+): LogoBox {
+  const scale = Math.min(box.width / logoWidth, box.height / logoHeight);
+  const fittedWidth = logoWidth * scale;
+  const fittedHeight = logoHeight * scale;
+  const offsets = { left: 0, center: (box.width - fittedWidth) / 2, right: box.width - fittedWidth };
+
+  return {
+    x: box.x + offsets[align],
+    y: box.y + (box.height - fittedHeight) / 2,
+    width: fittedWidth,
+    height: fittedHeight,
+  };
+}
+
+/**
+ * Shrink a logo box that reaches into the content box: from below when it sits
+ * above the content, otherwise from the right
+ */
+function clipToContent(box: LogoBox, content: ContentBox): LogoBox {
+  const overlapsX = box.x < content.x + content.width && box.x + box.width > content.x;
+  const overlapsY = box.y < content.y + content.height && box.y + box.height > content.y;
+  if (!overlapsX || !overlapsY) return box;
+
+  const contentTop = content.y + content.height;
+  if (box.y + box.height > contentTop) {
+    return { ...box, y: contentTop, height: Math.max(0, box.y + box.height - contentTop) };
+  }
+  return { ...box, width: Math.max(0, content.x - box.x) };
+}
+
+/**
+ * Whether a Google font family is a serif face, for standard-font fallbacks
+ */
+export function isSerifFamily(family: string): boolean {
+  return /serif|merriweather|playfair|times|georgia|garamond/i.test(family) && !/sans/i.test(family);
+}
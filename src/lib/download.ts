@@ -68,14 +68,17 @@ export const downloadPDF = (pdfBytes: Uint8Array, filename: string): void => {
   }
 };
 
-export const generateBrandedFilename = (originalFilename: string): string => {
+export const generateBrandedFilename = (
+  originalFilename: string,
+  suffix: string = 'branded'
+): string => {
   // Remove .pdf extension
   const nameWithoutExt = originalFilename.replace(/\.pdf$/i, '');
   
   // Add branding suffix and timestamp
   const timestamp = new Date().toISOString().slice(0, 10); // YYYY-MM-DD
   
-  return `${nameWithoutExt}_branded_${timestamp}.pdf`;
+  return `${nameWithoutExt}_${suffix}_${timestamp}.pdf`;
 };
 
 export const previewPDF = (pdfBytes: Uint8Array): string => {
@@ -0,0 +1,336 @@
+// CREATED: 2026-10-19 - Filesystem TemplateStorage behind the /api/templates routes (server only)
+// UPDATED: 2026-10-19 - Revision log per template (.revisions/<id>/log.jsonl plus one snapshot file per revision)
+// UPDATED: 2026-10-19 - Revision numbers from the highest logged or snapshotted revision; snapshots never overwritten
+
+import fs from 'fs';
+import path from 'path';
+import { TemplateDefinition, TemplateMetadata, TemplateStorage } from './template-manager';
+import {
+  RevisionDetails,
+  TemplateRevision,
+  TemplateRevisionSummary,
+  createRevisionSummary,
+} from './template-history';
+
+export const DEFAULT_TEMPLATE_STORAGE_DIR = '.data/templates';
+
+const TEMPLATE_ID_PATTERN = /^[\w-][\w.-]{0,127}$/;
+// Template ids cannot start with ".", so this never collides with a template file
+const REVISIONS_DIR = '.revisions';
+const REVISION_LOG = 'log.jsonl';
+
+/**
+ * Thrown for requests that can never succeed (bad id or shape); routes map it to 400
+ */
+export class InvalidTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidTemplateError';
+  }
+}
+
+/**
+ * Thrown when the disk is full; routes map it to 507
+ */
+export class TemplateStorageFullError extends Error {
+  constructor() {
+    super('Template storage on the server is full');
+    this.name = 'TemplateStorageFullError';
+  }
+}
+
+export function isValidTemplateId(id: string): boolean {
+  return TEMPLATE_ID_PATTERN.test(id) && id !== '.' && id !== '..';
+}
+
+/**
+ * Structural check of a definition received over HTTP. Returns the problems found.
+ */
+export function validateTemplateDefinition(value: unknown): string[] {
+  const definition = value as Partial<TemplateDefinition> | null;
+  const errors: string[] = [];
+
+  if (!definition || typeof definition !== 'object') {
+    return ['Template definition must be an object'];
+  }
+
+  const metadata = definition.metadata;
+  if (!metadata || typeof metadata !== 'object') {
+    errors.push('metadata is missing');
+  } else {
+    if (typeof metadata.id !== 'string' || !isValidTemplateId(metadata.id)) {
+      errors.push('metadata.id must be 1-128 letters, digits, "_", "-" or "."');
+    }
+    if (typeof metadata.name !== 'string' || !metadata.name.trim()) {
+      errors.push('metadata.name is missing');
+    }
+  }
+
+  if (!definition.template || typeof definition.template !== 'object') {
+    errors.push('template is missing');
+  } else if (!Array.isArray(definition.template.schemas)) {
+    errors.push('template.schemas must be a list of pages');
+  }
+
+  if (definition.dataBindings !== undefined && !Array.isArray(definition.dataBindings)) {
+    errors.push('dataBindings must be a list');
+  }
+
+  return errors;
+}
+
+/**
+ * One JSON file per template. Writes go to a temporary file first and are
+ * renamed into place, so readers never see half a template. Each template's
+ * revisions are a log of summaries plus one snapshot file per revision.
+ */
+export class FileSystemTemplateStorage implements TemplateStorage {
+  private directory: string;
+  // Appends per template run one after another, so revision numbers stay unique
+  private revisionQueues = new Map<string, Promise<unknown>>();
+
+  constructor(directory: string = DEFAULT_TEMPLATE_STORAGE_DIR) {
+    this.directory = path.resolve(process.cwd(), directory);
+  }
+
+  async save(definition: TemplateDefinition): Promise<void> {
+    const errors = validateTemplateDefinition(definition);
+    if (errors.length > 0) {
+      throw new InvalidTemplateError(errors.join('; '));
+    }
+
+    try {
+      await writeFileAtomic(this.getFilePath(definition.metadata.id), JSON.stringify(definition));
+    } catch (error) {
+      if (isDiskFullError(error)) {
+        throw new TemplateStorageFullError();
+      }
+      throw new Error(`Failed to save template: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async load(id: string): Promise<TemplateDefinition | null> {
+    let data: string;
+    try {
+      data = await fs.promises.readFile(this.getFilePath(id), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw new Error(`Failed to load template: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    try {
+      return JSON.parse(data);
+    } catch {
+      throw new Error(`Failed to load template: ${id} is corrupt`);
+    }
+  }
+
+  async list(): Promise<TemplateMetadata[]> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw new Error(`Failed to list templates: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const results = await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json'))
+        .map(async (file) => {
+          try {
+            const definition: TemplateDefinition = JSON.parse(
+              await fs.promises.readFile(path.join(this.directory, file), 'utf8')
+            );
+            return definition.metadata?.id ? definition.metadata : null;
+          } catch {
+            // A corrupt file hides only itself
+            console.warn(`⚠️ Skipping unreadable template file: ${file}`);
+            return null;
+          }
+        })
+    );
+
+    return results.filter((metadata): metadata is TemplateMetadata => metadata !== null);
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await fs.promises.rm(this.getFilePath(id), { force: true });
+      await fs.promises.rm(this.getRevisionDir(id), { recursive: true, force: true });
+    } catch (error) {
+      throw new Error(`Failed to delete template: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async exists(id: string): Promise<boolean> {
+    try {
+      await fs.promises.access(this.getFilePath(id));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async appendRevision(definition: TemplateDefinition, details?: RevisionDetails): Promise<TemplateRevisionSummary> {
+    const errors = validateTemplateDefinition(definition);
+    if (errors.length > 0) {
+      throw new InvalidTemplateError(errors.join('; '));
+    }
+
+    const id = definition.metadata.id;
+    const append = async (): Promise<TemplateRevisionSummary> => {
+      const revisionDir = this.getRevisionDir(id);
+      // A torn log line or a snapshot without its log line still claims its number
+      const existing = await this.listRevisions(id);
+
+      try {
+        const snapshots = await listSnapshotNumbers(revisionDir);
+        let next = Math.max(0, ...existing.map((summary) => summary.revision), ...snapshots) + 1;
+
+        await fs.promises.mkdir(revisionDir, { recursive: true });
+        for (;;) {
+          const summary = createRevisionSummary(definition, next, details);
+          const revision: TemplateRevision = { ...summary, definition };
+
+          // Snapshot first: a log line always points at a complete file
+          if (!(await writeSnapshot(path.join(revisionDir, `${next}.json`), JSON.stringify(revision)))) {
+            next++; // Another process took this number
+            continue;
+          }
+          await fs.promises.appendFile(path.join(revisionDir, REVISION_LOG), `${JSON.stringify(summary)}\n`);
+          return summary;
+        }
+      } catch (error) {
+        if (isDiskFullError(error)) {
+          throw new TemplateStorageFullError();
+        }
+        throw new Error(`Failed to save template revision: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    };
+
+    const result = (this.revisionQueues.get(id) || Promise.resolve()).catch(() => undefined).then(append);
+    this.revisionQueues.set(id, result);
+    try {
+      return await result;
+    } finally {
+      if (this.revisionQueues.get(id) === result) this.revisionQueues.delete(id);
+    }
+  }
+
+  async listRevisions(templateId: string): Promise<TemplateRevisionSummary[]> {
+    let log: string;
+    try {
+      log = await fs.promises.readFile(path.join(this.getRevisionDir(templateId), REVISION_LOG), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw new Error(`Failed to list template revisions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return log.split('\n').flatMap((line) => {
+      if (!line.trim()) return [];
+      try {
+        return [JSON.parse(line) as TemplateRevisionSummary];
+      } catch {
+        // A torn last line (crash mid-append) hides only itself
+        console.warn(`⚠️ Skipping unreadable revision log line for template ${templateId}`);
+        return [];
+      }
+    });
+  }
+
+  async loadRevision(templateId: string, revision: number): Promise<TemplateRevision | null> {
+    if (!Number.isInteger(revision) || revision < 1) return null;
+
+    let data: string;
+    try {
+      data = await fs.promises.readFile(path.join(this.getRevisionDir(templateId), `${revision}.json`), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw new Error(`Failed to load template revision: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    try {
+      return JSON.parse(data);
+    } catch {
+      throw new Error(`Failed to load template revision: ${templateId} revision ${revision} is corrupt`);
+    }
+  }
+
+  private getFilePath(id: string): string {
+    if (!isValidTemplateId(id)) {
+      throw new InvalidTemplateError(`Invalid template id: ${id}`);
+    }
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  private getRevisionDir(id: string): string {
+    if (!isValidTemplateId(id)) {
+      throw new InvalidTemplateError(`Invalid template id: ${id}`);
+    }
+    return path.join(this.directory, REVISIONS_DIR, id);
+  }
+}
+
+/**
+ * Write to a temporary file and rename it into place, creating the directory
+ */
+async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(tempPath, data);
+    await fs.promises.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true }).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Create a snapshot file, never replacing one. Returns false when the file
+ * already exists; a partly written file is removed.
+ */
+async function writeSnapshot(filePath: string, data: string): Promise<boolean> {
+  try {
+    await fs.promises.writeFile(filePath, data, { flag: 'wx' });
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') return false;
+    await fs.promises.rm(filePath, { force: true }).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Revision numbers that have a snapshot file in the directory
+ */
+async function listSnapshotNumbers(revisionDir: string): Promise<number[]> {
+  try {
+    const files = await fs.promises.readdir(revisionDir);
+    return files.flatMap((file) => {
+      const match = /^(\d+)\.json$/.exec(file);
+      return match ? [parseInt(match[1], 10)] : [];
+    });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+function isDiskFullError(error: unknown): boolean {
+  const code = (error as NodeJS.ErrnoException | null)?.code;
+  return code === 'ENOSPC' || code === 'EDQUOT';
+}
+
+let serverStorage: FileSystemTemplateStorage | null = null;
+
+/**
+ * Storage shared by the template routes; TEMPLATE_STORAGE_DIR overrides the directory
+ */
+export function getServerTemplateStorage(): FileSystemTemplateStorage {
+  if (!serverStorage) {
+    serverStorage = new FileSystemTemplateStorage(process.env.TEMPLATE_STORAGE_DIR || DEFAULT_TEMPLATE_STORAGE_DIR);
+  }
+  return serverStorage;
+}
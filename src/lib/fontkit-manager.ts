@@ -2,6 +2,7 @@
  * Fontkit Manager for proper font registration with pdf-lib
  * Handles import issues and browser compatibility
  */
+// UPDATED: 2026-10-19 - Load fontkit on the server too, for server-side branding
 
 let fontkitCache: any = null;
 let registrationAttempted = false;
@@ -15,18 +16,11 @@ async function loadFontkit(): Promise<any> {
   }
 
   try {
-    // Try dynamic import first
-    if (typeof window !== 'undefined') {
-      // Browser environment - use @pdf-lib/fontkit
-      const fontkit = await import('@pdf-lib/fontkit');
-      fontkitCache = fontkit.default || fontkit;
-      console.log('✅ @pdf-lib/fontkit loaded successfully in browser');
-      return fontkitCache;
-    } else {
-      // Server environment (should not happen in our case)
-      console.warn('⚠️ Fontkit loading attempted on server side');
-      return null;
-    }
+    // @pdf-lib/fontkit works in the browser and on the Node runtime (/api/brand-pdf)
+    const fontkit = await import('@pdf-lib/fontkit');
+    fontkitCache = fontkit.default || fontkit;
+    console.log(`✅ @pdf-lib/fontkit loaded successfully ${typeof window !== 'undefined' ? 'in browser' : 'on server'}`);
+    return fontkitCache;
   } catch (error) {
     console.error('❌ Failed to load @pdf-lib/fontkit:', error);
     return null;
@@ -1,6 +1,8 @@
 // CREATED: 2025-07-03 - Robust API client with error handling and retries
+// UPDATED: 2026-10-19 - Works against any LLMProvider selected by GeminiConfigManager
 
-import { GeminiService, GeminiConfig } from './gemini-service';
+import { GeminiConfig } from './gemini-service';
+import { LLMProvider } from './llm-provider';
 import { 
   GeminiAnalysisRequest, 
   GeminiAnalysisResponse, 
@@ -34,7 +36,7 @@ interface RequestContext {
  * Robust Gemini API client with error handling, retries, and rate limiting
  */
 export class GeminiClient {
-  private service: GeminiService | null = null;
+  private service: LLMProvider | null = null;
   private config: GeminiClientConfig;
   private requestQueue: Array<() => Promise<any>> = [];
   private isProcessing = false;
@@ -60,7 +62,7 @@ export class GeminiClient {
     try {
       const { GeminiConfigManager } = await import('./gemini-config');
       this.service = await GeminiConfigManager.getService(this.config);
-      console.log('✅ Gemini client initialized successfully');
+      console.log(`✅ Gemini client initialized successfully (provider: ${this.service.name})`);
     } catch (error) {
       console.error('❌ Failed to initialize Gemini client:', error);
       throw new Error(`Gemini initialization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -1,21 +1,39 @@
 // CREATED: 2025-07-03 - Gemini configuration and setup utilities
+// UPDATED: 2026-10-19 - Provider selection (gemini / openai / replay) via LLM_PROVIDER
+// UPDATED: 2026-10-19 - GEMINI_FIXTURE_MODE record/replay of raw model output
+// UPDATED: 2026-10-19 - GEMINI_CHUNK_CONCURRENCY
+// UPDATED: 2026-10-19 - Content-hash analysis cache (ANALYSIS_CACHE)
 
 import { GeminiConfig } from '@/types/gemini';
 import { GeminiService } from './gemini-service';
+import { LLMProvider, LLMProviderType, getProviderTypeFromEnv, LLM_PROVIDER_TYPES } from './llm-provider';
+import { OpenAICompatibleProvider, OpenAIProviderConfig, DEFAULT_OPENAI_CONFIG } from './openai-provider';
+import { FixtureReplayProvider, ReplayProviderConfig, DEFAULT_REPLAY_CONFIG } from './replay-provider';
+import { FixtureMode, FIXTURE_MODES, DEFAULT_FIXTURES_DIR } from './gemini-fixtures';
+import {
+  AnalysisCacheConfig,
+  AnalysisCacheStoreType,
+  ANALYSIS_CACHE_STORE_TYPES,
+  CachedLLMProvider,
+  DEFAULT_ANALYSIS_CACHE_CONFIG,
+  createAnalysisCacheStore
+} from './analysis-cache';
 
 /**
  * Gemini API configuration manager
  */
 export class GeminiConfigManager {
-  private static instance: GeminiService | null = null;
+  private static instance: LLMProvider | null = null;
 
   /**
    * Get Gemini configuration from environment variables
    */
   static getConfigFromEnv(): GeminiConfig {
     const apiKey = process.env.GEMINI_API_KEY;
+    const fixtureMode = this.getFixtureModeFromEnv();
     
-    if (!apiKey) {
+    // Replaying recorded fixtures works without a key
+    if (!apiKey && fixtureMode !== 'replay') {
       throw new Error(
         'GEMINI_API_KEY is required. Please add it to your .env.local file.\n' +
         'Get your API key from: https://ai.google.dev/aistudio'
@@ -23,35 +41,133 @@ export class GeminiConfigManager {
     }
 
     return {
-      apiKey,
+      apiKey: apiKey || '',
       model: (process.env.GEMINI_MODEL as any) || 'gemini-2.0-flash',
       maxTokens: parseInt(process.env.GEMINI_MAX_TOKENS || '8192'),
-      temperature: parseFloat(process.env.GEMINI_TEMPERATURE || '0.1')
+      temperature: parseFloat(process.env.GEMINI_TEMPERATURE || '0.1'),
+      pagesPerChunk: parseInt(process.env.GEMINI_PAGES_PER_CHUNK || '10'),
+      chunkConcurrency: parseInt(process.env.GEMINI_CHUNK_CONCURRENCY || '3'),
+      fixtureMode,
+      fixturesDir: process.env.GEMINI_FIXTURES_DIR || DEFAULT_FIXTURES_DIR
     };
   }
 
   /**
-   * Create and configure Gemini service instance
+   * Read GEMINI_FIXTURE_MODE (off unless set to record or replay)
    */
-  static async createService(config?: Partial<GeminiConfig>): Promise<GeminiService> {
+  static getFixtureModeFromEnv(): FixtureMode {
+    const mode = (process.env.GEMINI_FIXTURE_MODE || 'off').toLowerCase();
+    return (FIXTURE_MODES as string[]).includes(mode) ? (mode as FixtureMode) : 'off';
+  }
+
+  /**
+   * Get OpenAI-compatible provider configuration from environment variables
+   */
+  static getOpenAIConfigFromEnv(): OpenAIProviderConfig {
+    return {
+      baseUrl: process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_CONFIG.baseUrl,
+      apiKey: process.env.OPENAI_API_KEY,
+      model: process.env.OPENAI_MODEL || DEFAULT_OPENAI_CONFIG.model,
+      maxTokens: parseInt(process.env.OPENAI_MAX_TOKENS || process.env.GEMINI_MAX_TOKENS || '8192'),
+      temperature: parseFloat(process.env.OPENAI_TEMPERATURE || process.env.GEMINI_TEMPERATURE || '0.1'),
+      pagesPerChunk: parseInt(process.env.GEMINI_PAGES_PER_CHUNK || '10'),
+      chunkConcurrency: parseInt(process.env.GEMINI_CHUNK_CONCURRENCY || '3')
+    };
+  }
+
+  /**
+   * Get fixture replay provider configuration from environment variables
+   */
+  static getReplayConfigFromEnv(): ReplayProviderConfig {
+    return {
+      fixturePath: process.env.LLM_FIXTURE_PATH || DEFAULT_REPLAY_CONFIG.fixturePath
+    };
+  }
+
+  /**
+   * Resolve the provider: explicit config wins over LLM_PROVIDER
+   */
+  static getProviderType(config?: Partial<GeminiConfig>): LLMProviderType {
+    return config?.provider || getProviderTypeFromEnv();
+  }
+
+  /**
+   * Get analysis cache configuration from environment variables
+   */
+  static getCacheConfigFromEnv(): AnalysisCacheConfig {
+    const store = (process.env.ANALYSIS_CACHE || DEFAULT_ANALYSIS_CACHE_CONFIG.store).toLowerCase();
+    const ttlSeconds = parseInt(process.env.ANALYSIS_CACHE_TTL_SECONDS || '');
+    const maxEntries = parseInt(process.env.ANALYSIS_CACHE_MAX_ENTRIES || '');
+
+    return {
+      store: (ANALYSIS_CACHE_STORE_TYPES as string[]).includes(store)
+        ? (store as AnalysisCacheStoreType)
+        : DEFAULT_ANALYSIS_CACHE_CONFIG.store,
+      ttlMs: ttlSeconds > 0 ? ttlSeconds * 1000 : DEFAULT_ANALYSIS_CACHE_CONFIG.ttlMs,
+      maxEntries: maxEntries > 0 ? maxEntries : DEFAULT_ANALYSIS_CACHE_CONFIG.maxEntries,
+      directory: process.env.ANALYSIS_CACHE_DIR || DEFAULT_ANALYSIS_CACHE_CONFIG.directory
+    };
+  }
+
+  /**
+   * Build a provider instance without testing the connection, behind the analysis cache when enabled
+   */
+  static createProvider(config?: Partial<GeminiConfig>): LLMProvider {
+    const provider = this.createUncachedProvider(config);
+
+    // Replay is already offline, and recording must reach the model
+    const fixtureMode = config?.fixtureMode || this.getFixtureModeFromEnv();
+    if (provider.name === 'replay' || (provider.name === 'gemini' && fixtureMode !== 'off')) {
+      return provider;
+    }
+
+    const cacheConfig = this.getCacheConfigFromEnv();
+    const store = createAnalysisCacheStore(cacheConfig);
+    return store ? new CachedLLMProvider(provider, store, cacheConfig.ttlMs) : provider;
+  }
+
+  /**
+   * Build the configured provider itself
+   */
+  private static createUncachedProvider(config?: Partial<GeminiConfig>): LLMProvider {
+    const providerType = this.getProviderType(config);
+
+    switch (providerType) {
+      case 'openai':
+        return new OpenAICompatibleProvider({
+          ...this.getOpenAIConfigFromEnv(),
+          ...(config?.model && { model: config.model }),
+          ...(config?.maxTokens && { maxTokens: config.maxTokens }),
+          ...(config?.temperature !== undefined && { temperature: config.temperature }),
+          ...(config?.pagesPerChunk && { pagesPerChunk: config.pagesPerChunk })
+        });
+      case 'replay':
+        return new FixtureReplayProvider(this.getReplayConfigFromEnv());
+      case 'gemini':
+      default:
+        return new GeminiService({ ...this.getConfigFromEnv(), ...config });
+    }
+  }
+
+  /**
+   * Create and configure the analysis provider instance
+   */
+  static async createService(config?: Partial<GeminiConfig>): Promise<LLMProvider> {
     try {
-      const envConfig = this.getConfigFromEnv();
-      const finalConfig = { ...envConfig, ...config };
-      
-      const service = new GeminiService(finalConfig);
+      const service = this.createProvider(config);
       
       // Test connection on creation
       const connectionTest = await service.testConnection();
       if (!connectionTest.success) {
-        throw new Error(`Gemini API connection failed: ${connectionTest.error}`);
+        throw new Error(`${service.name} provider connection failed: ${connectionTest.error}`);
       }
 
-      console.log('✅ Gemini API connected successfully');
+      console.log(`✅ ${service.name} provider connected successfully`);
       this.instance = service;
       
       return service;
     } catch (error) {
-      console.error('❌ Failed to create Gemini service:', error);
+      console.error('❌ Failed to create analysis provider:', error);
       throw error;
     }
   }
@@ -59,7 +175,7 @@ export class GeminiConfigManager {
   /**
    * Get cached service instance or create new one
    */
-  static async getService(config?: Partial<GeminiConfig>): Promise<GeminiService> {
+  static async getService(config?: Partial<GeminiConfig>): Promise<LLMProvider> {
     if (!this.instance) {
       this.instance = await this.createService(config);
     }
@@ -79,8 +195,31 @@ export class GeminiConfigManager {
   static validateEnvironment(): { valid: boolean; errors: string[] } {
     const errors: string[] = [];
 
+    const providerValue = process.env.LLM_PROVIDER;
+    if (providerValue && !(LLM_PROVIDER_TYPES as string[]).includes(providerValue.toLowerCase())) {
+      errors.push(`Invalid LLM_PROVIDER: ${providerValue}. Valid options: ${LLM_PROVIDER_TYPES.join(', ')}`);
+    }
+
+    const cacheStore = process.env.ANALYSIS_CACHE;
+    if (cacheStore && !(ANALYSIS_CACHE_STORE_TYPES as string[]).includes(cacheStore.toLowerCase())) {
+      errors.push(`Invalid ANALYSIS_CACHE: ${cacheStore}. Valid options: ${ANALYSIS_CACHE_STORE_TYPES.join(', ')}`);
+    }
+
+    const providerType = getProviderTypeFromEnv();
+    if (providerType === 'openai') {
+      return this.validateOpenAIEnvironment(errors);
+    }
+    if (providerType === 'replay') {
+      return { valid: errors.length === 0, errors };
+    }
+
+    const fixtureMode = process.env.GEMINI_FIXTURE_MODE;
+    if (fixtureMode && !(FIXTURE_MODES as string[]).includes(fixtureMode.toLowerCase())) {
+      errors.push(`Invalid GEMINI_FIXTURE_MODE: ${fixtureMode}. Valid options: ${FIXTURE_MODES.join(', ')}`);
+    }
+
     // Check required API key
-    if (!process.env.GEMINI_API_KEY) {
+    if (!process.env.GEMINI_API_KEY && this.getFixtureModeFromEnv() !== 'replay') {
       errors.push('GEMINI_API_KEY is missing from environment variables');
     }
 
@@ -111,6 +250,42 @@ export class GeminiConfigManager {
       }
     }
 
+    const pagesPerChunk = process.env.GEMINI_PAGES_PER_CHUNK;
+    if (pagesPerChunk && (isNaN(parseInt(pagesPerChunk)) || parseInt(pagesPerChunk) <= 0)) {
+      errors.push('GEMINI_PAGES_PER_CHUNK must be a positive number');
+    }
+
+    const chunkConcurrency = process.env.GEMINI_CHUNK_CONCURRENCY;
+    if (chunkConcurrency && (isNaN(parseInt(chunkConcurrency)) || parseInt(chunkConcurrency) <= 0)) {
+      errors.push('GEMINI_CHUNK_CONCURRENCY must be a positive number');
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validate OpenAI-compatible provider settings
+   */
+  private static validateOpenAIEnvironment(errors: string[]): { valid: boolean; errors: string[] } {
+    const baseUrl = process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_CONFIG.baseUrl;
+
+    if (!/^https?:\/\//.test(baseUrl)) {
+      errors.push('OPENAI_BASE_URL must be an http(s) URL');
+    }
+
+    // Local servers (vLLM, LM Studio, Ollama) usually run without a key
+    if (baseUrl === DEFAULT_OPENAI_CONFIG.baseUrl && !process.env.OPENAI_API_KEY) {
+      errors.push('OPENAI_API_KEY is missing from environment variables');
+    }
+
+    const maxTokens = process.env.OPENAI_MAX_TOKENS;
+    if (maxTokens && (isNaN(parseInt(maxTokens)) || parseInt(maxTokens) <= 0)) {
+      errors.push('OPENAI_MAX_TOKENS must be a positive number');
+    }
+
     return {
       valid: errors.length === 0,
       errors
@@ -137,8 +312,21 @@ export class GeminiConfigManager {
    - GEMINI_MODEL: Choose model (default: gemini-2.0-flash)
    - GEMINI_MAX_TOKENS: Max response tokens (default: 8192)
    - GEMINI_TEMPERATURE: Response creativity (default: 0.1)
+   - GEMINI_PAGES_PER_CHUNK: Pages analysed per API call for long PDFs (default: 10)
+   - GEMINI_CHUNK_CONCURRENCY: Page ranges analysed at the same time (default: 3)
+   - GEMINI_FIXTURE_MODE: off | record | replay raw model output (default: off)
+   - GEMINI_FIXTURES_DIR: Where fixtures are stored (default: fixtures/gemini)
+   - ANALYSIS_CACHE: memory | filesystem | off (default: memory)
+   - ANALYSIS_CACHE_TTL_SECONDS: Cache lifetime (default: 86400)
+   - ANALYSIS_CACHE_MAX_ENTRIES / ANALYSIS_CACHE_DIR: Memory LRU size (default: 50) / filesystem location (default: .cache/analysis)
+
+4. Alternative providers (LLM_PROVIDER, default: gemini):
+   - LLM_PROVIDER=openai: any OpenAI-compatible API, documents never go to Google
+     OPENAI_BASE_URL (default: https://api.openai.com/v1), OPENAI_API_KEY, OPENAI_MODEL (default: gpt-4o-mini)
+   - LLM_PROVIDER=replay: answers from a saved analysis JSON, fully offline
+     LLM_FIXTURE_PATH (default: sampleResponse.json)
 
-4. Test your setup:
+5. Test your setup:
    - Restart your development server
    - Upload a test PDF to verify connection
 
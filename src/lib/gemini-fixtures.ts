@@ -0,0 +1,167 @@
+// CREATED: 2026-10-19 - Record/replay fixtures for raw Gemini output
+
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { GeminiAnalysisRequest } from '@/types/gemini';
+import {
+  parseGeminiResponseText,
+  validateGeminiResponse,
+  sanitizeGeminiResponse
+} from './gemini-validators';
+import { GeminiToPdfmeMapper } from './gemini-to-pdfme';
+
+/**
+ * off: call the model; record: call the model and store its output; replay: serve stored output only
+ */
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export const FIXTURE_MODES: FixtureMode[] = ['off', 'record', 'replay'];
+
+export const DEFAULT_FIXTURES_DIR = 'fixtures/gemini';
+
+/**
+ * One recorded model call
+ */
+export interface GeminiFixture {
+  key: string;
+  model: string;
+  recordedAt: string;
+  promptLength: number;
+  pdfSizeBytes: number;
+  responseText: string;
+  usageMetadata?: Record<string, any>;
+}
+
+/**
+ * Per-fixture outcome of running recorded output through the pipeline
+ */
+export interface FixtureRegressionResult {
+  key: string;
+  model: string;
+  status: 'passed' | 'warning' | 'failed';
+  validationErrors: string[];
+  validationWarnings: string[];
+  questionCount: number;
+  sectionCount: number;
+  schemaCount: number;
+  error?: string;
+}
+
+/**
+ * Hash of (pdf bytes, prompt, model) identifying a model call
+ */
+export function getFixtureKey(pdfBase64Data: string, prompt: string, model: string): string {
+  return createHash('sha256')
+    .update(model)
+    .update('\0')
+    .update(prompt)
+    .update('\0')
+    .update(Buffer.from(pdfBase64Data, 'base64'))
+    .digest('hex');
+}
+
+/**
+ * Filesystem store with one JSON file per fixture
+ */
+export class GeminiFixtureStore {
+  private directory: string;
+
+  constructor(directory: string = DEFAULT_FIXTURES_DIR) {
+    this.directory = path.resolve(process.cwd(), directory);
+  }
+
+  /**
+   * Get the absolute fixtures directory
+   */
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  /**
+   * Load a fixture by key, or null when it was never recorded
+   */
+  load(key: string): GeminiFixture | null {
+    const filePath = this.getFilePath(key);
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  }
+
+  /**
+   * Store a fixture, replacing any previous recording for the same key
+   */
+  save(fixture: GeminiFixture): void {
+    fs.mkdirSync(this.directory, { recursive: true });
+    fs.writeFileSync(this.getFilePath(fixture.key), JSON.stringify(fixture, null, 2));
+    console.log(`💾 Recorded Gemini fixture ${fixture.key.substring(0, 12)}...`);
+  }
+
+  /**
+   * List all recorded fixtures, sorted by key for stable reports
+   */
+  list(): GeminiFixture[] {
+    if (!fs.existsSync(this.directory)) {
+      return [];
+    }
+
+    return fs.readdirSync(this.directory)
+      .filter((file) => file.endsWith('.json'))
+      .sort()
+      .map((file) => JSON.parse(fs.readFileSync(path.join(this.directory, file), 'utf8')));
+  }
+
+  private getFilePath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
+
+/**
+ * Run every recorded fixture through parsing, validation, sanitization and the
+ * pdfme mapper, so parser/mapper changes can be checked against real output offline
+ */
+export function runFixtureRegression(
+  store: GeminiFixtureStore = new GeminiFixtureStore(),
+  request: Pick<GeminiAnalysisRequest, 'documentType'> = {}
+): FixtureRegressionResult[] {
+  const fixtures = store.list();
+  console.log(`🧪 Running regression over ${fixtures.length} recorded fixtures...`);
+
+  return fixtures.map((fixture) => {
+    const result: FixtureRegressionResult = {
+      key: fixture.key,
+      model: fixture.model,
+      status: 'passed',
+      validationErrors: [],
+      validationWarnings: [],
+      questionCount: 0,
+      sectionCount: 0,
+      schemaCount: 0
+    };
+
+    try {
+      const parsed = parseGeminiResponseText(fixture.responseText);
+
+      const validation = validateGeminiResponse(parsed);
+      result.validationErrors = validation.errors;
+      result.validationWarnings = validation.warnings;
+
+      const sanitized = sanitizeGeminiResponse(parsed, { pdfBase64: '', ...request });
+      result.questionCount = sanitized.extractedQuestions.length;
+      result.sectionCount = sanitized.documentStructure.sections.length;
+
+      const mapping = new GeminiToPdfmeMapper().convertAnalysisToTemplate(sanitized);
+      result.schemaCount = mapping.template.schemas.reduce((total, page) => total + page.length, 0);
+
+      if (!validation.valid || validation.warnings.length > 0) {
+        result.status = 'warning';
+      }
+    } catch (error) {
+      result.status = 'failed';
+      result.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    return result;
+  });
+}
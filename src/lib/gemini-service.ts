@@ -1,30 +1,68 @@
 // UPDATED: 2025-07-03 - Enhanced with multimodal PDF processing capabilities
+// UPDATED: 2026-10-19 - Page-chunked analysis for long PDFs
+// UPDATED: 2026-10-19 - Stage/partial-question callbacks for streaming progress
+// UPDATED: 2026-10-19 - Implements the LLMProvider interface
+// UPDATED: 2026-10-19 - Record/replay fixtures for raw model output
+// UPDATED: 2026-10-19 - Chunks analysed with bounded concurrency
 
-import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from '@google/generative-ai';
+import { GoogleGenerativeAI, GenerativeModel, HarmCategory, HarmBlockThreshold } from '@google/generative-ai';
 import { 
   GeminiAnalysisRequest, 
   GeminiAnalysisResponse, 
   AnalysisError, 
+  AnalysisStage,
+  AnalysisStatus,
   ProcessingResult,
   DEFAULT_ANALYSIS_OPTIONS 
 } from '@/types/gemini';
 import { getPromptTemplate, validatePromptInputs } from './prompt-templates';
-import { validateGeminiResponse, sanitizeGeminiResponse } from './gemini-validators';
+import { validateGeminiResponse, sanitizeGeminiResponse, parseGeminiResponseText } from './gemini-validators';
+import {
+  ChunkAnalysis,
+  DEFAULT_CHUNK_CONCURRENCY,
+  DEFAULT_PAGES_PER_CHUNK,
+  PDFChunk,
+  getChunkPromptContext,
+  mergeAnalysisResponses,
+  splitPDFIntoChunks
+} from './analysis-chunking';
+import { AnalysisProgressCallbacks, LLMModelInfo, LLMProvider, LLMProviderType } from './llm-provider';
+import { FixtureMode, GeminiFixtureStore, getFixtureKey } from './gemini-fixtures';
+
+/**
+ * What the service needs from a model: the SDK's GenerativeModel, or an
+ * adapter with the same generateContent() shape (see OpenAICompatibleProvider)
+ */
+export interface ContentModel {
+  generateContent(
+    request: Parameters<GenerativeModel['generateContent']>[0]
+  ): Promise<{ response: { text(): string; usageMetadata?: { totalTokenCount?: number } } }>;
+}
 
 /**
  * Enhanced Gemini service with multimodal PDF processing
  */
-export class GeminiService {
+export class GeminiService implements LLMProvider {
+  readonly name: LLMProviderType = 'gemini';
   private genAI: GoogleGenerativeAI;
-  private model: any;
+  private model: ContentModel;
   private config: GeminiConfig;
+  private fixtureStore: GeminiFixtureStore | null = null;
 
-  constructor(config: GeminiConfig) {
+  /**
+   * @param model Optional pre-built model: a GenerativeModel or a compatible adapter
+   */
+  constructor(config: GeminiConfig, model?: ContentModel) {
     this.config = config;
     this.genAI = new GoogleGenerativeAI(config.apiKey);
+
+    if (this.getFixtureMode() !== 'off') {
+      this.fixtureStore = new GeminiFixtureStore(config.fixturesDir);
+      console.log(`📼 Gemini fixture mode: ${this.getFixtureMode()} (${this.fixtureStore.getDirectory()})`);
+    }
     
     // Initialize the model with safety settings
-    this.model = this.genAI.getGenerativeModel({
+    this.model = model || this.genAI.getGenerativeModel({
       model: config.model,
       generationConfig: {
         temperature: config.temperature,
@@ -57,15 +95,29 @@ export class GeminiService {
   /**
    * Analyze PDF document with AI
    */
-  async analyzePDF(request: GeminiAnalysisRequest): Promise<ProcessingResult> {
+  async analyzePDF(
+    request: GeminiAnalysisRequest,
+    callbacks: AnalysisProgressCallbacks = {}
+  ): Promise<ProcessingResult> {
     const startTime = Date.now();
     let warnings: string[] = [];
     let errors: AnalysisError[] = [];
 
+    const reportStatus = (stage: AnalysisStage, progress: number, currentStep: string, modelCall?: AnalysisStatus['modelCall']) => {
+      callbacks.onStatus?.({
+        status: stage === 'complete' ? 'complete' : stage === 'uploading' ? 'uploading' : 'analyzing',
+        stage,
+        progress,
+        currentStep,
+        ...(modelCall && { modelCall })
+      });
+    };
+
     try {
       console.log('🤖 Starting Gemini PDF analysis...');
       
       // Validate request
+      reportStatus('validating', 5, 'Validating request...');
       const validationResult = this.validateRequest(request);
       if (!validationResult.valid) {
         throw new Error(`Invalid request: ${validationResult.errors.join(', ')}`);
@@ -73,19 +125,97 @@ export class GeminiService {
 
       // Prepare the analysis
       const promptData = await this.prepareAnalysisPrompt(request);
-      const pdfData = await this.preparePDFData(request.pdfBase64);
 
-      // Call Gemini API
-      console.log('📡 Calling Gemini API for PDF analysis...');
-      const apiResponse = await this.callGeminiAPI(promptData.prompt, pdfData);
+      // Long documents are analysed in page ranges to stay within time and token limits
+      reportStatus('uploading', 10, 'Preparing document...');
+      const { totalPages, chunks } = await splitPDFIntoChunks(
+        request.pdfBase64,
+        this.config.pagesPerChunk || DEFAULT_PAGES_PER_CHUNK
+      );
+
+      const isChunked = chunks.length > 1;
+      const concurrency = Math.max(1, Math.min(this.config.chunkConcurrency || DEFAULT_CHUNK_CONCURRENCY, chunks.length));
+      const results: (ChunkAnalysis | undefined)[] = new Array(chunks.length);
+      let completedChunks = 0;
+      let reportedChunks = 0;
+      let reportedQuestions = 0;
+
+      const analyzeChunk = async (chunk: PDFChunk): Promise<void> => {
+        // Model calls share 15-90% of the progress bar, advancing as chunks finish
+        const callProgress = (offset: number) => Math.round(15 + ((completedChunks + offset) / chunks.length) * 75);
+        const modelCall = { current: chunk.index + 1, total: chunks.length };
+        const chunkStart = Date.now();
+        const prompt = isChunked
+          ? promptData.prompt + getChunkPromptContext(chunk, totalPages)
+          : promptData.prompt;
+        const pdfData = await this.preparePDFData(chunk.pdfBase64);
+
+        // Call Gemini API
+        console.log(
+          isChunked
+            ? `📡 Calling Gemini API for pages ${chunk.startPage}-${chunk.endPage} of ${totalPages}...`
+            : '📡 Calling Gemini API for PDF analysis...'
+        );
+        reportStatus(
+          'model_call',
+          callProgress(0),
+          isChunked
+            ? `Analyzing pages ${chunk.startPage}-${chunk.endPage} (call ${modelCall.current}/${modelCall.total})...`
+            : 'Analyzing document with AI...',
+          modelCall
+        );
+        const apiResponse = await this.callGeminiAPI(prompt, pdfData);
+
+        // Process and validate response
+        const response = await this.processAPIResponse(apiResponse, request, (stage) =>
+          reportStatus(
+            stage,
+            callProgress(stage === 'validating_response' ? 0.8 : 0.9),
+            stage === 'validating_response' ? 'Validating AI response...' : 'Cleaning up results...',
+            modelCall
+          )
+        );
+        if (response.processingInfo) {
+          response.processingInfo.processingTime = Date.now() - chunkStart;
+        }
+        results[chunk.index] = { chunk, response };
+        completedChunks++;
+
+        // Report only the leading run of finished chunks: the merge is
+        // deterministic, so ids of already reported questions stay stable
+        if (callbacks.onQuestions) {
+          while (reportedChunks < chunks.length && results[reportedChunks]) reportedChunks++;
+          const mergedQuestions = mergeAnalysisResponses(
+            results.slice(0, reportedChunks) as ChunkAnalysis[]
+          ).extractedQuestions;
+          if (mergedQuestions.length > reportedQuestions) {
+            callbacks.onQuestions(mergedQuestions.slice(reportedQuestions));
+            reportedQuestions = mergedQuestions.length;
+          }
+        }
+      };
+
+      // A few model calls at a time: long documents finish sooner without hitting rate limits
+      let nextChunk = 0;
+      await Promise.all(
+        Array.from({ length: concurrency }, async () => {
+          while (nextChunk < chunks.length) {
+            await analyzeChunk(chunks[nextChunk++]);
+          }
+        })
+      );
+      const partials = results as ChunkAnalysis[];
 
-      // Process and validate response
-      const processedResponse = await this.processAPIResponse(apiResponse, request);
+      const processedResponse = mergeAnalysisResponses(partials);
+      if (isChunked) {
+        warnings = [...warnings, `Document analysed in ${chunks.length} parts of up to ${this.config.pagesPerChunk || DEFAULT_PAGES_PER_CHUNK} pages`];
+      }
 
       // Calculate processing time
       const processingTime = Date.now() - startTime;
 
       console.log(`✅ PDF analysis completed in ${processingTime}ms`);
+      reportStatus('complete', 100, 'Analysis complete');
 
       return {
         ...processedResponse,
@@ -99,9 +229,12 @@ export class GeminiService {
           model: this.config.model,
           processingTime,
           confidence: processedResponse.documentStructure.confidence,
-          tokenCount: apiResponse.usageMetadata?.totalTokenCount || 0,
-          apiCalls: 1,
-          retries: 0
+          tokenCount: processedResponse.processingInfo?.tokenCount || 0,
+          apiCalls: processedResponse.processingInfo?.apiCalls || chunks.length,
+          retries: processedResponse.processingInfo?.retries || 0,
+          ...(processedResponse.processingInfo?.warnings && {
+            warnings: processedResponse.processingInfo.warnings
+          })
         }
       };
 
@@ -151,6 +284,12 @@ export class GeminiService {
    */
   async testConnection(): Promise<{ success: boolean; error?: string; model?: string }> {
     try {
+      // Replay never touches the network
+      if (this.getFixtureMode() === 'replay') {
+        console.log('📼 Fixture replay mode: skipping Gemini API connection test');
+        return { success: true, model: this.config.model };
+      }
+
       console.log('🔍 Testing Gemini API connection...');
       
       const testPrompt = "Please respond with exactly: 'Connection test successful'";
@@ -185,11 +324,13 @@ export class GeminiService {
   /**
    * Get model information and capabilities
    */
-  getModelInfo() {
+  getModelInfo(): LLMModelInfo {
     return {
+      provider: this.name,
       model: this.config.model,
       maxTokens: this.config.maxTokens,
       temperature: this.config.temperature,
+      fixtureMode: this.getFixtureMode(),
       capabilities: [
         'PDF document analysis',
         'Multimodal content understanding',
@@ -202,6 +343,13 @@ export class GeminiService {
     };
   }
 
+  /**
+   * Active fixture mode (off unless configured)
+   */
+  private getFixtureMode(): FixtureMode {
+    return this.config.fixtureMode || 'off';
+  }
+
   /**
    * Validate analysis request
    */
@@ -311,6 +459,27 @@ export class GeminiService {
   private async callGeminiAPI(prompt: string, pdfData: any, maxRetries: number = 3): Promise<any> {
     let lastError: any;
 
+    const fixtureMode = this.getFixtureMode();
+    const fixtureKey = this.fixtureStore
+      ? getFixtureKey(pdfData.inlineData.data, prompt, this.config.model)
+      : '';
+
+    if (fixtureMode === 'replay') {
+      const fixture = this.fixtureStore!.load(fixtureKey);
+      if (!fixture) {
+        throw new Error(
+          `No recorded fixture for this document/prompt/model (${fixtureKey}). ` +
+          'Run once with GEMINI_FIXTURE_MODE=record to capture it.'
+        );
+      }
+
+      console.log(`📼 Replaying Gemini fixture ${fixtureKey.substring(0, 12)}...`);
+      return {
+        response: { text: () => fixture.responseText },
+        usageMetadata: fixture.usageMetadata
+      };
+    }
+
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
         console.log(`🔄 Gemini API call attempt ${attempt}/${maxRetries}`);
@@ -328,6 +497,19 @@ export class GeminiService {
         }
 
         console.log(`✅ Gemini API call successful on attempt ${attempt}`);
+
+        if (fixtureMode === 'record') {
+          this.fixtureStore!.save({
+            key: fixtureKey,
+            model: this.config.model,
+            recordedAt: new Date().toISOString(),
+            promptLength: prompt.length,
+            pdfSizeBytes: Math.floor((pdfData.inlineData.data.length * 3) / 4),
+            responseText: response.text(),
+            usageMetadata: result.response.usageMetadata
+          });
+        }
+
         return {
           response,
           usageMetadata: result.response.usageMetadata
@@ -361,26 +543,20 @@ export class GeminiService {
   /**
    * Process and validate API response
    */
-  private async processAPIResponse(apiResponse: any, request: GeminiAnalysisRequest): Promise<GeminiAnalysisResponse> {
+  private async processAPIResponse(
+    apiResponse: any,
+    request: GeminiAnalysisRequest,
+    onStage?: (stage: AnalysisStage) => void
+  ): Promise<GeminiAnalysisResponse> {
     try {
       const responseText = await apiResponse.response.text();
       console.log('📋 Processing Gemini API response...');
 
       // Parse JSON response
-      let parsedResponse: any;
-      try {
-        parsedResponse = JSON.parse(responseText);
-      } catch (parseError) {
-        // Sometimes the response might have extra text, try to extract JSON
-        const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          parsedResponse = JSON.parse(jsonMatch[0]);
-        } else {
-          throw new Error('Could not parse JSON from response');
-        }
-      }
+      const parsedResponse = parseGeminiResponseText(responseText);
 
       // Validate response structure
+      onStage?.('validating_response');
       const validation = validateGeminiResponse(parsedResponse);
       if (!validation.valid) {
         console.warn('⚠️ Response validation issues:', validation.errors);
@@ -388,6 +564,7 @@ export class GeminiService {
       }
 
       // Sanitize and enhance response
+      onStage?.('sanitizing');
       const sanitizedResponse = sanitizeGeminiResponse(parsedResponse, request);
 
       // Add processing metadata
@@ -480,6 +657,11 @@ export interface GeminiConfig {
   model: string;
   maxTokens: number;
   temperature: number;
+  pagesPerChunk?: number; // PDFs longer than this are analysed in page ranges
+  chunkConcurrency?: number; // Page ranges analysed at the same time
+  provider?: LLMProviderType; // Overrides LLM_PROVIDER when creating the service
+  fixtureMode?: FixtureMode; // Record or replay raw model output (see gemini-fixtures)
+  fixturesDir?: string;
 }
 
 /**
@@ -488,5 +670,7 @@ export interface GeminiConfig {
 export const DEFAULT_GEMINI_CONFIG: Partial<GeminiConfig> = {
   model: 'gemini-2.0-flash',
   maxTokens: 8192,
-  temperature: 0.1
+  temperature: 0.1,
+  pagesPerChunk: DEFAULT_PAGES_PER_CHUNK,
+  chunkConcurrency: DEFAULT_CHUNK_CONCURRENCY
 };
\ No newline at end of file
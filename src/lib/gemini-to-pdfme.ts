@@ -26,6 +26,7 @@ export interface MappingConfig {
     body: string;
     question: string;
     option: string;
+    answerKey: string;
   };
   spacing: {
     afterTitle: number;
@@ -43,6 +44,11 @@ export interface DataBinding {
   transformer?: (value: any) => any;
 }
 
+export interface ConversionOptions {
+  // Printed in the header of multi-version quizzes, e.g. "A"
+  versionLabel?: string;
+}
+
 export interface MappingResult {
   template: Template;
   dataBindings: DataBinding[];
@@ -74,6 +80,7 @@ const DEFAULT_CONFIG: MappingConfig = {
     body: '#404040',
     question: '#1a1a1a',
     option: '#404040',
+    answerKey: '#10B981',
   },
   spacing: {
     afterTitle: 25,
@@ -116,15 +123,24 @@ export class GeminiToPdfmeMapper {
   /**
    * Convert Gemini analysis to pdfme template
    */
-  convertAnalysisToTemplate(analysis: GeminiAnalysisResponse): MappingResult {
+  convertAnalysisToTemplate(
+    analysis: GeminiAnalysisResponse,
+    options: ConversionOptions = {}
+  ): MappingResult {
     this.currentY = this.config.margin;
-    const schemas: Schema[] = [];
+    // Schemas that should stay on one page together (a question with its options)
+    const blocks: Schema[][] = [];
     const dataBindings: DataBinding[] = [];
 
+    // Add version header for multi-version quizzes
+    if (options.versionLabel) {
+      blocks.push([this.createVersionHeaderSchema(options.versionLabel)]);
+    }
+
     // Add document title
     if (analysis.extractedContent.title) {
       const titleSchema = this.createTitleSchema(analysis.extractedContent.title);
-      schemas.push(titleSchema);
+      blocks.push([titleSchema]);
       dataBindings.push({
         path: 'extractedContent.title',
         type: 'text',
@@ -135,7 +151,7 @@ export class GeminiToPdfmeMapper {
     // Add document metadata
     if (analysis.extractedContent.subtitle) {
       const subtitleSchema = this.createSubtitleSchema(analysis.extractedContent.subtitle);
-      schemas.push(subtitleSchema);
+      blocks.push([subtitleSchema]);
       dataBindings.push({
         path: 'extractedContent.subtitle',
         type: 'text',
@@ -146,7 +162,7 @@ export class GeminiToPdfmeMapper {
     // Add author and course info
     if (analysis.extractedContent.author || analysis.extractedContent.course) {
       const infoSchema = this.createInfoSchema(analysis.extractedContent);
-      schemas.push(infoSchema);
+      blocks.push([infoSchema]);
       dataBindings.push({
         path: 'extractedContent',
         type: 'text',
@@ -162,7 +178,7 @@ export class GeminiToPdfmeMapper {
     // Add document sections
     analysis.documentStructure.sections.forEach((section, index) => {
       const sectionSchemas = this.convertSectionToSchemas(section, index);
-      schemas.push(...sectionSchemas);
+      blocks.push(sectionSchemas);
       
       dataBindings.push({
         path: `documentStructure.sections[${index}].content`,
@@ -174,7 +190,7 @@ export class GeminiToPdfmeMapper {
     // Add questions
     analysis.extractedQuestions.forEach((question, index) => {
       const questionSchemas = this.convertQuestionToSchemas(question, index);
-      schemas.push(...questionSchemas);
+      blocks.push(questionSchemas);
       
       // Add data bindings for question
       dataBindings.push({
@@ -195,21 +211,22 @@ export class GeminiToPdfmeMapper {
       }
     });
 
-    // Create template
+    // Create template, breaking onto new pages as content runs past the bottom margin
+    const pages = this.paginateBlocks(blocks);
     const template: Template = {
       basePdf: {
         width: this.pageWidth,
         height: this.pageHeight,
         padding: [this.config.margin, this.config.margin, this.config.margin, this.config.margin],
       },
-      schemas: [schemas],
+      schemas: pages,
     };
 
     return {
       template,
       dataBindings,
       metadata: {
-        totalFields: schemas.length,
+        totalFields: pages.reduce((total, page) => total + page.length, 0),
         questionCount: analysis.extractedQuestions.length,
         sectionCount: analysis.documentStructure.sections.length,
         estimatedHeight: this.currentY,
@@ -217,6 +234,44 @@ export class GeminiToPdfmeMapper {
     };
   }
 
+  /**
+   * Split blocks, laid out as one continuous column, across pages.
+   * A block that does not fit starts a new page; a block taller than a page
+   * breaks between its schemas.
+   */
+  private paginateBlocks(blocks: Schema[][]): Schema[][] {
+    const pageBottom = this.pageHeight - this.config.margin;
+    const pages: Schema[][] = [[]];
+    let offset = 0; // Subtracted from column y to get the y on the current page
+
+    const startPage = (columnY: number) => {
+      pages.push([]);
+      offset = columnY - this.config.margin;
+    };
+
+    blocks.forEach((block) => {
+      if (block.length === 0) return;
+
+      const blockTop = Math.min(...block.map((schema) => schema.position.y));
+      const blockBottom = Math.max(...block.map((schema) => schema.position.y + schema.height));
+      if (blockBottom - offset > pageBottom && pages[pages.length - 1].length > 0) {
+        startPage(blockTop);
+      }
+
+      block.forEach((schema) => {
+        if (schema.position.y + schema.height - offset > pageBottom && pages[pages.length - 1].length > 0) {
+          startPage(schema.position.y);
+        }
+        pages[pages.length - 1].push({
+          ...schema,
+          position: { ...schema.position, y: schema.position.y - offset },
+        });
+      });
+    });
+
+    return pages;
+  }
+
   /**
    * Create title schema
    */
@@ -241,6 +296,31 @@ export class GeminiToPdfmeMapper {
     return schema;
   }
 
+  /**
+   * Create version header schema ("Version A")
+   */
+  private createVersionHeaderSchema(versionLabel: string): Schema {
+    const schema: Schema = {
+      name: 'versionHeader',
+      type: 'text',
+      content: `Version ${versionLabel}`,
+      position: { x: this.config.margin, y: this.currentY },
+      width: this.contentWidth,
+      height: this.config.fontSize.body * 1.2,
+      fontSize: this.config.fontSize.body,
+      fontColor: this.config.colors.header,
+      fontName: 'Roboto-Regular',
+      alignment: 'right',
+      fontWeight: 'bold',
+      characterSpacing: 0,
+      lineHeight: 1.2,
+      readOnly: true,
+    };
+
+    this.currentY += this.config.fontSize.body * 1.2 + this.config.spacing.afterHeader;
+    return schema;
+  }
+
   /**
    * Create subtitle schema
    */
@@ -20,6 +20,22 @@ interface ValidationResult {
   warnings: string[];
 }
 
+/**
+ * Parse raw model output into JSON, tolerating extra text around the object
+ */
+export function parseGeminiResponseText(responseText: string): any {
+  try {
+    return JSON.parse(responseText);
+  } catch (parseError) {
+    // Sometimes the response might have extra text, try to extract JSON
+    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+    if (jsonMatch) {
+      return JSON.parse(jsonMatch[0]);
+    }
+    throw new Error('Could not parse JSON from response');
+  }
+}
+
 /**
  * Validate Gemini API response structure
  */
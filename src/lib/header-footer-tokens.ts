@@ -0,0 +1,190 @@
+// CREATED: 2026-10-19 - Token language for header/footer strings with left/centre/right slots
+
+import { Schema, Template } from "@pdfme/common";
+import { GeminiAnalysisResponse } from "@/types/gemini";
+
+/**
+ * Document values available to header/footer tokens
+ */
+export interface DocumentTokenValues {
+  title?: string;
+  course?: string;
+  author?: string;
+}
+
+export interface HeaderFooterTokenContext extends DocumentTokenValues {
+  pageNumber: number;
+  pageCount: number;
+  date?: Date;
+}
+
+export type HeaderFooterSlot = "left" | "center" | "right";
+
+export type HeaderFooterSlots = Record<HeaderFooterSlot, string>;
+
+export const HEADER_FOOTER_TOKENS = [
+  "{page}",
+  "{pages}",
+  "{title}",
+  "{date:YYYY-MM-DD}",
+  "{course}",
+  "{author}",
+] as const;
+
+// Single braces only, so pdfme {{data.bindings}} are left alone
+const TOKEN_PATTERN = /(?<!\{)\{(page|pages|title|course|author|date)(?::([^{}]*))?\}(?!\})/g;
+const SLOT_SEPARATOR = /(?<!\\)\|/;
+const DEFAULT_DATE_FORMAT = "DD/MM/YYYY";
+const MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+/**
+ * Title, course and author of an analysed document
+ */
+export function getDocumentTokenValues(analysisResult?: GeminiAnalysisResponse | null): DocumentTokenValues {
+  if (!analysisResult) return {};
+
+  const { extractedContent, documentStructure } = analysisResult;
+  return {
+    title: extractedContent?.title || undefined,
+    course: extractedContent?.course || documentStructure?.metadata?.course || undefined,
+    author: extractedContent?.author || documentStructure?.metadata?.author || undefined,
+  };
+}
+
+/**
+ * Whether a string uses tokens or slot separators
+ */
+export function hasHeaderFooterTokens(text: string): boolean {
+  return new RegExp(TOKEN_PATTERN.source).test(text) || SLOT_SEPARATOR.test(text);
+}
+
+/**
+ * Format a date with YYYY, YY, MMMM, MMM, MM, M, DD and D; other text is kept
+ */
+export function formatTokenDate(date: Date, format: string = DEFAULT_DATE_FORMAT): string {
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  const parts: Record<string, string> = {
+    YYYY: date.getFullYear().toString(),
+    YY: date.getFullYear().toString().slice(-2),
+    MMMM: MONTH_NAMES[date.getMonth()],
+    MMM: MONTH_NAMES[date.getMonth()].slice(0, 3),
+    MM: pad(date.getMonth() + 1),
+    M: (date.getMonth() + 1).toString(),
+    DD: pad(date.getDate()),
+    D: date.getDate().toString(),
+  };
+
+  return format.replace(/YYYY|YY|MMMM|MMM|MM|M|DD|D/g, (part) => parts[part]);
+}
+
+/**
+ * Replace tokens in one string. Tokens without a value become empty and the
+ * leftover whitespace is collapsed.
+ */
+export function renderHeaderFooterTokens(text: string, context: HeaderFooterTokenContext): string {
+  const rendered = text.replace(TOKEN_PATTERN, (_match, token: string, format?: string) => {
+    switch (token) {
+      case "page": return String(context.pageNumber);
+      case "pages": return String(context.pageCount);
+      case "date": return formatTokenDate(context.date || new Date(), format?.trim() || undefined);
+      default: return context[token as keyof DocumentTokenValues] || "";
+    }
+  });
+
+  return rendered.replace(/\\\|/g, "|").replace(/\s{2,}/g, " ").trim();
+}
+
+/**
+ * Split "left | centre | right" into slots. Two parts fill left and right;
+ * a single part goes to the caller's default slot. Use \| for a literal bar.
+ */
+export function parseHeaderFooterSlots(
+  text: string,
+  defaultSlot: HeaderFooterSlot = "left"
+): HeaderFooterSlots {
+  const slots: HeaderFooterSlots = { left: "", center: "", right: "" };
+  const parts = text.split(SLOT_SEPARATOR).map((part) => part.trim());
+
+  if (parts.length === 1) {
+    slots[defaultSlot] = parts[0];
+  } else if (parts.length === 2) {
+    [slots.left, slots.right] = parts;
+  } else {
+    slots.left = parts[0];
+    slots.center = parts[1];
+    slots.right = parts.slice(2).join(" | ");
+  }
+
+  return slots;
+}
+
+/**
+ * Parse slots and render their tokens for one page
+ */
+export function renderHeaderFooterSlots(
+  text: string,
+  context: HeaderFooterTokenContext,
+  defaultSlot: HeaderFooterSlot = "left"
+): HeaderFooterSlots {
+  const slots = parseHeaderFooterSlots(text, defaultSlot);
+  return {
+    left: renderHeaderFooterTokens(slots.left, context),
+    center: renderHeaderFooterTokens(slots.center, context),
+    right: renderHeaderFooterTokens(slots.right, context),
+  };
+}
+
+/**
+ * Whether a string already prints the page number, so layouts can skip their own
+ */
+export function showsPageNumber(text: string | null | undefined): boolean {
+  return !!text && /(?<!\{)\{page\}(?!\})/.test(text);
+}
+
+/**
+ * Resolve tokens in the header/footer text schemas of a pdfme template.
+ * A schema with slots becomes up to three read-only schemas across its width,
+ * aligned left, centre and right. Other schemas are untouched.
+ */
+export function applyHeaderFooterTokens(
+  template: Template,
+  values: DocumentTokenValues & { date?: Date }
+): Template {
+  const pageCount = template.schemas.length;
+  const headerFooterPattern = /header|footer/i;
+
+  return {
+    ...template,
+    schemas: template.schemas.map((page, pageIndex) =>
+      page.flatMap((schema): Schema[] => {
+        const content = typeof schema.content === "string" ? schema.content : "";
+        if (
+          schema.type !== "text" ||
+          !headerFooterPattern.test(schema.name) ||
+          !hasHeaderFooterTokens(content)
+        ) {
+          return [schema];
+        }
+
+        const slots = renderHeaderFooterSlots(
+          content,
+          { ...values, pageNumber: pageIndex + 1, pageCount },
+          (schema.alignment as HeaderFooterSlot) || "left"
+        );
+
+        return (["left", "center", "right"] as const)
+          .filter((slot) => slots[slot])
+          .map((slot) => ({
+            ...schema,
+            name: slot === "left" ? schema.name : `${schema.name}_${slot}`,
+            content: slots[slot],
+            alignment: slot,
+            readOnly: true,
+          }));
+      })
+    ),
+  };
+}
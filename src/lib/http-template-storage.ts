@@ -0,0 +1,144 @@
+// CREATED: 2026-10-19 - TemplateStorage over the /api/templates routes, for a shared team library
+// UPDATED: 2026-10-19 - Revision log via /api/templates/[id]/revisions
+
+import { TemplateDefinition, TemplateMetadata, TemplateStorage } from './template-manager';
+import { TemplateStorageQuotaError } from './indexeddb-template-storage';
+import { RevisionDetails, TemplateRevision, TemplateRevisionSummary } from './template-history';
+
+/**
+ * Talks to /api/templates. Binary base PDFs are sent as data URLs, which
+ * pdfme accepts as basePdf too, so loaded templates work unchanged.
+ */
+export class HttpTemplateStorage implements TemplateStorage {
+  constructor(private baseUrl: string = '') {}
+
+  async save(definition: TemplateDefinition): Promise<void> {
+    const response = await this.request(`/api/templates/${encodeURIComponent(definition.metadata.id)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(definition, binaryToDataUrl),
+    });
+
+    if (response.status === 413 || response.status === 507) {
+      throw new TemplateStorageQuotaError(definition.metadata.name);
+    }
+    await this.ensureOk(response, 'save template');
+  }
+
+  async load(id: string): Promise<TemplateDefinition | null> {
+    const response = await this.request(`/api/templates/${encodeURIComponent(id)}`);
+    if (response.status === 404) return null;
+
+    await this.ensureOk(response, 'load template');
+    const result = await response.json();
+    return result.template;
+  }
+
+  async list(): Promise<TemplateMetadata[]> {
+    const response = await this.request('/api/templates');
+    await this.ensureOk(response, 'list templates');
+    const result = await response.json();
+    return result.templates || [];
+  }
+
+  async delete(id: string): Promise<void> {
+    const response = await this.request(`/api/templates/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    await this.ensureOk(response, 'delete template');
+  }
+
+  async exists(id: string): Promise<boolean> {
+    try {
+      const response = await this.request(`/api/templates/${encodeURIComponent(id)}`, { method: 'HEAD' });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  async appendRevision(definition: TemplateDefinition, details: RevisionDetails = {}): Promise<TemplateRevisionSummary> {
+    const query = new URLSearchParams();
+    if (details.message) query.set('message', details.message);
+    if (details.parentRevision) query.set('parentRevision', String(details.parentRevision));
+
+    const response = await this.request(
+      `/api/templates/${encodeURIComponent(definition.metadata.id)}/revisions?${query}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(definition, binaryToDataUrl),
+      }
+    );
+
+    if (response.status === 413 || response.status === 507) {
+      throw new TemplateStorageQuotaError(definition.metadata.name);
+    }
+    await this.ensureOk(response, 'save template revision');
+    const result = await response.json();
+    return result.revision;
+  }
+
+  async listRevisions(templateId: string): Promise<TemplateRevisionSummary[]> {
+    const response = await this.request(`/api/templates/${encodeURIComponent(templateId)}/revisions`);
+    await this.ensureOk(response, 'list template revisions');
+    const result = await response.json();
+    return result.revisions || [];
+  }
+
+  async loadRevision(templateId: string, revision: number): Promise<TemplateRevision | null> {
+    const response = await this.request(`/api/templates/${encodeURIComponent(templateId)}/revisions/${revision}`);
+    if (response.status === 404) return null;
+
+    await this.ensureOk(response, 'load template revision');
+    const result = await response.json();
+    return result.revision;
+  }
+
+  private async request(url: string, init?: RequestInit): Promise<Response> {
+    try {
+      return await fetch(`${this.baseUrl}${url}`, init);
+    } catch (error) {
+      throw new Error(`Template server unreachable: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Throw with the server's error message for non-2xx responses
+   */
+  private async ensureOk(response: Response, action: string): Promise<void> {
+    if (response.ok) return;
+
+    let message = `HTTP ${response.status}`;
+    try {
+      const body = await response.json();
+      if (body?.error) {
+        message = Array.isArray(body.details) && body.details.length > 0
+          ? `${body.error}: ${body.details.join('; ')}`
+          : body.error;
+      }
+    } catch {
+      // Not JSON; keep the status
+    }
+    throw new Error(`Failed to ${action}: ${message}`);
+  }
+}
+
+/**
+ * JSON.stringify replacer: Uint8Array / ArrayBuffer -> base64 data URL
+ */
+function binaryToDataUrl(_key: string, value: unknown): unknown {
+  if (!(value instanceof ArrayBuffer) && !ArrayBuffer.isView(value)) {
+    return value;
+  }
+
+  const bytes = value instanceof ArrayBuffer
+    ? new Uint8Array(value)
+    : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+  const isPdf = bytes[0] === 0x25 && bytes[1] === 0x50 && bytes[2] === 0x44 && bytes[3] === 0x46; // %PDF
+
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return `data:${isPdf ? 'application/pdf' : 'application/octet-stream'};base64,${btoa(binary)}`;
+}
@@ -0,0 +1,514 @@
+// CREATED: 2026-10-19 - IndexedDB template storage with separate binary blobs and localStorage migration
+// UPDATED: 2026-10-19 - Revision log store (database version 2)
+
+import { TemplateDefinition, TemplateMetadata, TemplateStorage } from './template-manager';
+import {
+  RevisionDetails,
+  TemplateRevision,
+  TemplateRevisionSummary,
+  createRevisionSummary,
+} from './template-history';
+
+export const LEGACY_TEMPLATE_STORAGE_KEY = 'pdfme_templates';
+// Legacy entries that could not be read are parked here instead of being deleted
+const LEGACY_UNREADABLE_KEY = 'pdfme_templates_unreadable';
+
+const DB_NAME = 'docubrand_templates';
+const DB_VERSION = 2;
+const TEMPLATE_STORE = 'templates';
+const BLOB_STORE = 'blobs';
+const REVISION_STORE = 'revisions';
+
+// Data URLs shorter than this stay inline in the JSON record
+const MIN_BLOB_DATA_URL_LENGTH = 1024;
+
+/**
+ * Thrown when the browser refuses to store more template data. The message is
+ * meant to be shown to the user as-is.
+ */
+export class TemplateStorageQuotaError extends Error {
+  constructor(
+    public templateName?: string,
+    public usage?: number,
+    public quota?: number
+  ) {
+    const usageText = usage !== undefined && quota
+      ? ` (${formatMegabytes(usage)} of ${formatMegabytes(quota)} used)`
+      : '';
+    super(
+      `Template storage is full${usageText}. ` +
+      `${templateName ? `"${templateName}" was not saved. ` : ''}` +
+      'Delete templates you no longer need or use smaller images, then try again.'
+    );
+    this.name = 'TemplateStorageQuotaError';
+  }
+}
+
+interface BlobRef {
+  __docubrandBlob: string; // Blob record id
+  kind: 'dataUrl' | 'uint8array' | 'arraybuffer';
+}
+
+interface TemplateRecord {
+  id: string;
+  metadata: TemplateMetadata;
+  // The definition without metadata, with large binaries replaced by BlobRefs
+  definition: Omit<TemplateDefinition, 'metadata'>;
+  blobIds: string[];
+  savedAt: number;
+}
+
+interface RevisionRecord extends TemplateRevisionSummary {
+  definition: TemplateDefinition; // With large binaries replaced by BlobRefs
+  blobIds: string[];
+}
+
+interface BlobRecord {
+  id: string;
+  templateId: string; // Owner: a template id, or "<template id>@<revision>" for revision snapshots
+  data: Blob;
+}
+
+/**
+ * One IndexedDB record per template; base PDFs and image data URLs are stored
+ * as Blobs in their own store so listing templates never reads them
+ */
+export class IndexedDBTemplateStorage implements TemplateStorage {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async save(definition: TemplateDefinition): Promise<void> {
+    const db = await this.getDB();
+    await this.write(db, definition);
+  }
+
+  async load(id: string): Promise<TemplateDefinition | null> {
+    try {
+      const db = await this.getDB();
+      const tx = db.transaction([TEMPLATE_STORE, BLOB_STORE], 'readonly');
+      const record = await requestToPromise<TemplateRecord | undefined>(tx.objectStore(TEMPLATE_STORE).get(id));
+      if (!record) return null;
+
+      const blobs = await readBlobs(tx.objectStore(BLOB_STORE), record.blobIds);
+      const definition = await restoreBlobs(record.definition, blobs);
+      return { ...definition, metadata: record.metadata };
+    } catch (error) {
+      throw new Error(`Failed to load template: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async list(): Promise<TemplateMetadata[]> {
+    try {
+      const db = await this.getDB();
+      const tx = db.transaction(TEMPLATE_STORE, 'readonly');
+      const records = await requestToPromise<TemplateRecord[]>(tx.objectStore(TEMPLATE_STORE).getAll());
+
+      // A damaged record hides only itself, not the whole list
+      return records.flatMap((record) => {
+        if (record?.metadata?.id && record.metadata.name) {
+          return [record.metadata];
+        }
+        console.warn(`⚠️ Skipping unreadable template record: ${record?.id ?? 'unknown'}`);
+        return [];
+      });
+    } catch (error) {
+      throw new Error(`Failed to list templates: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      const db = await this.getDB();
+      const tx = db.transaction([TEMPLATE_STORE, BLOB_STORE, REVISION_STORE], 'readwrite');
+      tx.objectStore(TEMPLATE_STORE).delete(id);
+      const blobIds = await requestToPromise<IDBValidKey[]>(
+        tx.objectStore(BLOB_STORE).index('templateId').getAllKeys(id)
+      );
+      blobIds.forEach((blobId) => tx.objectStore(BLOB_STORE).delete(blobId));
+
+      const revisionStore = tx.objectStore(REVISION_STORE);
+      const revisions = await requestToPromise<RevisionRecord[]>(revisionStore.index('templateId').getAll(id));
+      revisions.forEach((revision) => {
+        revision.blobIds.forEach((blobId) => tx.objectStore(BLOB_STORE).delete(blobId));
+        revisionStore.delete([id, revision.revision]);
+      });
+      await transactionDone(tx);
+    } catch (error) {
+      throw new Error(`Failed to delete template: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async exists(id: string): Promise<boolean> {
+    try {
+      const db = await this.getDB();
+      const tx = db.transaction(TEMPLATE_STORE, 'readonly');
+      return (await requestToPromise<number>(tx.objectStore(TEMPLATE_STORE).count(id))) > 0;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async appendRevision(definition: TemplateDefinition, details?: RevisionDetails): Promise<TemplateRevisionSummary> {
+    const db = await this.getDB();
+    const id = definition.metadata.id;
+
+    try {
+      const tx = db.transaction([REVISION_STORE, BLOB_STORE], 'readwrite');
+      const revisionStore = tx.objectStore(REVISION_STORE);
+
+      // Numbered inside the transaction, so two tabs cannot take the same number
+      const existing = await requestToPromise<number>(revisionStore.index('templateId').count(id));
+      const summary = createRevisionSummary(definition, existing + 1, details);
+
+      const blobs: BlobRecord[] = [];
+      const stripped = extractBlobs(definition, `${id}@${summary.revision}`, '', blobs) as TemplateDefinition;
+      const record: RevisionRecord = { ...summary, definition: stripped, blobIds: blobs.map((blob) => blob.id) };
+
+      blobs.forEach((blob) => tx.objectStore(BLOB_STORE).put(blob));
+      revisionStore.add(record);
+      await transactionDone(tx);
+      return summary;
+    } catch (error) {
+      if (isQuotaError(error)) {
+        const estimate = await estimateStorage();
+        throw new TemplateStorageQuotaError(definition.metadata.name, estimate?.usage, estimate?.quota);
+      }
+      throw new Error(`Failed to save template revision: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async listRevisions(templateId: string): Promise<TemplateRevisionSummary[]> {
+    try {
+      const db = await this.getDB();
+      const tx = db.transaction(REVISION_STORE, 'readonly');
+      const records = await requestToPromise<RevisionRecord[]>(
+        tx.objectStore(REVISION_STORE).index('templateId').getAll(templateId)
+      );
+      return records
+        .map(({ definition: _definition, blobIds: _blobIds, ...summary }) => summary)
+        .sort((a, b) => a.revision - b.revision);
+    } catch (error) {
+      throw new Error(`Failed to list template revisions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async loadRevision(templateId: string, revision: number): Promise<TemplateRevision | null> {
+    try {
+      const db = await this.getDB();
+      const tx = db.transaction([REVISION_STORE, BLOB_STORE], 'readonly');
+      const record = await requestToPromise<RevisionRecord | undefined>(
+        tx.objectStore(REVISION_STORE).get([templateId, revision])
+      );
+      if (!record) return null;
+
+      const { blobIds, ...rest } = record;
+      const blobs = await readBlobs(tx.objectStore(BLOB_STORE), blobIds);
+      return { ...rest, definition: await restoreBlobs(record.definition, blobs) };
+    } catch (error) {
+      throw new Error(`Failed to load template revision: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Open the database once, migrating legacy localStorage templates on first use
+   */
+  private getDB(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = this.openDB()
+        .then(async (db) => {
+          await this.migrateFromLocalStorage(db);
+          return db;
+        })
+        .catch((error) => {
+          this.dbPromise = null; // Allow a retry
+          throw error;
+        });
+    }
+    return this.dbPromise;
+  }
+
+  private openDB(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      if (!IndexedDBTemplateStorage.isSupported()) {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TEMPLATE_STORE)) {
+          db.createObjectStore(TEMPLATE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(BLOB_STORE)) {
+          const blobStore = db.createObjectStore(BLOB_STORE, { keyPath: 'id' });
+          blobStore.createIndex('templateId', 'templateId');
+        }
+        if (!db.objectStoreNames.contains(REVISION_STORE)) {
+          const revisionStore = db.createObjectStore(REVISION_STORE, { keyPath: ['templateId', 'revision'] });
+          revisionStore.createIndex('templateId', 'templateId');
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version in another tab upgrade; reopened on next use
+        db.onversionchange = () => {
+          db.close();
+          this.dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error || new Error('Failed to open template database'));
+      request.onblocked = () => reject(new Error('Template database is open in another tab with an older version'));
+    });
+  }
+
+  /**
+   * Write the record and its blobs in one transaction, so a failed save
+   * (e.g. quota) leaves the previous version intact
+   */
+  private async write(db: IDBDatabase, definition: TemplateDefinition): Promise<void> {
+    const { metadata, ...rest } = definition;
+    const id = metadata.id;
+    const blobs: BlobRecord[] = [];
+    const stripped = extractBlobs(rest, id, '', blobs) as TemplateRecord['definition'];
+
+    const record: TemplateRecord = {
+      id,
+      metadata,
+      definition: stripped,
+      blobIds: blobs.map((blob) => blob.id),
+      savedAt: Date.now(),
+    };
+
+    try {
+      const tx = db.transaction([TEMPLATE_STORE, BLOB_STORE], 'readwrite');
+      const blobStore = tx.objectStore(BLOB_STORE);
+
+      // Drop blobs the previous version had but this one does not
+      const previous = await requestToPromise<IDBValidKey[]>(blobStore.index('templateId').getAllKeys(id));
+      const current = new Set(record.blobIds);
+      previous.filter((blobId) => !current.has(String(blobId))).forEach((blobId) => blobStore.delete(blobId));
+
+      blobs.forEach((blob) => blobStore.put(blob));
+      tx.objectStore(TEMPLATE_STORE).put(record);
+      await transactionDone(tx);
+    } catch (error) {
+      if (isQuotaError(error)) {
+        const estimate = await estimateStorage();
+        throw new TemplateStorageQuotaError(metadata.name, estimate?.usage, estimate?.quota);
+      }
+      throw new Error(`Failed to save template: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Move templates from the old single localStorage key. Entries that cannot
+   * be read are parked under a separate key; entries that fail to save stay
+   * where they are and are retried next time.
+   */
+  private async migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+    if (typeof localStorage === 'undefined') return;
+
+    const raw = localStorage.getItem(LEGACY_TEMPLATE_STORAGE_KEY);
+    if (!raw) return;
+
+    let stored: Record<string, unknown>;
+    try {
+      stored = JSON.parse(raw);
+    } catch {
+      console.warn(`⚠️ Legacy templates in localStorage are not valid JSON; moved to "${LEGACY_UNREADABLE_KEY}"`);
+      localStorage.setItem(LEGACY_UNREADABLE_KEY, raw);
+      localStorage.removeItem(LEGACY_TEMPLATE_STORAGE_KEY);
+      return;
+    }
+
+    const unreadable: Record<string, unknown> = {};
+    const remaining: Record<string, unknown> = {};
+    let migrated = 0;
+
+    for (const [key, entry] of Object.entries(stored || {})) {
+      if (!isTemplateDefinition(entry)) {
+        unreadable[key] = entry;
+        continue;
+      }
+      try {
+        await this.write(db, entry);
+        migrated++;
+      } catch (error) {
+        console.warn(`⚠️ Could not migrate template "${entry.metadata.name}":`, error instanceof Error ? error.message : error);
+        remaining[key] = entry;
+      }
+    }
+
+    if (Object.keys(unreadable).length > 0) {
+      console.warn(`⚠️ ${Object.keys(unreadable).length} legacy template(s) unreadable; kept in "${LEGACY_UNREADABLE_KEY}"`);
+      localStorage.setItem(LEGACY_UNREADABLE_KEY, JSON.stringify(unreadable));
+    }
+    if (Object.keys(remaining).length > 0) {
+      localStorage.setItem(LEGACY_TEMPLATE_STORAGE_KEY, JSON.stringify(remaining));
+    } else {
+      localStorage.removeItem(LEGACY_TEMPLATE_STORAGE_KEY);
+    }
+
+    console.log(`📦 Migrated ${migrated} template(s) from localStorage to IndexedDB`);
+  }
+}
+
+/**
+ * Whether an error from localStorage or IndexedDB means the quota is exhausted
+ */
+export function isQuotaError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+  const { name, code } = error as { name?: string; code?: number };
+  // 22 and 1014 are the legacy WebKit and Firefox codes
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED' || code === 22 || code === 1014;
+}
+
+/**
+ * Browser storage usage and quota in bytes, when the browser reports them
+ */
+export async function estimateStorage(): Promise<{ usage: number; quota: number } | null> {
+  try {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  } catch {
+    return null;
+  }
+}
+
+function isTemplateDefinition(value: unknown): value is TemplateDefinition {
+  const definition = value as TemplateDefinition | null;
+  return !!definition?.metadata?.id && !!definition.template && Array.isArray(definition.template.schemas);
+}
+
+/**
+ * Object literals only: Dates, Blobs and other structured-clone types are stored as they are
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object') return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function requestToPromise<T>(request: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function readBlobs(blobStore: IDBObjectStore, blobIds: string[]): Promise<Map<string, Blob>> {
+  const blobs = new Map<string, Blob>();
+  await Promise.all(
+    blobIds.map(async (blobId) => {
+      const blob = await requestToPromise<BlobRecord | undefined>(blobStore.get(blobId));
+      if (blob) blobs.set(blobId, blob.data);
+    })
+  );
+  return blobs;
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * Replace large data URLs and binary buffers with BlobRefs, collecting the
+ * blobs. Blob ids are derived from the JSON path, so re-saving overwrites them.
+ */
+function extractBlobs(value: unknown, templateId: string, path: string, blobs: BlobRecord[]): unknown {
+  const blobId = () => `${templateId}:${path || 'root'}`;
+
+  if (typeof value === 'string') {
+    const match = value.length >= MIN_BLOB_DATA_URL_LENGTH && /^data:([^;,]+);base64,/.exec(value);
+    if (!match) return value;
+    const id = blobId();
+    blobs.push({ id, templateId, data: new Blob([base64ToBytes(value.slice(match[0].length))], { type: match[1] }) });
+    return { __docubrandBlob: id, kind: 'dataUrl' } satisfies BlobRef;
+  }
+
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    const id = blobId();
+    const bytes = value instanceof ArrayBuffer
+      ? new Uint8Array(value)
+      : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+    blobs.push({ id, templateId, data: new Blob([bytes.slice()]) });
+    return { __docubrandBlob: id, kind: value instanceof ArrayBuffer ? 'arraybuffer' : 'uint8array' } satisfies BlobRef;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) => extractBlobs(item, templateId, `${path}[${index}]`, blobs));
+  }
+
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, extractBlobs(item, templateId, path ? `${path}.${key}` : key, blobs)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Put the blobs back where extractBlobs found them
+ */
+async function restoreBlobs<T>(value: T, blobs: Map<string, Blob>): Promise<T> {
+  const restore = async (item: unknown): Promise<unknown> => {
+    if (Array.isArray(item)) {
+      return Promise.all(item.map(restore));
+    }
+    if (!isPlainObject(item)) {
+      return item;
+    }
+
+    if (typeof item.__docubrandBlob === 'string') {
+      const ref = item as unknown as BlobRef;
+      const blob = blobs.get(ref.__docubrandBlob);
+      if (!blob) {
+        throw new Error(`Template data is missing (${ref.__docubrandBlob})`);
+      }
+      const buffer = await blob.arrayBuffer();
+      if (ref.kind === 'arraybuffer') return buffer;
+      if (ref.kind === 'uint8array') return new Uint8Array(buffer);
+      return `data:${blob.type || 'application/octet-stream'};base64,${bytesToBase64(new Uint8Array(buffer))}`;
+    }
+
+    const entries = await Promise.all(
+      Object.entries(item).map(async ([key, child]) => [key, await restore(child)] as const)
+    );
+    return Object.fromEntries(entries);
+  };
+
+  return (await restore(value)) as T;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64.replace(/\s/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,67 @@
+// CREATED: 2026-10-19 - Provider abstraction so analysis is not tied to one LLM vendor
+
+import {
+  AnalysisStatus,
+  ExtractedQuestion,
+  GeminiAnalysisRequest,
+  ProcessingResult
+} from '@/types/gemini';
+
+/**
+ * Available analysis backends
+ * - gemini: Google Gemini via @google/generative-ai
+ * - openai: any OpenAI-compatible /chat/completions endpoint (OpenAI, Azure, vLLM, LM Studio...)
+ * - replay: local fixture file, no network access
+ */
+export type LLMProviderType = 'gemini' | 'openai' | 'replay';
+
+export const LLM_PROVIDER_TYPES: LLMProviderType[] = ['gemini', 'openai', 'replay'];
+
+/**
+ * Progress callbacks for analyzePDF, used by the streaming analyze endpoint
+ */
+export interface AnalysisProgressCallbacks {
+  onStatus?: (status: AnalysisStatus) => void;
+  // Receives only the questions found since the previous call, with final ids
+  onQuestions?: (questions: ExtractedQuestion[]) => void;
+}
+
+/**
+ * Model information reported by health and test endpoints
+ */
+export interface LLMModelInfo {
+  provider: LLMProviderType;
+  model: string;
+  maxTokens?: number;
+  temperature?: number;
+  capabilities: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * Contract every analysis backend implements
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderType;
+
+  analyzePDF(request: GeminiAnalysisRequest, callbacks?: AnalysisProgressCallbacks): Promise<ProcessingResult>;
+  analyzeSection(sectionText: string, documentType?: string): Promise<any>;
+  generateSuggestions(content: string, contentType: string): Promise<string[]>;
+  testConnection(): Promise<{ success: boolean; error?: string; model?: string }>;
+  getModelInfo(): LLMModelInfo;
+}
+
+/**
+ * Read the configured provider from LLM_PROVIDER (defaults to gemini)
+ */
+export function getProviderTypeFromEnv(): LLMProviderType {
+  const value = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+  return isLLMProviderType(value) ? value : 'gemini';
+}
+
+/**
+ * Type guard for provider names coming from env or config
+ */
+export function isLLMProviderType(value: string): value is LLMProviderType {
+  return (LLM_PROVIDER_TYPES as string[]).includes(value);
+}
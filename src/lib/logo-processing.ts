@@ -0,0 +1,255 @@
+// CREATED: 2026-10-19 - Logo normalisation (SVG rasterising, trimming, background removal) and PDF embedding
+
+import { PDFDocument, PDFImage } from 'pdf-lib';
+
+export const MAX_LOGO_DIMENSION = 800; // px, longest side after normalisation
+const SVG_RENDER_DIMENSION = 1600; // px, SVGs are drawn large, then trimmed and scaled
+const ALPHA_THRESHOLD = 8; // Alpha at or below this counts as transparent
+const WHITE_THRESHOLD = 245; // Channels at or above this count as white
+
+export interface LogoProcessingOptions {
+  maxDimension?: number;
+  trim?: boolean; // Crop transparent and white margins
+  removeBackground?: boolean; // Make white connected to the edges transparent
+}
+
+export interface ProcessedLogo {
+  dataUrl: string; // Always PNG
+  width: number;
+  height: number;
+  sourceType: string; // e.g. "svg+xml", "png"
+  originalWidth: number;
+  originalHeight: number;
+  trimmed: boolean;
+  backgroundRemoved: boolean;
+}
+
+/**
+ * Read an uploaded logo and normalise it to a trimmed PNG no larger than maxDimension
+ */
+export async function processLogoFile(file: File, options: LogoProcessingOptions = {}): Promise<ProcessedLogo> {
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Could not read the logo file'));
+    reader.readAsDataURL(file);
+  });
+  return processLogoDataUrl(dataUrl, options);
+}
+
+/**
+ * Normalise a PNG, JPEG, GIF, WebP or SVG data URL. Browser only (uses canvas).
+ */
+export async function processLogoDataUrl(
+  dataUrl: string,
+  options: LogoProcessingOptions = {}
+): Promise<ProcessedLogo> {
+  if (typeof document === 'undefined') {
+    throw new Error('Logo processing needs a browser');
+  }
+
+  const { maxDimension = MAX_LOGO_DIMENSION, trim = true, removeBackground = false } = options;
+  const sourceType = getDataUrlImageType(dataUrl) || 'unknown';
+  const isSvg = sourceType === 'svg+xml';
+  const image = await loadImage(isSvg ? sizeSvgDataUrl(dataUrl, SVG_RENDER_DIMENSION) : dataUrl);
+
+  const originalWidth = image.naturalWidth || image.width;
+  const originalHeight = image.naturalHeight || image.height;
+  if (!originalWidth || !originalHeight) {
+    throw new Error('Logo has no size');
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = originalWidth;
+  canvas.height = originalHeight;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not available');
+  }
+  context.drawImage(image, 0, 0);
+
+  const pixels = context.getImageData(0, 0, canvas.width, canvas.height);
+  const backgroundRemoved = removeBackground && removeEdgeBackground(pixels);
+  if (backgroundRemoved) {
+    context.putImageData(pixels, 0, 0);
+  }
+
+  const bounds = trim
+    ? findContentBounds(pixels)
+    : { x: 0, y: 0, width: canvas.width, height: canvas.height };
+  if (!bounds) {
+    throw new Error('Logo is empty (fully transparent or white)');
+  }
+
+  const scale = Math.min(1, maxDimension / Math.max(bounds.width, bounds.height));
+  const output = document.createElement('canvas');
+  output.width = Math.max(1, Math.round(bounds.width * scale));
+  output.height = Math.max(1, Math.round(bounds.height * scale));
+  const outputContext = output.getContext('2d');
+  if (!outputContext) {
+    throw new Error('Canvas is not available');
+  }
+  outputContext.imageSmoothingQuality = 'high';
+  outputContext.drawImage(
+    canvas,
+    bounds.x, bounds.y, bounds.width, bounds.height,
+    0, 0, output.width, output.height
+  );
+
+  return {
+    dataUrl: output.toDataURL('image/png'),
+    width: output.width,
+    height: output.height,
+    sourceType,
+    originalWidth: isSvg ? output.width : originalWidth,
+    originalHeight: isSvg ? output.height : originalHeight,
+    trimmed: bounds.width < canvas.width || bounds.height < canvas.height,
+    backgroundRemoved,
+  };
+}
+
+/**
+ * Embed a logo data URL in a PDF. PNG and JPEG are embedded directly; SVG,
+ * GIF and WebP are rasterised to PNG first (browser only). Returns null when
+ * the logo cannot be embedded.
+ */
+export async function embedLogoImage(pdfDoc: PDFDocument, dataUrl: string): Promise<PDFImage | null> {
+  try {
+    let source = dataUrl;
+    let type = getDataUrlImageType(source);
+    if (!type) {
+      throw new Error('logo is not a base64 data URL');
+    }
+
+    if (type !== 'png' && type !== 'jpeg' && type !== 'jpg') {
+      if (typeof document === 'undefined') {
+        throw new Error(`${type} logos can only be rasterised in the browser`);
+      }
+      source = (await processLogoDataUrl(source, { trim: false })).dataUrl;
+      type = 'png';
+    }
+
+    const bytes = Uint8Array.from(atob(source.slice(source.indexOf(',') + 1)), (char) => char.charCodeAt(0));
+    return type === 'png' ? await pdfDoc.embedPng(bytes) : await pdfDoc.embedJpg(bytes);
+  } catch (error) {
+    console.warn('⚠️ Logo not embedded:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Image subtype of a base64 data URL ("png", "svg+xml", ...), or null
+ */
+export function getDataUrlImageType(dataUrl: string): string | null {
+  const match = /^data:image\/([\w+.-]+);base64,/i.exec(dataUrl);
+  return match ? match[1].toLowerCase() : null;
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not decode the logo image'));
+    image.src = src;
+  });
+}
+
+/**
+ * Give an SVG explicit pixel width/height (from its viewBox) so browsers draw
+ * it at a useful resolution instead of 300x150 or 0x0
+ */
+function sizeSvgDataUrl(dataUrl: string, target: number): string {
+  try {
+    const svg = decodeURIComponent(escape(atob(dataUrl.slice(dataUrl.indexOf(',') + 1))));
+    const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+    const root = doc.documentElement;
+    if (root.nodeName.toLowerCase() !== 'svg') return dataUrl;
+
+    const viewBox = (root.getAttribute('viewBox') || '').split(/[\s,]+/).map(Number);
+    let width = parseFloat(root.getAttribute('width') || '') || viewBox[2];
+    let height = parseFloat(root.getAttribute('height') || '') || viewBox[3];
+    if (!width || !height) {
+      width = target;
+      height = target;
+    }
+
+    const scale = target / Math.max(width, height);
+    if (!root.getAttribute('viewBox')) {
+      root.setAttribute('viewBox', `0 0 ${width} ${height}`);
+    }
+    root.setAttribute('width', String(Math.round(width * scale)));
+    root.setAttribute('height', String(Math.round(height * scale)));
+
+    const serialized = new XMLSerializer().serializeToString(root);
+    return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(serialized)))}`;
+  } catch (error) {
+    console.warn('⚠️ Could not size SVG logo:', error);
+    return dataUrl;
+  }
+}
+
+function isBackgroundPixel(data: Uint8ClampedArray, index: number): boolean {
+  return (
+    data[index + 3] <= ALPHA_THRESHOLD ||
+    (data[index] >= WHITE_THRESHOLD && data[index + 1] >= WHITE_THRESHOLD && data[index + 2] >= WHITE_THRESHOLD)
+  );
+}
+
+/**
+ * Bounding box of non-background pixels, or null when there are none
+ */
+function findContentBounds(pixels: ImageData): { x: number; y: number; width: number; height: number } | null {
+  const { width, height, data } = pixels;
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isBackgroundPixel(data, (y * width + x) * 4)) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+/**
+ * Flood-fill white from the edges to transparent, so white inside the logo
+ * (e.g. lettering) is kept. Returns whether anything changed.
+ */
+function removeEdgeBackground(pixels: ImageData): boolean {
+  const { width, height, data } = pixels;
+  const visited = new Uint8Array(width * height);
+  const stack: number[] = [];
+  let changed = false;
+
+  for (let x = 0; x < width; x++) stack.push(x, (height - 1) * width + x);
+  for (let y = 0; y < height; y++) stack.push(y * width, y * width + width - 1);
+
+  while (stack.length > 0) {
+    const pixel = stack.pop()!;
+    if (visited[pixel]) continue;
+    visited[pixel] = 1;
+
+    const index = pixel * 4;
+    if (!isBackgroundPixel(data, index)) continue;
+
+    if (data[index + 3] > 0) {
+      data[index + 3] = 0;
+      changed = true;
+    }
+
+    const x = pixel % width;
+    if (x > 0) stack.push(pixel - 1);
+    if (x < width - 1) stack.push(pixel + 1);
+    if (pixel >= width) stack.push(pixel - width);
+    if (pixel < width * (height - 1)) stack.push(pixel + width);
+  }
+
+  return changed;
+}
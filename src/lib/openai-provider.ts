@@ -0,0 +1,129 @@
+// CREATED: 2026-10-19 - OpenAI-compatible HTTP provider (OpenAI, Azure, vLLM, LM Studio, ...)
+
+import { ContentModel, GeminiService } from './gemini-service';
+import { LLMModelInfo, LLMProviderType } from './llm-provider';
+
+/**
+ * OpenAI-compatible provider configuration
+ */
+export interface OpenAIProviderConfig {
+  baseUrl: string; // e.g. https://api.openai.com/v1
+  apiKey?: string; // Optional for local servers
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  pagesPerChunk?: number;
+  chunkConcurrency?: number;
+}
+
+export const DEFAULT_OPENAI_CONFIG: Pick<OpenAIProviderConfig, 'baseUrl' | 'model'> = {
+  baseUrl: 'https://api.openai.com/v1',
+  model: 'gpt-4o-mini'
+};
+
+/**
+ * Inline PDF part in the shape GeminiService sends to its model
+ */
+interface InlineDataPart {
+  inlineData: {
+    data: string;
+    mimeType: string;
+  };
+}
+
+/**
+ * Adapter exposing a /chat/completions endpoint through the generateContent()
+ * shape GeminiService calls, so prompts, chunking, retries and validation are shared.
+ */
+class OpenAIChatModel implements ContentModel {
+  constructor(private config: OpenAIProviderConfig) {}
+
+  async generateContent(input: string | Array<string | InlineDataPart>) {
+    const parts = Array.isArray(input) ? input : [input];
+    const hasDocument = parts.some((part) => typeof part !== 'string');
+
+    const content = parts.map((part) =>
+      typeof part === 'string'
+        ? { type: 'text', text: part }
+        : {
+            type: 'file',
+            file: {
+              filename: 'document.pdf',
+              file_data: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`
+            }
+          }
+    );
+
+    const response = await fetch(`${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` })
+      },
+      body: JSON.stringify({
+        model: this.config.model,
+        temperature: this.config.temperature,
+        max_tokens: this.config.maxTokens,
+        messages: [{ role: 'user', content }],
+        // Analysis prompts ask for JSON; plain prompts (connection test) must not be forced
+        ...(hasDocument && { response_format: { type: 'json_object' } })
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      // Keywords match the non-retryable checks in GeminiService/GeminiClient
+      const reason =
+        response.status === 401 ? 'API_KEY rejected' :
+        response.status === 403 ? 'PERMISSION denied' :
+        response.status === 429 ? 'QUOTA or rate limit exceeded' :
+        response.statusText;
+      throw new Error(`OpenAI-compatible API error ${response.status}: ${reason} ${errorText}`.trim());
+    }
+
+    const data = await response.json();
+    const text: string = data.choices?.[0]?.message?.content ?? '';
+
+    return {
+      response: {
+        text: () => text,
+        usageMetadata: { totalTokenCount: data.usage?.total_tokens || 0 }
+      }
+    };
+  }
+}
+
+/**
+ * Analysis provider backed by an OpenAI-compatible HTTP API.
+ * Documents are never sent to Google when this provider is selected.
+ */
+export class OpenAICompatibleProvider extends GeminiService {
+  readonly name: LLMProviderType = 'openai';
+  private openAIConfig: OpenAIProviderConfig;
+
+  constructor(config: OpenAIProviderConfig) {
+    super(
+      {
+        apiKey: config.apiKey || '',
+        model: config.model,
+        maxTokens: config.maxTokens,
+        temperature: config.temperature,
+        pagesPerChunk: config.pagesPerChunk,
+        chunkConcurrency: config.chunkConcurrency
+      },
+      new OpenAIChatModel(config)
+    );
+    this.openAIConfig = config;
+  }
+
+  /**
+   * Get model information, including the endpoint in use
+   */
+  getModelInfo(): LLMModelInfo {
+    return {
+      ...super.getModelInfo(),
+      provider: this.name,
+      baseUrl: this.openAIConfig.baseUrl
+    };
+  }
+}
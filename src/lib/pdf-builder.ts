@@ -2,21 +2,100 @@
  * PDF Builder - Creates new PDF with proper layering and branding
  * Instead of modifying existing PDF, this creates a new one from scratch
  */
-
-import { PDFDocument, rgb, StandardFonts, PDFPage, PDFFont, PDFEmbeddedPage } from "pdf-lib";
+// UPDATED: 2026-10-19 - Named branding layouts replace the fixed branding layer
+// UPDATED: 2026-10-19 - Watermarks drawn by the shared watermark engine
+// UPDATED: 2026-10-19 - Footer tokens and left/centre/right footer slots
+// UPDATED: 2026-10-19 - Band text colour picked by WCAG contrast
+// UPDATED: 2026-10-19 - Print-economy mode (grey outlines, no bands)
+// UPDATED: 2026-10-19 - Logos (incl. SVG) drawn in per-layout safe boxes
+
+import { PDFDocument, rgb, StandardFonts, PDFPage, PDFFont, PDFImage, PDFDict, PDFName, PDFString, PDFHexString, RGB } from "pdf-lib";
 import { BrandKit } from "@/types";
-import { registerFontkitSafely } from "./fontkit-manager";
+import { ExtractedQuestion } from "@/types/gemini";
+import { registerFontkitSafely, getSimpleFontManager } from "./fontkit-manager";
+import { formatAnswerKeyText, hasAnswerKeyContent } from "./answer-key";
+import {
+  BrandingLayout,
+  BrandingLayoutId,
+  ContentBox,
+  LogoBox,
+  fitLogo,
+  getBrandingLayout,
+  getContentBox,
+  getLogoSafeBox,
+  isSerifFamily,
+} from "./branding-layouts";
+import { WatermarkEngine } from "./watermark-engine";
+import { embedLogoImage } from "./logo-processing";
+import { normalizePagePosition } from "./position-overlay";
+import {
+  DocumentTokenValues,
+  HeaderFooterSlot,
+  renderHeaderFooterSlots,
+  showsPageNumber,
+} from "./header-footer-tokens";
+import { readableTextColor } from "./brand-contrast";
+import { toPrintEconomyKit } from "./print-economy";
 
 export interface PDFBuilderOptions {
   preserveOriginalContent: boolean;
   addBrandingLayer: boolean;
   templateMode: boolean;
+  // Branding layout preset; defaults to the header band
+  layout?: BrandingLayoutId;
+  // Fills {recipient} in the watermark so a leaked copy can be traced
+  watermarkRecipient?: string;
+  // Values for {title}, {course} and {author} in the footer text
+  documentInfo?: DocumentTokenValues;
+  // Black-and-white printing: greys instead of colours, outlines instead of bands
+  printEconomy?: boolean;
+  // Teacher copy: questions whose answers are drawn into the layout
+  answerKeyQuestions?: ExtractedQuestion[];
+}
+
+/**
+ * Fonts used for brand text. Standard fonts cannot encode Vietnamese, so
+ * text drawn with them is converted to ASCII first.
+ */
+interface BrandFonts {
+  body: PDFFont;
+  header: PDFFont;
+  bodyIsStandard: boolean;
+  headerIsStandard: boolean;
+}
+
+/**
+ * Record which library brand kit produced a PDF, as a keyword and custom Info entries
+ */
+export function setBrandKitMetadata(pdfDoc: PDFDocument, brandKit: BrandKit): void {
+  if (!brandKit.id) return;
+
+  pdfDoc.setKeywords([`docubrand-kit:${brandKit.id}`]);
+
+  const info = pdfDoc.context.lookup(pdfDoc.context.trailerInfo.Info, PDFDict);
+  info.set(PDFName.of("DocuBrandKitId"), PDFString.of(brandKit.id));
+  if (brandKit.name) {
+    info.set(PDFName.of("DocuBrandKitName"), PDFHexString.fromText(brandKit.name));
+  }
+}
+
+/**
+ * Record who a traced copy was generated for
+ */
+export function setRecipientMetadata(pdfDoc: PDFDocument, recipient: string): void {
+  const info = pdfDoc.context.lookup(pdfDoc.context.trailerInfo.Info, PDFDict);
+  info.set(PDFName.of("DocuBrandRecipient"), PDFHexString.fromText(recipient));
 }
 
 export class PDFBuilder {
   private pdfDoc: PDFDocument | null = null;
   private standardFont: PDFFont | null = null;
   private customFont: PDFFont | null = null;
+  private brandFonts: BrandFonts | null = null;
+  private logoImage: PDFImage | null = null;
+  private watermarkEngine: WatermarkEngine | null = null;
+  private documentInfo: DocumentTokenValues = {};
+  private printEconomy = false;
 
   constructor() {}
 
@@ -43,7 +122,7 @@ export class PDFBuilder {
    */
   async buildFromExisting(
     originalPdfBytes: Uint8Array,
-    brandKit: BrandKit,
+    sourceBrandKit: BrandKit,
     options: PDFBuilderOptions = {
       preserveOriginalContent: true,
       addBrandingLayer: true,
@@ -66,6 +145,33 @@ export class PDFBuilder {
       const originalPages = originalDoc.getPages();
       console.log(`📄 Original PDF has ${originalPages.length} pages`);
 
+      const answerKeyQuestions = (options.answerKeyQuestions || []).filter(hasAnswerKeyContent);
+      if (answerKeyQuestions.length > 0) {
+        console.log(`🔑 Building teacher copy with ${answerKeyQuestions.length} answers`);
+      }
+
+      const layout = getBrandingLayout(options.layout);
+      this.documentInfo = options.documentInfo || {};
+      this.printEconomy = !!options.printEconomy;
+      const brandKit = this.printEconomy ? toPrintEconomyKit(sourceBrandKit) : sourceBrandKit;
+      if (this.printEconomy) {
+        console.log("🖨️ Print-economy mode: greyscale outlines, no background bands");
+      }
+      if (options.addBrandingLayer) {
+        console.log(`📐 Using branding layout: ${layout.name}`);
+        await this.prepareBrandAssets(brandKit);
+        this.watermarkEngine = await WatermarkEngine.create(
+          this.pdfDoc,
+          brandKit,
+          { recipient: options.watermarkRecipient },
+          {
+            font: this.brandFonts?.header,
+            fontIsStandard: this.brandFonts?.headerIsStandard,
+            logo: this.logoImage,
+          }
+        );
+      }
+
       // Process each page
       for (let i = 0; i < originalPages.length; i++) {
         const originalPage = originalPages[i];
@@ -76,23 +182,55 @@ export class PDFBuilder {
         // Create new page in our document
         const newPage = this.pdfDoc.addPage([width, height]);
 
+        // Without branding the original keeps the full page
+        const contentBox: ContentBox = options.addBrandingLayer
+          ? getContentBox(layout, width, height)
+          : { x: 0, y: 0, width, height, scale: 1 };
+
+        if (options.addBrandingLayer) {
+          this.drawLayoutBackground(newPage, layout, brandKit, width, height, contentBox);
+        }
+
         if (options.preserveOriginalContent) {
-          // Method 1: Embed original page as background
+          // Embed original page, scaled into the layout's content area
           const embeddedPage = await this.pdfDoc.embedPage(originalPage);
           newPage.drawPage(embeddedPage, {
-            x: 0,
-            y: 0,
-            width: width,
-            height: height,
+            x: contentBox.x,
+            y: contentBox.y,
+            width: contentBox.width,
+            height: contentBox.height,
           });
           console.log(`✅ Original content copied to page ${i + 1}`);
         }
 
         if (options.addBrandingLayer) {
-          // Add branding elements ON TOP of original content
-          await this.addBrandingLayer(newPage, brandKit, width, height);
-          console.log(`🎨 Branding layer added to page ${i + 1}`);
+          // Logo, brand text and watermark ON TOP of original content
+          this.drawLayoutForeground(newPage, layout, brandKit, width, height, contentBox, i + 1, originalPages.length);
+          console.log(`🎨 ${layout.name} branding added to page ${i + 1}`);
         }
+
+        if (answerKeyQuestions.length > 0) {
+          this.addAnswerKeyLayer(newPage, i + 1, answerKeyQuestions, brandKit, contentBox);
+        }
+      }
+
+      // Answers without a known position go onto a closing answer-key page
+      const unplacedQuestions = answerKeyQuestions.filter(
+        (question) =>
+          !question.position ||
+          question.position.page < 1 ||
+          question.position.page > originalPages.length
+      );
+      if (unplacedQuestions.length > 0) {
+        const [keyPageWidth, keyPageHeight] = originalPages.length > 0
+          ? [originalPages[0].getWidth(), originalPages[0].getHeight()]
+          : [595.28, 841.89]; // A4 in points
+        this.addAnswerKeyPage(unplacedQuestions, brandKit, keyPageWidth, keyPageHeight);
+      }
+
+      setBrandKitMetadata(this.pdfDoc, brandKit);
+      if (options.watermarkRecipient) {
+        setRecipientMetadata(this.pdfDoc, options.watermarkRecipient);
       }
 
       // Save the new PDF
@@ -185,101 +323,537 @@ export class PDFBuilder {
   }
 
   /**
-   * Add branding layer on top of content
+   * Embed the brand fonts and logo once per document
    */
-  private async addBrandingLayer(
+  private async prepareBrandAssets(brandKit: BrandKit): Promise<void> {
+    if (!this.pdfDoc) return;
+
+    if (!this.brandFonts) {
+      const body = await this.embedBrandFont(brandKit.font, false);
+      const header = await this.embedBrandFont(brandKit.headerFont || brandKit.font, true);
+      this.brandFonts = {
+        body: body.font,
+        header: header.font,
+        bodyIsStandard: body.isStandard,
+        headerIsStandard: header.isStandard,
+      };
+    }
+
+    if (!this.logoImage && brandKit.logo.dataUrl) {
+      this.logoImage = await embedLogoImage(this.pdfDoc, brandKit.logo.dataUrl);
+    }
+  }
+
+  /**
+   * Embed a Google font (latin subset); falls back to the matching
+   * standard font when it cannot be downloaded or parsed
+   */
+  private async embedBrandFont(
+    family: string,
+    bold: boolean
+  ): Promise<{ font: PDFFont; isStandard: boolean }> {
+    const pdfDoc = this.pdfDoc!;
+
+    try {
+      const familyParam = family.replace(/\s+/g, "+");
+      const weight = bold ? 700 : 400;
+      const response = await fetch(
+        `https://fonts.googleapis.com/css2?family=${familyParam}:wght@${weight}&display=swap`
+      );
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const css = await response.text();
+      const faces = Array.from(css.matchAll(/\/\*\s*([\w-]+)\s*\*\/\s*@font-face\s*{([^}]*)}/g));
+      const face = faces.find((match) => match[1] === "latin") || faces[0];
+      const url = face?.[2].match(/url\((https:\/\/fonts\.gstatic\.com\/[^)]+)\)/)?.[1];
+      if (!url) {
+        throw new Error("font URL not found");
+      }
+
+      const fontResponse = await fetch(url);
+      if (!fontResponse.ok) {
+        throw new Error(`HTTP ${fontResponse.status}`);
+      }
+
+      const font = await pdfDoc.embedFont(new Uint8Array(await fontResponse.arrayBuffer()), { subset: true });
+      console.log(`🔤 Embedded brand font: ${family}${bold ? " Bold" : ""}`);
+      return { font, isStandard: false };
+    } catch (error) {
+      console.warn(`⚠️ Using standard font for ${family}:`, error instanceof Error ? error.message : error);
+    }
+
+    const serif = isSerifFamily(family);
+    const standardFont = serif
+      ? bold ? StandardFonts.TimesRomanBold : StandardFonts.TimesRoman
+      : bold ? StandardFonts.HelveticaBold : StandardFonts.Helvetica;
+    return { font: await pdfDoc.embedFont(standardFont), isStandard: true };
+  }
+
+  /**
+   * Brand zones drawn under the original content
+   */
+  private drawLayoutBackground(
     page: PDFPage,
+    layout: BrandingLayout,
     brandKit: BrandKit,
     width: number,
-    height: number
-  ): Promise<void> {
-    console.log("🎨 Adding branding layer...");
-
-    // 1. BRIGHT RED DEBUG RECTANGLE (ON TOP)
-    page.drawRectangle({
-      x: width - 150,
-      y: height - 150,
-      width: 100,
-      height: 100,
-      color: rgb(1, 0, 0), // Bright red
-      opacity: 0.9,
-    });
-    console.log("🔴 DEBUG: Red rectangle added ON TOP");
+    height: number,
+    contentBox: ContentBox
+  ): void {
+    const primary = this.toColor(brandKit.color);
+    const secondary = this.toColor(brandKit.secondaryColor);
+    const accent = this.toColor(brandKit.accentColor);
+    const headerHeight = layout.headerHeight * height;
+    const footerHeight = layout.footerHeight * height;
+    const sidebarWidth = layout.sidebarWidth * width;
+    const unit = Math.min(width, height) / 200; // ~3pt on A4
+
+    if (this.printEconomy) {
+      this.drawEconomyBackground(page, layout, brandKit, width, height, contentBox);
+      return;
+    }
 
-    // 2. Brand borders (thick and visible)
-    if (brandKit.color) {
-      const color = this.hexToRgb(brandKit.color);
-      // Top border
-      page.drawRectangle({
-        x: 0,
-        y: height - 25,
-        width: width,
-        height: 25,
-        color: rgb(color.r / 255, color.g / 255, color.b / 255),
-        opacity: 0.8,
-      });
-      console.log(`🎨 Top border added: ${brandKit.color}`);
+    switch (layout.id) {
+      case "header-band":
+        page.drawRectangle({ x: 0, y: height - headerHeight, width, height: headerHeight, color: primary });
+        page.drawRectangle({ x: 0, y: height - headerHeight - unit, width, height: unit, color: accent });
+        page.drawRectangle({ x: 0, y: 0, width, height: footerHeight, color: secondary });
+        break;
+
+      case "sidebar":
+        page.drawRectangle({ x: 0, y: 0, width: sidebarWidth, height, color: primary });
+        page.drawRectangle({ x: sidebarWidth, y: 0, width: unit, height, color: accent });
+        break;
+
+      case "corner-badge":
+        page.drawLine({
+          start: { x: contentBox.x, y: footerHeight },
+          end: { x: contentBox.x + contentBox.width, y: footerHeight },
+          thickness: unit / 3,
+          color: primary,
+        });
+        break;
+
+      case "letterhead": {
+        const inset = (layout.contentMargin * width) / 2;
+        page.drawLine({
+          start: { x: inset, y: height - headerHeight },
+          end: { x: width - inset, y: height - headerHeight },
+          thickness: unit / 1.5,
+          color: accent,
+        });
+        page.drawRectangle({
+          x: contentBox.x - inset,
+          y: contentBox.y - inset,
+          width: contentBox.width + inset * 2,
+          height: contentBox.height + inset * 2,
+          borderColor: primary,
+          borderWidth: unit / 2,
+        });
+        page.drawRectangle({ x: 0, y: 0, width, height: footerHeight * 0.25, color: secondary });
+        break;
+      }
     }
+  }
 
-    if (brandKit.secondaryColor) {
-      const color = this.hexToRgb(brandKit.secondaryColor);
-      // Bottom border
-      page.drawRectangle({
-        x: 0,
-        y: 0,
-        width: width,
-        height: 20,
-        color: rgb(color.r / 255, color.g / 255, color.b / 255),
-        opacity: 0.8,
-      });
-      console.log(`🎨 Bottom border added: ${brandKit.secondaryColor}`);
+  /**
+   * Print-economy brand zones: thin grey rules and outlines instead of filled bands
+   */
+  private drawEconomyBackground(
+    page: PDFPage,
+    layout: BrandingLayout,
+    brandKit: BrandKit,
+    width: number,
+    height: number,
+    contentBox: ContentBox
+  ): void {
+    const primary = this.toColor(brandKit.color);
+    const secondary = this.toColor(brandKit.secondaryColor);
+    const headerHeight = layout.headerHeight * height;
+    const footerHeight = layout.footerHeight * height;
+    const sidebarWidth = layout.sidebarWidth * width;
+    const unit = Math.min(width, height) / 200;
+
+    switch (layout.id) {
+      case "header-band":
+        page.drawLine({ start: { x: 0, y: height - headerHeight }, end: { x: width, y: height - headerHeight }, thickness: unit / 2, color: primary });
+        page.drawLine({ start: { x: 0, y: footerHeight }, end: { x: width, y: footerHeight }, thickness: unit / 3, color: secondary });
+        break;
+
+      case "sidebar":
+        page.drawLine({ start: { x: sidebarWidth, y: 0 }, end: { x: sidebarWidth, y: height }, thickness: unit / 2, color: primary });
+        break;
+
+      case "corner-badge":
+        page.drawLine({
+          start: { x: contentBox.x, y: footerHeight },
+          end: { x: contentBox.x + contentBox.width, y: footerHeight },
+          thickness: unit / 3,
+          color: primary,
+        });
+        break;
+
+      case "letterhead": {
+        const inset = (layout.contentMargin * width) / 2;
+        page.drawLine({
+          start: { x: inset, y: height - headerHeight },
+          end: { x: width - inset, y: height - headerHeight },
+          thickness: unit / 2,
+          color: primary,
+        });
+        page.drawRectangle({
+          x: contentBox.x - inset,
+          y: contentBox.y - inset,
+          width: contentBox.width + inset * 2,
+          height: contentBox.height + inset * 2,
+          borderColor: secondary,
+          borderWidth: unit / 3,
+        });
+        break;
+      }
     }
+  }
 
-    if (brandKit.accentColor) {
-      const color = this.hexToRgb(brandKit.accentColor);
-      // Left border
-      page.drawRectangle({
-        x: 0,
-        y: 0,
-        width: 20,
-        height: height,
-        color: rgb(color.r / 255, color.g / 255, color.b / 255),
-        opacity: 0.8,
-      });
-      console.log(`🎨 Left border added: ${brandKit.accentColor}`);
+  /**
+   * Logo, kit name, footer text, page numbers and watermark, drawn on top
+   */
+  private drawLayoutForeground(
+    page: PDFPage,
+    layout: BrandingLayout,
+    brandKit: BrandKit,
+    width: number,
+    height: number,
+    contentBox: ContentBox,
+    pageNumber: number,
+    pageCount: number
+  ): void {
+    const headerHeight = layout.headerHeight * height;
+    const footerHeight = layout.footerHeight * height;
+    const sidebarWidth = layout.sidebarWidth * width;
+    const margin = layout.contentMargin * width;
+    const footerSize = Math.max(7, Math.min(10, footerHeight * 0.3));
+    const textColor = rgb(0.3, 0.3, 0.3);
+    const logoBox = getLogoSafeBox(layout, width, height);
+
+    switch (layout.id) {
+      case "header-band": {
+        const onPrimary = this.printEconomy ? this.toColor(brandKit.color) : this.readableOn(brandKit.color);
+        this.drawLogo(page, logoBox);
+        if (brandKit.name) {
+          this.drawBrandText(page, brandKit.name, {
+            x: width - margin,
+            y: height - headerHeight / 2 - headerHeight * 0.12,
+            size: headerHeight * 0.28,
+            header: true,
+            color: onPrimary,
+            align: "right",
+            maxWidth: width * 0.55,
+          });
+        }
+        const onSecondary = this.printEconomy ? textColor : this.readableOn(brandKit.secondaryColor);
+        const footerY = (footerHeight - footerSize) / 2 + footerSize * 0.2;
+        this.drawFooter(page, brandKit, { left: margin, right: width - margin, y: footerY, size: footerSize, color: onSecondary }, pageNumber, pageCount);
+        break;
+      }
+
+      case "sidebar": {
+        const padding = sidebarWidth * 0.12;
+        if (this.logoImage) {
+          const size = sidebarWidth - padding * 2;
+          page.drawRectangle({ x: padding, y: height - padding - size, width: size, height: size, color: rgb(1, 1, 1) });
+          this.drawLogo(page, logoBox, "center");
+        }
+        const footerY = (footerHeight - footerSize) / 2;
+        this.drawFooter(page, brandKit, { left: contentBox.x, right: contentBox.x + contentBox.width, y: footerY, size: footerSize, color: textColor }, pageNumber, pageCount);
+        break;
+      }
+
+      case "corner-badge": {
+        const badgeHeight = headerHeight * 0.85;
+        const badgeWidth = this.logoImage ? badgeHeight * 2 : badgeHeight;
+        const badgeX = width - margin - badgeWidth;
+        const badgeY = height - badgeHeight - (headerHeight - badgeHeight) / 2;
+        if (this.printEconomy) {
+          page.drawRectangle({ x: badgeX, y: badgeY, width: badgeWidth, height: badgeHeight, borderColor: this.toColor(brandKit.color), borderWidth: 0.75 });
+        } else {
+          page.drawRectangle({ x: badgeX, y: badgeY, width: badgeWidth, height: badgeHeight, color: this.toColor(brandKit.color) });
+          page.drawRectangle({ x: badgeX, y: badgeY, width: badgeWidth, height: badgeHeight * 0.08, color: this.toColor(brandKit.accentColor) });
+        }
+        if (this.logoImage) {
+          const inset = badgeHeight * 0.15;
+          page.drawRectangle({ x: badgeX + inset, y: badgeY + inset, width: badgeWidth - inset * 2, height: badgeHeight - inset * 2, color: rgb(1, 1, 1) });
+          this.drawLogo(page, logoBox, "center");
+        }
+        const footerY = (footerHeight - footerSize) / 2;
+        this.drawFooter(page, brandKit, { left: contentBox.x, right: contentBox.x + contentBox.width, y: footerY, size: footerSize * 0.9, color: textColor }, pageNumber, pageCount);
+        break;
+      }
+
+      case "letterhead": {
+        this.drawLogo(page, logoBox);
+        if (brandKit.name) {
+          this.drawBrandText(page, brandKit.name, {
+            x: width - margin,
+            y: height - headerHeight / 2 - headerHeight * 0.1,
+            size: headerHeight * 0.22,
+            header: true,
+            color: this.toColor(brandKit.color),
+            align: "right",
+            maxWidth: width * 0.55,
+          });
+        }
+        const footerY = footerHeight * 0.4;
+        this.drawFooter(page, brandKit, { left: margin, right: width - margin, y: footerY, size: footerSize, color: textColor, defaultSlot: "center" }, pageNumber, pageCount);
+        break;
+      }
     }
 
-    // 3. Watermark
-    if (brandKit.watermark && this.standardFont) {
-      const fontSize = Math.min(width, height) / 20;
-      const textWidth = this.standardFont.widthOfTextAtSize(brandKit.watermark, fontSize);
-      
-      page.drawText(brandKit.watermark, {
-        x: (width - textWidth) / 2,
-        y: height / 2,
-        size: fontSize,
-        font: this.standardFont,
-        color: rgb(0.5, 0.5, 0.5),
-        opacity: 0.3,
-      });
-      console.log(`🎨 Watermark added: ${brandKit.watermark}`);
+    this.watermarkEngine?.apply(page, pageNumber, pageCount, contentBox);
+  }
+
+  /**
+   * Footer text in its left/centre/right slots with tokens filled in. The page
+   * number goes right unless the text uses that slot or prints {page} itself.
+   */
+  private drawFooter(
+    page: PDFPage,
+    brandKit: BrandKit,
+    area: { left: number; right: number; y: number; size: number; color: RGB; defaultSlot?: HeaderFooterSlot },
+    pageNumber: number,
+    pageCount: number
+  ): void {
+    const text = brandKit.footerText || "";
+    const slots = renderHeaderFooterSlots(text, { ...this.documentInfo, pageNumber, pageCount }, area.defaultSlot);
+    const pageLabelOnly = !slots.right && !showsPageNumber(text);
+    if (pageLabelOnly) {
+      slots.right = `${pageNumber} / ${pageCount}`;
     }
 
-    // 4. Footer text
-    if (brandKit.footerText && this.standardFont) {
-      const fontSize = 10;
-      
-      page.drawText(brandKit.footerText, {
-        x: 30,
-        y: 30,
-        size: fontSize,
-        font: this.standardFont,
-        color: rgb(0.3, 0.3, 0.3),
-      });
-      console.log(`🎨 Footer text added: ${brandKit.footerText}`);
+    const width = area.right - area.left;
+    const sideWidth = slots.center ? width * 0.31 : width * (pageLabelOnly ? 0.75 : 0.48);
+    const { y, size, color } = area;
+
+    if (slots.left) {
+      this.drawBrandText(page, slots.left, { x: area.left, y, size, color, maxWidth: sideWidth });
+    }
+    if (slots.center) {
+      const crowded = !!slots.left || (!!slots.right && !pageLabelOnly);
+      const centerWidth = crowded ? width * 0.31 : width * 0.7;
+      this.drawBrandText(page, slots.center, { x: area.left + width / 2, y, size, color, align: "center", maxWidth: centerWidth });
+    }
+    if (slots.right) {
+      this.drawBrandText(page, slots.right, { x: area.right, y, size, color, align: "right", maxWidth: pageLabelOnly ? undefined : sideWidth });
     }
   }
 
+  /**
+   * Draw the logo contained (aspect ratio kept) in its safe box
+   */
+  private drawLogo(page: PDFPage, box: LogoBox, align: "left" | "center" = "left"): void {
+    if (!this.logoImage || box.width <= 0 || box.height <= 0) return;
+
+    page.drawImage(this.logoImage, fitLogo(this.logoImage.width, this.logoImage.height, box, align));
+  }
+
+  /**
+   * Draw one line of brand text in the body or header font, truncated to maxWidth
+   */
+  private drawBrandText(
+    page: PDFPage,
+    text: string,
+    options: {
+      x: number;
+      y: number;
+      size: number;
+      color: RGB;
+      header?: boolean;
+      align?: "left" | "center" | "right";
+      maxWidth?: number;
+    }
+  ): void {
+    if (!this.brandFonts) return;
+
+    const font = options.header ? this.brandFonts.header : this.brandFonts.body;
+    const isStandard = options.header ? this.brandFonts.headerIsStandard : this.brandFonts.bodyIsStandard;
+    const fullText = isStandard ? getSimpleFontManager().toASCII(text) : text;
+    const ellipsis = isStandard ? "..." : "…";
+    let line = fullText;
+
+    if (options.maxWidth) {
+      let length = fullText.length;
+      while (length > 1 && font.widthOfTextAtSize(line, options.size) > options.maxWidth) {
+        length--;
+        line = `${fullText.slice(0, length).trimEnd()}${ellipsis}`;
+      }
+    }
+
+    const textWidth = font.widthOfTextAtSize(line, options.size);
+    const x = options.align === "right"
+      ? options.x - textWidth
+      : options.align === "center"
+        ? options.x - textWidth / 2
+        : options.x;
+
+    page.drawText(line, {
+      x,
+      y: options.y,
+      size: options.size,
+      font,
+      color: options.color,
+    });
+  }
+
+  /**
+   * Draw answers next to their questions, highlighted in the brand accent colour
+   */
+  private addAnswerKeyLayer(
+    page: PDFPage,
+    pageNumber: number,
+    questions: ExtractedQuestion[],
+    brandKit: BrandKit,
+    contentBox: ContentBox
+  ): void {
+    if (!this.standardFont) return;
+
+    const font = this.standardFont;
+    const fontSize = 9;
+    const padding = 3;
+    const accent = this.hexToRgb(brandKit.accentColor || "#10B981");
+    const fontManager = getSimpleFontManager();
+
+    questions
+      .filter((question) => question.position?.page === pageNumber)
+      .forEach((question) => {
+        // Positions are page fractions or sanitizer percentages (origin
+        // top-left) relative to the original page, which sits in the content box
+        const position = normalizePagePosition(question.position);
+        if (!position) return;
+        const lines = formatAnswerKeyText(question)
+          .split("\n")
+          .map((line) => fontManager.toASCII(line));
+        const maxWidth = contentBox.width * 0.45;
+        const wrapped = lines.flatMap((line) =>
+          this.wrapText(line, font, fontSize, maxWidth)
+        );
+        const boxWidth =
+          Math.max(...wrapped.map((line) => font.widthOfTextAtSize(line, fontSize))) +
+          padding * 2;
+        const boxHeight = wrapped.length * (fontSize + 2) + padding * 2;
+        const x = Math.max(contentBox.x + contentBox.width - boxWidth - 20 * contentBox.scale, contentBox.x);
+        const y = Math.max(
+          contentBox.y + contentBox.height * (1 - position.y) - boxHeight,
+          contentBox.y + 20 * contentBox.scale
+        );
+
+        page.drawRectangle({
+          x,
+          y,
+          width: boxWidth,
+          height: boxHeight,
+          // Outline only in print economy
+          color: this.printEconomy ? undefined : rgb(accent.r / 255, accent.g / 255, accent.b / 255),
+          opacity: 0.2,
+          borderColor: rgb(accent.r / 255, accent.g / 255, accent.b / 255),
+          borderWidth: 1,
+        });
+
+        wrapped.forEach((line, lineIndex) => {
+          page.drawText(line, {
+            x: x + padding,
+            y: y + boxHeight - padding - (lineIndex + 1) * (fontSize + 2) + 2,
+            size: fontSize,
+            font,
+            color: rgb(0.1, 0.1, 0.1),
+          });
+        });
+      });
+  }
+
+  /**
+   * Append an answer-key page listing answers that could not be placed
+   */
+  private addAnswerKeyPage(
+    questions: ExtractedQuestion[],
+    brandKit: BrandKit,
+    width: number,
+    height: number
+  ): void {
+    if (!this.pdfDoc || !this.standardFont) return;
+
+    const font = this.standardFont;
+    const fontManager = getSimpleFontManager();
+    const accent = this.hexToRgb(brandKit.accentColor || "#10B981");
+    const accentColor = rgb(accent.r / 255, accent.g / 255, accent.b / 255);
+    const margin = 50;
+    const fontSize = 10;
+    const lineHeight = fontSize + 4;
+
+    let page = this.pdfDoc.addPage([width, height]);
+    let y = height - margin;
+
+    page.drawText("Answer Key", {
+      x: margin,
+      y,
+      size: 18,
+      font,
+      color: accentColor,
+    });
+    y -= 30;
+
+    questions.forEach((question, index) => {
+      const label = fontManager.toASCII(`${question.number || index + 1}.`);
+      const lines = formatAnswerKeyText(question)
+        .split("\n")
+        .flatMap((line) =>
+          this.wrapText(fontManager.toASCII(line), font, fontSize, width - margin * 2 - 30)
+        );
+
+      if (y - lines.length * lineHeight < margin) {
+        page = this.pdfDoc!.addPage([width, height]);
+        y = height - margin;
+      }
+
+      page.drawText(label, { x: margin, y, size: fontSize, font, color: accentColor });
+      lines.forEach((line) => {
+        page.drawText(line, {
+          x: margin + 30,
+          y,
+          size: fontSize,
+          font,
+          color: rgb(0.1, 0.1, 0.1),
+        });
+        y -= lineHeight;
+      });
+      y -= 6;
+    });
+
+    console.log(`🔑 Answer key page added for ${questions.length} questions`);
+  }
+
+  /**
+   * Greedy word wrap for a single line of text
+   */
+  private wrapText(text: string, font: PDFFont, fontSize: number, maxWidth: number): string[] {
+    const words = text.split(/\s+/).filter(Boolean);
+    const lines: string[] = [];
+    let current = "";
+
+    words.forEach((word) => {
+      const candidate = current ? `${current} ${word}` : word;
+      if (current && font.widthOfTextAtSize(candidate, fontSize) > maxWidth) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    });
+
+    if (current) lines.push(current);
+    return lines.length > 0 ? lines : [""];
+  }
+
   /**
    * Create template background
    */
@@ -370,6 +944,18 @@ export class PDFBuilder {
     };
   }
 
+  private toColor(hex: string): RGB {
+    const color = this.hexToRgb(hex);
+    return rgb(color.r / 255, color.g / 255, color.b / 255);
+  }
+
+  /**
+   * White or near-black, whichever has the higher contrast on the given background
+   */
+  private readableOn(hex: string): RGB {
+    return this.toColor(readableTextColor(hex));
+  }
+
   /**
    * Convert hex color to RGB
    */
@@ -391,5 +977,10 @@ export class PDFBuilder {
     this.pdfDoc = null;
     this.standardFont = null;
     this.customFont = null;
+    this.brandFonts = null;
+    this.logoImage = null;
+    this.watermarkEngine = null;
+    this.documentInfo = {};
+    this.printEconomy = false;
   }
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { PDFDocument, rgb, StandardFonts } from "pdf-lib";
+import { PDFDocument, PDFImage, PDFPage, rgb, StandardFonts } from "pdf-lib";
 import { getSimpleFontManager, registerFontkitSafely } from "./fontkit-manager";
 import {
   GeminiAnalysisRequest,
@@ -9,6 +9,21 @@ import {
 } from "@/types/gemini";
 import { getGeminiClient } from "./gemini-client";
 import { BrandKit } from "@/types";
+import { PDFBuilderOptions, setBrandKitMetadata, setRecipientMetadata } from "./pdf-builder";
+import { WatermarkEngine } from "./watermark-engine";
+import { embedLogoImage } from "./logo-processing";
+import { LogoBox, fitLogo } from "./branding-layouts";
+import { toPrintEconomyKit } from "./print-economy";
+import {
+  HeaderFooterSlots,
+  getDocumentTokenValues,
+  renderHeaderFooterSlots,
+} from "./header-footer-tokens";
+
+/**
+ * Per-document branding choices passed through to PDFBuilder
+ */
+export type BrandingOptions = Pick<PDFBuilderOptions, "layout" | "watermarkRecipient" | "printEconomy">;
 
 
 /**
@@ -77,7 +92,7 @@ export class PDFProcessor {
       extractContent?: boolean;
       applyBranding?: boolean;
       onProgress?: (status: AnalysisStatus) => void;
-    } = {}
+    } & BrandingOptions = {}
   ): Promise<PDFProcessingResult> {
     const startTime = Date.now();
     const warnings: string[] = [];
@@ -98,6 +113,9 @@ export class PDFProcessor {
         language = "en",
         extractContent = true,
         applyBranding = true,
+        layout,
+        watermarkRecipient,
+        printEconomy,
         onProgress,
       } = options;
 
@@ -170,7 +188,11 @@ export class PDFProcessor {
         });
 
         try {
-          brandedPdf = await this.applyBranding(file, brandKit, analysisResult);
+          brandedPdf = await this.applyBranding(file, brandKit, analysisResult, {
+            layout,
+            watermarkRecipient,
+            printEconomy,
+          });
           console.log("✅ Branding applied successfully");
           
           // Additional validation: try to create a blob to test browser compatibility
@@ -295,19 +317,64 @@ export class PDFProcessor {
   async applyBrandingOnly(
     file: File,
     brandKit: BrandKit,
-    analysisResult?: GeminiAnalysisResponse
+    analysisResult?: GeminiAnalysisResponse,
+    brandingOptions: BrandingOptions = {}
   ): Promise<Uint8Array> {
     console.log("🎨 Applying branding to PDF...");
 
     try {
       await this.validateFile(file);
-      return await this.applyBranding(file, brandKit, analysisResult);
+      return await this.applyBranding(file, brandKit, analysisResult, brandingOptions);
     } catch (error) {
       console.error("❌ Branding application failed:", error);
       throw error;
     }
   }
 
+  /**
+   * Build the teacher copy: branded PDF with every correct answer and
+   * explanation drawn into the layout in the brand accent colour
+   */
+  async applyAnswerKey(
+    file: File,
+    brandKit: BrandKit,
+    analysisResult: GeminiAnalysisResponse,
+    brandingOptions: BrandingOptions = {}
+  ): Promise<Uint8Array> {
+    console.log("🔑 Generating answer key copy...");
+
+    try {
+      await this.validateFile(file);
+
+      const { PDFBuilder } = await import("./pdf-builder");
+      const pdfBuilder = new PDFBuilder();
+      await pdfBuilder.initialize();
+
+      // No fallback here: a teacher copy without answers would be misleading
+      const answerKeyBytes = await pdfBuilder.buildFromExisting(
+        new Uint8Array(await file.arrayBuffer()),
+        brandKit,
+        {
+          preserveOriginalContent: true,
+          addBrandingLayer: true,
+          templateMode: false,
+          ...brandingOptions,
+          documentInfo: getDocumentTokenValues(analysisResult),
+          answerKeyQuestions: analysisResult.extractedQuestions,
+        }
+      );
+      pdfBuilder.cleanup();
+
+      await this.validateGeneratedPDF(answerKeyBytes);
+
+      console.log(`✅ Answer key copy completed: ${answerKeyBytes.length} bytes`);
+      return answerKeyBytes;
+    } catch (error) {
+      console.error("❌ Answer key generation failed:", error);
+      throw error;
+    }
+  }
+
   /**
    * Validate PDF file
    */
@@ -398,7 +465,8 @@ export class PDFProcessor {
   private async applyBranding(
     file: File,
     brandKit: BrandKit,
-    analysisResult?: GeminiAnalysisResponse
+    analysisResult?: GeminiAnalysisResponse,
+    brandingOptions: BrandingOptions = {}
   ): Promise<Uint8Array> {
     try {
       console.log("🏗️ Using new PDF Builder approach for branding...");
@@ -421,7 +489,9 @@ export class PDFProcessor {
         {
           preserveOriginalContent: true,
           addBrandingLayer: true,
-          templateMode: false
+          templateMode: false,
+          ...brandingOptions,
+          documentInfo: getDocumentTokenValues(analysisResult)
         }
       );
       
@@ -440,7 +510,7 @@ export class PDFProcessor {
       
       // Fallback to original method if PDF Builder fails
       console.log("🔄 Falling back to original branding method...");
-      return await this.applyBrandingFallback(file, brandKit, analysisResult);
+      return await this.applyBrandingFallback(file, brandKit, analysisResult, brandingOptions);
     }
   }
 
@@ -450,7 +520,8 @@ export class PDFProcessor {
   private async applyBrandingFallback(
     file: File,
     brandKit: BrandKit,
-    analysisResult?: GeminiAnalysisResponse
+    analysisResult?: GeminiAnalysisResponse,
+    brandingOptions: BrandingOptions = {}
   ): Promise<Uint8Array> {
     try {
       // Read original PDF
@@ -471,8 +542,13 @@ export class PDFProcessor {
 
       console.log(`📄 Fallback method: PDF loaded: ${pageCount} pages, applying branding...`);
 
-      // Apply brand elements
-      await this.addBrandElements(pdfDoc, brandKit, analysisResult);
+      // Apply brand elements; print economy uses the greyscale kit
+      await this.addBrandElements(
+        pdfDoc,
+        brandingOptions.printEconomy ? toPrintEconomyKit(brandKit) : brandKit,
+        analysisResult,
+        brandingOptions.watermarkRecipient
+      );
 
       // Generate final PDF with enhanced options
       const finalPdfBytes = await pdfDoc.save({
@@ -502,7 +578,8 @@ export class PDFProcessor {
   private async addBrandElements(
     pdfDoc: PDFDocument,
     brandKit: BrandKit,
-    analysisResult?: GeminiAnalysisResponse
+    analysisResult?: GeminiAnalysisResponse,
+    watermarkRecipient?: string
   ): Promise<void> {
     try {
       console.log(`🎨 Applying branding with fontkit support...`);
@@ -530,6 +607,12 @@ export class PDFProcessor {
       const pages = pdfDoc.getPages();
       console.log(`📄 Processing ${pages.length} pages for branding...`);
 
+      const watermarkEngine = await WatermarkEngine.create(pdfDoc, brandKit, {
+        recipient: watermarkRecipient,
+      });
+      const documentInfo = getDocumentTokenValues(analysisResult);
+      const logoImage = brandKit.logo?.dataUrl ? await embedLogoImage(pdfDoc, brandKit.logo.dataUrl) : null;
+
       let successfulPages = 0;
       let brandingApplied = false;
 
@@ -545,23 +628,30 @@ export class PDFProcessor {
           brandingApplied = true;
           console.log(`🎨 Basic brand styling applied to page ${i + 1}`);
 
+          if (logoImage) {
+            this.addLogo(page, logoImage, width, height);
+          }
+
           // Add footer with fallback
+          const footer = renderHeaderFooterSlots(
+            brandKit.footerText || "Created with DocuBrand",
+            { ...documentInfo, pageNumber: i + 1, pageCount: pages.length }
+          );
+          if (!footer.right) {
+            footer.right = this.createTimestamp();
+          }
           try {
-            await this.addSmartFooter(page, pdfDoc, brandKit, width, height);
+            await this.addSmartFooter(page, pdfDoc, footer, width, height);
           } catch (footerError) {
             console.warn(`⚠️ Smart footer failed on page ${i + 1}, using basic footer:`, footerError);
-            await this.addBasicFooter(page, pdfDoc, brandKit, width, height);
+            await this.addBasicFooter(page, pdfDoc, footer, width, height);
           }
           
           // Add watermark if specified
-          if (brandKit.watermark) {
-            try {
-              await this.addSmartWatermark(page, pdfDoc, brandKit.watermark, width, height);
-            } catch (watermarkError) {
-              console.warn(`⚠️ Watermark failed on page ${i + 1}:`, watermarkError);
-              // Try basic watermark
-              await this.addBasicWatermark(page, pdfDoc, brandKit.watermark, width, height);
-            }
+          try {
+            watermarkEngine?.apply(page, i + 1, pages.length);
+          } catch (watermarkError) {
+            console.warn(`⚠️ Watermark failed on page ${i + 1}:`, watermarkError);
           }
 
           successfulPages++;
@@ -579,7 +669,10 @@ export class PDFProcessor {
       }
 
       // Set document metadata
-      await this.setDocumentMetadata(pdfDoc, analysisResult);
+      await this.setDocumentMetadata(pdfDoc, analysisResult, brandKit);
+      if (watermarkRecipient) {
+        setRecipientMetadata(pdfDoc, watermarkRecipient);
+      }
 
       console.log(`✅ Branding completed: ${successfulPages}/${pages.length} pages successful`);
       
@@ -594,77 +687,42 @@ export class PDFProcessor {
   }
 
   /**
-   * Add footer using font manager
+   * Add footer using font manager, one text per left/centre/right slot
    */
   private async addSmartFooter(
     page: any,
     pdfDoc: PDFDocument,
-    brandKit: BrandKit,
+    footer: HeaderFooterSlots,
     pageWidth: number,
     pageHeight: number
   ): Promise<void> {
     try {
-      const footerText = brandKit.footerText || "Created with DocuBrand";
-      
-      // Try to render with font manager
-      const success = await this.fontManager.renderText(page, pdfDoc, footerText, {
-        x: 20,
-        y: 15,
-        size: 8,
-        color: { r: 128, g: 128, b: 128 },
-        align: 'left'
-      });
+      const positions = { left: 20, center: pageWidth / 2, right: pageWidth - 20 };
+      let success = true;
 
-      if (success) {
-        // Add timestamp
-        const timestamp = this.createTimestamp();
-        await this.fontManager.renderText(page, pdfDoc, timestamp, {
-          x: pageWidth - 20,
+      // Try to render with font manager
+      for (const slot of ["left", "center", "right"] as const) {
+        if (!footer[slot]) continue;
+        success = await this.fontManager.renderText(page, pdfDoc, footer[slot], {
+          x: positions[slot],
           y: 15,
           size: 8,
           color: { r: 128, g: 128, b: 128 },
-          align: 'right'
+          align: slot
         });
+        if (!success) break;
+      }
 
+      if (success) {
         console.log("✅ Smart footer added successfully");
       } else {
         console.warn("⚠️ Smart footer failed, using fallback");
-        await this.addBasicFooter(page, pdfDoc, brandKit, pageWidth, pageHeight);
+        await this.addBasicFooter(page, pdfDoc, footer, pageWidth, pageHeight);
       }
 
     } catch (error) {
       console.warn("⚠️ Smart footer error:", error);
-      await this.addBasicFooter(page, pdfDoc, brandKit, pageWidth, pageHeight);
-    }
-  }
-
-  /**
-   * Add watermark using font manager
-   */
-  private async addSmartWatermark(
-    page: any,
-    pdfDoc: PDFDocument,
-    watermarkText: string,
-    pageWidth: number,
-    pageHeight: number
-  ): Promise<void> {
-    try {
-      const success = await this.fontManager.renderText(page, pdfDoc, watermarkText, {
-        x: pageWidth / 2,
-        y: pageHeight / 2,
-        size: 48,
-        color: { r: 230, g: 230, b: 230 },
-        align: 'center'
-      });
-
-      if (success) {
-        console.log("✅ Smart watermark added successfully");
-      } else {
-        console.warn("⚠️ Smart watermark failed");
-      }
-
-    } catch (error) {
-      console.warn("⚠️ Smart watermark error:", error);
+      await this.addBasicFooter(page, pdfDoc, footer, pageWidth, pageHeight);
     }
   }
 
@@ -674,35 +732,34 @@ export class PDFProcessor {
   private async addBasicFooter(
     page: any,
     pdfDoc: PDFDocument,
-    brandKit: BrandKit,
+    footer: HeaderFooterSlots,
     pageWidth: number,
     pageHeight: number
   ): Promise<void> {
     try {
       const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
       const fontSize = 8;
-      
-      // Convert Vietnamese to ASCII for safety
-      const rawText = brandKit.footerText || "Created with DocuBrand";
-      const safeText = this.fontManager.toASCII(rawText);
-      
-      page.drawText(safeText, {
-        x: 20,
-        y: 15,
-        size: fontSize,
-        font,
-        color: rgb(0.5, 0.5, 0.5),
-      });
 
-      // Safe timestamp
-      const timestamp = this.createTimestamp();
-      page.drawText(timestamp, {
-        x: pageWidth - 120,
-        y: 15,
-        size: fontSize,
-        font,
-        color: rgb(0.5, 0.5, 0.5),
-      });
+      for (const slot of ["left", "center", "right"] as const) {
+        if (!footer[slot]) continue;
+
+        // Convert Vietnamese to ASCII for safety
+        const safeText = this.fontManager.toASCII(footer[slot]);
+        const textWidth = font.widthOfTextAtSize(safeText, fontSize);
+        const x = slot === "left"
+          ? 20
+          : slot === "center"
+            ? (pageWidth - textWidth) / 2
+            : pageWidth - 20 - textWidth;
+
+        page.drawText(safeText, {
+          x,
+          y: 15,
+          size: fontSize,
+          font,
+          color: rgb(0.5, 0.5, 0.5),
+        });
+      }
 
       console.log("✅ Basic footer added successfully");
     } catch (error) {
@@ -715,7 +772,8 @@ export class PDFProcessor {
    */
   private async setDocumentMetadata(
     pdfDoc: PDFDocument,
-    analysisResult?: GeminiAnalysisResponse
+    analysisResult?: GeminiAnalysisResponse,
+    brandKit?: BrandKit
   ): Promise<void> {
     try {
       // Convert Vietnamese metadata to ASCII for PDF compatibility
@@ -731,6 +789,9 @@ export class PDFProcessor {
       pdfDoc.setProducer("DocuBrand v1.0");
       pdfDoc.setCreationDate(new Date());
       pdfDoc.setModificationDate(new Date());
+      if (brandKit) {
+        setBrandKitMetadata(pdfDoc, brandKit);
+      }
 
       console.log("✅ Document metadata set successfully");
     } catch (error) {
@@ -751,31 +812,32 @@ export class PDFProcessor {
   }
 
   /**
-   * Add logo to page
+   * Draw the logo in the top-right of the primary colour bar, on a white
+   * plate. The bar already covers the page edge, so the logo adds no overlap.
    */
-  private async addLogo(
-    page: any,
-    logoUrl: string,
+  private addLogo(
+    page: PDFPage,
+    logoImage: PDFImage,
     pageWidth: number,
     pageHeight: number
-  ): Promise<void> {
+  ): void {
     try {
-      // For now, we'll add a placeholder for logo
-      // In production, you'd need to fetch and embed the actual image
-      console.log("🖼️ Logo placement reserved for:", logoUrl);
-
-      // Reserve space for logo (top-right corner)
-      const logoWidth = Math.min(100, pageWidth * 0.15);
-      const logoHeight = logoWidth * 0.6; // Maintain aspect ratio
-
-      // This is where you'd embed the actual logo image
-      // const logoImage = await pdfDoc.embedPng(logoBytes);
-      // page.drawImage(logoImage, {
-      //   x: pageWidth - logoWidth - 20,
-      //   y: pageHeight - logoHeight - 20,
-      //   width: logoWidth,
-      //   height: logoHeight
-      // });
+      const box: LogoBox = {
+        x: pageWidth - 20 - Math.min(100, pageWidth * 0.15),
+        y: pageHeight - 17,
+        width: Math.min(100, pageWidth * 0.15),
+        height: 14,
+      };
+      const placement = fitLogo(logoImage.width, logoImage.height, box, "right");
+
+      page.drawRectangle({
+        x: placement.x - 2,
+        y: placement.y - 1,
+        width: placement.width + 4,
+        height: placement.height + 2,
+        color: rgb(1, 1, 1),
+      });
+      page.drawImage(logoImage, placement);
     } catch (error) {
       console.warn("⚠️ Failed to add logo:", error);
     }
@@ -824,49 +886,6 @@ export class PDFProcessor {
     }
   }
 
-  /**
-   * Basic watermark fallback
-   */
-  private async addBasicWatermark(
-    page: any,
-    pdfDoc: PDFDocument,
-    watermarkText: string,
-    pageWidth: number,
-    pageHeight: number
-  ): Promise<void> {
-    try {
-      const font = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
-      const fontSize = 36;
-      
-      // Convert to ASCII for safety
-      const safeText = this.fontManager.toASCII(watermarkText);
-      
-      // Calculate center position
-      const textWidth = font.widthOfTextAtSize(safeText, fontSize);
-      const x = (pageWidth - textWidth) / 2;
-      const y = pageHeight / 2;
-
-      // Add more visible watermark
-      page.drawText(safeText, {
-        x,
-        y,
-        size: fontSize,
-        font,
-        color: rgb(0.7, 0.7, 0.7), // Darker gray
-        opacity: 0.6, // More opaque
-      });
-      
-      console.log("✅ Basic watermark added");
-    } catch (error) {
-      console.warn("⚠️ Basic watermark failed:", error);
-    }
-  }
-
-
-
-
-
-
   /**
    * Apply brand styling to page (enhanced with more robust error handling)
    */
@@ -1049,38 +1068,6 @@ export class PDFProcessor {
     }
   }
 
-  /**
-   * Add watermark to page
-   */
-  private async addWatermark(
-    page: any,
-    watermarkText: string,
-    pageWidth: number,
-    pageHeight: number
-  ): Promise<void> {
-    try {
-      const font = await page.doc.embedFont(StandardFonts.HelveticaBold);
-      const fontSize = 48;
-
-      // Calculate center position
-      const textWidth = font.widthOfTextAtSize(watermarkText, fontSize);
-      const x = (pageWidth - textWidth) / 2;
-      const y = pageHeight / 2;
-
-      // Add semi-transparent watermark
-      page.drawText(watermarkText, {
-        x,
-        y,
-        size: fontSize,
-        font,
-        color: rgb(0.9, 0.9, 0.9),
-        opacity: 0.3,
-      });
-    } catch (error) {
-      console.warn("⚠️ Failed to add watermark:", error);
-    }
-  }
-
   /**
    * Extract basic PDF metadata
    */
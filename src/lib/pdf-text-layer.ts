@@ -0,0 +1,34 @@
+// CREATED: 2026-10-19 - Browser-side text layer extraction with pdfjs
+
+/**
+ * Extract the text layer of every page of a PDF, in page order.
+ * pdfjs is loaded lazily so this module stays safe to import from server code.
+ */
+export async function extractPDFTextPages(source: File | ArrayBuffer): Promise<string[]> {
+  const pdfjsLib = await import('pdfjs-dist');
+
+  if (!pdfjsLib.GlobalWorkerOptions.workerSrc) {
+    pdfjsLib.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.mjs`;
+  }
+
+  const data = source instanceof ArrayBuffer ? source : await source.arrayBuffer();
+  const pdfDocument = await pdfjsLib.getDocument({ data, verbosity: 0 }).promise;
+
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdfDocument.numPages; pageNumber++) {
+      const page = await pdfDocument.getPage(pageNumber);
+      const content = await page.getTextContent();
+
+      const text = content.items
+        .map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+        .join('');
+      pages.push(text);
+    }
+
+    console.log(`📝 Extracted text layer from ${pages.length} pages`);
+    return pages;
+  } finally {
+    await pdfDocument.destroy();
+  }
+}
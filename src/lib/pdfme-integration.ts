@@ -28,6 +28,7 @@ import {
   validateTemplateBasePdf,
   fixTemplateBasePdf,
 } from "./template-utils";
+import { getTemplateFonts } from "./template-fonts";
 import { 
   createMultipleChoiceBlock, 
   createPresetMultipleChoiceBlock,
@@ -36,6 +37,8 @@ import {
   MultipleChoiceBlockOptions,
   MultipleChoiceBlockResult
 } from "./pdfme/utils/blockComposers";
+import { DocumentTokenValues, applyHeaderFooterTokens } from "./header-footer-tokens";
+import { applyPrintEconomy } from "./print-economy";
 
 // Types
 export interface PdfmeIntegrationOptions {
@@ -304,7 +307,7 @@ export class PdfmeIntegration {
     }
 
     const designerOptions = {
-      font: this.fonts,
+      font: this.resolveFonts(),
       lang: this.defaultOptions.lang || "en",
       theme: this.defaultOptions.theme || {
         token: { colorPrimary: "#1890ff" },
@@ -333,7 +336,7 @@ export class PdfmeIntegration {
     const safeTemplate = this.processTemplate(template);
 
     const formOptions = {
-      font: this.fonts,
+      font: this.resolveFonts(),
       lang: this.defaultOptions.lang || "en",
       ...options,
     };
@@ -360,7 +363,7 @@ export class PdfmeIntegration {
     const safeTemplate = this.processTemplate(template);
 
     const viewerOptions = {
-      font: this.fonts,
+      font: this.resolveFonts(),
       lang: this.defaultOptions.lang || "en",
       ...options,
     };
@@ -376,19 +379,30 @@ export class PdfmeIntegration {
 
   /**
    * Generate PDF - ENHANCED with template validation
+   *
+   * `options.documentInfo` fills {title}, {course} and {author} in header and
+   * footer schemas; {title} falls back to `options.title`.
+   * `options.printEconomy` renders greys and outlines for black-and-white printing.
    */
   async generatePDF(
     template: Template,
     inputs: Record<string, any>[],
     options: any = {}
   ): Promise<Uint8Array> {
-    // Ensure template has valid basePdf
-    const safeTemplate = this.processTemplate(template);
+    const { documentInfo, printEconomy, ...pdfmeOptions } = options;
+    const tokenValues: DocumentTokenValues = {
+      ...documentInfo,
+      title: documentInfo?.title || pdfmeOptions.title,
+    };
+
+    // Ensure template has valid basePdf, then resolve header/footer tokens
+    const tokenTemplate = applyHeaderFooterTokens(this.processTemplate(template), tokenValues);
+    const safeTemplate = printEconomy ? applyPrintEconomy(tokenTemplate) : tokenTemplate;
 
     const generationOptions = {
-      font: this.fonts,
+      font: this.resolveFonts(),
       lang: this.defaultOptions.lang || "en",
-      ...options,
+      ...pdfmeOptions,
     };
 
     const pdf = await generate({
@@ -445,6 +459,31 @@ export class PdfmeIntegration {
     }
   }
 
+  /**
+   * Download template JSON utility
+   */
+  downloadTemplate(template: Template, filename: string = "template.json"): void {
+    try {
+      const json = JSON.stringify(this.processTemplate(template), null, 2);
+      const blob = new Blob([json], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      throw new Error(
+        `Template download failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
   /**
    * Add custom plugin
    */
@@ -477,7 +516,19 @@ export class PdfmeIntegration {
    * Get available fonts
    */
   getFonts(): Font {
-    return { ...this.fonts };
+    return this.resolveFonts();
+  }
+
+  /**
+   * Own fonts plus those registered from imported templates. pdfme accepts a
+   * single fallback font, so template fonts never take that role.
+   */
+  private resolveFonts(): Font {
+    const fonts: Font = { ...this.fonts };
+    for (const [name, font] of Object.entries(getTemplateFonts())) {
+      fonts[name] = { ...font, fallback: !!this.fonts[name]?.fallback };
+    }
+    return fonts;
   }
 
   /**
@@ -641,3 +692,6 @@ export class PdfmeIntegration {
     }
   }
 }
+
+// Export singleton instance
+export const pdfmeIntegration = new PdfmeIntegration();
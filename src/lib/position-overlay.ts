@@ -0,0 +1,155 @@
+// CREATED: 2026-10-19 - Map extracted question/section positions to boxes on the original PDF
+
+import { DocumentSection, ExtractedQuestion, PagePosition } from '@/types/gemini';
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low' | 'unknown';
+
+/**
+ * Clickable rectangle drawn over a PDF page. Coordinates are fractions (0-1)
+ * of the page with a top-left origin, so they survive zoom and CSS scaling.
+ */
+export interface PDFHighlight {
+  id: string; // Matches the editor item id (question-n / section-n)
+  kind: 'question' | 'section';
+  label: string;
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  confidence?: number;
+}
+
+export const CONFIDENCE_THRESHOLDS = {
+  high: 0.8,
+  medium: 0.5
+};
+
+// Models often return width/height of 1 (or the sanitizer floor) when they only know the anchor point
+const DEFAULT_BOX_HEIGHT = 0.04;
+
+/**
+ * Bucket a 0-1 confidence score for colour coding
+ */
+export function getConfidenceLevel(confidence?: number): ConfidenceLevel {
+  if (typeof confidence !== 'number' || Number.isNaN(confidence)) {
+    return 'unknown';
+  }
+  if (confidence >= CONFIDENCE_THRESHOLDS.high) {
+    return 'high';
+  }
+  if (confidence >= CONFIDENCE_THRESHOLDS.medium) {
+    return 'medium';
+  }
+  return 'low';
+}
+
+/**
+ * Convert a PagePosition to page fractions. Positions arrive either normalised
+ * (0-1) or as percentages (0-100, the sanitizer's range), so the scale is inferred.
+ */
+export function normalizePagePosition(position?: PagePosition | null): Omit<PDFHighlight, 'id' | 'kind' | 'label' | 'confidence'> | null {
+  if (!position || typeof position.x !== 'number' || typeof position.y !== 'number') {
+    return null;
+  }
+
+  const isPercent = position.x > 1 || position.y > 1;
+  const scale = isPercent ? 100 : 1;
+
+  const x = clamp(position.x / scale);
+  const y = clamp(position.y / scale);
+
+  const rawWidth = (position.width || 0) / scale;
+  const rawHeight = (position.height || 0) / scale;
+
+  // A full-page extent from a fractional position means "unknown size"
+  const width = rawWidth > 0 && (isPercent || position.width < 1) ? rawWidth : 1 - x;
+  const height = rawHeight > 0 && (isPercent || position.height < 1) ? rawHeight : DEFAULT_BOX_HEIGHT;
+
+  return {
+    page: Math.max(1, Math.round(position.page || 1)),
+    x,
+    y,
+    width: Math.max(0.01, Math.min(width, 1 - x)),
+    height: Math.max(0.01, Math.min(height, 1 - y))
+  };
+}
+
+/**
+ * Build overlay boxes for every question and section that has a usable position.
+ * Ids follow the editor ids used by VerificationUI (question-n, section-n).
+ */
+export function buildPDFHighlights(
+  questions: ExtractedQuestion[],
+  sections: DocumentSection[]
+): PDFHighlight[] {
+  const highlights: PDFHighlight[] = [];
+
+  sections.forEach((section, index) => {
+    const box = getSectionBox(section);
+    if (box) {
+      highlights.push({
+        ...box,
+        id: `section-${index}`,
+        kind: 'section',
+        label: section.title || `Section ${index + 1}`,
+        confidence: getSectionConfidence(section)
+      });
+    }
+  });
+
+  // Questions last so they sit above the sections that contain them
+  questions.forEach((question, index) => {
+    const box = normalizePagePosition(question.position);
+    if (box) {
+      highlights.push({
+        ...box,
+        id: `question-${index}`,
+        kind: 'question',
+        label: `Question ${question.number || index + 1}`,
+        confidence: question.confidence
+      });
+    }
+  });
+
+  return highlights;
+}
+
+/**
+ * Section confidence, falling back to the first raw section for grouped sections
+ */
+export function getSectionConfidence(section: DocumentSection): number | undefined {
+  return section.confidence ?? section.originalSections?.[0]?.confidence;
+}
+
+/**
+ * Grouped sections (see transformAnalysisData) cover the union of their
+ * original parts on the first part's page
+ */
+function getSectionBox(section: DocumentSection) {
+  const own = normalizePagePosition(section.position);
+  if (own) {
+    return own;
+  }
+
+  const parts = (section.originalSections || [])
+    .map((part) => normalizePagePosition(part.position))
+    .filter((box): box is NonNullable<typeof box> => box !== null);
+
+  if (parts.length === 0) {
+    return null;
+  }
+
+  const page = parts[0].page;
+  const samePage = parts.filter((box) => box.page === page);
+  const left = Math.min(...samePage.map((box) => box.x));
+  const top = Math.min(...samePage.map((box) => box.y));
+  const right = Math.max(...samePage.map((box) => box.x + box.width));
+  const bottom = Math.max(...samePage.map((box) => box.y + box.height));
+
+  return { page, x: left, y: top, width: right - left, height: bottom - top };
+}
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
@@ -0,0 +1,95 @@
+// CREATED: 2026-10-19 - Greyscale / print-economy rendering for black-and-white photocopiers
+
+import { Schema, Template } from '@pdfme/common';
+import { BrandKit } from '@/types';
+import { DEFAULT_WATERMARK_SETTINGS } from './watermark-engine';
+import { relativeLuminance } from './brand-contrast';
+
+/**
+ * Grey levels (0 = black) handed out to the brand colours from darkest to
+ * lightest. All three keep AA contrast as text on white paper.
+ */
+export const PRINT_ECONOMY_GREYS = [0.1, 0.3, 0.45] as const;
+
+// Watermarks print at this fraction of their opacity
+const WATERMARK_OPACITY_FACTOR = 0.5;
+const MIN_OUTLINE_WIDTH = 0.75;
+
+const toGreyHex = (level: number): string => {
+  const channel = Math.round(Math.max(0, Math.min(1, level)) * 255).toString(16).padStart(2, '0');
+  return `#${channel}${channel}${channel}`.toUpperCase();
+};
+
+/**
+ * Grey of the same lightness, snapped to the economy levels so similar
+ * colours stay similar and text stays dark enough to read
+ */
+export function toEconomyGrey(hex: string): string {
+  const lightness = Math.sqrt(relativeLuminance(hex)); // Closer to perceived lightness
+  const nearest = PRINT_ECONOMY_GREYS.reduce((best, level) =>
+    Math.abs(level - lightness) < Math.abs(best - lightness) ? level : best
+  );
+  return toGreyHex(nearest);
+}
+
+/**
+ * The kit as it prints in economy mode: primary, secondary and accent become
+ * distinct greys (ranked by lightness) and the watermark is grey and lighter
+ */
+export function toPrintEconomyKit<T extends BrandKit>(brandKit: T): T {
+  const fields = ['color', 'secondaryColor', 'accentColor'] as const;
+  const ranked = [...fields].sort(
+    (a, b) => relativeLuminance(brandKit[a]) - relativeLuminance(brandKit[b])
+  );
+  const greys = Object.fromEntries(
+    ranked.map((field, index) => [field, toGreyHex(PRINT_ECONOMY_GREYS[index])])
+  ) as Record<(typeof fields)[number], string>;
+  const watermarkSettings = { ...DEFAULT_WATERMARK_SETTINGS, ...brandKit.watermarkSettings };
+
+  return {
+    ...brandKit,
+    ...greys,
+    watermarkSettings: {
+      ...watermarkSettings,
+      color: 'gray',
+      opacity: watermarkSettings.opacity * WATERMARK_OPACITY_FACTOR,
+    },
+  };
+}
+
+/**
+ * Economy version of a pdfme template: text and lines in grey, filled
+ * shapes become outlines and text backgrounds are dropped. Images are kept.
+ */
+export function applyPrintEconomy(template: Template): Template {
+  const grey = (value: unknown) =>
+    typeof value === 'string' && value ? toEconomyGrey(value) : value;
+
+  return {
+    ...template,
+    schemas: template.schemas.map((page) =>
+      page.map((schema): Schema => {
+        const economy: Schema = { ...schema };
+
+        if ('fontColor' in schema) economy.fontColor = grey(schema.fontColor);
+        if ('backgroundColor' in schema) economy.backgroundColor = '';
+        if ('borderColor' in schema) economy.borderColor = grey(schema.borderColor);
+
+        if (schema.type === 'rectangle' || schema.type === 'ellipse') {
+          // Fill becomes the outline
+          const fill = typeof schema.color === 'string' ? schema.color : '';
+          const borderWidth = typeof schema.borderWidth === 'number' ? schema.borderWidth : 0;
+          if (fill) {
+            economy.borderColor = borderWidth > 0 ? grey(schema.borderColor) || grey(fill) : grey(fill);
+            economy.borderWidth = Math.max(borderWidth, MIN_OUTLINE_WIDTH);
+          }
+          economy.color = '';
+        } else if (schema.type === 'line') {
+          economy.color = grey(schema.color);
+        }
+
+        return economy;
+      })
+    ),
+  };
+}
@@ -3,6 +3,11 @@
 import { ContentType } from '@/types/editor';
 import { QuestionType } from '@/types/gemini';
 
+/**
+ * Bump whenever prompt wording changes, so cached analyses from older prompts are not reused
+ */
+export const PROMPT_VERSION = '1.0.0';
+
 /**
  * Prompt input parameters
  */
@@ -0,0 +1,321 @@
+// CREATED: 2026-10-19 - Multi-version quiz generation (shuffled questions and choices)
+
+import { Schema, Template } from '@pdfme/common';
+import { GeminiAnalysisResponse, ExtractedQuestion } from '@/types/gemini';
+import { GeminiToPdfmeMapper, MappingConfig, MappingResult } from './gemini-to-pdfme';
+import { getCorrectOptionIndex, getOptionLetter } from './answer-key';
+
+export interface QuizVersionOptions {
+  count: number; // Number of variants, 1-26 (A, B, C, ...)
+  seed: string | number;
+  shuffleQuestions?: boolean;
+  shuffleOptions?: boolean;
+}
+
+export interface QuizVersion {
+  label: string;
+  analysis: GeminiAnalysisResponse;
+  // questionOrder[position] = index of the question in the source analysis
+  questionOrder: number[];
+  mapping: MappingResult;
+}
+
+export interface QuizVersionsResult {
+  versions: QuizVersion[];
+  answerKey: {
+    template: Template;
+    head: string[];
+    rows: string[][];
+  };
+}
+
+const MAX_VERSIONS = 26;
+
+// Answer-key table layout (mm): rows are fixed height, so pages hold a fixed count
+const ANSWER_KEY_PAGE_HEIGHT = 297;
+const ANSWER_KEY_ROW_HEIGHT = 8;
+const ANSWER_KEY_TITLE_SPACE = 18;
+
+// Option shuffling only makes sense where the order carries no meaning
+const SHUFFLEABLE_TYPES = ['multiple_choice'];
+
+/**
+ * Create a deterministic pseudo-random generator (mulberry32) from a seed
+ */
+export function createSeededRandom(seed: string | number): () => number {
+  // FNV-1a hash turns string seeds into a 32-bit state
+  let state = 2166136261;
+  const seedText = String(seed);
+  for (let i = 0; i < seedText.length; i++) {
+    state ^= seedText.charCodeAt(i);
+    state = Math.imul(state, 16777619);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Fisher-Yates shuffle returning the permutation of source indices
+ */
+export function seededPermutation(length: number, random: () => number): number[] {
+  const order = Array.from({ length }, (_, index) => index);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+}
+
+/**
+ * Shuffle the options of a question and remap its correct answer
+ */
+export function shuffleQuestionOptions(
+  question: ExtractedQuestion,
+  random: () => number
+): ExtractedQuestion {
+  if (!SHUFFLEABLE_TYPES.includes(question.type) || !question.options || question.options.length < 2) {
+    return question;
+  }
+
+  const correctIndex = getCorrectOptionIndex(question);
+  const order = seededPermutation(question.options.length, random);
+  const options = order.map((sourceIndex) => question.options![sourceIndex]);
+
+  let correctAnswer = question.correctAnswer;
+  if (correctIndex >= 0 && correctAnswer) {
+    const newIndex = order.indexOf(correctIndex);
+    // Keep the answer format: letters stay letters, option text stays text
+    correctAnswer = /^[A-Za-z][.)]?$/.test(correctAnswer.trim())
+      ? getOptionLetter(newIndex)
+      : options[newIndex];
+  }
+
+  return { ...question, options, correctAnswer };
+}
+
+/**
+ * Build one shuffled variant of the analysis
+ */
+export function createQuizVersion(
+  analysis: GeminiAnalysisResponse,
+  label: string,
+  options: Pick<QuizVersionOptions, 'seed' | 'shuffleQuestions' | 'shuffleOptions'>
+): { analysis: GeminiAnalysisResponse; questionOrder: number[] } {
+  const { seed, shuffleQuestions = true, shuffleOptions = true } = options;
+  const random = createSeededRandom(`${seed}:${label}`);
+  const questions = analysis.extractedQuestions;
+
+  const questionOrder = shuffleQuestions
+    ? seededPermutation(questions.length, random)
+    : questions.map((_, index) => index);
+
+  const extractedQuestions = questionOrder.map((sourceIndex, position) => {
+    const question = questions[sourceIndex];
+    const shuffled = shuffleOptions ? shuffleQuestionOptions(question, random) : question;
+    return { ...shuffled, number: String(position + 1) };
+  });
+
+  return {
+    analysis: { ...analysis, extractedQuestions },
+    questionOrder,
+  };
+}
+
+/**
+ * Short answer-key cell for a question: option letter, else the answer text
+ */
+function getAnswerCell(question: ExtractedQuestion): string {
+  const optionIndex = getCorrectOptionIndex(question);
+  if (optionIndex >= 0) {
+    return getOptionLetter(optionIndex);
+  }
+  return question.correctAnswer?.trim() || '-';
+}
+
+/**
+ * Build the combined answer-key table across all versions
+ */
+export function buildCombinedAnswerKey(
+  versions: Array<Pick<QuizVersion, 'label' | 'analysis' | 'questionOrder'>>,
+  config: Partial<MappingConfig> = {}
+): QuizVersionsResult['answerKey'] {
+  const margin = config.margin ?? 20;
+  const pageWidth = 210;
+  const pageHeight = ANSWER_KEY_PAGE_HEIGHT;
+  const questionCount = versions[0]?.analysis.extractedQuestions.length || 0;
+
+  const head = ['#', ...versions.map((version) => `Version ${version.label}`)];
+  const rows = Array.from({ length: questionCount }, (_, position) => [
+    String(position + 1),
+    ...versions.map((version) => {
+      const question = version.analysis.extractedQuestions[position];
+      // Original number lets teachers trace the question back to the source
+      return `${getAnswerCell(question)} (Q${version.questionOrder[position] + 1})`;
+    }),
+  ]);
+
+  const createTitleSchema = (pageIndex: number): Schema => ({
+    name: pageIndex === 0 ? 'answerKeyTitle' : `answerKeyTitle_${pageIndex + 1}`,
+    type: 'text',
+    content: pageIndex === 0 ? 'Answer Key - All Versions' : 'Answer Key - All Versions (continued)',
+    position: { x: margin, y: margin },
+    width: pageWidth - margin * 2,
+    height: 10,
+    fontSize: 16,
+    fontColor: config.colors?.title || '#1a1a1a',
+    fontName: 'Roboto-Regular',
+    alignment: 'center',
+    readOnly: true,
+  });
+
+  const firstColumnPercentage = 10;
+  const versionColumnPercentage = (100 - firstColumnPercentage) / Math.max(versions.length, 1);
+
+  // One table per page; each repeats the column head as its continuation header
+  const tableHeight = pageHeight - margin * 2 - ANSWER_KEY_TITLE_SPACE;
+  const rowsPerPage = Math.max(1, Math.floor(tableHeight / ANSWER_KEY_ROW_HEIGHT) - 1);
+  const pageRows: string[][][] = [];
+  for (let start = 0; start < rows.length; start += rowsPerPage) {
+    pageRows.push(rows.slice(start, start + rowsPerPage));
+  }
+  if (pageRows.length === 0) pageRows.push([]);
+
+  const createTableSchema = (tableRows: string[][], pageIndex: number): Schema => ({
+    name: pageIndex === 0 ? 'answerKeyTable' : `answerKeyTable_${pageIndex + 1}`,
+    type: 'table',
+    content: JSON.stringify(tableRows),
+    position: { x: margin, y: margin + ANSWER_KEY_TITLE_SPACE },
+    width: pageWidth - margin * 2,
+    height: Math.max(tableRows.length + 1, 2) * ANSWER_KEY_ROW_HEIGHT,
+    showHead: true,
+    head,
+    headWidthPercentages: [
+      firstColumnPercentage,
+      ...versions.map(() => versionColumnPercentage),
+    ],
+    tableStyles: { borderColor: '#000000', borderWidth: 0.3 },
+    headStyles: {
+      fontName: 'Roboto-Regular',
+      fontSize: 11,
+      fontColor: '#ffffff',
+      backgroundColor: config.colors?.answerKey || '#10B981',
+      alignment: 'center',
+      verticalAlignment: 'middle',
+      lineHeight: 1,
+      characterSpacing: 0,
+      borderColor: '',
+      borderWidth: { top: 0, right: 0, bottom: 0, left: 0 },
+      padding: { top: 2, right: 2, bottom: 2, left: 2 },
+    },
+    bodyStyles: {
+      fontName: 'Roboto-Regular',
+      fontSize: 10,
+      fontColor: '#000000',
+      backgroundColor: '',
+      alternateBackgroundColor: '#f5f5f5',
+      alignment: 'center',
+      verticalAlignment: 'middle',
+      lineHeight: 1,
+      characterSpacing: 0,
+      borderColor: '#888888',
+      borderWidth: { top: 0.1, right: 0.1, bottom: 0.1, left: 0.1 },
+      padding: { top: 2, right: 2, bottom: 2, left: 2 },
+    },
+    columnStyles: {},
+  });
+
+  return {
+    template: {
+      basePdf: {
+        width: pageWidth,
+        height: pageHeight,
+        padding: [margin, margin, margin, margin],
+      },
+      schemas: pageRows.map((tableRows, pageIndex) => [
+        createTitleSchema(pageIndex),
+        createTableSchema(tableRows, pageIndex),
+      ]),
+    },
+    head,
+    rows,
+  };
+}
+
+/**
+ * Generate N shuffled quiz versions (A/B/C/...) plus a combined answer key
+ */
+export function generateQuizVersions(
+  analysis: GeminiAnalysisResponse,
+  options: QuizVersionOptions,
+  config: Partial<MappingConfig> = {}
+): QuizVersionsResult {
+  if (!Number.isInteger(options.count) || options.count < 1 || options.count > MAX_VERSIONS) {
+    throw new Error(`Version count must be between 1 and ${MAX_VERSIONS}`);
+  }
+
+  console.log(`🔀 Generating ${options.count} quiz versions (seed: ${options.seed})`);
+
+  const versions: QuizVersion[] = Array.from({ length: options.count }, (_, index) => {
+    const label = getOptionLetter(index);
+    const variant = createQuizVersion(analysis, label, options);
+    // Fresh mapper per version: the mapper tracks layout position internally
+    const mapper = new GeminiToPdfmeMapper(config);
+
+    return {
+      label,
+      analysis: variant.analysis,
+      questionOrder: variant.questionOrder,
+      mapping: mapper.convertAnalysisToTemplate(variant.analysis, { versionLabel: label }),
+    };
+  });
+
+  return {
+    versions,
+    answerKey: buildCombinedAnswerKey(versions, config),
+  };
+}
+
+export interface QuizVersionPDFs {
+  versions: { label: string; pdf: Uint8Array }[];
+  answerKey: Uint8Array;
+}
+
+/**
+ * Render every version and the combined answer key with pdfme
+ */
+export async function renderQuizVersionPDFs(
+  result: QuizVersionsResult,
+  options: { title?: string; printEconomy?: boolean } = {}
+): Promise<QuizVersionPDFs> {
+  // The generator is heavy; load it only when versions are actually rendered
+  const { pdfmeIntegration } = await import('./pdfme-integration');
+
+  const versions: QuizVersionPDFs['versions'] = [];
+  for (const version of result.versions) {
+    const template = version.mapping.template;
+    const pdf = await pdfmeIntegration.generatePDF(
+      template,
+      pdfmeIntegration.generateSampleInputs(template),
+      {
+        printEconomy: options.printEconomy,
+        documentInfo: { title: options.title ? `${options.title} - Version ${version.label}` : undefined },
+      }
+    );
+    versions.push({ label: version.label, pdf: new Uint8Array(pdf) });
+  }
+
+  const answerKeyTemplate = result.answerKey.template;
+  const answerKey = await pdfmeIntegration.generatePDF(
+    answerKeyTemplate,
+    pdfmeIntegration.generateSampleInputs(answerKeyTemplate),
+    { printEconomy: options.printEconomy }
+  );
+
+  console.log(`✅ Rendered ${versions.length} quiz versions and the combined answer key`);
+  return { versions, answerKey: new Uint8Array(answerKey) };
+}
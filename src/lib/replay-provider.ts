@@ -0,0 +1,186 @@
+// CREATED: 2026-10-19 - Fixture replay provider for running the pipeline offline
+
+import fs from 'fs';
+import path from 'path';
+import { GeminiAnalysisRequest, GeminiAnalysisResponse, ProcessingResult } from '@/types/gemini';
+import { sanitizeGeminiResponse } from './gemini-validators';
+import { AnalysisProgressCallbacks, LLMModelInfo, LLMProvider, LLMProviderType } from './llm-provider';
+
+/**
+ * Replay provider configuration
+ */
+export interface ReplayProviderConfig {
+  fixturePath: string; // Saved analysis JSON, either raw or wrapped in { data }
+}
+
+export const DEFAULT_REPLAY_CONFIG: ReplayProviderConfig = {
+  fixturePath: 'sampleResponse.json'
+};
+
+const REPLAY_MODEL = 'fixture-replay';
+
+/**
+ * Analysis provider that answers every request from a local fixture file.
+ * Nothing leaves the machine, which makes it usable for offline and CI runs.
+ */
+export class FixtureReplayProvider implements LLMProvider {
+  readonly name: LLMProviderType = 'replay';
+  private config: ReplayProviderConfig;
+
+  constructor(config: Partial<ReplayProviderConfig> = {}) {
+    this.config = { ...DEFAULT_REPLAY_CONFIG, ...config };
+  }
+
+  /**
+   * Replay the fixture as the analysis of any PDF
+   */
+  async analyzePDF(
+    request: GeminiAnalysisRequest,
+    callbacks: AnalysisProgressCallbacks = {}
+  ): Promise<ProcessingResult> {
+    const startTime = Date.now();
+
+    try {
+      console.log(`📼 Replaying analysis fixture: ${this.getFixturePath()}`);
+      callbacks.onStatus?.({ status: 'analyzing', stage: 'validating', progress: 5, currentStep: 'Validating request...' });
+
+      const fixture = this.loadFixture();
+
+      // Same sanitization as live responses, so downstream code sees identical shapes
+      callbacks.onStatus?.({ status: 'analyzing', stage: 'sanitizing', progress: 90, currentStep: 'Cleaning up results...' });
+      const response = sanitizeGeminiResponse(fixture, request);
+      callbacks.onQuestions?.(response.extractedQuestions);
+
+      const processingTime = Date.now() - startTime;
+      callbacks.onStatus?.({ status: 'complete', stage: 'complete', progress: 100, currentStep: 'Analysis complete' });
+
+      return {
+        ...response,
+        success: true,
+        processingTime,
+        warnings: [],
+        errors: [],
+        processingInfo: {
+          timestamp: Date.now(),
+          version: '1.0.0',
+          model: REPLAY_MODEL,
+          processingTime,
+          confidence: response.documentStructure.confidence,
+          tokenCount: 0,
+          apiCalls: 0,
+          retries: 0
+        }
+      };
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      console.error('❌ Fixture replay failed:', error);
+
+      return {
+        success: false,
+        processingTime,
+        warnings: [],
+        errors: [{
+          code: 'REPLAY_FAILED',
+          message: error instanceof Error ? error.message : 'Unknown replay error',
+          recoverable: false,
+          suggestions: ['Check LLM_FIXTURE_PATH points to a saved analysis JSON file']
+        }],
+        extractedQuestions: [],
+        documentStructure: {
+          type: request.documentType || 'general',
+          subject: 'Unknown',
+          confidence: 0,
+          sections: []
+        },
+        extractedContent: {
+          title: 'Analysis Failed',
+          subtitle: 'Could not replay fixture'
+        }
+      };
+    }
+  }
+
+  /**
+   * Echo the section back; there is no model to classify it
+   */
+  async analyzeSection(sectionText: string, documentType?: string): Promise<any> {
+    return {
+      contentType: documentType === 'quiz' ? 'question' : 'text',
+      extractedContent: sectionText.trim(),
+      confidence: 1,
+      suggestions: []
+    };
+  }
+
+  /**
+   * Suggestions recorded in the fixture insights, or generic defaults
+   */
+  async generateSuggestions(): Promise<string[]> {
+    try {
+      const suggestions = this.loadFixture().insights?.suggestions;
+      if (suggestions && suggestions.length > 0) {
+        return suggestions;
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not read fixture suggestions:', error);
+    }
+    return ['Review content for clarity', 'Check formatting and structure'];
+  }
+
+  /**
+   * Succeeds when the fixture file exists and parses
+   */
+  async testConnection(): Promise<{ success: boolean; error?: string; model?: string }> {
+    try {
+      this.loadFixture();
+      return { success: true, model: REPLAY_MODEL };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Fixture not readable',
+        model: REPLAY_MODEL
+      };
+    }
+  }
+
+  /**
+   * Get model information
+   */
+  getModelInfo(): LLMModelInfo {
+    return {
+      provider: this.name,
+      model: REPLAY_MODEL,
+      fixturePath: this.getFixturePath(),
+      capabilities: [
+        'Offline fixture replay',
+        'Deterministic responses'
+      ]
+    };
+  }
+
+  /**
+   * Resolve the fixture path relative to the project root
+   */
+  private getFixturePath(): string {
+    return path.resolve(process.cwd(), this.config.fixturePath);
+  }
+
+  /**
+   * Load the fixture, unwrapping API-style { success, data } files
+   */
+  private loadFixture(): GeminiAnalysisResponse {
+    const fixturePath = this.getFixturePath();
+    if (!fs.existsSync(fixturePath)) {
+      throw new Error(`Fixture file not found: ${fixturePath}`);
+    }
+
+    const parsed = JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+    const fixture = parsed?.data ?? parsed;
+
+    if (!fixture?.documentStructure || !Array.isArray(fixture?.extractedQuestions)) {
+      throw new Error('Fixture is missing documentStructure or extractedQuestions');
+    }
+
+    return fixture;
+  }
+}
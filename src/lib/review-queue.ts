@@ -0,0 +1,102 @@
+// CREATED: 2026-10-19 - Low-confidence triage queue for human review
+// UPDATED: 2026-10-19 - Verification keyed by question/section id instead of list position
+
+import { DocumentSection, ExtractedQuestion } from '@/types/gemini';
+import { CONFIDENCE_THRESHOLDS, getSectionConfidence } from './position-overlay';
+
+/**
+ * Extracted item that needs a human look before generation
+ */
+export interface ReviewItem {
+  id: string; // Editor item id (question-n / section-n)
+  verifyKey: string; // Follows the item through edits, deletions and reordering
+  kind: 'question' | 'section';
+  index: number;
+  label: string;
+  preview: string;
+  confidence?: number; // Missing confidence is always flagged
+  page?: number;
+}
+
+export interface ReviewProgress {
+  flagged: number;
+  verified: number;
+  remaining: number;
+  complete: boolean;
+}
+
+export const DEFAULT_REVIEW_THRESHOLD = CONFIDENCE_THRESHOLDS.high;
+
+export const REVIEW_THRESHOLD_OPTIONS = [0.5, 0.6, 0.7, 0.8, 0.9, 0.95];
+
+/**
+ * Questions and sections below the confidence threshold, least confident first.
+ * Ties keep document order, questions before sections.
+ */
+export function buildReviewQueue(
+  questions: ExtractedQuestion[],
+  sections: DocumentSection[],
+  threshold: number = DEFAULT_REVIEW_THRESHOLD
+): ReviewItem[] {
+  const questionKeys = buildVerifyKeys('question', questions);
+  const sectionKeys = buildVerifyKeys('section', sections);
+
+  const items: ReviewItem[] = [
+    ...questions.map((question, index): ReviewItem => ({
+      id: `question-${index}`,
+      verifyKey: questionKeys[index],
+      kind: 'question',
+      index,
+      label: `Question ${question.number || index + 1}`,
+      preview: question.content || '',
+      confidence: question.confidence,
+      page: question.position?.page
+    })),
+    ...sections.map((section, index): ReviewItem => ({
+      id: `section-${index}`,
+      verifyKey: sectionKeys[index],
+      kind: 'section',
+      index,
+      label: section.title || `Section ${index + 1}`,
+      preview: section.content || '',
+      confidence: getSectionConfidence(section),
+      page: section.position?.page ?? section.originalSections?.[0]?.position?.page
+    }))
+  ];
+
+  return items
+    .filter((item) => isFlagged(item.confidence, threshold))
+    .sort((a, b) => (a.confidence ?? -1) - (b.confidence ?? -1));
+}
+
+/**
+ * How many flagged items have been acknowledged
+ */
+export function getReviewProgress(queue: ReviewItem[], verifiedItems: Set<string>): ReviewProgress {
+  const verified = queue.filter((item) => verifiedItems.has(item.verifyKey)).length;
+  return {
+    flagged: queue.length,
+    verified,
+    remaining: queue.length - verified,
+    complete: verified === queue.length
+  };
+}
+
+/**
+ * Keys from the extracted ids. Items without an id, or sharing one, fall back
+ * to their position, which is the best that can be done for them.
+ */
+function buildVerifyKeys(kind: ReviewItem['kind'], items: Array<{ id?: string }>): string[] {
+  const counts = new Map<string, number>();
+  items.forEach((item) => {
+    if (item.id) counts.set(item.id, (counts.get(item.id) || 0) + 1);
+  });
+
+  return items.map((item, index) =>
+    item.id && counts.get(item.id) === 1 ? `${kind}:${item.id}` : `${kind}#${index}`
+  );
+}
+
+function isFlagged(confidence: number | undefined, threshold: number): boolean {
+  return typeof confidence !== 'number' || Number.isNaN(confidence) || confidence < threshold;
+}
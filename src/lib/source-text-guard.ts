@@ -0,0 +1,302 @@
+// CREATED: 2026-10-19 - Hallucination guard: compare extracted questions with the PDF text layer
+
+import { ExtractedQuestion } from '@/types/gemini';
+
+/**
+ * One word of a word-level diff between extracted text and its source span.
+ * added: only in the extraction (possible hallucination); removed: only in the source.
+ */
+export interface SourceDiffToken {
+  text: string;
+  op: 'equal' | 'added' | 'removed';
+}
+
+/**
+ * Best source match for one extracted string (question text or an option)
+ */
+export interface SourceMatch {
+  field: 'content' | 'option';
+  optionIndex?: number;
+  extracted: string;
+  sourceSpan: string;
+  similarity: number; // 0-1, word-sequence similarity with the source span
+  missingWords: string[]; // Extracted words that appear nowhere in the source
+  diff: SourceDiffToken[];
+}
+
+export interface QuestionSourceCheck {
+  questionId: string;
+  questionIndex: number;
+  label: string;
+  similarity: number; // Lowest similarity across content and options
+  flagged: boolean;
+  matches: SourceMatch[];
+}
+
+export interface SourceTextReport {
+  checkedAt: number;
+  threshold: number;
+  sourceWordCount: number;
+  questions: QuestionSourceCheck[];
+  flaggedCount: number;
+}
+
+export interface SourceCheckOptions {
+  threshold?: number;
+  maxCandidates?: number; // Alignment offsets scored per extraction
+}
+
+export const DEFAULT_SOURCE_SIMILARITY_THRESHOLD = 0.85;
+
+export const SOURCE_WARNING_PREFIX = 'Source check:';
+
+const DEFAULT_MAX_CANDIDATES = 5;
+
+/**
+ * Lower-case words without punctuation; keeps numbers and non-Latin letters
+ */
+export function tokenizeWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKC')
+    .replace(/[‘’]/g, "'")
+    .split(/[^\p{L}\p{N}']+/u)
+    .map((word) => word.replace(/^'+|'+$/g, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Checks questions against one PDF text layer. The source is indexed once and
+ * each question's result is cached by its text, so re-checking after an edit
+ * only re-scores the questions that changed.
+ */
+export class SourceTextGuard {
+  private sourceWords: string[];
+  private index: Map<string, number[]>;
+  private threshold: number;
+  private cache = new Map<string, Pick<QuestionSourceCheck, 'similarity' | 'flagged' | 'matches'>>();
+
+  constructor(sourceText: string, private options: SourceCheckOptions = {}) {
+    this.threshold = options.threshold ?? DEFAULT_SOURCE_SIMILARITY_THRESHOLD;
+    this.sourceWords = tokenizeWords(sourceText);
+    this.index = buildWordIndex(this.sourceWords);
+  }
+
+  /**
+   * Check every question and option against the source text
+   */
+  check(questions: ExtractedQuestion[]): SourceTextReport {
+    const checks = questions.map((question, questionIndex): QuestionSourceCheck => ({
+      questionId: question.id,
+      questionIndex,
+      label: `Question ${question.number || questionIndex + 1}`,
+      ...this.checkQuestion(question)
+    }));
+
+    return {
+      checkedAt: Date.now(),
+      threshold: this.threshold,
+      sourceWordCount: this.sourceWords.length,
+      questions: checks,
+      flaggedCount: checks.filter((check) => check.flagged).length
+    };
+  }
+
+  private checkQuestion(question: ExtractedQuestion): Pick<QuestionSourceCheck, 'similarity' | 'flagged' | 'matches'> {
+    const key = JSON.stringify([question.content || '', question.options || []]);
+    const cached = this.cache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const matches: SourceMatch[] = [];
+
+    if (question.content?.trim()) {
+      matches.push({ field: 'content', ...matchAgainstSource(question.content, this.sourceWords, this.index, this.options) });
+    }
+
+    (question.options || []).forEach((option, optionIndex) => {
+      if (option?.trim()) {
+        matches.push({ field: 'option', optionIndex, ...matchAgainstSource(option, this.sourceWords, this.index, this.options) });
+      }
+    });
+
+    const result = {
+      similarity: matches.length > 0 ? Math.min(...matches.map((match) => match.similarity)) : 1,
+      flagged: matches.some((match) => match.missingWords.length > 0 || match.similarity < this.threshold),
+      matches
+    };
+    this.cache.set(key, result);
+    return result;
+  }
+}
+
+/**
+ * Check every question and option against the source text layer
+ */
+export function checkQuestionsAgainstSource(
+  questions: ExtractedQuestion[],
+  sourceText: string,
+  options: SourceCheckOptions = {}
+): SourceTextReport {
+  return new SourceTextGuard(sourceText, options).check(questions);
+}
+
+/**
+ * Human-readable warnings for processingInfo.warnings, one per flagged question
+ */
+export function formatSourceWarnings(report: SourceTextReport): string[] {
+  return report.questions
+    .filter((check) => check.flagged)
+    .map((check) => {
+      const missing = Array.from(new Set(check.matches.flatMap((match) => match.missingWords)));
+      const missingText = missing.length > 0
+        ? `; words not in source: ${missing.slice(0, 8).join(', ')}${missing.length > 8 ? ', ...' : ''}`
+        : '';
+      return `${SOURCE_WARNING_PREFIX} ${check.label} matches the PDF text at ${Math.round(check.similarity * 100)}%${missingText}`;
+    });
+}
+
+/**
+ * Replace earlier source-check warnings with the current report's
+ */
+export function mergeSourceWarnings(warnings: string[] = [], report: SourceTextReport | null): string[] {
+  const others = warnings.filter((warning) => !warning.startsWith(SOURCE_WARNING_PREFIX));
+  return report ? [...others, ...formatSourceWarnings(report)] : others;
+}
+
+/**
+ * Find the closest span of the source for one extracted string
+ */
+function matchAgainstSource(
+  extracted: string,
+  sourceWords: string[],
+  index: Map<string, number[]>,
+  options: SourceCheckOptions
+): Omit<SourceMatch, 'field' | 'optionIndex'> {
+  const words = tokenizeWords(extracted);
+  const missingWords = Array.from(new Set(words.filter((word) => !index.has(word))));
+
+  if (words.length === 0 || sourceWords.length === 0) {
+    return {
+      extracted,
+      sourceSpan: '',
+      similarity: words.length === 0 ? 1 : 0,
+      missingWords,
+      diff: words.map((text) => ({ text, op: 'added' as const }))
+    };
+  }
+
+  // Each shared word votes for an alignment offset of the extraction in the source
+  const votes = new Map<number, number>();
+  words.forEach((word, position) => {
+    (index.get(word) || []).forEach((sourcePosition) => {
+      const offset = sourcePosition - position;
+      votes.set(offset, (votes.get(offset) || 0) + 1);
+    });
+  });
+
+  const candidates = Array.from(votes.entries())
+    .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+    .slice(0, options.maxCandidates ?? DEFAULT_MAX_CANDIDATES)
+    .map(([offset]) => offset);
+
+  let best = { similarity: 0, start: 0, end: 0 };
+  candidates.forEach((offset) => {
+    // Allow a little slack for words the model dropped or inserted
+    const slack = Math.max(2, Math.ceil(words.length * 0.2));
+    const start = Math.max(0, offset - slack);
+    const end = Math.min(sourceWords.length, offset + words.length + slack);
+    const window = trimToMatch(words, sourceWords.slice(start, end));
+    const similarity = sequenceSimilarity(words, window.words);
+
+    if (similarity > best.similarity) {
+      best = { similarity, start: start + window.start, end: start + window.start + window.words.length };
+    }
+  });
+
+  const spanWords = sourceWords.slice(best.start, best.end);
+
+  return {
+    extracted,
+    sourceSpan: spanWords.join(' '),
+    similarity: best.similarity,
+    missingWords,
+    diff: diffWords(spanWords, words)
+  };
+}
+
+/**
+ * Drop unmatched words from both ends of a candidate window
+ */
+function trimToMatch(words: string[], window: string[]): { start: number; words: string[] } {
+  const wanted = new Set(words);
+  let start = 0;
+  let end = window.length;
+
+  while (start < end && !wanted.has(window[start])) start++;
+  while (end > start && !wanted.has(window[end - 1])) end--;
+
+  return { start, words: window.slice(start, end) };
+}
+
+/**
+ * Dice coefficient over the longest common subsequence
+ */
+function sequenceSimilarity(a: string[], b: string[]): number {
+  if (a.length + b.length === 0) {
+    return 1;
+  }
+  return (2 * lcsTable(a, b)[a.length][b.length]) / (a.length + b.length);
+}
+
+/**
+ * Word-level diff from the source span to the extraction
+ */
+function diffWords(source: string[], extracted: string[]): SourceDiffToken[] {
+  const table = lcsTable(source, extracted);
+  const tokens: SourceDiffToken[] = [];
+  let i = source.length;
+  let j = extracted.length;
+
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && source[i - 1] === extracted[j - 1]) {
+      tokens.push({ text: extracted[j - 1], op: 'equal' });
+      i--;
+      j--;
+    } else if (j > 0 && (i === 0 || table[i][j - 1] >= table[i - 1][j])) {
+      tokens.push({ text: extracted[j - 1], op: 'added' });
+      j--;
+    } else {
+      tokens.push({ text: source[i - 1], op: 'removed' });
+      i--;
+    }
+  }
+
+  return tokens.reverse();
+}
+
+function lcsTable(a: string[], b: string[]): number[][] {
+  const table = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      table[i][j] = a[i - 1] === b[j - 1]
+        ? table[i - 1][j - 1] + 1
+        : Math.max(table[i - 1][j], table[i][j - 1]);
+    }
+  }
+  return table;
+}
+
+function buildWordIndex(words: string[]): Map<string, number[]> {
+  const index = new Map<string, number[]>();
+  words.forEach((word, position) => {
+    const positions = index.get(word);
+    if (positions) {
+      positions.push(position);
+    } else {
+      index.set(word, [position]);
+    }
+  });
+  return index;
+}
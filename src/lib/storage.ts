@@ -1,6 +1,7 @@
-import { BrandKit } from '@/types';
+import { BrandKit, BrandKitLibrary, SavedBrandKit } from '@/types';
 
 const BRAND_KIT_KEY = 'docubrand_brand_kit';
+const BRAND_KIT_LIBRARY_KEY = 'docubrand_brand_kits';
 
 export const defaultBrandKit: BrandKit = {
   logo: {
@@ -54,4 +55,62 @@ export const clearBrandKit = (): void => {
   } catch (error) {
     console.error('Failed to clear brand kit:', error);
   }
-};
\ No newline at end of file
+};
+
+export const createBrandKitId = (): string =>
+  `kit_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const createSavedBrandKit = (name: string, base: BrandKit = defaultBrandKit): SavedBrandKit => {
+  const now = new Date().toISOString();
+  return {
+    ...base,
+    logo: { file: null, dataUrl: base.logo.dataUrl },
+    id: createBrandKitId(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const saveBrandKitLibrary = (library: BrandKitLibrary): void => {
+  try {
+    // Don't save File objects, only the dataUrls
+    const saveData: BrandKitLibrary = {
+      ...library,
+      kits: library.kits.map((kit) => ({
+        ...kit,
+        logo: { file: null, dataUrl: kit.logo.dataUrl },
+      })),
+    };
+    localStorage.setItem(BRAND_KIT_LIBRARY_KEY, JSON.stringify(saveData));
+  } catch (error) {
+    console.error('Failed to save brand kit library:', error);
+  }
+};
+
+/**
+ * Load the brand kit library. The first load migrates the legacy single
+ * kit (docubrand_brand_kit) into a library with that kit as the default.
+ */
+export const loadBrandKitLibrary = (): BrandKitLibrary => {
+  try {
+    const saved = localStorage.getItem(BRAND_KIT_LIBRARY_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved) as BrandKitLibrary;
+      const kits = (parsed.kits || []).map((kit) => ({ ...defaultBrandKit, ...kit }));
+      if (kits.length > 0) {
+        const defaultKitId = kits.some((kit) => kit.id === parsed.defaultKitId)
+          ? parsed.defaultKitId
+          : kits[0].id;
+        return { kits, defaultKitId };
+      }
+    }
+  } catch (error) {
+    console.error('Failed to load brand kit library:', error);
+  }
+
+  const migrated = createSavedBrandKit('My Brand', loadBrandKit());
+  const library = { kits: [migrated], defaultKitId: migrated.id };
+  saveBrandKitLibrary(library);
+  return library;
+};
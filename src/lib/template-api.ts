@@ -0,0 +1,62 @@
+// CREATED: 2026-10-19 - Request/response helpers shared by the /api/templates routes
+
+import { NextRequest, NextResponse } from "next/server";
+import { TemplateDefinition } from "./template-manager";
+import {
+  InvalidTemplateError,
+  TemplateStorageFullError,
+  validateTemplateDefinition,
+} from "./filesystem-template-storage";
+
+export const MAX_TEMPLATE_SIZE = 25 * 1024 * 1024; // 25MB of JSON, base PDF included
+
+/**
+ * Read and validate a template definition body; returns an error response instead when invalid
+ */
+export async function readTemplateBody(
+  request: NextRequest
+): Promise<{ definition: TemplateDefinition } | { response: NextResponse }> {
+  const contentLength = Number(request.headers.get("content-length") || 0);
+  if (contentLength > MAX_TEMPLATE_SIZE) {
+    return {
+      response: NextResponse.json(
+        { success: false, error: "Template too large. Maximum size is 25MB." },
+        { status: 413 }
+      ),
+    };
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return {
+      response: NextResponse.json({ success: false, error: "Failed to parse JSON request" }, { status: 400 }),
+    };
+  }
+
+  const errors = validateTemplateDefinition(body);
+  if (errors.length > 0) {
+    return {
+      response: NextResponse.json(
+        { success: false, error: "Invalid template", details: errors },
+        { status: 400 }
+      ),
+    };
+  }
+
+  return { definition: body as TemplateDefinition };
+}
+
+/**
+ * Map storage errors to status codes: 400 invalid, 507 disk full, 500 otherwise
+ */
+export function templateErrorResponse(error: unknown, action: string): NextResponse {
+  console.error(`❌ Template ${action} failed:`, error);
+
+  const status = error instanceof InvalidTemplateError ? 400 : error instanceof TemplateStorageFullError ? 507 : 500;
+  return NextResponse.json(
+    { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+    { status }
+  );
+}
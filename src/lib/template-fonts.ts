@@ -0,0 +1,29 @@
+// CREATED: 2026-10-19 - Shared registry for fonts that arrive with imported template packages
+
+import { Font } from '@pdfme/common';
+
+/**
+ * Fonts registered from template definitions, keyed by fontName. Kept apart
+ * from PdfmeIntegration so storage code can register fonts without loading pdfme.
+ */
+const templateFonts: Font = {};
+
+/**
+ * Register the fonts a template definition carries. Later registrations of the
+ * same name replace earlier ones.
+ */
+export function registerTemplateFonts(fonts?: Font): void {
+  if (!fonts) return;
+
+  for (const [name, font] of Object.entries(fonts)) {
+    if (!font?.data) continue;
+    templateFonts[name] = font;
+  }
+}
+
+/**
+ * Fonts registered so far
+ */
+export function getTemplateFonts(): Font {
+  return { ...templateFonts };
+}
@@ -0,0 +1,335 @@
+// CREATED: 2026-10-19 - Template revision types, structural diff between revisions and content fingerprints
+// UPDATED: 2026-10-19 - Base64 data URLs fingerprint and compare as their bytes
+
+import type { TemplateDefinition } from './template-manager';
+
+/**
+ * One entry of a template's append-only revision log, without the snapshot
+ */
+export interface TemplateRevisionSummary {
+  templateId: string;
+  revision: number; // 1, 2, 3... assigned by the storage
+  version: string; // metadata.version of the snapshot
+  name: string;
+  createdAt: number;
+  message?: string;
+  parentRevision?: number; // Set when the revision restores an older one
+  fingerprint: string; // Content hash, used to skip saves that changed nothing
+  pageCount: number;
+  schemaCount: number;
+}
+
+export interface TemplateRevision extends TemplateRevisionSummary {
+  definition: TemplateDefinition;
+}
+
+export interface RevisionDetails {
+  message?: string;
+  parentRevision?: number;
+}
+
+export interface SchemaLocation {
+  name: string;
+  type?: string;
+  page: number; // 0-based
+  index: number; // Position in the page's schema list
+}
+
+export interface SchemaMove {
+  name: string;
+  from: SchemaLocation;
+  to: SchemaLocation;
+}
+
+export interface PropertyChange {
+  name: string; // Schema name
+  page: number; // Page in the newer revision
+  property: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface TemplateDiff {
+  added: SchemaLocation[];
+  removed: SchemaLocation[];
+  moved: SchemaMove[]; // Onto another page, or reordered within a page
+  changed: PropertyChange[];
+  pagesBefore: number;
+  pagesAfter: number;
+  basePdfChanged: boolean;
+  dataBindingsChanged: boolean;
+}
+
+/**
+ * Structural diff of two template definitions. Schemas are matched by name
+ * (unique per template); unnamed schemas by page and position.
+ */
+export function diffTemplates(before: TemplateDefinition, after: TemplateDefinition): TemplateDiff {
+  const beforeSchemas = indexSchemas(before);
+  const afterSchemas = indexSchemas(after);
+
+  const added: SchemaLocation[] = [];
+  const removed: SchemaLocation[] = [];
+  const moved: SchemaMove[] = [];
+  const changed: PropertyChange[] = [];
+
+  beforeSchemas.forEach((entry, key) => {
+    if (!afterSchemas.has(key)) removed.push(entry.location);
+  });
+
+  const reordered = findReorderedSchemas(beforeSchemas, afterSchemas);
+
+  afterSchemas.forEach((entry, key) => {
+    const previous = beforeSchemas.get(key);
+    if (!previous) {
+      added.push(entry.location);
+      return;
+    }
+
+    if (previous.location.page !== entry.location.page || reordered.has(key)) {
+      moved.push({ name: entry.location.name, from: previous.location, to: entry.location });
+    }
+
+    const properties = new Set([...Object.keys(previous.schema), ...Object.keys(entry.schema)]);
+    properties.forEach((property) => {
+      if (property === 'name') return;
+      if (!isEqual(previous.schema[property], entry.schema[property])) {
+        changed.push({
+          name: entry.location.name,
+          page: entry.location.page,
+          property,
+          before: previous.schema[property],
+          after: entry.schema[property],
+        });
+      }
+    });
+  });
+
+  return {
+    added,
+    removed,
+    moved,
+    changed,
+    pagesBefore: before.template.schemas.length,
+    pagesAfter: after.template.schemas.length,
+    basePdfChanged: !isEqual(before.template.basePdf, after.template.basePdf),
+    dataBindingsChanged: !isEqual(before.dataBindings, after.dataBindings),
+  };
+}
+
+export function isEmptyDiff(diff: TemplateDiff): boolean {
+  return (
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.moved.length === 0 &&
+    diff.changed.length === 0 &&
+    diff.pagesBefore === diff.pagesAfter &&
+    !diff.basePdfChanged &&
+    !diff.dataBindingsChanged
+  );
+}
+
+/**
+ * Hash of everything a revision restores (template, bindings, sample data).
+ * Binary base PDFs are hashed byte by byte. Base64 data URLs hash as their
+ * bytes: the HTTP storage sends binaries as data URLs, and the server's
+ * fingerprint must match the client's.
+ */
+export function fingerprintDefinition(definition: TemplateDefinition): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  const feed = (code: number) => {
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  };
+  const feedText = (text: string) => {
+    for (let i = 0; i < text.length; i++) feed(text.charCodeAt(i));
+  };
+
+  const walk = (value: unknown) => {
+    const bytes = toBinary(value);
+    if (bytes) {
+      feedText(`bin${bytes.length}:`);
+      for (let i = 0; i < bytes.length; i++) feed(bytes[i]);
+    } else if (Array.isArray(value)) {
+      feedText('[');
+      value.forEach(walk);
+      feedText(']');
+    } else if (value && typeof value === 'object') {
+      feedText('{');
+      Object.keys(value).sort().forEach((key) => {
+        const item = (value as Record<string, unknown>)[key];
+        if (item === undefined) return;
+        feedText(`${key}:`);
+        walk(item);
+      });
+      feedText('}');
+    } else {
+      feedText(`${typeof value}:${String(value)};`);
+    }
+  };
+
+  walk([definition.template, definition.dataBindings, definition.sampleData]);
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h2 >>> 0).toString(16).padStart(8, '0') + (h1 >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * 1.0.0 -> 1.0.1; versions that are not major.minor.patch get ".1" appended
+ */
+export function bumpVersion(version: string): string {
+  const match = /^(\d+)\.(\d+)\.(\d+)$/.exec(version.trim());
+  if (!match) return `${version || '1.0.0'}.1`;
+  return `${match[1]}.${match[2]}.${Number(match[3]) + 1}`;
+}
+
+/**
+ * Summary fields for a snapshot about to be appended as the given revision
+ */
+export function createRevisionSummary(
+  definition: TemplateDefinition,
+  revision: number,
+  details: RevisionDetails = {}
+): TemplateRevisionSummary {
+  const pages = definition.template.schemas || [];
+  return {
+    templateId: definition.metadata.id,
+    revision,
+    version: definition.metadata.version,
+    name: definition.metadata.name,
+    createdAt: Date.now(),
+    message: details.message,
+    parentRevision: details.parentRevision,
+    fingerprint: fingerprintDefinition(definition),
+    pageCount: pages.length,
+    schemaCount: pages.reduce((total, page) => total + (page?.length || 0), 0),
+  };
+}
+
+interface IndexedSchema {
+  location: SchemaLocation;
+  schema: Record<string, unknown>;
+}
+
+function indexSchemas(definition: TemplateDefinition): Map<string, IndexedSchema> {
+  const schemas = new Map<string, IndexedSchema>();
+  (definition.template.schemas || []).forEach((page, pageIndex) => {
+    (page || []).forEach((schema, index) => {
+      const record = schema as unknown as Record<string, unknown>;
+      const name = typeof record.name === 'string' && record.name ? record.name : '';
+      const key = name ? `name:${name}` : `unnamed:${pageIndex}:${index}`;
+      schemas.set(key, {
+        location: {
+          name: name || `Unnamed field ${index + 1}`,
+          type: typeof record.type === 'string' ? record.type : undefined,
+          page: pageIndex,
+          index,
+        },
+        schema: record,
+      });
+    });
+  });
+  return schemas;
+}
+
+/**
+ * Schemas that stayed on their page but changed order relative to the other
+ * schemas kept there: everything outside the longest common subsequence
+ */
+function findReorderedSchemas(
+  before: Map<string, IndexedSchema>,
+  after: Map<string, IndexedSchema>
+): Set<string> {
+  const reordered = new Set<string>();
+  const pages = new Set<number>([...after.values()].map((entry) => entry.location.page));
+
+  pages.forEach((page) => {
+    const keptOnPage = (source: Map<string, IndexedSchema>, other: Map<string, IndexedSchema>) =>
+      [...source.entries()]
+        .filter(([key, entry]) => entry.location.page === page && other.get(key)?.location.page === page)
+        .sort((a, b) => a[1].location.index - b[1].location.index)
+        .map(([key]) => key);
+
+    const oldOrder = keptOnPage(before, after);
+    const newOrder = keptOnPage(after, before);
+    const stable = longestCommonSubsequence(oldOrder, newOrder);
+    newOrder.filter((key) => !stable.has(key)).forEach((key) => reordered.add(key));
+  });
+
+  return reordered;
+}
+
+function longestCommonSubsequence(a: string[], b: string[]): Set<string> {
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const common = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      common.add(a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return common;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+
+  const bytesA = toBinary(a);
+  const bytesB = toBinary(b);
+  if (bytesA || bytesB) {
+    if (!bytesA || !bytesB) return false;
+    return bytesA.length === bytesB.length && bytesA.every((byte, index) => byte === bytesB[index]);
+  }
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    return a.every((item, index) => isEqual(item, b[index]));
+  }
+
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    const recordA = a as Record<string, unknown>;
+    const recordB = b as Record<string, unknown>;
+    const keys = new Set([...Object.keys(recordA), ...Object.keys(recordB)]);
+    return [...keys].every((key) => isEqual(recordA[key], recordB[key]));
+  }
+
+  return false;
+}
+
+const BASE64_DATA_URL = /^data:[\w.+-]+\/[\w.+-]+;base64,/;
+
+/**
+ * Bytes of a buffer, typed array or base64 data URL; null for anything else.
+ * Lets a Uint8Array compare equal to the data URL the HTTP storage turns it into.
+ */
+function toBinary(value: unknown): Uint8Array | null {
+  if (value instanceof ArrayBuffer) return new Uint8Array(value);
+  if (ArrayBuffer.isView(value)) return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+  if (typeof value !== 'string' || !BASE64_DATA_URL.test(value)) return null;
+
+  try {
+    const binary = atob(value.slice(value.indexOf(',') + 1).replace(/\s/g, ''));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  } catch {
+    return null; // Not valid base64; treated as text
+  }
+}
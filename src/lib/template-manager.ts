@@ -1,9 +1,42 @@
 // CREATED: 2025-07-04 - Template management system for educational documents
-
-import { Template, checkTemplate } from '@pdfme/common';
+// UPDATED: 2026-10-19 - IndexedDB storage by default, quota errors surfaced to callers
+// UPDATED: 2026-10-19 - Shared server storage via NEXT_PUBLIC_TEMPLATE_STORAGE=server
+// UPDATED: 2026-10-19 - Append-only revision log per template, with diff, restore and branch
+// UPDATED: 2026-10-19 - .docubrand package export/import with conflict resolution and preserveIds
+// UPDATED: 2026-10-19 - Package fonts registered with pdfme on import and load
+// UPDATED: 2026-10-19 - localStorage keeps snapshots for the latest revisions only
+
+import { Font, Template, checkTemplate } from '@pdfme/common';
 import { ValidationResult } from './pdfme-integration';
 import { GeminiAnalysisResponse } from '@/types/gemini';
+import { TemplateExportOptions, TemplateImportOptions } from '@/types/pdfme-extensions';
 import { DataBinding, MappingResult } from './gemini-to-pdfme';
+import {
+  IndexedDBTemplateStorage,
+  LEGACY_TEMPLATE_STORAGE_KEY,
+  TemplateStorageQuotaError,
+  estimateStorage,
+  isQuotaError,
+} from './indexeddb-template-storage';
+import { HttpTemplateStorage } from './http-template-storage';
+import { registerTemplateFonts } from './template-fonts';
+import {
+  RevisionDetails,
+  TemplateDiff,
+  TemplateRevision,
+  TemplateRevisionSummary,
+  bumpVersion,
+  createRevisionSummary,
+  diffTemplates,
+  fingerprintDefinition,
+} from './template-history';
+import {
+  TemplatePackageExport,
+  TemplatePackageExportOptions,
+  applyExportOptions,
+  createTemplatePackage,
+  readTemplatePackage,
+} from './template-package';
 
 // Template metadata interface
 export interface TemplateMetadata {
@@ -17,6 +50,7 @@ export interface TemplateMetadata {
   version: string;
   author?: string;
   thumbnail?: string;
+  branchedFrom?: { templateId: string; revision: number };
 }
 
 // Full template definition
@@ -26,20 +60,38 @@ export interface TemplateDefinition {
   dataBindings: DataBinding[];
   sampleData?: any;
   previewData?: any;
+  fonts?: Font; // Fonts that came with an imported package, keyed by fontName
+}
+
+export interface TemplateImportResult {
+  template: TemplateDefinition; // For 'skipped', the template that was kept
+  action: 'created' | 'overwritten' | 'skipped' | 'renamed';
+  warnings: string[];
 }
 
-// Template storage interface
+// Template storage interface. delete() removes the template's revisions too.
 export interface TemplateStorage {
   save(definition: TemplateDefinition): Promise<void>;
   load(id: string): Promise<TemplateDefinition | null>;
   list(): Promise<TemplateMetadata[]>;
   delete(id: string): Promise<void>;
   exists(id: string): Promise<boolean>;
+  // Revision log: append-only, numbered from 1 by the storage, listed oldest first
+  appendRevision(definition: TemplateDefinition, details?: RevisionDetails): Promise<TemplateRevisionSummary>;
+  listRevisions(templateId: string): Promise<TemplateRevisionSummary[]>;
+  loadRevision(templateId: string, revision: number): Promise<TemplateRevision | null>;
 }
 
-// Local storage implementation
-class LocalTemplateStorage implements TemplateStorage {
-  private storageKey = 'pdfme_templates';
+// localStorage holds a few MB, so older revisions keep their summary but lose the snapshot
+const LOCAL_REVISION_SNAPSHOT_LIMIT = 10;
+
+// A revision whose snapshot was dropped has no definition
+type StoredRevision = TemplateRevisionSummary & { definition?: TemplateDefinition };
+
+// Local storage implementation, used where IndexedDB is unavailable
+export class LocalTemplateStorage implements TemplateStorage {
+  private storageKey = LEGACY_TEMPLATE_STORAGE_KEY;
+  private revisionsKey = 'pdfme_template_revisions';
 
   async save(definition: TemplateDefinition): Promise<void> {
     try {
@@ -47,6 +99,9 @@ class LocalTemplateStorage implements TemplateStorage {
       stored[definition.metadata.id] = definition;
       localStorage.setItem(this.storageKey, JSON.stringify(stored));
     } catch (error) {
+      if (isQuotaError(error)) {
+        throw await this.quotaError(definition.metadata.name);
+      }
       throw new Error(`Failed to save template: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -74,6 +129,10 @@ class LocalTemplateStorage implements TemplateStorage {
       const stored = this.getStoredTemplates();
       delete stored[id];
       localStorage.setItem(this.storageKey, JSON.stringify(stored));
+
+      const revisions = this.getStoredRevisions();
+      delete revisions[id];
+      localStorage.setItem(this.revisionsKey, JSON.stringify(revisions));
     } catch (error) {
       throw new Error(`Failed to delete template: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -88,6 +147,56 @@ class LocalTemplateStorage implements TemplateStorage {
     }
   }
 
+  async appendRevision(definition: TemplateDefinition, details?: RevisionDetails): Promise<TemplateRevisionSummary> {
+    try {
+      const stored = this.getStoredRevisions();
+      const log = stored[definition.metadata.id] || [];
+      const next = log.reduce((max, entry) => Math.max(max, entry.revision), 0) + 1;
+      const summary = createRevisionSummary(definition, next, details);
+
+      const entries: StoredRevision[] = [...log, { ...summary, definition }];
+      const keepFrom = entries.length - LOCAL_REVISION_SNAPSHOT_LIMIT;
+      stored[definition.metadata.id] = entries.map((entry, index) => {
+        if (index >= keepFrom || !entry.definition) return entry;
+        const { definition: _definition, ...rest } = entry;
+        return rest;
+      });
+      localStorage.setItem(this.revisionsKey, JSON.stringify(stored));
+      return summary;
+    } catch (error) {
+      if (isQuotaError(error)) {
+        throw await this.quotaError(definition.metadata.name);
+      }
+      throw new Error(`Failed to save template revision: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async listRevisions(templateId: string): Promise<TemplateRevisionSummary[]> {
+    const log = this.getStoredRevisions()[templateId] || [];
+    return log.map(({ definition: _definition, ...summary }) => summary);
+  }
+
+  async loadRevision(templateId: string, revision: number): Promise<TemplateRevision | null> {
+    const log = this.getStoredRevisions()[templateId] || [];
+    const entry = log.find((item) => item.revision === revision);
+    return entry?.definition ? { ...entry, definition: entry.definition } : null;
+  }
+
+  private async quotaError(templateName: string): Promise<TemplateStorageQuotaError> {
+    const estimate = await estimateStorage();
+    return new TemplateStorageQuotaError(templateName, estimate?.usage, estimate?.quota);
+  }
+
+  private getStoredRevisions(): Record<string, StoredRevision[]> {
+    try {
+      const stored = localStorage.getItem(this.revisionsKey);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      // Unlike templates, unreadable history is kept; new revisions fail until it is cleared
+      throw new Error('Template history in localStorage is unreadable');
+    }
+  }
+
   private getStoredTemplates(): Record<string, TemplateDefinition> {
     try {
       const stored = localStorage.getItem(this.storageKey);
@@ -101,13 +210,26 @@ class LocalTemplateStorage implements TemplateStorage {
 }
 
 /**
- * Template manager class for educational documents
+ * The team's shared library when NEXT_PUBLIC_TEMPLATE_STORAGE=server (served by
+ * /api/templates, or NEXT_PUBLIC_TEMPLATE_API_URL); otherwise this browser's
+ * IndexedDB, falling back to localStorage
+ */
+export function createTemplateStorage(): TemplateStorage {
+  if (process.env.NEXT_PUBLIC_TEMPLATE_STORAGE === 'server') {
+    return new HttpTemplateStorage(process.env.NEXT_PUBLIC_TEMPLATE_API_URL || '');
+  }
+  return IndexedDBTemplateStorage.isSupported() ? new IndexedDBTemplateStorage() : new LocalTemplateStorage();
+}
+
+/**
+ * Template manager class for educational documents. Storage errors propagate;
+ * a full quota throws TemplateStorageQuotaError with a user-facing message.
  */
 export class TemplateManager {
   private storage: TemplateStorage;
 
   constructor(storage?: TemplateStorage) {
-    this.storage = storage || new LocalTemplateStorage();
+    this.storage = storage || createTemplateStorage();
   }
 
   /**
@@ -145,7 +267,7 @@ export class TemplateManager {
       sampleData: config.sampleData,
     };
 
-    await this.storage.save(definition);
+    await this.saveWithRevision(definition, { message: 'Created' });
     return definition;
   }
 
@@ -174,9 +296,9 @@ export class TemplateManager {
   }
 
   /**
-   * Save template definition
+   * Save template definition, recording a revision when the content changed
    */
-  async saveTemplate(definition: TemplateDefinition): Promise<void> {
+  async saveTemplate(definition: TemplateDefinition, details?: RevisionDetails): Promise<void> {
     // Validate template
     const validation = this.validateTemplate(definition.template);
     if (!validation.valid) {
@@ -186,14 +308,16 @@ export class TemplateManager {
     // Update timestamp
     definition.metadata.updatedAt = Date.now();
 
-    await this.storage.save(definition);
+    await this.saveWithRevision(definition, details);
   }
 
   /**
    * Load template definition
    */
   async loadTemplate(id: string): Promise<TemplateDefinition | null> {
-    return await this.storage.load(id);
+    const definition = await this.storage.load(id);
+    registerTemplateFonts(definition?.fonts);
+    return definition;
   }
 
   /**
@@ -259,47 +383,67 @@ export class TemplateManager {
       previewData: original.previewData,
     };
 
-    await this.storage.save(duplicated);
+    await this.saveWithRevision(duplicated, { message: `Duplicated from "${original.metadata.name}"` });
     return duplicated;
   }
 
   /**
    * Export template as JSON
    */
-  async exportTemplate(id: string): Promise<string> {
+  async exportTemplate(id: string, options?: Partial<TemplateExportOptions>): Promise<string> {
     const definition = await this.storage.load(id);
     if (!definition) {
       throw new Error('Template not found');
     }
 
-    return JSON.stringify(definition, null, 2);
+    return JSON.stringify(applyExportOptions(definition, options), null, 2);
   }
 
   /**
-   * Import template from JSON
+   * Export template as a .docubrand zip package with its base PDF, fonts,
+   * images, data bindings and sample data
    */
-  async importTemplate(jsonData: string): Promise<TemplateDefinition> {
+  async exportTemplatePackage(id: string, options?: TemplatePackageExportOptions): Promise<TemplatePackageExport> {
+    const definition = await this.storage.load(id);
+    if (!definition) {
+      throw new Error('Template not found');
+    }
+
+    // The designer's font registry resolves the fontNames the template uses
+    let fonts: Font | undefined;
     try {
-      const definition = JSON.parse(jsonData) as TemplateDefinition;
-      
-      // Validate structure
-      if (!definition.metadata || !definition.template) {
-        throw new Error('Invalid template structure');
-      }
+      const { PdfmeIntegration } = await import('./pdfme-integration');
+      fonts = new PdfmeIntegration().getFonts();
+    } catch (error) {
+      console.warn('⚠️ Font registry unavailable, packaging without fonts:', error instanceof Error ? error.message : error);
+    }
 
-      // Generate new ID to avoid conflicts
-      const newId = this.generateId();
-      definition.metadata.id = newId;
-      definition.metadata.updatedAt = Date.now();
+    return await createTemplatePackage(definition, { ...options, fonts });
+  }
 
-      // Validate template
-      const validation = this.validateTemplate(definition.template);
-      if (!validation.valid) {
-        throw new Error(`Template validation failed: ${validation.errors.join(', ')}`);
-      }
+  /**
+   * Import template from JSON
+   */
+  async importTemplate(jsonData: string, options?: Partial<TemplateImportOptions>): Promise<TemplateDefinition> {
+    try {
+      const definition = JSON.parse(jsonData) as TemplateDefinition;
+      return (await this.importDefinition(definition, options)).template;
+    } catch (error) {
+      throw new Error(`Failed to import template: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-      await this.storage.save(definition);
-      return definition;
+  /**
+   * Import a .docubrand package
+   */
+  async importTemplatePackage(
+    data: Blob | ArrayBuffer | Uint8Array,
+    options?: Partial<TemplateImportOptions>
+  ): Promise<TemplateImportResult> {
+    try {
+      const contents = await readTemplatePackage(data);
+      const result = await this.importDefinition(contents.definition, options);
+      return { ...result, warnings: [...contents.warnings, ...result.warnings] };
     } catch (error) {
       throw new Error(`Failed to import template: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -365,6 +509,84 @@ export class TemplateManager {
     await this.storage.save(definition);
   }
 
+  /**
+   * Revision log of a template, newest first
+   */
+  async getRevisions(id: string): Promise<TemplateRevisionSummary[]> {
+    const revisions = await this.storage.listRevisions(id);
+    return [...revisions].sort((a, b) => b.revision - a.revision);
+  }
+
+  /**
+   * Load the snapshot stored with a revision
+   */
+  async loadRevision(id: string, revision: number): Promise<TemplateRevision | null> {
+    return await this.storage.loadRevision(id, revision);
+  }
+
+  /**
+   * Structural diff from one revision to another, or to the saved template
+   * when `to` is omitted
+   */
+  async diffRevisions(id: string, from: number, to?: number): Promise<TemplateDiff> {
+    const before = await this.requireRevision(id, from);
+    const after = to === undefined ? await this.storage.load(id) : (await this.requireRevision(id, to)).definition;
+    if (!after) {
+      throw new Error('Template not found');
+    }
+
+    return diffTemplates(before.definition, after);
+  }
+
+  /**
+   * Make a revision's content current again. Recorded as a new revision, so
+   * nothing in the log is lost.
+   */
+  async restoreRevision(id: string, revision: number): Promise<TemplateDefinition> {
+    const current = await this.storage.load(id);
+    if (!current) {
+      throw new Error('Template not found');
+    }
+    const snapshot = await this.requireRevision(id, revision);
+
+    const restored: TemplateDefinition = {
+      ...current,
+      metadata: { ...current.metadata },
+      template: snapshot.definition.template,
+      dataBindings: snapshot.definition.dataBindings,
+      sampleData: snapshot.definition.sampleData,
+      previewData: snapshot.definition.previewData,
+    };
+
+    await this.saveTemplate(restored, { message: `Restored revision ${revision}`, parentRevision: revision });
+    return restored;
+  }
+
+  /**
+   * Start a new template from a revision, leaving the original untouched
+   */
+  async branchFromRevision(id: string, revision: number, newName: string): Promise<TemplateDefinition> {
+    const snapshot = await this.requireRevision(id, revision);
+    const now = Date.now();
+
+    const branched: TemplateDefinition = {
+      ...snapshot.definition,
+      metadata: {
+        ...snapshot.definition.metadata,
+        id: this.generateId(),
+        name: newName,
+        createdAt: now,
+        updatedAt: now,
+        version: '1.0.0',
+        branchedFrom: { templateId: id, revision },
+      },
+    };
+
+    await this.saveWithRevision(branched, { message: `Branched from "${snapshot.name}" revision ${revision}` });
+    registerTemplateFonts(branched.fonts);
+    return branched;
+  }
+
   /**
    * Get template statistics
    */
@@ -396,6 +618,121 @@ export class TemplateManager {
     };
   }
 
+  /**
+   * Append a revision, then save. The revision goes first so every state that
+   * was ever current is in the log; unchanged content adds no revision.
+   */
+  private async saveWithRevision(definition: TemplateDefinition, details?: RevisionDetails): Promise<void> {
+    const id = definition.metadata.id;
+    const revisions = await this.storage.listRevisions(id);
+    let latest: TemplateRevisionSummary | undefined = revisions[revisions.length - 1];
+
+    // Templates saved before history was kept start their log with the stored copy
+    if (!latest) {
+      const stored = await this.storage.load(id);
+      if (stored) {
+        latest = await this.storage.appendRevision(stored, { message: 'Before version history' });
+      }
+    }
+
+    if (!latest || latest.fingerprint !== fingerprintDefinition(definition)) {
+      if (latest) {
+        definition.metadata.version = bumpVersion(definition.metadata.version);
+      }
+      await this.storage.appendRevision(definition, details);
+    }
+
+    await this.storage.save(definition);
+  }
+
+  /**
+   * Validate and store an imported definition. Without preserveIds the template
+   * gets a new id and conflicts are detected by name; with it, by id.
+   */
+  private async importDefinition(
+    definition: TemplateDefinition,
+    options: Partial<TemplateImportOptions> = {}
+  ): Promise<TemplateImportResult> {
+    const { validation = 'lenient', conflictResolution = 'rename', preserveIds = false } = options;
+    const warnings: string[] = [];
+
+    // Validate structure
+    if (!definition?.metadata || !definition.template) {
+      throw new Error('Invalid template structure');
+    }
+
+    if (validation !== 'none') {
+      const result = this.validateTemplate(definition.template);
+      const problems = validation === 'strict' ? [...result.errors, ...result.warnings] : result.errors;
+      if (problems.length > 0) {
+        throw new Error(`Template validation failed: ${problems.join(', ')}`);
+      }
+    }
+
+    const existing = await this.storage.list();
+    const conflict = preserveIds
+      ? existing.find((t) => t.id === definition.metadata.id)
+      : existing.find((t) => t.name === definition.metadata.name);
+
+    const imported: TemplateDefinition = {
+      ...definition,
+      dataBindings: definition.dataBindings || [],
+      metadata: {
+        ...definition.metadata,
+        id: preserveIds && definition.metadata.id ? definition.metadata.id : this.generateId(),
+        updatedAt: Date.now(),
+      },
+    };
+    let action: TemplateImportResult['action'] = 'created';
+
+    if (conflict) {
+      if (conflictResolution === 'skip') {
+        const kept = await this.storage.load(conflict.id);
+        if (!kept) throw new Error('Template not found');
+        return { template: kept, action: 'skipped', warnings };
+      }
+
+      if (conflictResolution === 'overwrite') {
+        // History continues: the replaced content stays in the revision log
+        imported.metadata = {
+          ...imported.metadata,
+          id: conflict.id,
+          createdAt: conflict.createdAt,
+          version: conflict.version,
+        };
+        action = 'overwritten';
+      } else {
+        if (preserveIds) {
+          imported.metadata.id = this.generateId();
+          warnings.push(`Template id ${conflict.id} is taken; the import got a new id`);
+        }
+        imported.metadata.name = this.uniqueName(imported.metadata.name, existing);
+        action = 'renamed';
+      }
+    }
+
+    await this.saveWithRevision(imported, { message: action === 'overwritten' ? 'Replaced by import' : 'Imported' });
+    registerTemplateFonts(imported.fonts);
+    return { template: imported, action, warnings };
+  }
+
+  private uniqueName(name: string, existing: TemplateMetadata[]): string {
+    const names = new Set(existing.map((t) => t.name));
+    let candidate = name;
+    for (let n = 2; names.has(candidate); n++) {
+      candidate = `${name} (${n})`;
+    }
+    return candidate;
+  }
+
+  private async requireRevision(id: string, revision: number): Promise<TemplateRevision> {
+    const snapshot = await this.storage.loadRevision(id, revision);
+    if (!snapshot) {
+      throw new Error(`Revision ${revision} not found`);
+    }
+    return snapshot;
+  }
+
   /**
    * Create blank template
    */
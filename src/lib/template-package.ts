@@ -0,0 +1,386 @@
+// CREATED: 2026-10-19 - .docubrand template packages: zip with template JSON, base PDF, fonts, images, bindings and sample data
+
+import type { Font } from '@pdfme/common';
+import type { TemplateExportOptions } from '@/types/pdfme-extensions';
+import type { TemplateDefinition } from './template-manager';
+import { ZipEntry, createZip, readZip } from './zip-archive';
+
+export const TEMPLATE_PACKAGE_FORMAT = 'docubrand-template';
+export const TEMPLATE_PACKAGE_VERSION = 1;
+export const TEMPLATE_PACKAGE_EXTENSION = '.docubrand';
+
+const MAX_PACKAGE_SIZE = 100 * 1024 * 1024; // Unpacked
+
+const TEMPLATE_FILE = 'template.json';
+const DATA_BINDINGS_FILE = 'data-bindings.json';
+const SAMPLE_DATA_FILE = 'sample-data.json';
+const PREVIEW_DATA_FILE = 'preview-data.json';
+const BASE_PDF_FILE = 'base.pdf';
+
+export type TemplatePackageExportOptions = Partial<
+  Pick<TemplateExportOptions, 'includeMetadata' | 'includeDataBindings' | 'includeSampleData' | 'includePreview' | 'compression'>
+>;
+
+export interface TemplatePackageManifest {
+  format: typeof TEMPLATE_PACKAGE_FORMAT;
+  version: number;
+  exportedAt: string;
+  template: { id: string; name: string; version: string };
+  files: {
+    template: string;
+    basePdf?: string;
+    dataBindings?: string;
+    sampleData?: string;
+    previewData?: string;
+    images: string[];
+  };
+  fonts: { name: string; path: string; fallback?: boolean }[];
+}
+
+export interface TemplatePackageExport {
+  data: Uint8Array;
+  fileName: string;
+  warnings: string[];
+}
+
+export interface TemplatePackageContents {
+  manifest: TemplatePackageManifest;
+  definition: TemplateDefinition; // Fonts from the package are in definition.fonts
+  warnings: string[];
+}
+
+// Stands in for a data URL or binary buffer that was moved into its own file
+interface PackageFileRef {
+  __docubrandFile: string;
+  kind: 'dataUrl' | 'uint8array' | 'arraybuffer';
+  mimeType?: string;
+}
+
+/**
+ * Drop what the export options exclude. Shared by the JSON export.
+ */
+export function applyExportOptions(
+  definition: TemplateDefinition,
+  options: TemplatePackageExportOptions = {}
+): TemplateDefinition {
+  const {
+    includeMetadata = true,
+    includeDataBindings = true,
+    includeSampleData = true,
+    includePreview = true,
+  } = options;
+
+  const { id, name, category, version, createdAt, updatedAt } = definition.metadata;
+  const result: TemplateDefinition = {
+    ...definition,
+    metadata: includeMetadata
+      ? { ...definition.metadata }
+      : { id, name, category, version, createdAt, updatedAt, description: '', tags: [] },
+    dataBindings: includeDataBindings ? definition.dataBindings : [],
+  };
+
+  if (!includeSampleData) delete result.sampleData;
+  if (!includePreview) {
+    delete result.previewData;
+    delete result.metadata.thumbnail;
+  }
+  return result;
+}
+
+/**
+ * Build a .docubrand package. `fonts` is the font registry used to resolve
+ * the fontNames the template references; fonts carried by the template itself
+ * take precedence. Fonts that cannot be fetched are reported as warnings.
+ */
+export async function createTemplatePackage(
+  definition: TemplateDefinition,
+  options: TemplatePackageExportOptions & { fonts?: Font } = {}
+): Promise<TemplatePackageExport> {
+  const warnings: string[] = [];
+  const source = applyExportOptions(definition, options);
+  const entries: ZipEntry[] = [];
+  const images: string[] = [];
+  const files = new FileCollector(entries, images);
+
+  // The base PDF gets a fixed name; other embedded files are numbered
+  const { basePdf, ...templateRest } = source.template;
+  const packedBasePdf = files.pack(basePdf, BASE_PDF_FILE);
+  const template = { ...files.pack(templateRest), basePdf: packedBasePdf };
+
+  const { template: _template, dataBindings, sampleData, previewData, fonts: _fonts, ...rest } = source;
+  const manifest: TemplatePackageManifest = {
+    format: TEMPLATE_PACKAGE_FORMAT,
+    version: TEMPLATE_PACKAGE_VERSION,
+    exportedAt: new Date().toISOString(),
+    template: { id: source.metadata.id, name: source.metadata.name, version: source.metadata.version },
+    files: { template: TEMPLATE_FILE, images },
+    fonts: [],
+  };
+  if (isFileRef(packedBasePdf)) manifest.files.basePdf = packedBasePdf.__docubrandFile;
+
+  const json = (value: unknown) => new TextEncoder().encode(JSON.stringify(value, null, 2));
+  entries.push({ path: TEMPLATE_FILE, data: json({ ...files.pack(rest), template }) });
+
+  if (dataBindings.length > 0) {
+    entries.push({ path: DATA_BINDINGS_FILE, data: json(files.pack(dataBindings)) });
+    manifest.files.dataBindings = DATA_BINDINGS_FILE;
+  }
+  if (sampleData !== undefined) {
+    entries.push({ path: SAMPLE_DATA_FILE, data: json(files.pack(sampleData)) });
+    manifest.files.sampleData = SAMPLE_DATA_FILE;
+  }
+  if (previewData !== undefined) {
+    entries.push({ path: PREVIEW_DATA_FILE, data: json(files.pack(previewData)) });
+    manifest.files.previewData = PREVIEW_DATA_FILE;
+  }
+
+  const registry: Font = { ...(options.fonts || {}), ...(definition.fonts || {}) };
+  const usedPaths = new Set<string>();
+  for (const fontName of collectFontNames(definition.template)) {
+    const font = registry[fontName];
+    if (!font) {
+      warnings.push(`Font "${fontName}" is not installed here and was not packaged`);
+      continue;
+    }
+
+    try {
+      const bytes = await fontBytes(font.data);
+      const path = uniquePath(`fonts/${safeFileName(fontName)}.${detectFontExtension(bytes)}`, usedPaths);
+      entries.push({ path, data: bytes });
+      manifest.fonts.push({ name: fontName, path, fallback: font.fallback || undefined });
+    } catch (error) {
+      warnings.push(`Font "${fontName}" could not be packaged: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  entries.unshift({ path: 'manifest.json', data: json(manifest) });
+  const data = await createZip(entries, { compress: options.compression !== 'none' });
+
+  console.log(`📦 Packaged template "${source.metadata.name}": ${entries.length} files, ${(data.length / 1024).toFixed(0)} KB`);
+  return {
+    data,
+    fileName: `${source.metadata.name.replace(/[^a-z0-9]/gi, '_')}${TEMPLATE_PACKAGE_EXTENSION}`,
+    warnings,
+  };
+}
+
+/**
+ * Unpack a .docubrand package back into a template definition
+ */
+export async function readTemplatePackage(data: Blob | ArrayBuffer | Uint8Array): Promise<TemplatePackageContents> {
+  const bytes = data instanceof Uint8Array
+    ? data
+    : new Uint8Array(data instanceof Blob ? await data.arrayBuffer() : data);
+  const files = await readZip(bytes, { maxTotalSize: MAX_PACKAGE_SIZE });
+  const warnings: string[] = [];
+  const decoder = new TextDecoder();
+
+  const readJson = (path: string): any => {
+    const file = files.get(path);
+    if (!file) throw new Error(`Package is missing ${path}`);
+    try {
+      return JSON.parse(decoder.decode(file));
+    } catch {
+      throw new Error(`${path} in the package is not valid JSON`);
+    }
+  };
+
+  const manifest = readJson('manifest.json') as TemplatePackageManifest;
+  if (manifest?.format !== TEMPLATE_PACKAGE_FORMAT) {
+    throw new Error('Not a DocuBrand template package');
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > TEMPLATE_PACKAGE_VERSION) {
+    throw new Error(`Package version ${manifest.version} is newer than this app supports`);
+  }
+
+  const unpack = (value: unknown) => unpackFiles(value, files);
+  const definition = unpack(readJson(manifest.files?.template || TEMPLATE_FILE)) as TemplateDefinition;
+  if (!definition?.metadata || !definition.template) {
+    throw new Error('Invalid template structure');
+  }
+
+  definition.dataBindings = manifest.files.dataBindings ? unpack(readJson(manifest.files.dataBindings)) as TemplateDefinition['dataBindings'] : [];
+  if (manifest.files.sampleData) definition.sampleData = unpack(readJson(manifest.files.sampleData));
+  if (manifest.files.previewData) definition.previewData = unpack(readJson(manifest.files.previewData));
+
+  const fonts: Font = {};
+  for (const font of Array.isArray(manifest.fonts) ? manifest.fonts : []) {
+    const file = files.get(font.path);
+    if (!file || typeof font.name !== 'string') {
+      warnings.push(`Font "${font?.name}" is listed but missing from the package`);
+      continue;
+    }
+    // Data URLs survive every template storage; pdfme fetches them like any font URL
+    fonts[font.name] = {
+      data: bytesToDataUrl(file, fontMimeType(detectFontExtension(file))),
+      fallback: !!font.fallback,
+    };
+  }
+  if (Object.keys(fonts).length > 0) {
+    definition.fonts = fonts;
+  }
+
+  return { manifest, definition, warnings };
+}
+
+/**
+ * Moves data URLs and binary buffers into package files, returning the value
+ * with PackageFileRefs in their place
+ */
+class FileCollector {
+  private count = 0;
+  private paths = new Set<string>();
+
+  constructor(private entries: ZipEntry[], private images: string[]) {}
+
+  pack(value: unknown, path?: string): any {
+    if (typeof value === 'string') {
+      const match = /^data:([^;,]+)(;base64)?,/.exec(value);
+      if (!match) return value;
+      const mimeType = match[1];
+      const payload = value.slice(match[0].length);
+      const bytes = match[2] ? base64ToBytes(payload) : new TextEncoder().encode(decodeURIComponent(payload));
+      return { __docubrandFile: this.add(bytes, mimeType, path), kind: 'dataUrl', mimeType } satisfies PackageFileRef;
+    }
+
+    if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+      const bytes = value instanceof ArrayBuffer
+        ? new Uint8Array(value)
+        : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+      const kind = value instanceof ArrayBuffer ? 'arraybuffer' : 'uint8array';
+      return { __docubrandFile: this.add(bytes.slice(), 'application/octet-stream', path), kind } satisfies PackageFileRef;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.pack(item));
+    }
+
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.pack(item)]));
+    }
+
+    return value;
+  }
+
+  private add(bytes: Uint8Array, mimeType: string, path?: string): string {
+    const folder = mimeType.startsWith('image/') ? 'images' : 'files';
+    const filePath = uniquePath(path || `${folder}/${++this.count}.${extensionFor(mimeType)}`, this.paths);
+    this.entries.push({ path: filePath, data: bytes });
+    if (folder === 'images' && !path) this.images.push(filePath);
+    return filePath;
+  }
+}
+
+function unpackFiles(value: unknown, files: Map<string, Uint8Array>): any {
+  if (Array.isArray(value)) {
+    return value.map((item) => unpackFiles(item, files));
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  if (isFileRef(value)) {
+    const bytes = files.get(value.__docubrandFile);
+    if (!bytes) {
+      throw new Error(`Package is missing ${value.__docubrandFile}`);
+    }
+    if (value.kind === 'arraybuffer') return bytes.slice().buffer;
+    if (value.kind === 'uint8array') return bytes;
+    return bytesToDataUrl(bytes, value.mimeType || 'application/octet-stream');
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, unpackFiles(item, files)])
+  );
+}
+
+function isFileRef(value: unknown): value is PackageFileRef {
+  return !!value && typeof value === 'object' && typeof (value as PackageFileRef).__docubrandFile === 'string';
+}
+
+/**
+ * Every fontName a template uses, including table head/body styles
+ */
+function collectFontNames(value: unknown, names = new Set<string>()): Set<string> {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectFontNames(item, names));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([key, item]) => {
+      if (key === 'fontName' && typeof item === 'string' && item) {
+        names.add(item);
+      } else if (key !== 'basePdf') {
+        collectFontNames(item, names);
+      }
+    });
+  }
+  return names;
+}
+
+async function fontBytes(data: Font[string]['data']): Promise<Uint8Array> {
+  if (typeof data !== 'string') {
+    return data instanceof ArrayBuffer ? new Uint8Array(data) : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  const response = await fetch(data);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+function detectFontExtension(bytes: Uint8Array): 'woff2' | 'woff' | 'ttf' | 'otf' {
+  const signature = String.fromCharCode(bytes[0], bytes[1], bytes[2], bytes[3]);
+  if (signature === 'wOF2') return 'woff2';
+  if (signature === 'wOFF') return 'woff';
+  if (signature === 'OTTO') return 'otf';
+  return 'ttf';
+}
+
+function fontMimeType(extension: ReturnType<typeof detectFontExtension>): string {
+  return { woff2: 'font/woff2', woff: 'font/woff', ttf: 'font/ttf', otf: 'font/otf' }[extension];
+}
+
+function extensionFor(mimeType: string): string {
+  const known: Record<string, string> = {
+    'application/pdf': 'pdf',
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/jpg': 'jpg',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/svg+xml': 'svg',
+  };
+  return known[mimeType] || 'bin';
+}
+
+function uniquePath(path: string, used: Set<string>): string {
+  let candidate = path;
+  const dot = path.lastIndexOf('.');
+  for (let n = 2; used.has(candidate); n++) {
+    candidate = `${path.slice(0, dot)}-${n}${path.slice(dot)}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+function safeFileName(name: string): string {
+  return name.replace(/[^\w.-]/g, '_') || 'font';
+}
+
+function bytesToDataUrl(bytes: Uint8Array, mimeType: string): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64.replace(/\s/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -1,15 +1,43 @@
 // CREATED: 2025-07-04 - Comprehensive template validation system
+// UPDATED: 2026-10-19 - WCAG contrast checks for text colours and brand kit pairs
+// UPDATED: 2026-10-19 - Out-of-page and duplicate name checks; auto-fixes via fix()
+// UPDATED: 2026-10-19 - Stable issue ids; correct answers picked explicitly via setCorrectAnswer()
+// UPDATED: 2026-10-19 - Duplicate names used by data bindings are not auto-fixed
+// UPDATED: 2026-10-19 - Overlap fix only moves elements to free spots on pages of known size
 
-import { Template, Schema, checkTemplate } from '@pdfme/common';
+import { Template, Schema, checkTemplate, isBlankPdf } from '@pdfme/common';
 import { EducationalTemplate, EducationalSchema, ValidationResult } from '@/types/pdfme-extensions';
 import { DataBinding, dataBindingService } from './data-binding';
 import { getEducationalPlugins } from './educational-plugins';
+import { BrandKit } from '@/types';
+import {
+  BRAND_COLOR_LABELS,
+  PAGE_COLOR,
+  WCAG_AA_LARGE,
+  WCAG_AA_NORMAL,
+  checkBrandKitContrast,
+  contrastRatio,
+  isLargeText,
+  parseHexColor,
+  suggestCompliantShade,
+} from './brand-contrast';
 
 /**
  * Validation issue severity levels
  */
 export type ValidationSeverity = 'error' | 'warning' | 'info';
 
+/**
+ * Issues that templateValidator.fix() knows how to repair
+ */
+export type ValidationFixType =
+  | 'overlap'
+  | 'out-of-page'
+  | 'missing-alt'
+  | 'small-font'
+  | 'duplicate-name'
+  | 'missing-correct-answer';
+
 /**
  * Validation issue interface
  */
@@ -22,10 +50,21 @@ export interface ValidationIssue {
   location?: {
     page?: number;
     element?: number;
+    relatedElement?: number; // The other element of an overlapping pair
     property?: string;
   };
   suggestion?: string;
   fixable?: boolean;
+  fixType?: ValidationFixType;
+  answerChoices?: AnswerChoice[]; // missing-correct-answer: what setCorrectAnswer() accepts
+}
+
+/**
+ * One option the author can mark as the correct answer
+ */
+export interface AnswerChoice {
+  value: string; // Choice id, option text or choice index, depending on the question schema
+  label: string;
 }
 
 /**
@@ -61,14 +100,24 @@ export interface EducationalValidationOptions {
   strictMode: boolean; // More rigorous validation
   targetGradeLevel?: string;
   expectedDuration?: number; // in minutes
+  brandKit?: BrandKit; // Also check the kit's colour pairs
+  boundNames?: string[]; // Field names used by data bindings or preview data (see getBoundFieldNames)
 }
 
+// Smallest font size that passes the accessibility check (pt)
+const MIN_FONT_SIZE = 10;
+
+// Space left between elements moved apart by the overlap fix (mm)
+const OVERLAP_GAP = 2;
+
+// Fixes that need the author's judgement on every question, so Fix all skips them
+const NO_BULK_FIX: ValidationFixType[] = ['missing-correct-answer'];
+
 /**
  * Template Validator Class
  */
 export class TemplateValidator {
   private educationalPlugins = getEducationalPlugins();
-  private issueCounter = 0;
 
   /**
    * Validate educational template
@@ -95,9 +144,6 @@ export class TemplateValidator {
       performanceMetrics: this.analyzePerformance(template),
     };
 
-    // Reset issue counter
-    this.issueCounter = 0;
-
     // Run validation checks
     this.validateTemplateStructure(template, report);
     this.validateSchemas(template, report, validationOptions);
@@ -106,6 +152,8 @@ export class TemplateValidator {
     this.validateAccessibility(template, report, validationOptions);
     this.validatePerformance(template, report);
 
+    this.assignIssueIds(template, report.issues);
+
     // Calculate final score and validity
     report.score = this.calculateQualityScore(report.issues);
     report.isValid = !report.issues.some(issue => issue.severity === 'error');
@@ -116,6 +164,94 @@ export class TemplateValidator {
     return report;
   }
 
+  /**
+   * Whether fix() can repair an issue
+   */
+  canFix(issue: ValidationIssue): boolean {
+    return !!issue.fixable && !!issue.fixType;
+  }
+
+  /**
+   * Whether Fix all may repair an issue without asking
+   */
+  canFixInBulk(issue: ValidationIssue): boolean {
+    return this.canFix(issue) && !NO_BULK_FIX.includes(issue.fixType as ValidationFixType);
+  }
+
+  /**
+   * Apply automatic fixes and return a patched copy of the template.
+   * Issue ids are those from validateTemplate(); they are built from the fix
+   * type, page, element and property, so an id from an older report never
+   * matches a different issue. Unknown or unfixable ids are ignored.
+   */
+  fix(
+    template: EducationalTemplate,
+    issueIds: string[],
+    options: Partial<EducationalValidationOptions> = {}
+  ): EducationalTemplate {
+    const wanted = new Set(issueIds);
+    const issues = this.validateTemplate(template, options).issues
+      .filter(issue => wanted.has(issue.id) && this.canFix(issue));
+
+    const patched = this.copyTemplate(template);
+    if (issues.length === 0) return patched;
+
+    // Content fixes first; layout last, so moved elements keep their final size
+    const order: ValidationFixType[] = [
+      'duplicate-name',
+      'missing-alt',
+      'small-font',
+      'missing-correct-answer',
+      'out-of-page',
+      'overlap',
+    ];
+    const pageSize = this.getPageSize(template);
+
+    for (const fixType of order) {
+      for (const issue of issues.filter(candidate => candidate.fixType === fixType)) {
+        const page = issue.location?.page;
+        const element = issue.location?.element;
+        const schema = page !== undefined && element !== undefined ? patched.schemas[page]?.[element] : undefined;
+        if (!schema) continue;
+
+        this.applyFix(patched, fixType, schema, issue, pageSize);
+      }
+    }
+
+    return patched;
+  }
+
+  /**
+   * Mark the answer the author picked for a missing-correct-answer issue.
+   * `value` is one of the issue's answerChoices; anything else changes nothing.
+   */
+  setCorrectAnswer(
+    template: EducationalTemplate,
+    issueId: string,
+    value: string,
+    options: Partial<EducationalValidationOptions> = {}
+  ): EducationalTemplate {
+    const patched = this.copyTemplate(template);
+    const issue = this.validateTemplate(template, options).issues
+      .find(candidate => candidate.id === issueId && candidate.fixType === 'missing-correct-answer');
+    if (!issue?.answerChoices?.some(choice => choice.value === value)) return patched;
+
+    const { page, element } = issue.location || {};
+    const schema: Schema | undefined = page !== undefined && element !== undefined ? patched.schemas[page]?.[element] : undefined;
+    if (!schema) return patched;
+
+    if (schema.type === 'multipleChoiceQuestion') {
+      schema.correctAnswerId = value;
+    } else if (Array.isArray(schema.choices)) {
+      const index = Number(value);
+      schema.choices = (schema.choices as { isCorrect?: boolean }[])
+        .map((choice, i) => ({ ...choice, isCorrect: i === index }));
+    } else {
+      schema.correctAnswer = value;
+    }
+    return patched;
+  }
+
   /**
    * Validate template structure
    */
@@ -169,6 +305,9 @@ export class TemplateValidator {
     report: ValidationReport,
     options: EducationalValidationOptions
   ): void {
+    const pageSize = this.getPageSize(template);
+    const namedAt = new Map<string, number>(); // Field name -> first page using it
+
     template.schemas.forEach((pageSchemas, pageIndex) => {
       if (!Array.isArray(pageSchemas)) {
         this.addIssue(report, {
@@ -184,10 +323,33 @@ export class TemplateValidator {
 
       pageSchemas.forEach((schema, elementIndex) => {
         this.validateSchema(schema, report, pageIndex, elementIndex, options);
+
+        // Inputs are keyed by field name, so names must be unique across pages
+        if (schema.name) {
+          const firstPage = namedAt.get(schema.name);
+          if (firstPage === undefined) {
+            namedAt.set(schema.name, pageIndex);
+          } else {
+            // Renaming a bound field would silently drop its data, so leave that to the author
+            const isBound = (options.boundNames || []).includes(schema.name);
+            this.addIssue(report, {
+              severity: 'error',
+              category: 'structure',
+              message: `Duplicate field name "${schema.name}"`,
+              details: `The name is already used on page ${firstPage + 1}`,
+              location: { page: pageIndex, element: elementIndex, property: 'name' },
+              suggestion: isBound
+                ? 'Give every field a unique name and update the data bindings that use it'
+                : 'Give every field a unique name',
+              fixable: !isBound,
+              fixType: 'duplicate-name',
+            });
+          }
+        }
       });
 
       // Check for page-level issues
-      this.validatePageLayout(pageSchemas, report, pageIndex);
+      this.validatePageLayout(pageSchemas, report, pageIndex, pageSize);
     });
   }
 
@@ -252,6 +414,8 @@ export class TemplateValidator {
     // Educational schema validation
     if (this.isEducationalSchema(schema)) {
       this.validateEducationalSchema(schema as EducationalSchema, report, location, options);
+    } else if (schema.type === 'multipleChoiceQuestion' && options.validateAnswers) {
+      this.validateMultipleChoicePlugin(schema, report, location);
     }
 
     // Content validation
@@ -328,6 +492,28 @@ export class TemplateValidator {
     location: { page: number; element: number },
     options: EducationalValidationOptions
   ): void {
+    // The multiple choice plugin stores choices with an isCorrect flag
+    if ('choices' in schema && Array.isArray(schema.choices)) {
+      const choices = schema.choices as { text?: string; isCorrect?: boolean }[];
+      if (options.validateAnswers && choices.length > 0 && !choices.some(choice => choice.isCorrect)) {
+        // Nothing records what the author intended, so the answer is always picked by hand
+        this.addIssue(report, {
+          severity: 'error',
+          category: 'educational',
+          message: 'Multiple choice question has no correct answer',
+          location: { ...location, property: 'choices' },
+          suggestion: 'Mark at least one choice as correct',
+          fixable: false,
+          fixType: 'missing-correct-answer',
+          answerChoices: choices.map((choice, index) => ({
+            value: String(index),
+            label: choice.text?.trim() || `Choice ${index + 1}`,
+          })),
+        });
+      }
+      return;
+    }
+
     if (!('options' in schema) || !Array.isArray(schema.options)) {
       this.addIssue(report, {
         severity: 'error',
@@ -377,20 +563,76 @@ export class TemplateValidator {
     });
 
     // Validate correct answer
-    if (options.validateAnswers && 'correctAnswer' in schema) {
-      if (!schema.options.includes(schema.correctAnswer as string)) {
+    if (options.validateAnswers && schema.options.length > 0) {
+      const correctAnswer = typeof schema.correctAnswer === 'string' ? schema.correctAnswer.trim() : '';
+      const answerChoices = schema.options
+        .filter(option => typeof option === 'string' && option.trim())
+        .map(option => ({ value: option, label: option }));
+
+      if (!correctAnswer) {
+        this.addIssue(report, {
+          severity: 'error',
+          category: 'educational',
+          message: 'Multiple choice question has no correct answer',
+          location: { ...location, property: 'correctAnswer' },
+          suggestion: 'Set the correct answer to one of the options',
+          fixable: false,
+          fixType: 'missing-correct-answer',
+          answerChoices,
+        });
+      } else if (!schema.options.includes(schema.correctAnswer as string)) {
+        // Fixable only when the answer differs from an option by case or spacing
+        const intended = this.findIntendedOption(correctAnswer, schema.options);
         this.addIssue(report, {
           severity: 'error',
           category: 'educational',
           message: 'Correct answer not found in options',
-          location,
+          details: intended !== undefined ? `Probably "${intended}"` : undefined,
+          location: { ...location, property: 'correctAnswer' },
           suggestion: 'Ensure correct answer matches one of the options',
-          fixable: true,
+          fixable: intended !== undefined,
+          fixType: 'missing-correct-answer',
+          answerChoices,
         });
       }
     }
   }
 
+  /**
+   * Validate a question from the multipleChoiceQuestion plugin, which records
+   * the answer as the id of one of its choices
+   */
+  private validateMultipleChoicePlugin(
+    schema: Schema,
+    report: ValidationReport,
+    location: { page: number; element: number }
+  ): void {
+    const choices = Array.isArray(schema.choices) ? schema.choices as { id?: string; text?: string }[] : [];
+    if (choices.length === 0) return;
+
+    const correctAnswerId = typeof schema.correctAnswerId === 'string' ? schema.correctAnswerId.trim() : '';
+    if (choices.some(choice => choice.id === correctAnswerId)) return;
+
+    const answerChoices = choices
+      .filter(choice => typeof choice.id === 'string' && choice.id)
+      .map((choice, index) => ({ value: choice.id as string, label: choice.text?.trim() || `Choice ${index + 1}` }));
+    const intended = correctAnswerId ? this.findIntendedChoiceId(correctAnswerId, choices) : undefined;
+
+    this.addIssue(report, {
+      severity: 'error',
+      category: 'educational',
+      message: correctAnswerId
+        ? 'Correct answer not found in choices'
+        : 'Multiple choice question has no correct answer',
+      details: intended !== undefined ? `Probably "${answerChoices.find(choice => choice.value === intended)?.label}"` : undefined,
+      location: { ...location, property: 'correctAnswerId' },
+      suggestion: 'Pick the correct choice',
+      fixable: intended !== undefined,
+      fixType: 'missing-correct-answer',
+      answerChoices,
+    });
+  }
+
   /**
    * Validate true/false question
    */
@@ -562,6 +804,26 @@ export class TemplateValidator {
         this.validateSchemaAccessibility(schema, report, { page: pageIndex, element: elementIndex });
       });
     });
+
+    if (options.brandKit) {
+      checkBrandKitContrast(options.brandKit)
+        .filter(check => !check.passes)
+        .forEach(check => {
+          this.addIssue(report, {
+            severity: 'warning',
+            category: 'accessibility',
+            message: `${check.label} below WCAG AA contrast`,
+            details: `${check.usage}: ${check.ratio.toFixed(2)}:1, needs ${check.required}:1`,
+            location: { property: check.suggestion?.field || check.id },
+            suggestion: check.suggestion
+              ? `Change the ${BRAND_COLOR_LABELS[check.suggestion.field]} to ${check.suggestion.value}`
+              : check.suggestedOpacity !== undefined
+                ? `Lower the watermark opacity to ${Math.round(check.suggestedOpacity * 100)}% or less`
+                : 'Choose colours with more contrast',
+            fixable: false,
+          });
+        });
+    }
   }
 
   /**
@@ -573,26 +835,47 @@ export class TemplateValidator {
     location: { page: number; element: number }
   ): void {
     // Check font size
-    if (schema.fontSize && schema.fontSize < 10) {
+    if (schema.fontSize && schema.fontSize < MIN_FONT_SIZE) {
       this.addIssue(report, {
         severity: 'warning',
         category: 'accessibility',
         message: 'Font size too small for accessibility',
-        location,
+        location: { ...location, property: 'fontSize' },
         suggestion: 'Use font size of at least 10-12pt',
         fixable: true,
+        fixType: 'small-font',
       });
     }
 
-    // Check contrast (simplified check)
-    if (schema.fontColor && schema.backgroundColor) {
-      if (schema.fontColor === schema.backgroundColor) {
+    // Check contrast against the schema background, or the white page
+    const fontColor = typeof schema.fontColor === 'string' ? schema.fontColor : '';
+    if (parseHexColor(fontColor)) {
+      const background = typeof schema.backgroundColor === 'string' && parseHexColor(schema.backgroundColor)
+        ? schema.backgroundColor
+        : PAGE_COLOR;
+      const ratio = contrastRatio(fontColor, background);
+      const fontSize = typeof schema.fontSize === 'number' ? schema.fontSize : 13; // pdfme default
+      const bold = typeof schema.fontName === 'string' && /bold/i.test(schema.fontName);
+      const required = isLargeText(fontSize, bold) ? WCAG_AA_LARGE : WCAG_AA_NORMAL;
+      const suggestion = `Use ${suggestCompliantShade(fontColor, background, required)} for the text`;
+
+      if (ratio < 1.05) {
         this.addIssue(report, {
           severity: 'error',
           category: 'accessibility',
           message: 'No contrast between text and background',
-          location,
-          suggestion: 'Use contrasting colors for text and background',
+          location: { ...location, property: 'fontColor' },
+          suggestion,
+          fixable: true,
+        });
+      } else if (ratio < required) {
+        this.addIssue(report, {
+          severity: 'warning',
+          category: 'accessibility',
+          message: 'Text contrast below WCAG AA',
+          details: `${fontColor} on ${background} is ${ratio.toFixed(2)}:1, needs ${required}:1`,
+          location: { ...location, property: 'fontColor' },
+          suggestion,
           fixable: true,
         });
       }
@@ -604,9 +887,10 @@ export class TemplateValidator {
         severity: 'warning',
         category: 'accessibility',
         message: 'Image missing alt text',
-        location,
+        location: { ...location, property: 'alt' },
         suggestion: 'Add descriptive alt text for screen readers',
         fixable: true,
+        fixType: 'missing-alt',
       });
     }
   }
@@ -729,9 +1013,36 @@ export class TemplateValidator {
   }
 
   private addIssue(report: ValidationReport, issue: Omit<ValidationIssue, 'id'>): void {
-    report.issues.push({
-      id: `issue_${++this.issueCounter}`,
-      ...issue,
+    report.issues.push({ id: '', ...issue }); // Set by assignIssueIds()
+  }
+
+  /**
+   * Ids from what the issue is about rather than its position in the report:
+   * fix type (or message), page, element index and name, related element and
+   * property. Renaming, moving or reordering elements changes the id.
+   */
+  private assignIssueIds(template: EducationalTemplate, issues: ValidationIssue[]): void {
+    const seen = new Map<string, number>();
+    const describe = (page?: number, element?: number) => {
+      if (page === undefined || element === undefined) return undefined;
+      const name = template.schemas?.[page]?.[element]?.name;
+      return name ? `${element}.${name}` : String(element);
+    };
+
+    issues.forEach(issue => {
+      const kind = issue.fixType || issue.message.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+      const { page, element, relatedElement, property } = issue.location || {};
+      const base = [
+        kind,
+        page ?? '-',
+        describe(page, element) ?? '-',
+        describe(page, relatedElement) ?? '-',
+        property ?? '-',
+      ].join(':');
+
+      const count = (seen.get(base) || 0) + 1;
+      seen.set(base, count);
+      issue.id = count === 1 ? base : `${base}#${count}`;
     });
   }
 
@@ -739,8 +1050,13 @@ export class TemplateValidator {
     // Add metadata validation logic here
   }
 
-  private validatePageLayout(pageSchemas: Schema[], report: ValidationReport, pageIndex: number): void {
-    // Check for overlapping elements
+  private validatePageLayout(
+    pageSchemas: Schema[],
+    report: ValidationReport,
+    pageIndex: number,
+    pageSize: { width: number; height: number } | null
+  ): void {
+    // Check for overlapping elements; the fix moves the later one
     for (let i = 0; i < pageSchemas.length; i++) {
       for (let j = i + 1; j < pageSchemas.length; j++) {
         if (this.elementsOverlap(pageSchemas[i], pageSchemas[j])) {
@@ -748,13 +1064,39 @@ export class TemplateValidator {
             severity: 'warning',
             category: 'structure',
             message: 'Elements may be overlapping',
-            location: { page: pageIndex, element: i },
+            details: pageSchemas[i].name && pageSchemas[j].name
+              ? `"${pageSchemas[i].name}" and "${pageSchemas[j].name}"`
+              : undefined,
+            location: { page: pageIndex, element: j, relatedElement: i },
             suggestion: 'Adjust element positions to avoid overlap',
-            fixable: true,
+            // Moving needs the page bounds, which custom base PDFs don't give us
+            fixable: !!pageSize,
+            fixType: 'overlap',
           });
         }
       }
     }
+
+    // Page size is only known for blank pages; custom PDFs are not measured
+    if (!pageSize) return;
+
+    pageSchemas.forEach((schema, elementIndex) => {
+      if (!schema.position || !schema.width || !schema.height) return;
+
+      const { x, y } = schema.position;
+      if (x < 0 || y < 0 || x + schema.width > pageSize.width || y + schema.height > pageSize.height) {
+        this.addIssue(report, {
+          severity: 'warning',
+          category: 'structure',
+          message: 'Element extends beyond the page',
+          details: `Page is ${pageSize.width}×${pageSize.height}mm`,
+          location: { page: pageIndex, element: elementIndex, property: 'position' },
+          suggestion: 'Move or resize the element to fit on the page',
+          fixable: true,
+          fixType: 'out-of-page',
+        });
+      }
+    });
   }
 
   private validateSchemaContent(schema: Schema, report: ValidationReport, location: { page: number; element: number }): void {
@@ -807,6 +1149,177 @@ export class TemplateValidator {
              rect1.bottom <= rect2.top || 
              rect2.bottom <= rect1.top);
   }
+
+  private getPageSize(template: EducationalTemplate): { width: number; height: number } | null {
+    if (!template.basePdf || !isBlankPdf(template.basePdf)) return null;
+    return { width: template.basePdf.width, height: template.basePdf.height };
+  }
+
+  /**
+   * Repair one issue in place on the patched copy. Each fixer re-checks the
+   * current state, so duplicate issues and earlier fixes are harmless.
+   */
+  private applyFix(
+    template: EducationalTemplate,
+    fixType: ValidationFixType,
+    schema: Schema,
+    issue: ValidationIssue,
+    pageSize: { width: number; height: number } | null
+  ): boolean {
+    switch (fixType) {
+      case 'duplicate-name': {
+        const names = new Set(template.schemas.flat().map(other => other.name));
+        const base = schema.name.replace(/_\d+$/, '');
+        let suffix = 2;
+        while (names.has(`${base}_${suffix}`)) suffix++;
+        schema.name = `${base}_${suffix}`;
+        return true;
+      }
+
+      case 'missing-alt': {
+        if (typeof schema.alt === 'string' && schema.alt.trim()) return false;
+        schema.alt = this.describeSchema(schema);
+        return true;
+      }
+
+      case 'small-font': {
+        if (typeof schema.fontSize !== 'number' || schema.fontSize >= MIN_FONT_SIZE) return false;
+        schema.fontSize = MIN_FONT_SIZE;
+        return true;
+      }
+
+      case 'missing-correct-answer':
+        return this.fixCorrectAnswer(schema);
+
+      case 'out-of-page': {
+        if (!pageSize || !schema.position) return false;
+        const width = Math.min(schema.width, pageSize.width);
+        const height = Math.min(schema.height, pageSize.height);
+        schema.width = width;
+        schema.height = height;
+        schema.position = {
+          x: Math.min(Math.max(schema.position.x, 0), pageSize.width - width),
+          y: Math.min(Math.max(schema.position.y, 0), pageSize.height - height),
+        };
+        return true;
+      }
+
+      case 'overlap': {
+        const related = issue.location?.relatedElement;
+        const page = issue.location?.page;
+        const other = page !== undefined && related !== undefined ? template.schemas[page]?.[related] : undefined;
+        if (!pageSize || page === undefined) return false;
+        if (!other || !schema.position || !other.position || !this.elementsOverlap(other, schema)) return false;
+
+        // Prefer moving below the other element, then to its right; the new spot
+        // must be on the page and clear of every other element on it
+        const below = { x: schema.position.x, y: other.position.y + other.height + OVERLAP_GAP };
+        const right = { x: other.position.x + other.width + OVERLAP_GAP, y: schema.position.y };
+        const pageSchemas = template.schemas[page];
+        const fits = (position: { x: number; y: number }) =>
+          position.x + schema.width <= pageSize.width &&
+          position.y + schema.height <= pageSize.height &&
+          pageSchemas.every(candidate => candidate === schema || !this.elementsOverlap(candidate, { ...schema, position }));
+
+        const position = fits(below) ? below : fits(right) ? right : null;
+        if (!position) return false;
+        schema.position = position;
+        return true;
+      }
+    }
+  }
+
+  /**
+   * Only repairs answers that match an option or choice once case and spacing
+   * are ignored; anything else waits for setCorrectAnswer()
+   */
+  private fixCorrectAnswer(schema: Schema): boolean {
+    if (schema.type === 'multipleChoiceQuestion') {
+      const choices = Array.isArray(schema.choices) ? schema.choices as { id?: string; text?: string }[] : [];
+      const answer = typeof schema.correctAnswerId === 'string' ? schema.correctAnswerId : '';
+      if (!answer || choices.some(choice => choice.id === answer)) return false;
+
+      const intended = this.findIntendedChoiceId(answer, choices);
+      if (intended === undefined) return false;
+      schema.correctAnswerId = intended;
+      return true;
+    }
+
+    if (!Array.isArray(schema.options) || typeof schema.correctAnswer !== 'string') return false;
+    if (schema.options.includes(schema.correctAnswer)) return false;
+
+    const intended = this.findIntendedOption(schema.correctAnswer, schema.options);
+    if (intended === undefined) return false;
+    schema.correctAnswer = intended;
+    return true;
+  }
+
+  private findIntendedOption(answer: string, options: unknown[]): string | undefined {
+    const wanted = normalizeAnswer(answer);
+    if (!wanted) return undefined;
+    return options.find((option): option is string => typeof option === 'string' && normalizeAnswer(option) === wanted);
+  }
+
+  // The plugin's answer id may hold a choice's text or a mistyped id
+  private findIntendedChoiceId(answer: string, choices: { id?: string; text?: string }[]): string | undefined {
+    const wanted = normalizeAnswer(answer);
+    if (!wanted) return undefined;
+    const match = choices.find(choice => normalizeAnswer(choice.id || '') === wanted)
+      ?? choices.find(choice => normalizeAnswer(choice.text || '') === wanted);
+    return match?.id || undefined;
+  }
+
+  private copyTemplate(template: EducationalTemplate): EducationalTemplate {
+    return {
+      ...template,
+      schemas: template.schemas.map(pageSchemas =>
+        pageSchemas.map(schema => ({ ...schema }))
+      ),
+    };
+  }
+
+  // Alt text from the field name: "hero_image" / "heroImage" -> "Hero image"
+  private describeSchema(schema: Schema): string {
+    const words = (schema.name || '')
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/[_\-.]+/g, ' ')
+      .trim()
+      .toLowerCase();
+    return words ? words.charAt(0).toUpperCase() + words.slice(1) : 'Image';
+  }
+}
+
+function normalizeAnswer(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Field names a template definition refers to outside the template itself:
+ * the first segment of each data binding path and the keys of preview/sample inputs
+ */
+export function getBoundFieldNames(definition: {
+  dataBindings?: { path: string }[];
+  sampleData?: unknown;
+  previewData?: unknown;
+} | null | undefined): string[] {
+  if (!definition) return [];
+
+  const names = new Set<string>();
+  (definition.dataBindings || []).forEach(binding => {
+    const name = binding.path.split(/[.[]/)[0];
+    if (name) names.add(name);
+  });
+
+  [definition.sampleData, definition.previewData].forEach(data => {
+    const records = Array.isArray(data) ? data : [data];
+    records.forEach(record => {
+      if (record && typeof record === 'object') {
+        Object.keys(record).forEach(name => names.add(name));
+      }
+    });
+  });
+
+  return Array.from(names);
 }
 
 // Export singleton instance
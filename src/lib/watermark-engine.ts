@@ -0,0 +1,354 @@
+// CREATED: 2026-10-19 - Single watermark engine for PDFBuilder and PDFProcessor
+// UPDATED: 2026-10-19 - Page and date tokens shared with headers/footers
+// UPDATED: 2026-10-19 - Logo embedding moved to logo-processing (SVG/GIF/WebP support)
+// UPDATED: 2026-10-19 - Validation for watermark settings from bundles and API requests
+
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, degrees, rgb, RGB } from 'pdf-lib';
+import { BrandKit, WatermarkSettings } from '@/types';
+import { getSimpleFontManager } from './fontkit-manager';
+import { isSerifFamily } from './branding-layouts';
+import { renderHeaderFooterTokens } from './header-footer-tokens';
+import { embedLogoImage } from './logo-processing';
+
+export const DEFAULT_WATERMARK_SETTINGS: WatermarkSettings = {
+  type: 'text',
+  placement: 'single',
+  rotation: 45,
+  opacity: 0.15,
+  color: 'gray',
+  fontSize: null,
+  imageScale: 0.5,
+  pages: 'all',
+};
+
+/**
+ * Placeholders available in watermark text. {recipient} makes every copy
+ * traceable to the person it was generated for; the others work as in footers.
+ */
+export const WATERMARK_TOKENS = ['{recipient}', '{page}', '{pages}', '{date:YYYY-MM-DD}'] as const;
+
+export interface WatermarkContext {
+  recipient?: string | null;
+  date?: Date;
+}
+
+export interface WatermarkArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface WatermarkAssets {
+  font?: PDFFont;
+  fontIsStandard?: boolean; // Standard fonts need ASCII text
+  logo?: PDFImage | null;
+}
+
+/**
+ * Effective watermark settings for a kit, or null when there is nothing to draw
+ */
+export function resolveWatermarkSettings(brandKit: BrandKit): WatermarkSettings | null {
+  const settings = { ...DEFAULT_WATERMARK_SETTINGS, ...brandKit.watermarkSettings };
+
+  if (settings.type === 'image' && brandKit.logo.dataUrl) {
+    return settings;
+  }
+  // Image watermarks without a logo fall back to the text, if any
+  return brandKit.watermark?.trim() ? { ...settings, type: 'text' } : null;
+}
+
+export interface WatermarkSettingsValidation {
+  settings?: WatermarkSettings; // Missing fields filled from the defaults
+  errors: string[];
+}
+
+/**
+ * Check watermark settings that came from outside the app (an imported bundle,
+ * an API request). Fields may be left out; present fields must be valid.
+ */
+export function validateWatermarkSettings(value: unknown): WatermarkSettingsValidation {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { errors: ['watermarkSettings must be an object'] };
+  }
+
+  const raw = value as Record<string, unknown>;
+  const settings = { ...DEFAULT_WATERMARK_SETTINGS, ...raw } as WatermarkSettings;
+  const errors: string[] = [];
+  const isNumber = (field: unknown): field is number => typeof field === 'number' && Number.isFinite(field);
+
+  if (settings.type !== 'text' && settings.type !== 'image') {
+    errors.push('watermarkSettings.type must be "text" or "image"');
+  }
+  if (settings.placement !== 'single' && settings.placement !== 'tiled') {
+    errors.push('watermarkSettings.placement must be "single" or "tiled"');
+  }
+  if (!isNumber(settings.rotation) || Math.abs(settings.rotation) > 360) {
+    errors.push('watermarkSettings.rotation must be a number of degrees between -360 and 360');
+  }
+  if (!isNumber(settings.opacity) || settings.opacity < 0 || settings.opacity > 1) {
+    errors.push('watermarkSettings.opacity must be a number between 0 and 1');
+  }
+  if (!['primary', 'secondary', 'accent', 'gray'].includes(settings.color)) {
+    errors.push('watermarkSettings.color must be primary, secondary, accent or gray');
+  }
+  if (settings.fontSize !== null && (!isNumber(settings.fontSize) || settings.fontSize <= 0)) {
+    errors.push('watermarkSettings.fontSize must be a positive number or null');
+  }
+  if (!isNumber(settings.imageScale) || settings.imageScale <= 0 || settings.imageScale > 1) {
+    errors.push('watermarkSettings.imageScale must be a fraction between 0 and 1');
+  }
+  if (typeof settings.pages !== 'string' || !isValidPageRange(settings.pages)) {
+    errors.push('watermarkSettings.pages must be a page range such as "all", "2-" or "1,3-5"');
+  }
+
+  return errors.length > 0 ? { errors } : { settings, errors };
+}
+
+/**
+ * True when every part of a range is understood by parsePageRange
+ */
+function isValidPageRange(range: string): boolean {
+  const normalized = range.trim().toLowerCase();
+  if (!normalized || normalized === 'all') return true;
+
+  return normalized.split(',').every((part) => {
+    const match = /^\s*(\d*)\s*(-)?\s*(\d*)\s*$/.exec(part);
+    return !!match && (!!match[1] || !!match[3]) && (!!match[2] || !match[3]);
+  });
+}
+
+/**
+ * Parse a page range such as "all", "2-", "-3" or "1,3-5" into 1-based page
+ * numbers. Invalid parts are ignored; an empty result means no pages.
+ */
+export function parsePageRange(range: string, pageCount: number): Set<number> {
+  const pages = new Set<number>();
+  const normalized = range.trim().toLowerCase();
+
+  if (!normalized || normalized === 'all') {
+    for (let page = 1; page <= pageCount; page++) pages.add(page);
+    return pages;
+  }
+
+  normalized.split(',').forEach((part) => {
+    const match = /^\s*(\d*)\s*(-)?\s*(\d*)\s*$/.exec(part);
+    if (!match || (!match[1] && !match[3])) return;
+
+    const start = match[1] ? parseInt(match[1], 10) : 1;
+    const end = match[2] ? (match[3] ? parseInt(match[3], 10) : pageCount) : start;
+    for (let page = Math.max(1, start); page <= Math.min(pageCount, end); page++) {
+      pages.add(page);
+    }
+  });
+
+  return pages;
+}
+
+/**
+ * Fill in watermark placeholders; an empty {recipient} is removed with its separator
+ */
+export function formatWatermarkText(
+  template: string,
+  values: { pageNumber: number; pageCount: number; recipient?: string | null; date?: Date }
+): string {
+  const text = template.replace(/\s*[-–•|:,]?\s*\{recipient\}/g, (match) =>
+    values.recipient ? match.replace('{recipient}', values.recipient) : ''
+  );
+
+  return renderHeaderFooterTokens(text, {
+    pageNumber: values.pageNumber,
+    pageCount: values.pageCount,
+    date: values.date,
+  });
+}
+
+/**
+ * Draws one kit's watermark on the pages of a document. Create it once per
+ * document so the font and logo are embedded only once.
+ */
+export class WatermarkEngine {
+  private constructor(
+    private settings: WatermarkSettings,
+    private text: string,
+    private font: PDFFont,
+    private fontIsStandard: boolean,
+    private image: PDFImage | null,
+    private color: RGB,
+    private context: WatermarkContext
+  ) {}
+
+  /**
+   * Build an engine for a kit, or null when the kit has no watermark
+   */
+  static async create(
+    pdfDoc: PDFDocument,
+    brandKit: BrandKit,
+    context: WatermarkContext = {},
+    assets: WatermarkAssets = {}
+  ): Promise<WatermarkEngine | null> {
+    let settings = resolveWatermarkSettings(brandKit);
+    if (!settings) return null;
+
+    let image: PDFImage | null = null;
+    if (settings.type === 'image') {
+      image = assets.logo !== undefined ? assets.logo : await embedLogoImage(pdfDoc, brandKit.logo.dataUrl!);
+      if (!image) {
+        if (!brandKit.watermark?.trim()) return null;
+        settings = { ...settings, type: 'text' };
+      }
+    }
+
+    const font = assets.font || await pdfDoc.embedFont(
+      isSerifFamily(brandKit.headerFont || brandKit.font) ? StandardFonts.TimesRomanBold : StandardFonts.HelveticaBold
+    );
+
+    return new WatermarkEngine(
+      settings,
+      brandKit.watermark || '',
+      font,
+      assets.font ? !!assets.fontIsStandard : true,
+      image,
+      WatermarkEngine.resolveColor(brandKit, settings.color),
+      context
+    );
+  }
+
+  /**
+   * Draw the watermark on one page if it is in the page range.
+   * The area defaults to the whole page.
+   */
+  apply(page: PDFPage, pageNumber: number, pageCount: number, area?: WatermarkArea): boolean {
+    if (!parsePageRange(this.settings.pages, pageCount).has(pageNumber)) {
+      return false;
+    }
+
+    const { width, height } = page.getSize();
+    const box = area || { x: 0, y: 0, width, height };
+
+    if (this.image) {
+      const scale = (box.width * this.settings.imageScale) / this.image.width;
+      this.drawTiles(box, this.image.width, this.image.height, scale, (centerX, centerY) =>
+        this.drawImage(page, centerX, centerY, scale)
+      );
+      return true;
+    }
+
+    let text = formatWatermarkText(this.text, {
+      pageNumber,
+      pageCount,
+      recipient: this.context.recipient,
+      date: this.context.date,
+    });
+    if (this.fontIsStandard) {
+      text = getSimpleFontManager().toASCII(text);
+    }
+    if (!text) return false;
+
+    const size = this.settings.fontSize || this.autoFontSize(text, box);
+    const textWidth = this.font.widthOfTextAtSize(text, size);
+    this.drawTiles(box, textWidth, size, 1, (centerX, centerY) =>
+      this.drawText(page, text, size, textWidth, centerX, centerY)
+    );
+    return true;
+  }
+
+  /**
+   * Single: one item in the centre. Tiled: a staggered grid of items
+   * (w x h before rotation) whose centres cover the area.
+   */
+  private drawTiles(
+    box: WatermarkArea,
+    itemWidth: number,
+    itemHeight: number,
+    scale: number,
+    draw: (centerX: number, centerY: number) => void
+  ): void {
+    if (this.settings.placement === 'single') {
+      draw(box.x + box.width / 2, box.y + box.height / 2);
+      return;
+    }
+
+    const angle = (this.settings.rotation * Math.PI) / 180;
+    const w = itemWidth * scale;
+    const h = itemHeight * scale;
+    const gap = Math.max(h * 2, 24);
+    const stepX = Math.abs(w * Math.cos(angle)) + Math.abs(h * Math.sin(angle)) + gap;
+    const stepY = Math.abs(w * Math.sin(angle)) + Math.abs(h * Math.cos(angle)) + gap;
+
+    let row = 0;
+    for (let centerY = box.y + stepY / 2; centerY < box.y + box.height; centerY += stepY, row++) {
+      const offset = row % 2 === 0 ? 0 : stepX / 2;
+      for (let centerX = box.x + stepX / 2 - offset; centerX < box.x + box.width + stepX / 2; centerX += stepX) {
+        if (centerX >= box.x && centerX <= box.x + box.width) {
+          draw(centerX, centerY);
+        }
+      }
+    }
+  }
+
+  private drawText(page: PDFPage, text: string, size: number, textWidth: number, centerX: number, centerY: number): void {
+    // pdf-lib rotates around the text origin, so offset the origin to rotate around the centre
+    const origin = this.rotatedOrigin(centerX, centerY, textWidth / 2, size * 0.35);
+    page.drawText(text, {
+      x: origin.x,
+      y: origin.y,
+      size,
+      font: this.font,
+      color: this.color,
+      opacity: this.settings.opacity,
+      rotate: degrees(this.settings.rotation),
+    });
+  }
+
+  private drawImage(page: PDFPage, centerX: number, centerY: number, scale: number): void {
+    if (!this.image) return;
+
+    const width = this.image.width * scale;
+    const height = this.image.height * scale;
+    const origin = this.rotatedOrigin(centerX, centerY, width / 2, height / 2);
+    page.drawImage(this.image, {
+      x: origin.x,
+      y: origin.y,
+      width,
+      height,
+      opacity: this.settings.opacity,
+      rotate: degrees(this.settings.rotation),
+    });
+  }
+
+  private rotatedOrigin(centerX: number, centerY: number, halfWidth: number, halfHeight: number): { x: number; y: number } {
+    const angle = (this.settings.rotation * Math.PI) / 180;
+    return {
+      x: centerX - (halfWidth * Math.cos(angle) - halfHeight * Math.sin(angle)),
+      y: centerY - (halfWidth * Math.sin(angle) + halfHeight * Math.cos(angle)),
+    };
+  }
+
+  /**
+   * Single: span ~70% of the area's diagonal. Tiled: small repeated text.
+   */
+  private autoFontSize(text: string, box: WatermarkArea): number {
+    const widthAtOne = Math.max(this.font.widthOfTextAtSize(text, 1), 0.01);
+    if (this.settings.placement === 'tiled') {
+      return Math.max(10, Math.min(box.width, box.height) / 25);
+    }
+    const span = Math.hypot(box.width, box.height) * 0.7;
+    return Math.max(12, Math.min(span / widthAtOne, Math.min(box.width, box.height) / 6));
+  }
+
+  private static resolveColor(brandKit: BrandKit, color: WatermarkSettings['color']): RGB {
+    const hex = color === 'primary'
+      ? brandKit.color
+      : color === 'secondary'
+        ? brandKit.secondaryColor
+        : color === 'accent'
+          ? brandKit.accentColor
+          : null;
+    const match = hex ? /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex) : null;
+
+    return match
+      ? rgb(parseInt(match[1], 16) / 255, parseInt(match[2], 16) / 255, parseInt(match[3], 16) / 255)
+      : rgb(0.5, 0.5, 0.5);
+  }
+}
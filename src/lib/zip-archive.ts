@@ -0,0 +1,286 @@
+// CREATED: 2026-10-19 - Minimal zip reader/writer (stored and deflate) for .docubrand template packages
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+export interface ZipReadOptions {
+  // Refuse archives that would unpack to more than this many bytes
+  maxTotalSize?: number;
+}
+
+export interface ZipWriteOptions {
+  // Deflate entries where the browser supports CompressionStream('deflate-raw'); stored otherwise
+  compress?: boolean;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_UTF8 = 0x0800;
+const MAX_ENTRIES = 10000;
+
+/**
+ * Thrown for data that is not a zip this reader can open (zip64, encrypted,
+ * unsupported compression, corrupt)
+ */
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+export function isZip(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && readUint32(bytes, 0) === LOCAL_HEADER_SIGNATURE;
+}
+
+/**
+ * Build a zip archive. Entries keep their order; paths use forward slashes.
+ */
+export async function createZip(entries: ZipEntry[], options: ZipWriteOptions = {}): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const useDeflate = !!options.compress && canDeflate();
+  const { time, date } = toDosDateTime(new Date());
+
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const crc = crc32(entry.data);
+
+    let method = METHOD_STORED;
+    let payload = entry.data;
+    if (useDeflate && entry.data.length > 0) {
+      const deflated = await transform(entry.data, new CompressionStream('deflate-raw'));
+      // Already-compressed data (fonts, JPEGs) can grow; store it instead
+      if (deflated.length < entry.data.length) {
+        method = METHOD_DEFLATE;
+        payload = deflated;
+      }
+    }
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    localView.setUint16(4, 20, true); // Version needed: 2.0
+    localView.setUint16(6, FLAG_UTF8, true);
+    localView.setUint16(8, method, true);
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, payload.length, true);
+    localView.setUint32(22, entry.data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    centralView.setUint16(4, 20, true); // Version made by
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, FLAG_UTF8, true);
+    centralView.setUint16(10, method, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, payload.length, true);
+    centralView.setUint32(24, entry.data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    localParts.push(local, payload);
+    centralParts.push(central);
+    offset += local.length + payload.length;
+  }
+
+  const centralSize = centralParts.reduce((total, part) => total + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return concatBytes([...localParts, ...centralParts, end]);
+}
+
+/**
+ * Read every file in a zip archive, keyed by path. Directories are skipped
+ * and CRCs are checked.
+ */
+export async function readZip(bytes: Uint8Array, options: ZipReadOptions = {}): Promise<Map<string, Uint8Array>> {
+  const endOffset = findEndOfCentralDirectory(bytes);
+  const entryCount = readUint16(bytes, endOffset + 10);
+  let pointer = readUint32(bytes, endOffset + 16);
+
+  if (entryCount === 0xffff || pointer === 0xffffffff) {
+    throw new ZipFormatError('Zip64 archives are not supported');
+  }
+  if (entryCount > MAX_ENTRIES) {
+    throw new ZipFormatError(`Archive has too many files (${entryCount})`);
+  }
+
+  const decoder = new TextDecoder();
+  const files = new Map<string, Uint8Array>();
+  let totalSize = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (pointer + 46 > bytes.length || readUint32(bytes, pointer) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new ZipFormatError('Corrupt zip central directory');
+    }
+
+    const flags = readUint16(bytes, pointer + 8);
+    const method = readUint16(bytes, pointer + 10);
+    const crc = readUint32(bytes, pointer + 16);
+    const compressedSize = readUint32(bytes, pointer + 20);
+    const size = readUint32(bytes, pointer + 24);
+    const nameLength = readUint16(bytes, pointer + 28);
+    const extraLength = readUint16(bytes, pointer + 30);
+    const commentLength = readUint16(bytes, pointer + 32);
+    const localOffset = readUint32(bytes, pointer + 42);
+    const path = decoder.decode(bytes.subarray(pointer + 46, pointer + 46 + nameLength));
+    pointer += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue;
+    totalSize += size;
+    if (options.maxTotalSize !== undefined && totalSize > options.maxTotalSize) {
+      throw new ZipFormatError(`Archive unpacks to more than ${Math.round(options.maxTotalSize / 1024 / 1024)}MB`);
+    }
+    if (flags & FLAG_ENCRYPTED) {
+      throw new ZipFormatError(`${path} is encrypted`);
+    }
+    if (localOffset + 30 > bytes.length || readUint32(bytes, localOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new ZipFormatError(`Corrupt zip entry: ${path}`);
+    }
+
+    const dataStart = localOffset + 30 + readUint16(bytes, localOffset + 26) + readUint16(bytes, localOffset + 28);
+    if (dataStart + compressedSize > bytes.length) {
+      throw new ZipFormatError(`Truncated zip entry: ${path}`);
+    }
+    const payload = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Uint8Array;
+    if (method === METHOD_STORED) {
+      data = payload.slice();
+    } else if (method === METHOD_DEFLATE) {
+      if (typeof DecompressionStream === 'undefined') {
+        throw new ZipFormatError('This browser cannot read compressed packages');
+      }
+      try {
+        // Stop at the declared size, so a lying header cannot inflate without bound
+        data = await transform(payload, new DecompressionStream('deflate-raw'), size);
+      } catch (error) {
+        if (error instanceof ZipFormatError) throw error;
+        throw new ZipFormatError(`${path} is damaged (${error instanceof Error ? error.message : 'Unknown error'})`);
+      }
+    } else {
+      throw new ZipFormatError(`${path} uses an unsupported compression method (${method})`);
+    }
+
+    if (data.length !== size || crc32(data) !== crc) {
+      throw new ZipFormatError(`${path} is damaged (checksum mismatch)`);
+    }
+    files.set(path, data);
+  }
+
+  return files;
+}
+
+function canDeflate(): boolean {
+  if (typeof CompressionStream === 'undefined') return false;
+  try {
+    new CompressionStream('deflate-raw');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function transform(
+  data: Uint8Array,
+  stream: CompressionStream | DecompressionStream,
+  maxLength = Infinity
+): Promise<Uint8Array> {
+  const reader = new Blob([data]).stream().pipeThrough(stream).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > maxLength) {
+      await reader.cancel();
+      throw new ZipFormatError('Zip entry is larger than its header says');
+    }
+    chunks.push(value);
+  }
+
+  return concatBytes(chunks);
+}
+
+function findEndOfCentralDirectory(bytes: Uint8Array): number {
+  // The record is 22 bytes plus a comment of at most 65535 bytes
+  const lowest = Math.max(0, bytes.length - 22 - 0xffff);
+  for (let offset = bytes.length - 22; offset >= lowest; offset--) {
+    if (readUint32(bytes, offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new ZipFormatError('Not a zip archive');
+}
+
+function toDosDateTime(value: Date): { time: number; date: number } {
+  return {
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+    date: ((Math.max(value.getFullYear(), 1980) - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+  };
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function readUint16(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8);
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+}
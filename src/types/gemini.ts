@@ -75,6 +75,7 @@ export interface DocumentSection {
   level?: number; // For hierarchical content (h1, h2, h3, etc.)
   parentId?: string; // For nested content
   children?: string[]; // Child section IDs
+  originalSections?: DocumentSection[]; // Raw sections merged into this one by the analyze-pdf route
   
   // Content analysis
   language?: string;
@@ -189,6 +190,15 @@ export interface GeminiAnalysisResponse {
     tokenCount?: number;
     apiCalls?: number;
     retries?: number;
+
+    // Analysis cache (see analysis-cache.ts)
+    cache?: {
+      hit: boolean;
+      key: string;
+      store: string;
+      cachedAt?: number;
+      expiresAt?: number;
+    };
   };
   
   // Enhanced analysis results
@@ -284,8 +294,37 @@ export interface AnalysisStatus {
   currentStep?: string;
   estimatedTimeRemaining?: number; // in milliseconds
   error?: AnalysisError;
+
+  // Streaming progress details
+  stage?: AnalysisStage;
+  modelCall?: { current: number; total: number };
 }
 
+// Server-side analysis stages, in pipeline order
+export type AnalysisStage =
+  | 'validating'
+  | 'uploading'
+  | 'model_call'
+  | 'validating_response'
+  | 'sanitizing'
+  | 'complete';
+
+export const ANALYSIS_STAGES: Array<{ id: AnalysisStage; label: string }> = [
+  { id: 'validating', label: 'Validating request' },
+  { id: 'uploading', label: 'Preparing document' },
+  { id: 'model_call', label: 'Analyzing with AI' },
+  { id: 'validating_response', label: 'Validating response' },
+  { id: 'sanitizing', label: 'Cleaning up results' },
+  { id: 'complete', label: 'Complete' }
+];
+
+// NDJSON events emitted by the streaming analyze endpoint (one JSON object per line)
+export type AnalysisStreamEvent =
+  | { type: 'status'; status: AnalysisStatus }
+  | { type: 'questions'; questions: ExtractedQuestion[] }
+  | { type: 'result'; data: GeminiAnalysisResponse; processingTime: number }
+  | { type: 'error'; error: string; processingTime?: number };
+
 // Enhanced processing result
 export interface ProcessingResult extends GeminiAnalysisResponse {
   success: boolean;
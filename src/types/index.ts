@@ -10,6 +10,32 @@ export interface BrandKit {
   headerFont: string; // Google Font for headers
   watermark: string | null; // Optional watermark text
   footerText: string | null; // Optional footer text
+  watermarkSettings?: WatermarkSettings; // Defaults to a single diagonal text watermark
+  id?: string; // Set when the kit comes from the brand kit library
+  name?: string;
+}
+
+export interface WatermarkSettings {
+  type: 'text' | 'image'; // image uses the kit logo
+  placement: 'single' | 'tiled';
+  rotation: number; // Degrees, counter-clockwise
+  opacity: number; // 0-1
+  color: 'primary' | 'secondary' | 'accent' | 'gray';
+  fontSize: number | null; // Points; null sizes the text to the page
+  imageScale: number; // Image width as a fraction of the page content width
+  pages: string; // Page range, e.g. "all", "2-", "1,3-5"
+}
+
+export interface SavedBrandKit extends BrandKit {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BrandKitLibrary {
+  kits: SavedBrandKit[];
+  defaultKitId: string | null;
 }
 
 export interface QuizElement {